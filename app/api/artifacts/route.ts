@@ -1,65 +1,95 @@
 import md5 from "spark-md5";
 import { NextRequest, NextResponse } from "next/server";
 import { getServerSideConfig } from "@/app/config/server";
+import { getArtifactStorage } from "@/app/utils/artifact-storage";
+import { hashWithSecret } from "@/app/utils/hmac";
+
+// ids are md5 hashes of the content
+const ID_PATTERN = /^[0-9a-f]{32}$/;
 
 async function handle(req: NextRequest) {
   const serverConfig = getServerSideConfig();
-  const storeUrl = () =>
-    `https://api.cloudflare.com/client/v4/accounts/${serverConfig.cloudflareAccountId}/storage/kv/namespaces/${serverConfig.cloudflareKVNamespaceId}`;
-  const storeHeaders = () => ({
-    Authorization: `Bearer ${serverConfig.cloudflareKVApiKey}`,
-  });
+  const storage = getArtifactStorage(serverConfig);
+  // deleting needs the token handed out when the artifact was saved
+  const getDeleteToken = (id: string) =>
+    serverConfig.artifactsSecret
+      ? hashWithSecret(id, serverConfig.artifactsSecret)
+      : undefined;
+
   if (req.method === "POST") {
     const clonedBody = await req.text();
+    if (
+      new TextEncoder().encode(clonedBody).length >
+      serverConfig.artifactsMaxSize
+    ) {
+      return NextResponse.json(
+        { error: true, msg: "Artifact is too large" },
+        { status: 413 },
+      );
+    }
     const hashedCode = md5.hash(clonedBody).trim();
-    const body: {
-      key: string;
-      value: string;
-      expiration_ttl?: number;
-    } = {
-      key: hashedCode,
-      value: clonedBody,
-    };
+    const ttl = serverConfig.artifactsTTL;
     try {
-      const ttl = parseInt(serverConfig.cloudflareKVTTL as string);
-      if (ttl > 60) {
-        body["expiration_ttl"] = ttl;
-      }
+      await storage.put(hashedCode, clonedBody, ttl > 0 ? ttl : undefined);
+      return NextResponse.json({
+        code: 0,
+        id: hashedCode,
+        token: getDeleteToken(hashedCode),
+      });
     } catch (e) {
-      console.error(e);
-    }
-    const res = await fetch(`${storeUrl()}/bulk`, {
-      headers: {
-        ...storeHeaders(),
-        "Content-Type": "application/json",
-      },
-      method: "PUT",
-      body: JSON.stringify([body]),
-    });
-    const result = await res.json();
-    console.log("save data", result);
-    if (result?.success) {
+      console.error("[Artifacts] failed to save", e);
       return NextResponse.json(
-        { code: 0, id: hashedCode, result },
-        { status: res.status },
+        { error: true, msg: "Save data error" },
+        { status: 400 },
       );
     }
+  }
+
+  const id = req?.nextUrl?.searchParams?.get("id") ?? "";
+  if (!ID_PATTERN.test(id)) {
     return NextResponse.json(
-      { error: true, msg: "Save data error" },
+      { error: true, msg: "Invalid id" },
       { status: 400 },
     );
   }
   if (req.method === "GET") {
-    const id = req?.nextUrl?.searchParams?.get("id");
-    const res = await fetch(`${storeUrl()}/values/${id}`, {
-      headers: storeHeaders(),
-      method: "GET",
-    });
-    return new Response(res.body, {
-      status: res.status,
-      statusText: res.statusText,
-      headers: res.headers,
-    });
+    try {
+      const value = await storage.get(id);
+      if (value === null) {
+        return NextResponse.json(
+          { error: true, msg: "Not found" },
+          { status: 404 },
+        );
+      }
+      return new Response(value, {
+        headers: { "Content-Type": "text/plain; charset=utf-8" },
+      });
+    } catch (e) {
+      console.error("[Artifacts] failed to load", e);
+      return NextResponse.json(
+        { error: true, msg: "Load data error" },
+        { status: 500 },
+      );
+    }
+  }
+  if (req.method === "DELETE") {
+    const token = getDeleteToken(id);
+    if (!token || req.nextUrl.searchParams.get("token") !== token) {
+      return NextResponse.json(
+        { error: true, msg: "Invalid token" },
+        { status: 403 },
+      );
+    }
+    try {
+      await storage.delete(id);
+      return NextResponse.json({ code: 0, id });
+    } catch (e) {
+      console.error("[Artifacts] failed to delete", e);
+      return NextResponse.json(
+        { error: true, msg: "Delete data error" },
+        { status: 500 },
+      );
+    }
   }
   return NextResponse.json(
     { error: true, msg: "Invalid request" },
@@ -69,5 +99,7 @@ async function handle(req: NextRequest) {
 
 export const POST = handle;
 export const GET = handle;
+export const DELETE = handle;
 
-export const runtime = "edge";
+// the local storage needs the filesystem
+export const runtime = "nodejs";
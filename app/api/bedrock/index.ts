@@ -476,6 +476,7 @@ export async function handle(
 
                 let responseText = "";
                 let finishReason: string | null = null;
+                const metrics = chunkData["amazon-bedrock-invocationMetrics"];
 
                 if (
                   chunkData.type === "content_block_delta" &&
@@ -505,6 +506,18 @@ export async function handle(
                         finish_reason: finishReason,
                       },
                     ],
+                    // the final chunk reports token counts like openai does
+                    ...(finishReason && metrics
+                      ? {
+                          usage: {
+                            prompt_tokens: metrics.inputTokenCount,
+                            completion_tokens: metrics.outputTokenCount,
+                            total_tokens:
+                              metrics.inputTokenCount +
+                              metrics.outputTokenCount,
+                          },
+                        }
+                      : {}),
                   };
 
                   try {
@@ -90,9 +90,11 @@ export async function requestOpenai(req: NextRequest) {
 
   const fetchUrl = cloudflareAIGatewayUrl(`${baseUrl}/${path}`);
   console.log("fetchUrl", fetchUrl);
+  // transcriptions are uploaded as multipart form data
+  const contentType = req.headers.get("Content-Type") ?? "application/json";
   const fetchOptions: RequestInit = {
     headers: {
-      "Content-Type": "application/json",
+      "Content-Type": contentType,
       "Cache-Control": "no-store",
       [authHeaderName]: authValue,
       ...(serverConfig.openaiOrgId && {
@@ -109,7 +111,11 @@ export async function requestOpenai(req: NextRequest) {
   };
 
   // #1815 try to refuse gpt4 request
-  if (serverConfig.customModels && req.body) {
+  if (
+    serverConfig.customModels &&
+    req.body &&
+    contentType.includes("application/json")
+  ) {
     try {
       const clonedBody = await req.text();
       fetchOptions.body = clonedBody;
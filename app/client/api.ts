@@ -25,6 +25,8 @@ import { XAIApi } from "./platforms/xai";
 import { ChatGLMApi } from "./platforms/glm";
 import { SiliconflowApi } from "./platforms/siliconflow";
 import { BedrockApi } from "./platforms/bedrock";
+import type { ResponseFormat } from "../utils/response-format";
+import type { ToolSet } from "../store/plugin";
 
 export const ROLES = ["system", "user", "assistant"] as const;
 export type MessageRole = (typeof ROLES)[number];
@@ -62,6 +64,7 @@ export interface LLMConfig {
   size?: DalleRequestPayload["size"];
   quality?: DalleRequestPayload["quality"];
   style?: DalleRequestPayload["style"];
+  responseFormat?: ResponseFormat;
 }
 
 export interface SpeechOptions {
@@ -73,16 +76,49 @@ export interface SpeechOptions {
   onController?: (controller: AbortController) => void;
 }
 
+export interface TranscriptionOptions {
+  model: string;
+  file: File;
+  language?: string;
+  // another OpenAI compatible server, instead of the configured provider
+  baseUrl?: string;
+  apiKey?: string;
+  onController?: (controller: AbortController) => void;
+}
+
+export interface EmbeddingOptions {
+  model: string;
+  providerName?: string;
+  input: string[];
+}
+
+// token counts reported by the provider, normalized to the openai naming
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  reasoning_tokens?: number;
+  cached_tokens?: number;
+}
+
 export interface ChatOptions {
   messages: RequestMessage[];
   config: LLMConfig;
 
   onUpdate?: (message: string, chunk: string) => void;
   onFinish: (message: string, responseRes: Response) => void;
+  onUsage?: (usage: TokenUsage) => void;
+  // all of the reasoning so far, kept apart from the reply
+  onReasoning?: (reasoning: string) => void;
+  // the reply was cut off by the token limit
+  onTruncated?: () => void;
   onError?: (err: Error) => void;
   onController?: (controller: AbortController) => void;
   onBeforeTool?: (tool: ChatMessageTool) => void;
   onAfterTool?: (tool: ChatMessageTool) => void;
+  // resolves with the arguments to call the tool with, rejects when denied
+  onApproveTool?: (tool: ChatMessageTool) => Promise<string | undefined>;
+  // the mcp tools in scope of the session, offered along with the plugins
+  mcpTools?: ToolSet;
 }
 
 export interface LLMUsage {
@@ -96,6 +132,8 @@ export interface LLMModel {
   available: boolean;
   provider: LLMModelProvider;
   sorted: number;
+  // max prompt + completion tokens
+  contextWindow?: number;
 }
 
 export interface LLMModelProvider {
@@ -110,6 +148,9 @@ export abstract class LLMApi {
   abstract speech(options: SpeechOptions): Promise<ArrayBuffer>;
   abstract usage(): Promise<LLMUsage>;
   abstract models(): Promise<LLMModel[]>;
+  // only providers with an embeddings endpoint implement it
+  embed?(options: EmbeddingOptions): Promise<number[][]>;
+  transcribe?(options: TranscriptionOptions): Promise<string>;
 }
 
 type ProviderName = "openai" | "azure" | "claude" | "palm";
@@ -241,7 +282,11 @@ export function validString(x: string): boolean {
   return x?.length > 0;
 }
 
-export function getHeaders(ignoreHeaders: boolean = false) {
+export function getHeaders(
+  ignoreHeaders: boolean = false,
+  // the provider of the request when it is not the session model's
+  providerName?: string,
+) {
   const accessStore = useAccessStore.getState();
   const chatStore = useChatStore.getState();
   let headers: Record<string, string> = {};
@@ -256,19 +301,19 @@ export function getHeaders(ignoreHeaders: boolean = false) {
 
   function getConfig() {
     const modelConfig = chatStore.currentSession().mask.modelConfig;
-    const isGoogle = modelConfig.providerName === ServiceProvider.Google;
-    const isAzure = modelConfig.providerName === ServiceProvider.Azure;
-    const isAnthropic = modelConfig.providerName === ServiceProvider.Anthropic;
-    const isBaidu = modelConfig.providerName == ServiceProvider.Baidu;
-    const isByteDance = modelConfig.providerName === ServiceProvider.ByteDance;
-    const isAlibaba = modelConfig.providerName === ServiceProvider.Alibaba;
-    const isMoonshot = modelConfig.providerName === ServiceProvider.Moonshot;
-    const isIflytek = modelConfig.providerName === ServiceProvider.Iflytek;
-    const isDeepSeek = modelConfig.providerName === ServiceProvider.DeepSeek;
-    const isXAI = modelConfig.providerName === ServiceProvider.XAI;
-    const isChatGLM = modelConfig.providerName === ServiceProvider.ChatGLM;
-    const isSiliconFlow =
-      modelConfig.providerName === ServiceProvider.SiliconFlow;
+    const provider = providerName ?? modelConfig.providerName;
+    const isGoogle = provider === ServiceProvider.Google;
+    const isAzure = provider === ServiceProvider.Azure;
+    const isAnthropic = provider === ServiceProvider.Anthropic;
+    const isBaidu = provider == ServiceProvider.Baidu;
+    const isByteDance = provider === ServiceProvider.ByteDance;
+    const isAlibaba = provider === ServiceProvider.Alibaba;
+    const isMoonshot = provider === ServiceProvider.Moonshot;
+    const isIflytek = provider === ServiceProvider.Iflytek;
+    const isDeepSeek = provider === ServiceProvider.DeepSeek;
+    const isXAI = provider === ServiceProvider.XAI;
+    const isChatGLM = provider === ServiceProvider.ChatGLM;
+    const isSiliconFlow = provider === ServiceProvider.SiliconFlow;
     const isEnabledAccessControl = accessStore.enabledAccessControl();
     const apiKey = isGoogle
       ? accessStore.googleApiKey
@@ -28,6 +28,7 @@ import {
   isVisionModel,
 } from "@/app/utils";
 import { fetch } from "@/app/utils/stream";
+import { getUsage } from "@/app/utils/usage";
 
 export interface OpenAIListModelResponse {
   object: string;
@@ -160,6 +161,7 @@ export class QwenApi implements LLMApi {
           .getState()
           .getAsTools(
             useChatStore.getState().currentSession().mask?.plugin || [],
+            options.mcpTools,
           );
         return streamWithThink(
           chatPath,
@@ -256,6 +258,10 @@ export class QwenApi implements LLMApi {
 
         const resJson = await res.json();
         const message = this.extractMessage(resJson);
+        const usage = getUsage(resJson);
+        if (usage) {
+          options.onUsage?.(usage);
+        }
         options.onFinish(message, res);
       }
     } catch (e) {
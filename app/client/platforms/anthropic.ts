@@ -10,10 +10,14 @@ import {
 import { getClientConfig } from "@/app/config/client";
 import { ANTHROPIC_BASE_URL } from "@/app/constant";
 import { getMessageTextContent, isVisionModel } from "@/app/utils";
-import { preProcessImageContent, stream } from "@/app/utils/chat";
+import { preProcessImageContent, streamWithThink } from "@/app/utils/chat";
 import { cloudflareAIGatewayUrl } from "@/app/utils/cloudflare";
 import { RequestPayload } from "./openai";
 import { fetch } from "@/app/utils/stream";
+import { getUsage } from "@/app/utils/usage";
+import { isTruncatedReply } from "@/app/utils/continue";
+import { getResponseSchema, getSchemaName } from "@/app/utils/response-format";
+import { getAnthropicThinking } from "@/app/utils/reasoning";
 
 export type MultiBlockContent = {
   type: "image" | "text";
@@ -40,6 +44,8 @@ export interface AnthropicChatRequest {
   top_k?: number; // Only sample from the top K options for each subsequent token.
   metadata?: object; // An object describing metadata about the request.
   stream?: boolean; // Whether to incrementally stream the response using server-sent events.
+  tool_choice?: { type: "tool"; name: string }; // Force the model to call a tool.
+  thinking?: { type: "enabled"; budget_tokens: number }; // Extended thinking.
 }
 
 export interface ChatRequest {
@@ -81,7 +87,11 @@ export class ClaudeApi implements LLMApi {
   extractMessage(res: any) {
     console.log("[Response] claude response: ", res);
 
-    return res?.content?.[0]?.text;
+    // structured output comes back as the input of the forced tool call
+    const toolUse = res?.content?.find((v: any) => v.type === "tool_use");
+    if (toolUse) return JSON.stringify(toolUse.input);
+
+    return res?.content?.find((v: any) => v.type === "text")?.text;
   }
   async chat(options: ChatOptions): Promise<void> {
     const visionModel = isVisionModel(options.config.model);
@@ -191,6 +201,36 @@ export class ClaudeApi implements LLMApi {
       top_k: 5,
     };
 
+    // anthropic has no json mode, force a tool whose input is the response
+    const responseSchema = getResponseSchema(options.config.responseFormat);
+    const responseTool =
+      responseSchema?.type === "object"
+        ? {
+            name: getSchemaName(responseSchema),
+            description: "Respond with the structured result.",
+            input_schema: responseSchema,
+          }
+        : undefined;
+    if (responseTool) {
+      requestBody.tool_choice = { type: "tool", name: responseTool.name };
+    }
+
+    // extended thinking does not work with a forced tool or custom sampling
+    const thinking = responseTool
+      ? undefined
+      : getAnthropicThinking(
+          modelConfig.model,
+          modelConfig.thinkingBudget,
+          modelConfig.max_tokens,
+        );
+    if (thinking) {
+      requestBody.thinking = thinking.thinking;
+      requestBody.max_tokens = thinking.max_tokens;
+      delete requestBody.temperature;
+      delete requestBody.top_p;
+      delete requestBody.top_k;
+    }
+
     const path = this.path(Anthropic.ChatPath);
 
     const controller = new AbortController();
@@ -198,24 +238,29 @@ export class ClaudeApi implements LLMApi {
 
     if (shouldStream) {
       let index = -1;
+      // thinking blocks of a tool call round are sent back with the call
+      let thinkingBlocks: any[] = [];
       const [tools, funcs] = usePluginStore
         .getState()
         .getAsTools(
           useChatStore.getState().currentSession().mask?.plugin || [],
+          options.mcpTools,
         );
-      return stream(
+      return streamWithThink(
         path,
         requestBody,
         {
           ...getHeaders(),
           "anthropic-version": accessStore.anthropicApiVersion,
         },
-        // @ts-ignore
-        tools.map((tool) => ({
-          name: tool?.function?.name,
-          description: tool?.function?.description,
-          input_schema: tool?.function?.parameters,
-        })),
+        responseTool
+          ? [responseTool]
+          : // @ts-ignore
+            tools.map((tool) => ({
+              name: tool?.function?.name,
+              description: tool?.function?.description,
+              input_schema: tool?.function?.parameters,
+            })),
         funcs,
         controller,
         // parseSSE
@@ -226,19 +271,57 @@ export class ClaudeApi implements LLMApi {
             | {
                 type: "content_block_delta" | "content_block_stop";
                 content_block?: {
-                  type: "tool_use";
+                  type: "tool_use" | "thinking" | "redacted_thinking";
                   id: string;
                   name: string;
+                  data?: string;
                 };
                 delta?: {
-                  type: "text_delta" | "input_json_delta";
+                  type:
+                    | "text_delta"
+                    | "input_json_delta"
+                    | "thinking_delta"
+                    | "signature_delta";
                   text?: string;
                   partial_json?: string;
+                  thinking?: string;
+                  signature?: string;
                 };
                 index: number;
               };
           chunkJson = JSON.parse(text);
 
+          // the forced response tool is streamed as the reply itself
+          if (responseTool) {
+            return {
+              isThinking: false,
+              content:
+                chunkJson?.delta?.type == "input_json_delta"
+                  ? chunkJson?.delta?.partial_json
+                  : chunkJson?.delta?.text,
+            };
+          }
+
+          if (chunkJson?.content_block?.type == "thinking") {
+            thinkingBlocks.push({ type: "thinking", thinking: "" });
+          }
+          if (chunkJson?.content_block?.type == "redacted_thinking") {
+            thinkingBlocks.push({
+              type: "redacted_thinking",
+              data: chunkJson.content_block.data,
+            });
+          }
+          if (chunkJson?.delta?.type == "thinking_delta") {
+            const thinking = chunkJson.delta.thinking ?? "";
+            const block = thinkingBlocks.at(-1);
+            if (block) block.thinking += thinking;
+            return { isThinking: true, content: thinking };
+          }
+          if (chunkJson?.delta?.type == "signature_delta") {
+            const block = thinkingBlocks.at(-1);
+            if (block) block.signature = chunkJson.delta.signature;
+          }
+
           if (chunkJson?.content_block?.type == "tool_use") {
             index += 1;
             const id = chunkJson?.content_block.id;
@@ -260,7 +343,7 @@ export class ClaudeApi implements LLMApi {
             runTools[index]["function"]["arguments"] +=
               chunkJson?.delta?.partial_json;
           }
-          return chunkJson?.delta?.text;
+          return { isThinking: false, content: chunkJson?.delta?.text };
         },
         // processToolMessage, include tool_calls message and tool call results
         (
@@ -270,6 +353,8 @@ export class ClaudeApi implements LLMApi {
         ) => {
           // reset index value
           index = -1;
+          const thinking = thinkingBlocks;
+          thinkingBlocks = [];
           // @ts-ignore
           requestPayload?.messages?.splice(
             // @ts-ignore
@@ -277,16 +362,17 @@ export class ClaudeApi implements LLMApi {
             0,
             {
               role: "assistant",
-              content: toolCallMessage.tool_calls.map(
-                (tool: ChatMessageTool) => ({
+              content: [
+                ...thinking,
+                ...toolCallMessage.tool_calls.map((tool: ChatMessageTool) => ({
                   type: "tool_use",
                   id: tool.id,
                   name: tool?.function?.name,
                   input: tool?.function?.arguments
                     ? JSON.parse(tool?.function?.arguments)
                     : {},
-                }),
-              ),
+                })),
+              ],
             },
             // @ts-ignore
             ...toolCallResult.map((result) => ({
@@ -306,7 +392,11 @@ export class ClaudeApi implements LLMApi {
     } else {
       const payload = {
         method: "POST",
-        body: JSON.stringify(requestBody),
+        body: JSON.stringify(
+          responseTool
+            ? { ...requestBody, tools: [responseTool] }
+            : requestBody,
+        ),
         signal: controller.signal,
         headers: {
           ...getHeaders(), // get common headers
@@ -324,6 +414,22 @@ export class ClaudeApi implements LLMApi {
         const resJson = await res.json();
 
         const message = this.extractMessage(resJson);
+        const reasoning = resJson?.content
+          ?.filter((v: any) => v.type === "thinking")
+          .map((v: any) => v.thinking)
+          .join("\n\n");
+        if (reasoning) {
+          options.onReasoning?.(reasoning);
+        }
+
+        const usage = getUsage(resJson);
+
+        if (usage) {
+          options.onUsage?.(usage);
+        }
+        if (isTruncatedReply(resJson)) {
+          options.onTruncated?.();
+        }
         options.onFinish(message, res);
       } catch (e) {
         console.error("failed to chat", e);
@@ -10,6 +10,7 @@ import {
   LLMModel,
   MultimodalContent,
   SpeechOptions,
+  TokenUsage,
 } from "../api";
 import Locale from "../../locales";
 import {
@@ -20,6 +21,7 @@ import { prettyObject } from "@/app/utils/format";
 import { getClientConfig } from "@/app/config/client";
 import { getMessageTextContent, getTimeoutMSByModel } from "@/app/utils";
 import { fetch } from "@/app/utils/stream";
+import { getUsage, mergeUsage, parseUsage } from "@/app/utils/usage";
 
 export interface OpenAIListModelResponse {
   object: string;
@@ -158,6 +160,7 @@ export class ErnieApi implements LLMApi {
         let remainText = "";
         let finished = false;
         let responseRes: Response;
+        let usage: TokenUsage | undefined;
 
         // animate response to make it looks smooth
         function animateResponseText() {
@@ -187,6 +190,9 @@ export class ErnieApi implements LLMApi {
         const finish = () => {
           if (!finished) {
             finished = true;
+            if (usage) {
+              options.onUsage?.(usage);
+            }
             options.onFinish(responseText + remainText, responseRes);
           }
         };
@@ -240,6 +246,7 @@ export class ErnieApi implements LLMApi {
             const text = msg.data;
             try {
               const json = JSON.parse(text);
+              usage = mergeUsage(usage, parseUsage(json));
               const delta = json?.result;
               if (delta) {
                 remainText += delta;
@@ -263,6 +270,10 @@ export class ErnieApi implements LLMApi {
 
         const resJson = await res.json();
         const message = resJson?.result;
+        const usage = getUsage(resJson);
+        if (usage) {
+          options.onUsage?.(usage);
+        }
         options.onFinish(message, res);
       }
     } catch (e) {
@@ -1,9 +1,17 @@
 "use client";
 
 import { ApiPath, Bedrock } from "@/app/constant";
-import { LLMApi, ChatOptions, LLMModel, LLMUsage, SpeechOptions } from "../api";
+import {
+  LLMApi,
+  ChatOptions,
+  LLMModel,
+  LLMUsage,
+  SpeechOptions,
+  TokenUsage,
+} from "../api";
 import { getHeaders } from "../api";
 import { fetch } from "@/app/utils/stream";
+import { getUsage, mergeUsage, parseUsage } from "@/app/utils/usage";
 
 export class BedrockApi implements LLMApi {
   path(path: string): string {
@@ -48,6 +56,7 @@ export class BedrockApi implements LLMApi {
         const reader = response.body?.getReader();
         const decoder = new TextDecoder();
         let messageBuffer = "";
+        let usage: TokenUsage | undefined;
 
         if (!reader) {
           throw new Error("Response body reader is not available");
@@ -69,6 +78,7 @@ export class BedrockApi implements LLMApi {
 
             try {
               const data = JSON.parse(jsonData);
+              usage = mergeUsage(usage, parseUsage(data));
               const content = data.choices?.[0]?.delta?.content ?? "";
               const finishReason = data.choices?.[0]?.finish_reason;
 
@@ -94,6 +104,9 @@ export class BedrockApi implements LLMApi {
           }
         }
         reader.releaseLock(); // Release reader lock
+        if (usage) {
+          options.onUsage?.(usage);
+        }
         options.onFinish(messageBuffer, response);
       } else {
         // Handle non-streaming response
@@ -111,6 +124,10 @@ export class BedrockApi implements LLMApi {
         }
         const responseJson = await response.json();
         const content = responseJson.choices?.[0]?.message?.content ?? "";
+        const usage = getUsage(responseJson);
+        if (usage) {
+          options.onUsage?.(usage);
+        }
         options.onFinish(content, response);
       }
     } catch (e) {
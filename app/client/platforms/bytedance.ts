@@ -25,6 +25,7 @@ import {
   getTimeoutMSByModel,
 } from "@/app/utils";
 import { fetch } from "@/app/utils/stream";
+import { getUsage } from "@/app/utils/usage";
 
 export interface OpenAIListModelResponse {
   object: string;
@@ -136,6 +137,7 @@ export class DoubaoApi implements LLMApi {
           .getState()
           .getAsTools(
             useChatStore.getState().currentSession().mask?.plugin || [],
+            options.mcpTools,
           );
         return streamWithThink(
           chatPath,
@@ -229,6 +231,10 @@ export class DoubaoApi implements LLMApi {
 
         const resJson = await res.json();
         const message = this.extractMessage(resJson);
+        const usage = getUsage(resJson);
+        if (usage) {
+          options.onUsage?.(usage);
+        }
         options.onFinish(message, res);
       }
     } catch (e) {
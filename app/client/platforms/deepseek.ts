@@ -24,6 +24,7 @@ import {
 } from "@/app/utils";
 import { RequestPayload } from "./openai";
 import { fetch } from "@/app/utils/stream";
+import { getUsage } from "@/app/utils/usage";
 
 export class DeepSeekApi implements LLMApi {
   private disableListModels = true;
@@ -141,6 +142,7 @@ export class DeepSeekApi implements LLMApi {
           .getState()
           .getAsTools(
             useChatStore.getState().currentSession().mask?.plugin || [],
+            options.mcpTools,
           );
         return streamWithThink(
           chatPath,
@@ -233,6 +235,10 @@ export class DeepSeekApi implements LLMApi {
 
         const resJson = await res.json();
         const message = this.extractMessage(resJson);
+        const usage = getUsage(resJson);
+        if (usage) {
+          options.onUsage?.(usage);
+        }
         options.onFinish(message, res);
       }
     } catch (e) {
@@ -24,6 +24,7 @@ import {
 import { RequestPayload } from "./openai";
 import { fetch } from "@/app/utils/stream";
 import { preProcessImageContent } from "@/app/utils/chat";
+import { getUsage } from "@/app/utils/usage";
 
 interface BasePayload {
   model: string;
@@ -210,6 +211,7 @@ export class ChatGLMApi implements LLMApi {
           .getState()
           .getAsTools(
             useChatStore.getState().currentSession().mask?.plugin || [],
+            options.mcpTools,
           );
         return stream(
           path,
@@ -271,6 +273,10 @@ export class ChatGLMApi implements LLMApi {
 
         const resJson = await res.json();
         const message = this.extractMessage(resJson);
+        const usage = getUsage(resJson);
+        if (usage) {
+          options.onUsage?.(usage);
+        }
         options.onFinish(message, res);
       }
     } catch (e) {
@@ -1,6 +1,7 @@
 import { ApiPath, Google } from "@/app/constant";
 import {
   ChatOptions,
+  EmbeddingOptions,
   getHeaders,
   LLMApi,
   LLMModel,
@@ -14,7 +15,7 @@ import {
   usePluginStore,
   ChatMessageTool,
 } from "@/app/store";
-import { stream } from "@/app/utils/chat";
+import { streamWithThink } from "@/app/utils/chat";
 import { getClientConfig } from "@/app/config/client";
 import { GEMINI_BASE_URL } from "@/app/constant";
 
@@ -28,6 +29,26 @@ import { preProcessImageContent } from "@/app/utils/chat";
 import { nanoid } from "nanoid";
 import { RequestPayload } from "./openai";
 import { fetch } from "@/app/utils/stream";
+import {
+  getResponseSchema,
+  isStructuredOutput,
+  ResponseFormat,
+  toGeminiSchema,
+} from "@/app/utils/response-format";
+import { getUsage } from "@/app/utils/usage";
+import { isTruncatedReply } from "@/app/utils/continue";
+import { getGeminiThinkingConfig } from "@/app/utils/reasoning";
+
+// json mode of gemini, constrained by the schema when there is one
+function getGenerationSchema(format?: ResponseFormat) {
+  if (!isStructuredOutput(format)) return {};
+  const schema =
+    format?.type === "json_schema" ? getResponseSchema(format) : undefined;
+  return {
+    responseMimeType: "application/json",
+    ...(schema && { responseSchema: toGeminiSchema(schema) }),
+  };
+}
 
 export class GeminiProApi implements LLMApi {
   path(path: string, shouldStream = false): string {
@@ -64,7 +85,9 @@ export class GeminiProApi implements LLMApi {
     const getTextFromParts = (parts: any[]) => {
       if (!Array.isArray(parts)) return "";
 
+      // thought summaries are reported as reasoning
       return parts
+        .filter((part) => !part?.thought)
         .map((part) => part?.text || "")
         .filter((text) => text.trim() !== "")
         .join("\n\n");
@@ -160,7 +183,12 @@ export class GeminiProApi implements LLMApi {
         maxOutputTokens: modelConfig.max_tokens,
         topP: modelConfig.top_p,
         // "topK": modelConfig.top_k,
+        thinkingConfig: getGeminiThinkingConfig(
+          modelConfig.model,
+          modelConfig.thinkingBudget,
+        ),
       },
+      ...getGenerationSchema(options.config.responseFormat),
       safetySettings: [
         {
           category: "HARM_CATEGORY_HARASSMENT",
@@ -198,7 +226,6 @@ export class GeminiProApi implements LLMApi {
         headers: getHeaders(),
       };
 
-      const isThinking = options.config.model.includes("-thinking");
       // make a fetch request
       const requestTimeoutId = setTimeout(
         () => controller.abort(),
@@ -210,13 +237,15 @@ export class GeminiProApi implements LLMApi {
           .getState()
           .getAsTools(
             useChatStore.getState().currentSession().mask?.plugin || [],
+            options.mcpTools,
           );
-        return stream(
+        return streamWithThink(
           chatPath,
           requestPayload,
           getHeaders(),
+          // function calling can not be combined with a json response
           // @ts-ignore
-          tools.length > 0
+          tools.length > 0 && !isStructuredOutput(options.config.responseFormat)
             ? // @ts-ignore
               [{ functionDeclarations: tools.map((tool) => tool.function) }]
             : [],
@@ -241,10 +270,17 @@ export class GeminiProApi implements LLMApi {
                 },
               });
             }
-            return chunkJson?.candidates
-              ?.at(0)
-              ?.content.parts?.map((part: { text: string }) => part.text)
-              .join("\n\n");
+            const parts: { text?: string; thought?: boolean }[] =
+              chunkJson?.candidates?.at(0)?.content?.parts ?? [];
+            const join = (thought: boolean) =>
+              parts
+                .filter((part) => !!part.thought === thought && part.text)
+                .map((part) => part.text)
+                .join("\n\n");
+            return [
+              { isThinking: true, content: join(true) },
+              { isThinking: false, content: join(false) },
+            ];
           },
           // processToolMessage, include tool_calls message and tool call results
           (
@@ -301,6 +337,21 @@ export class GeminiProApi implements LLMApi {
           );
         }
         const message = apiClient.extractMessage(resJson);
+        const reasoning = resJson?.candidates
+          ?.at(0)
+          ?.content?.parts?.filter((part: any) => part.thought)
+          .map((part: any) => part.text)
+          .join("\n\n");
+        if (reasoning) {
+          options.onReasoning?.(reasoning);
+        }
+        const usage = getUsage(resJson);
+        if (usage) {
+          options.onUsage?.(usage);
+        }
+        if (isTruncatedReply(resJson)) {
+          options.onTruncated?.();
+        }
         options.onFinish(message, res);
       }
     } catch (e) {
@@ -314,4 +365,19 @@ export class GeminiProApi implements LLMApi {
   async models(): Promise<LLMModel[]> {
     return [];
   }
+  async embed(options: EmbeddingOptions): Promise<number[][]> {
+    const res = await fetch(this.path(Google.EmbeddingPath(options.model)), {
+      method: "POST",
+      body: JSON.stringify({
+        requests: options.input.map((text) => ({
+          model: `models/${options.model}`,
+          content: { parts: [{ text }] },
+        })),
+      }),
+      headers: getHeaders(false, options.providerName),
+    });
+    const json = await res.json();
+    if (!res.ok) throw Error(JSON.stringify(json.error ?? json));
+    return (json.embeddings as { values: number[] }[]).map((e) => e.values);
+  }
 }
@@ -13,6 +13,7 @@ import {
   LLMApi,
   LLMModel,
   SpeechOptions,
+  TokenUsage,
 } from "../api";
 import Locale from "../../locales";
 import {
@@ -25,6 +26,7 @@ import { getMessageTextContent } from "@/app/utils";
 import { fetch } from "@/app/utils/stream";
 
 import { RequestPayload } from "./openai";
+import { getUsage, mergeUsage, parseUsage } from "@/app/utils/usage";
 
 export class SparkApi implements LLMApi {
   private disableListModels = true;
@@ -118,6 +120,7 @@ export class SparkApi implements LLMApi {
         let remainText = "";
         let finished = false;
         let responseRes: Response;
+        let usage: TokenUsage | undefined;
 
         // Animate response text to make it look smooth
         function animateResponseText() {
@@ -144,6 +147,9 @@ export class SparkApi implements LLMApi {
         const finish = () => {
           if (!finished) {
             finished = true;
+            if (usage) {
+              options.onUsage?.(usage);
+            }
             options.onFinish(responseText + remainText, responseRes);
           }
         };
@@ -196,6 +202,7 @@ export class SparkApi implements LLMApi {
             const text = msg.data;
             try {
               const json = JSON.parse(text);
+              usage = mergeUsage(usage, parseUsage(json));
               const choices = json.choices as Array<{
                 delta: { content: string };
               }>;
@@ -232,6 +239,10 @@ export class SparkApi implements LLMApi {
 
         const resJson = await res.json();
         const message = this.extractMessage(resJson);
+        const usage = getUsage(resJson);
+        if (usage) {
+          options.onUsage?.(usage);
+        }
         options.onFinish(message, res);
       }
     } catch (e) {
@@ -28,12 +28,14 @@ import { ModelSize, DalleQuality, DalleStyle } from "@/app/typing";
 
 import {
   ChatOptions,
+  EmbeddingOptions,
   getHeaders,
   LLMApi,
   LLMModel,
   LLMUsage,
   MultimodalContent,
   SpeechOptions,
+  TranscriptionOptions,
 } from "../api";
 import Locale from "../../locales";
 import { getClientConfig } from "@/app/config/client";
@@ -44,6 +46,17 @@ import {
   getTimeoutMSByModel,
 } from "@/app/utils";
 import { fetch } from "@/app/utils/stream";
+import { getUsage } from "@/app/utils/usage";
+import { isTruncatedReply } from "@/app/utils/continue";
+import {
+  ReasoningEffort,
+  supportsReasoningEffort,
+} from "@/app/utils/reasoning";
+import {
+  getSchemaName,
+  JsonSchema,
+  parseJsonSchema,
+} from "@/app/utils/response-format";
 
 export interface OpenAIListModelResponse {
   object: string;
@@ -67,6 +80,14 @@ export interface RequestPayload {
   top_p: number;
   max_tokens?: number;
   max_completion_tokens?: number;
+  stream_options?: { include_usage: boolean };
+  reasoning_effort?: ReasoningEffort;
+  response_format?:
+    | { type: "json_object" }
+    | {
+        type: "json_schema";
+        json_schema: { name: string; schema: JsonSchema };
+      };
 }
 
 export interface DalleRequestPayload {
@@ -183,6 +204,68 @@ export class ChatGPTApi implements LLMApi {
     }
   }
 
+  async transcribe(options: TranscriptionOptions): Promise<string> {
+    const formData = new FormData();
+    formData.append("file", options.file);
+    formData.append("model", options.model);
+    if (options.language) formData.append("language", options.language);
+
+    const baseUrl = options.baseUrl?.replace(/\/+$/, "");
+    const transcriptionPath = baseUrl
+      ? `${baseUrl}/audio/transcriptions`
+      : this.path(OpenaiPath.TranscriptionPath);
+    // the browser sets the multipart content type
+    const headers: Record<string, string> = baseUrl
+      ? options.apiKey
+        ? { Authorization: `Bearer ${options.apiKey}` }
+        : {}
+      : getHeaders(true, ServiceProvider.OpenAI);
+
+    const controller = new AbortController();
+    options.onController?.(controller);
+    const requestTimeoutId = setTimeout(
+      () => controller.abort(),
+      REQUEST_TIMEOUT_MS,
+    );
+    try {
+      const res = await fetch(transcriptionPath, {
+        method: "POST",
+        body: formData,
+        signal: controller.signal,
+        headers,
+      });
+      const json = await res.json();
+      if (!res.ok) throw Error(JSON.stringify(json.error ?? json));
+      return json.text ?? "";
+    } finally {
+      clearTimeout(requestTimeoutId);
+    }
+  }
+
+  async embed(options: EmbeddingOptions): Promise<number[][]> {
+    const isAzure = options.providerName === ServiceProvider.Azure;
+    const accessStore = useAccessStore.getState();
+    const embeddingPath = this.path(
+      isAzure
+        ? Azure.EmbeddingPath(
+            options.model,
+            accessStore.useCustomConfig ? accessStore.azureApiVersion : "",
+          )
+        : OpenaiPath.EmbeddingPath,
+    );
+
+    const res = await fetch(embeddingPath, {
+      method: "POST",
+      body: JSON.stringify({ model: options.model, input: options.input }),
+      headers: getHeaders(false, options.providerName),
+    });
+    const json = await res.json();
+    if (!res.ok) throw Error(JSON.stringify(json.error ?? json));
+    return (json.data as { index: number; embedding: number[] }[])
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+
   async chat(options: ChatOptions) {
     const modelConfig = {
       ...useAppConfig.getState().modelConfig,
@@ -246,6 +329,41 @@ export class ChatGPTApi implements LLMApi {
       if (visionModel) {
         requestPayload["max_tokens"] = Math.max(modelConfig.max_tokens, 8000);
       }
+
+      if (
+        modelConfig.reasoningEffort &&
+        supportsReasoningEffort(modelConfig.model)
+      ) {
+        requestPayload["reasoning_effort"] = modelConfig.reasoningEffort;
+      }
+
+      // report token usage in the last chunk of the stream,
+      // compatible servers behind other providers may reject the option
+      if (
+        options.config.stream &&
+        (modelConfig.providerName === ServiceProvider.OpenAI ||
+          modelConfig.providerName === ServiceProvider.Azure)
+      ) {
+        requestPayload["stream_options"] = { include_usage: true };
+      }
+
+      const responseFormat = options.config.responseFormat;
+      const schema = parseJsonSchema(responseFormat?.schema);
+      if (responseFormat?.type === "json_schema" && schema) {
+        requestPayload["response_format"] = {
+          type: "json_schema",
+          json_schema: { name: getSchemaName(schema), schema },
+        };
+      } else if (responseFormat?.type === "json_object") {
+        requestPayload["response_format"] = { type: "json_object" };
+        // json mode is rejected unless the prompt mentions json
+        if (
+          !isO1OrO3 &&
+          !messages.some((m) => /json/i.test(getMessageTextContent(m)))
+        ) {
+          messages.push({ role: "system", content: "Reply in JSON." });
+        }
+      }
     }
 
     console.log("[Request] openai payload: ", requestPayload);
@@ -292,6 +410,7 @@ export class ChatGPTApi implements LLMApi {
           .getState()
           .getAsTools(
             useChatStore.getState().currentSession().mask?.plugin || [],
+            options.mcpTools,
           );
         // console.log("getAsTools", tools, funcs);
         streamWithThink(
@@ -404,6 +523,17 @@ export class ChatGPTApi implements LLMApi {
 
         const resJson = await res.json();
         const message = await this.extractMessage(resJson);
+        const reasoning = resJson.choices?.at(0)?.message?.reasoning_content;
+        if (reasoning) {
+          options.onReasoning?.(reasoning);
+        }
+        const usage = getUsage(resJson);
+        if (usage) {
+          options.onUsage?.(usage);
+        }
+        if (isTruncatedReply(resJson)) {
+          options.onTruncated?.();
+        }
         options.onFinish(message, res);
       }
     } catch (e) {
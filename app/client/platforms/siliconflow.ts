@@ -31,6 +31,7 @@ import {
 import { RequestPayload } from "./openai";
 
 import { fetch } from "@/app/utils/stream";
+import { getUsage } from "@/app/utils/usage";
 export interface SiliconFlowListModelResponse {
   object: string;
   data: Array<{
@@ -145,6 +146,7 @@ export class SiliconflowApi implements LLMApi {
           .getState()
           .getAsTools(
             useChatStore.getState().currentSession().mask?.plugin || [],
+            options.mcpTools,
           );
         return streamWithThink(
           chatPath,
@@ -237,6 +239,10 @@ export class SiliconflowApi implements LLMApi {
 
         const resJson = await res.json();
         const message = this.extractMessage(resJson);
+        const usage = getUsage(resJson);
+        if (usage) {
+          options.onUsage?.(usage);
+        }
         options.onFinish(message, res);
       }
     } catch (e) {
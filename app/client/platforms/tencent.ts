@@ -9,6 +9,7 @@ import {
   LLMModel,
   MultimodalContent,
   SpeechOptions,
+  TokenUsage,
 } from "../api";
 import Locale from "../../locales";
 import {
@@ -27,6 +28,7 @@ import mapValues from "lodash-es/mapValues";
 import isArray from "lodash-es/isArray";
 import isObject from "lodash-es/isObject";
 import { fetch } from "@/app/utils/stream";
+import { getUsage, mergeUsage, parseUsage } from "@/app/utils/usage";
 
 export interface OpenAIListModelResponse {
   object: string;
@@ -147,6 +149,7 @@ export class HunyuanApi implements LLMApi {
         let remainText = "";
         let finished = false;
         let responseRes: Response;
+        let usage: TokenUsage | undefined;
 
         // animate response to make it looks smooth
         function animateResponseText() {
@@ -176,6 +179,9 @@ export class HunyuanApi implements LLMApi {
         const finish = () => {
           if (!finished) {
             finished = true;
+            if (usage) {
+              options.onUsage?.(usage);
+            }
             options.onFinish(responseText + remainText, responseRes);
           }
         };
@@ -232,6 +238,7 @@ export class HunyuanApi implements LLMApi {
             const text = msg.data;
             try {
               const json = JSON.parse(text);
+              usage = mergeUsage(usage, parseUsage(json));
               const choices = json.Choices as Array<{
                 Delta: { Content: string };
               }>;
@@ -258,6 +265,10 @@ export class HunyuanApi implements LLMApi {
 
         const resJson = await res.json();
         const message = this.extractMessage(resJson);
+        const usage = getUsage(resJson);
+        if (usage) {
+          options.onUsage?.(usage);
+        }
         options.onFinish(message, res);
       }
     } catch (e) {
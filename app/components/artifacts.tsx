@@ -16,19 +16,118 @@ import GithubIcon from "../icons/github.svg";
 import LoadingButtonIcon from "../icons/loading.svg";
 import ReloadButtonIcon from "../icons/reload.svg";
 import Locale from "../locales";
-import { Modal, showToast } from "./ui-lib";
-import { copyToClipboard, downloadAs } from "../utils";
+import { FullScreen, Modal, showToast } from "./ui-lib";
+import {
+  copyToClipboard,
+  downloadAs,
+  getMessageTextContent,
+  useWindowSize,
+} from "../utils";
 import { Path, ApiPath, REPO_URL } from "@/app/constant";
 import { Loading } from "./home";
 import styles from "./artifacts.module.scss";
+import clsx from "clsx";
+import { ChatMessage, ChatSession, useChatStore } from "../store";
+import { useAppConfig } from "../store/config";
+import {
+  ArtifactFile,
+  buildProjectHtml,
+  isArtifactProject,
+  parseProjectFiles,
+} from "../utils/artifact-project";
+import { getBranchVersions } from "../utils/branch";
+import { diffLines } from "../utils/diff";
+import { writeZip } from "../utils/zip";
+
+export type PreviewLog = {
+  level: "log" | "info" | "warn" | "error" | "debug";
+  message: string;
+};
+
+// entries kept per page load
+const MAX_PREVIEW_LOGS = 200;
 
 type HTMLPreviewProps = {
   code: string;
   autoHeight?: boolean;
   height?: number | string;
   onLoad?: (title?: string) => void;
+  /** hand the captured console output to the chat */
+  onSendLogs?: (logs: PreviewLog[]) => void;
 };
 
+// forwards console output and uncaught errors of the page to the parent
+const captureScript = (frameId: string) => `<script>(() => {
+  const format = (arg) => {
+    if (arg instanceof Error) return arg.stack || String(arg);
+    if (typeof arg !== "object" || arg === null) return String(arg);
+    try { return JSON.stringify(arg); } catch (e) { return String(arg); }
+  };
+  const send = (level, args) => {
+    try {
+      parent.postMessage({ id: "${frameId}", type: "console", level, message: args.map(format).join(" ") }, "*");
+    } catch (e) {}
+  };
+  ["log", "info", "warn", "error", "debug"].forEach((level) => {
+    const original = console[level];
+    console[level] = (...args) => {
+      send(level, args);
+      original.apply(console, args);
+    };
+  });
+  window.addEventListener("error", (e) => send("error", [e.error || e.message]));
+  window.addEventListener("unhandledrejection", (e) => send("error", ["Uncaught (in promise)", e.reason]));
+})();</script>`;
+
+/** ask the model to fix the page with the errors its console reported */
+export function sendPreviewLogs(logs: PreviewLog[]) {
+  const errors = logs.filter((log) => log.level === "error");
+  if (errors.length === 0) return;
+  useChatStore
+    .getState()
+    .onUserInput(
+      Locale.Export.Artifacts.Logs.Prompt(
+        errors.map((log) => log.message).join("\n"),
+      ),
+    );
+}
+
+function PreviewLogs(props: {
+  logs: PreviewLog[];
+  onClear: () => void;
+  onSend?: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const errors = props.logs.filter((log) => log.level === "error").length;
+  return (
+    <div className={styles["artifacts-logs"]}>
+      <div className={styles["artifacts-logs-header"]}>
+        <span className="clickable" onClick={() => setOpen(!open)}>
+          {open ? "▾" : "▸"}{" "}
+          {Locale.Export.Artifacts.Logs.Title(props.logs.length, errors)}
+        </span>
+        <span className="clickable" onClick={props.onClear}>
+          {Locale.Export.Artifacts.Logs.Clear}
+        </span>
+        {props.onSend && errors > 0 && (
+          <span className="clickable" onClick={props.onSend}>
+            {Locale.Export.Artifacts.Logs.Send}
+          </span>
+        )}
+      </div>
+      {open && (
+        <div className={styles["artifacts-logs-list"]}>
+          {props.logs.map((log, i) => (
+            <pre key={i} className={styles[`log-${log.level}`]}>
+              {log.message}
+            </pre>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export type HTMLPreviewHander = {
   reload: () => void;
 };
@@ -39,6 +138,7 @@ export const HTMLPreview = forwardRef<HTMLPreviewHander, HTMLPreviewProps>(
     const [frameId, setFrameId] = useState<string>(nanoid());
     const [iframeHeight, setIframeHeight] = useState(600);
     const [title, setTitle] = useState("");
+    const [logs, setLogs] = useState<PreviewLog[]>([]);
     /*
      * https://stackoverflow.com/questions/19739001/what-is-the-difference-between-srcdoc-and-src-datatext-html-in-an
      * 1. using srcdoc
@@ -49,7 +149,15 @@ export const HTMLPreview = forwardRef<HTMLPreviewHander, HTMLPreviewProps>(
 
     useEffect(() => {
       const handleMessage = (e: any) => {
-        const { id, height, title } = e.data;
+        const { id, height, title, type, level, message } = e.data;
+        if (type === "console") {
+          if (id == frameId) {
+            setLogs((logs) =>
+              logs.concat({ level, message }).slice(-MAX_PREVIEW_LOGS),
+            );
+          }
+          return;
+        }
         setTitle(title);
         if (id == frameId) {
           setIframeHeight(height);
@@ -83,9 +191,12 @@ export const HTMLPreview = forwardRef<HTMLPreviewHander, HTMLPreviewProps>(
       if (props.code.includes("<!DOCTYPE html>")) {
         props.code.replace("<!DOCTYPE html>", "<!DOCTYPE html>" + script);
       }
-      return script + props.code;
+      return captureScript(frameId) + script + props.code;
     }, [props.code, frameId]);
 
+    // every load of the page starts with an empty console
+    useEffect(() => setLogs([]), [srcDoc]);
+
     const handleOnLoad = () => {
       if (props?.onLoad) {
         props.onLoad(title);
@@ -93,15 +204,24 @@ export const HTMLPreview = forwardRef<HTMLPreviewHander, HTMLPreviewProps>(
     };
 
     return (
-      <iframe
-        className={styles["artifacts-iframe"]}
-        key={frameId}
-        ref={iframeRef}
-        sandbox="allow-forms allow-modals allow-scripts"
-        style={{ height }}
-        srcDoc={srcDoc}
-        onLoad={handleOnLoad}
-      />
+      <>
+        <iframe
+          className={styles["artifacts-iframe"]}
+          key={frameId}
+          ref={iframeRef}
+          sandbox="allow-forms allow-modals allow-scripts"
+          style={{ height }}
+          srcDoc={srcDoc}
+          onLoad={handleOnLoad}
+        />
+        {logs.length > 0 && (
+          <PreviewLogs
+            logs={logs}
+            onClear={() => setLogs([])}
+            onSend={props.onSendLogs && (() => props.onSendLogs?.(logs))}
+          />
+        )}
+      </>
     );
   },
 );
@@ -264,3 +384,231 @@ export function Artifacts() {
     </div>
   );
 }
+
+async function downloadZip(files: ArtifactFile[], fileName: string) {
+  const zip = writeZip(
+    files.map((file) => ({ name: file.path, data: file.content })),
+  );
+  if (window.__TAURI__) {
+    const result = await window.__TAURI__.dialog.save({
+      defaultPath: fileName,
+      filters: [{ name: "zip files", extensions: ["zip"] }],
+    });
+    if (result === null) return showToast(Locale.Download.Failed);
+    await window.__TAURI__.fs.writeBinaryFile(result, zip);
+    showToast(Locale.Download.Success);
+  } else {
+    const url = URL.createObjectURL(
+      new Blob([zip], { type: "application/zip" }),
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
+
+function ProjectChanges(props: {
+  files: ArtifactFile[];
+  previous?: ArtifactFile[];
+}) {
+  const changes = useMemo(() => {
+    if (!props.previous) return [];
+    const paths = Array.from(
+      new Set([...props.previous, ...props.files].map((f) => f.path)),
+    );
+    return paths
+      .map((path) => {
+        const before = props.previous?.find((f) => f.path === path);
+        const after = props.files.find((f) => f.path === path);
+        return {
+          path,
+          lines:
+            before?.content === after?.content
+              ? []
+              : diffLines(before?.content ?? "", after?.content ?? ""),
+        };
+      })
+      .filter((change) => change.lines.length > 0);
+  }, [props.files, props.previous]);
+
+  if (changes.length === 0) {
+    return (
+      <div className={styles["artifacts-project-empty"]}>
+        {Locale.Export.Artifacts.NoChanges}
+      </div>
+    );
+  }
+  return (
+    <>
+      {changes.map((change) => (
+        <div key={change.path} className={styles["artifacts-project-diff"]}>
+          <div className={styles["artifacts-project-path"]}>{change.path}</div>
+          <pre>
+            {change.lines.map((line, i) => (
+              <div key={i} className={styles[`diff-${line.type}`]}>
+                {line.type === "add" ? "+" : line.type === "remove" ? "-" : " "}{" "}
+                {line.text}
+              </div>
+            ))}
+          </pre>
+        </div>
+      ))}
+    </>
+  );
+}
+
+/**
+ * the file tagged code blocks of a reply run as one project, with the
+ * regenerated replies as versions
+ */
+export function ArtifactProject(props: {
+  versions: ChatMessage[];
+  active: number;
+}) {
+  const [selected, setSelected] = useState(props.active);
+  const [tab, setTab] = useState<"preview" | "files" | "changes">("preview");
+  const [filePath, setFilePath] = useState("");
+  const previewRef = useRef<HTMLPreviewHander>(null);
+  const { height } = useWindowSize();
+
+  // follow the reply when the branch is switched or regenerated
+  useEffect(() => setSelected(props.active), [props.active]);
+
+  const index = Math.min(Math.max(selected, 0), props.versions.length - 1);
+  const projects = useMemo(
+    () =>
+      props.versions.map((message) =>
+        parseProjectFiles(getMessageTextContent(message)),
+      ),
+    [props.versions],
+  );
+  const files = projects[index];
+  const html = useMemo(() => buildProjectHtml(files), [files]);
+  const file = files.find((f) => f.path === filePath) ?? files[0];
+
+  const tabs = [
+    ["preview", Locale.Export.Artifacts.Preview],
+    ["files", Locale.Export.Artifacts.Files],
+    ["changes", Locale.Export.Artifacts.Changes],
+  ] as const;
+
+  return (
+    <FullScreen className="no-dark html" right={10}>
+      <div className={styles["artifacts-project-header"]}>
+        {props.versions.length > 1 && (
+          <div className={styles["artifacts-project-versions"]}>
+            <span
+              className={clsx("clickable", {
+                [styles["disabled"]]: index === 0,
+              })}
+              onClick={() => setSelected(index - 1)}
+            >
+              ‹
+            </span>
+            <span>
+              {Locale.Export.Artifacts.Version(
+                index + 1,
+                props.versions.length,
+              )}
+            </span>
+            <span
+              className={clsx("clickable", {
+                [styles["disabled"]]: index === props.versions.length - 1,
+              })}
+              onClick={() => setSelected(index + 1)}
+            >
+              ›
+            </span>
+          </div>
+        )}
+        {tabs.map(([key, label]) => (
+          <span
+            key={key}
+            className={clsx(styles["artifacts-project-tab"], {
+              [styles["active"]]: tab === key,
+              [styles["disabled"]]: key === "changes" && index === 0,
+            })}
+            onClick={() => setTab(key)}
+          >
+            {label}
+          </span>
+        ))}
+        <div className={styles["artifacts-project-actions"]}>
+          <IconButton
+            bordered
+            icon={<ReloadButtonIcon />}
+            shadow
+            onClick={() => previewRef.current?.reload()}
+          />
+          <IconButton
+            bordered
+            icon={<DownloadIcon />}
+            title={Locale.Export.Artifacts.DownloadZip}
+            shadow
+            onClick={() => downloadZip(files, "artifacts.zip")}
+          />
+          <ArtifactsShareButton getCode={() => html} />
+        </div>
+      </div>
+      {tab === "preview" && (
+        <HTMLPreview
+          ref={previewRef}
+          code={html}
+          autoHeight={!document.fullscreenElement}
+          height={!document.fullscreenElement ? 600 : height}
+          onSendLogs={sendPreviewLogs}
+        />
+      )}
+      {tab === "files" && file && (
+        <div className={styles["artifacts-project-files"]}>
+          <div className={styles["artifacts-project-file-list"]}>
+            {files.map((f) => (
+              <div
+                key={f.path}
+                className={clsx(styles["artifacts-project-path"], {
+                  [styles["active"]]: f.path === file.path,
+                })}
+                onClick={() => setFilePath(f.path)}
+              >
+                {f.path}
+              </div>
+            ))}
+          </div>
+          <pre>
+            <code>{file.content}</code>
+          </pre>
+        </div>
+      )}
+      {tab === "changes" && (
+        <ProjectChanges files={files} previous={projects[index - 1]} />
+      )}
+    </FullScreen>
+  );
+}
+
+/** the project of the reply at `index`, when its code blocks make one */
+export function MessageArtifactProject(props: {
+  session: ChatSession;
+  index: number;
+  message: ChatMessage;
+}) {
+  const config = useAppConfig();
+  const enableArtifacts =
+    props.session.mask?.enableArtifacts !== false && config.enableArtifacts;
+  const isProject = useMemo(
+    () =>
+      isArtifactProject(
+        parseProjectFiles(getMessageTextContent(props.message)),
+      ),
+    [props.message],
+  );
+  const { messages, branches } = props.session;
+  const { versions, active } = useMemo(
+    () => getBranchVersions({ messages, branches }, props.index),
+    [messages, branches, props.index],
+  );
+  if (!enableArtifacts || !isProject || versions.length === 0) return null;
+  return <ArtifactProject versions={versions} active={active} />;
+}
@@ -1,4 +1,11 @@
 import DeleteIcon from "../icons/delete.svg";
+import PinIcon from "../icons/pin.svg";
+import EditIcon from "../icons/rename.svg";
+import AddIcon from "../icons/add.svg";
+import FolderIcon from "../icons/folder.svg";
+import DownIcon from "../icons/down.svg";
+import ConfirmIcon from "../icons/confirm.svg";
+import DownloadIcon from "../icons/download.svg";
 
 import styles from "./home.module.scss";
 import {
@@ -9,20 +16,42 @@ import {
 } from "@hello-pangea/dnd";
 
 import { useChatStore } from "../store";
+import { useSyncStore } from "../store/sync";
 
 import Locale from "../locales";
 import { useLocation, useNavigate } from "react-router-dom";
 import { Path } from "../constant";
 import { MaskAvatar } from "./mask";
 import { Mask } from "../store/mask";
-import { useRef, useEffect } from "react";
-import { showConfirm } from "./ui-lib";
+import { useRef, useEffect, useMemo, useState } from "react";
+import { Select, showConfirm, showPrompt } from "./ui-lib";
+import { IconButton } from "./button";
 import { useMobileScreen } from "../utils";
+import { getSessionMessageCount } from "../utils/session-storage";
+import {
+  ChatFolder,
+  getAllSessionModels,
+  getAllTags,
+  getChildFolders,
+  getFolderPath,
+  getVisibleFolders,
+  groupSessions,
+  parseTags,
+  ROOT_FOLDER,
+  SessionFilter,
+} from "../utils/folder";
 import clsx from "clsx";
 
+// droppable ids of the sidebar groups
+const FLAT_LIST = "chat-list";
+const PINNED_GROUP = "pinned";
+const FOLDER_GROUP = "folder:";
+
 export function ChatItem(props: {
   onClick?: () => void;
   onDelete?: () => void;
+  onPin?: () => void;
+  onEditTags?: () => void;
   title: string;
   count: number;
   time: string;
@@ -31,6 +60,12 @@ export function ChatItem(props: {
   index: number;
   narrow?: boolean;
   mask: Mask;
+  pinned?: boolean;
+  tags?: string[];
+  // bulk selection mode shows a checkbox instead of the actions
+  checked?: boolean;
+  onCheck?: (checked: boolean) => void;
+  dragDisabled?: boolean;
 }) {
   const draggableRef = useRef<HTMLDivElement | null>(null);
   useEffect(() => {
@@ -42,16 +77,25 @@ export function ChatItem(props: {
   }, [props.selected]);
 
   const { pathname: currentPath } = useLocation();
+  const selecting = !!props.onCheck;
   return (
-    <Draggable draggableId={`${props.id}`} index={props.index}>
+    <Draggable
+      draggableId={`${props.id}`}
+      index={props.index}
+      isDragDisabled={props.dragDisabled}
+    >
       {(provided) => (
         <div
           className={clsx(styles["chat-item"], {
             [styles["chat-item-selected"]]:
+              !selecting &&
               props.selected &&
               (currentPath === Path.Chat || currentPath === Path.Home),
+            [styles["chat-item-checked"]]: selecting && props.checked,
           })}
-          onClick={props.onClick}
+          onClick={
+            selecting ? () => props.onCheck?.(!props.checked) : props.onClick
+          }
           ref={(ele) => {
             draggableRef.current = ele;
             provided.innerRef(ele);
@@ -76,7 +120,26 @@ export function ChatItem(props: {
             </div>
           ) : (
             <>
-              <div className={styles["chat-item-title"]}>{props.title}</div>
+              <div className={styles["chat-item-title"]}>
+                {selecting && (
+                  <input
+                    type="checkbox"
+                    className={styles["chat-item-check"]}
+                    checked={!!props.checked}
+                    readOnly
+                  />
+                )}
+                {props.title}
+              </div>
+              {props.tags && props.tags.length > 0 && (
+                <div className={styles["chat-item-tags"]}>
+                  {props.tags.map((tag) => (
+                    <span className={styles["chat-item-tag"]} key={tag}>
+                      {tag}
+                    </span>
+                  ))}
+                </div>
+              )}
               <div className={styles["chat-item-info"]}>
                 <div className={styles["chat-item-count"]}>
                   {Locale.ChatItem.ChatItemCount(props.count)}
@@ -86,37 +149,145 @@ export function ChatItem(props: {
             </>
           )}
 
+          {!selecting && (
+            <div className={styles["chat-item-actions"]}>
+              {!props.narrow && (
+                <>
+                  <div
+                    className={clsx(styles["chat-item-action"], {
+                      [styles["chat-item-action-active"]]: props.pinned,
+                    })}
+                    title={
+                      props.pinned ? Locale.ChatItem.Unpin : Locale.ChatItem.Pin
+                    }
+                    onClickCapture={(e) => {
+                      props.onPin?.();
+                      e.preventDefault();
+                      e.stopPropagation();
+                    }}
+                  >
+                    <PinIcon />
+                  </div>
+                  <div
+                    className={styles["chat-item-action"]}
+                    title={Locale.ChatItem.Tags}
+                    onClickCapture={(e) => {
+                      props.onEditTags?.();
+                      e.preventDefault();
+                      e.stopPropagation();
+                    }}
+                  >
+                    <EditIcon />
+                  </div>
+                </>
+              )}
+              <div
+                className={styles["chat-item-action"]}
+                title={Locale.Home.DeleteChat}
+                onClickCapture={(e) => {
+                  props.onDelete?.();
+                  e.preventDefault();
+                  e.stopPropagation();
+                }}
+              >
+                <DeleteIcon />
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </Draggable>
+  );
+}
+
+function ChatGroup(props: {
+  droppableId: string;
+  title: string;
+  count: number;
+  collapsed: boolean;
+  onToggle: () => void;
+  actions?: JSX.Element;
+  items: JSX.Element[];
+  children?: JSX.Element[];
+}) {
+  return (
+    <div className={styles["chat-group"]}>
+      <div className={styles["chat-group-header"]} onClick={props.onToggle}>
+        <DownIcon
+          className={clsx(styles["chat-group-arrow"], {
+            [styles["chat-group-arrow-collapsed"]]: props.collapsed,
+          })}
+        />
+        <div className={styles["chat-group-title"]}>{props.title}</div>
+        <div className={styles["chat-group-count"]}>{props.count}</div>
+        {props.actions && (
           <div
-            className={styles["chat-item-delete"]}
-            onClickCapture={(e) => {
-              props.onDelete?.();
-              e.preventDefault();
-              e.stopPropagation();
-            }}
+            className={styles["chat-group-actions"]}
+            onClick={(e) => e.stopPropagation()}
           >
-            <DeleteIcon />
+            {props.actions}
           </div>
-        </div>
+        )}
+      </div>
+      {!props.collapsed && (
+        <>
+          {props.children}
+          <Droppable droppableId={props.droppableId}>
+            {(provided) => (
+              <div
+                className={styles["chat-group-list"]}
+                ref={provided.innerRef}
+                {...provided.droppableProps}
+              >
+                {props.items}
+                {provided.placeholder}
+              </div>
+            )}
+          </Droppable>
+        </>
       )}
-    </Draggable>
+    </div>
   );
 }
 
 export function ChatList(props: { narrow?: boolean }) {
-  const [sessions, selectedIndex, selectSession, moveSession] = useChatStore(
-    (state) => [
+  const [sessions, folders, selectedIndex, selectSession, moveSession] =
+    useChatStore((state) => [
       state.sessions,
+      state.folders,
       state.currentSessionIndex,
       state.selectSession,
       state.moveSession,
-    ],
-  );
+    ]);
   const chatStore = useChatStore();
   const navigate = useNavigate();
   const isMobileScreen = useMobileScreen();
 
+  const [filter, setFilter] = useState<SessionFilter>({});
+  const [collapsedGroups, setCollapsedGroups] = useState<string[]>([]);
+  const [selecting, setSelecting] = useState(false);
+  const [checked, setChecked] = useState<string[]>([]);
+
+  const filtering = !!filter.tag || !!filter.model;
+  const groups = useMemo(
+    () => groupSessions(sessions, folders, filter),
+    [sessions, folders, filter],
+  );
+  const tags = useMemo(() => getAllTags(sessions), [sessions]);
+  const models = useMemo(() => getAllSessionModels(sessions), [sessions]);
+
+  const getGroupIndexes = (droppableId: string) => {
+    if (droppableId === PINNED_GROUP) return groups.pinned;
+    return groups.folders[droppableId.slice(FOLDER_GROUP.length)] ?? [];
+  };
+
+  // sessions in a folder and all of its sub folders
+  const countFolder = (id: string): number =>
+    (groups.folders[id]?.length ?? 0) +
+    getChildFolders(folders, id).reduce((n, f) => n + countFolder(f.id), 0);
+
   const onDragEnd: OnDragEndResponder = (result) => {
-    const { destination, source } = result;
+    const { destination, source, draggableId } = result;
     if (!destination) {
       return;
     }
@@ -128,47 +299,317 @@ export function ChatList(props: { narrow?: boolean }) {
       return;
     }
 
-    moveSession(source.index, destination.index);
+    if (destination.droppableId === FLAT_LIST) {
+      moveSession(source.index, destination.index);
+      return;
+    }
+
+    // dropping into another group pins the session or moves it to the folder
+    if (destination.droppableId !== source.droppableId) {
+      if (destination.droppableId === PINNED_GROUP) {
+        chatStore.pinSessions([draggableId], true);
+      } else {
+        chatStore.moveSessionsToFolder(
+          [draggableId],
+          destination.droppableId.slice(FOLDER_GROUP.length) || undefined,
+        );
+      }
+    }
+
+    // groups keep the order of the session list, so move it next to its neighbors
+    const from = sessions.findIndex((s) => s.id === draggableId);
+    const target = getGroupIndexes(destination.droppableId).filter(
+      (i) => i !== from,
+    );
+    const before = target.at(destination.index);
+    const last = target.at(-1);
+    let to = from;
+    if (before !== undefined) {
+      to = before > from ? before - 1 : before;
+    } else if (last !== undefined) {
+      to = last > from ? last : last + 1;
+    }
+    if (from >= 0 && to !== from) {
+      moveSession(from, to);
+    }
+  };
+
+  const toggleGroup = (id: string) =>
+    setCollapsedGroups((groups) =>
+      groups.includes(id) ? groups.filter((v) => v !== id) : groups.concat(id),
+    );
+
+  const createFolder = async (parentId?: string) => {
+    const name = (await showPrompt(Locale.ChatItem.Folder.Name, "", 1)).trim();
+    if (name) chatStore.createFolder(name, parentId);
+  };
+
+  const renderItem = (i: number, index: number) => {
+    const item = sessions[i];
+    return (
+      <ChatItem
+        title={item.topic}
+        time={new Date(item.lastUpdate).toLocaleString()}
+        count={getSessionMessageCount(item)}
+        key={item.id}
+        id={item.id}
+        index={index}
+        selected={i === selectedIndex}
+        onClick={() => {
+          navigate(Path.Chat);
+          selectSession(i);
+        }}
+        onDelete={async () => {
+          if (
+            (!props.narrow && !isMobileScreen) ||
+            (await showConfirm(Locale.Home.DeleteChat))
+          ) {
+            chatStore.deleteSession(i);
+          }
+        }}
+        onPin={() => chatStore.pinSessions([item.id], !item.pinned)}
+        onEditTags={async () => {
+          const input = await showPrompt(
+            Locale.ChatItem.Tags,
+            (item.tags ?? []).join(", "),
+            1,
+          );
+          chatStore.setSessionTags(item.id, parseTags(input));
+        }}
+        narrow={props.narrow}
+        mask={item.mask}
+        pinned={item.pinned}
+        tags={item.tags}
+        checked={checked.includes(item.id)}
+        onCheck={
+          selecting
+            ? (value) =>
+                setChecked((ids) =>
+                  value
+                    ? ids.concat(item.id)
+                    : ids.filter((id) => id !== item.id),
+                )
+            : undefined
+        }
+        dragDisabled={filtering || selecting}
+      />
+    );
+  };
+
+  const renderFolder = (folder: ChatFolder): JSX.Element[] => {
+    const count = countFolder(folder.id);
+    if (filtering && count === 0) return [];
+    return [
+      <ChatGroup
+        key={folder.id}
+        droppableId={FOLDER_GROUP + folder.id}
+        title={folder.name}
+        count={count}
+        collapsed={!!folder.collapsed}
+        onToggle={() =>
+          chatStore.updateFolder(
+            folder.id,
+            (folder) => (folder.collapsed = !folder.collapsed),
+          )
+        }
+        actions={
+          <>
+            <div
+              className={styles["chat-item-action"]}
+              title={Locale.ChatItem.Folder.NewSub}
+              onClick={() => createFolder(folder.id)}
+            >
+              <AddIcon />
+            </div>
+            <div
+              className={styles["chat-item-action"]}
+              title={Locale.ChatItem.Folder.Rename}
+              onClick={async () => {
+                const name = (
+                  await showPrompt(Locale.ChatItem.Folder.Name, folder.name, 1)
+                ).trim();
+                if (name) {
+                  chatStore.updateFolder(folder.id, (f) => (f.name = name));
+                }
+              }}
+            >
+              <EditIcon />
+            </div>
+            <div
+              className={styles["chat-item-action"]}
+              title={Locale.ChatItem.Folder.Delete}
+              onClick={async () => {
+                if (await showConfirm(Locale.ChatItem.Folder.DeleteConfirm)) {
+                  chatStore.deleteFolder(folder.id);
+                }
+              }}
+            >
+              <DeleteIcon />
+            </div>
+          </>
+        }
+        items={(groups.folders[folder.id] ?? []).map(renderItem)}
+      >
+        {getChildFolders(folders, folder.id).flatMap((f) => renderFolder(f))}
+      </ChatGroup>,
+    ];
   };
 
+  if (props.narrow) {
+    return (
+      <DragDropContext onDragEnd={onDragEnd}>
+        <Droppable droppableId={FLAT_LIST}>
+          {(provided) => (
+            <div
+              className={styles["chat-list"]}
+              ref={provided.innerRef}
+              {...provided.droppableProps}
+            >
+              {sessions.map((_, i) => renderItem(i, i))}
+              {provided.placeholder}
+            </div>
+          )}
+        </Droppable>
+      </DragDropContext>
+    );
+  }
+
+  const allPinned = checked.every(
+    (id) => sessions.find((s) => s.id === id)?.pinned,
+  );
+
   return (
-    <DragDropContext onDragEnd={onDragEnd}>
-      <Droppable droppableId="chat-list">
-        {(provided) => (
-          <div
-            className={styles["chat-list"]}
-            ref={provided.innerRef}
-            {...provided.droppableProps}
+    <div className={styles["chat-list"]}>
+      <div className={styles["chat-list-toolbar"]}>
+        {tags.length > 0 && (
+          <Select
+            aria-label={Locale.ChatItem.Filter.AllTags}
+            value={filter.tag ?? ""}
+            onChange={(e) =>
+              setFilter({ ...filter, tag: e.currentTarget.value || undefined })
+            }
           >
-            {sessions.map((item, i) => (
-              <ChatItem
-                title={item.topic}
-                time={new Date(item.lastUpdate).toLocaleString()}
-                count={item.messages.length}
-                key={item.id}
-                id={item.id}
-                index={i}
-                selected={i === selectedIndex}
-                onClick={() => {
-                  navigate(Path.Chat);
-                  selectSession(i);
-                }}
-                onDelete={async () => {
-                  if (
-                    (!props.narrow && !isMobileScreen) ||
-                    (await showConfirm(Locale.Home.DeleteChat))
-                  ) {
-                    chatStore.deleteSession(i);
-                  }
-                }}
-                narrow={props.narrow}
-                mask={item.mask}
-              />
+            <option value="">{Locale.ChatItem.Filter.AllTags}</option>
+            {tags.map((tag) => (
+              <option value={tag} key={tag}>
+                {tag}
+              </option>
             ))}
-            {provided.placeholder}
-          </div>
+          </Select>
+        )}
+        {models.length > 1 && (
+          <Select
+            aria-label={Locale.ChatItem.Filter.AllModels}
+            value={filter.model ?? ""}
+            onChange={(e) =>
+              setFilter({
+                ...filter,
+                model: e.currentTarget.value || undefined,
+              })
+            }
+          >
+            <option value="">{Locale.ChatItem.Filter.AllModels}</option>
+            {models.map((model) => (
+              <option value={model} key={model}>
+                {model}
+              </option>
+            ))}
+          </Select>
+        )}
+        <IconButton
+          icon={<FolderIcon />}
+          title={Locale.ChatItem.Folder.New}
+          onClick={() => createFolder()}
+          shadow
+        />
+        <IconButton
+          icon={<ConfirmIcon />}
+          title={Locale.ChatItem.Bulk.Select}
+          onClick={() => {
+            setSelecting(!selecting);
+            setChecked([]);
+          }}
+          shadow
+        />
+      </div>
+
+      {selecting && (
+        <div className={styles["chat-list-bulk"]}>
+          <span>{Locale.ChatItem.Bulk.Selected(checked.length)}</span>
+          <Select
+            aria-label={Locale.ChatItem.Bulk.MoveTo}
+            value=""
+            disabled={checked.length === 0}
+            onChange={(e) => {
+              chatStore.moveSessionsToFolder(
+                checked,
+                e.currentTarget.value.slice(FOLDER_GROUP.length) || undefined,
+              );
+            }}
+          >
+            <option value="" disabled>
+              {Locale.ChatItem.Bulk.MoveTo}
+            </option>
+            <option value={FOLDER_GROUP + ROOT_FOLDER}>
+              {Locale.ChatItem.Bulk.Root}
+            </option>
+            {getVisibleFolders(folders).map((f) => (
+              <option value={FOLDER_GROUP + f.id} key={f.id}>
+                {getFolderPath(folders, f.id)}
+              </option>
+            ))}
+          </Select>
+          <IconButton
+            icon={<PinIcon />}
+            title={allPinned ? Locale.ChatItem.Unpin : Locale.ChatItem.Pin}
+            disabled={checked.length === 0}
+            onClick={() => chatStore.pinSessions(checked, !allPinned)}
+          />
+          <IconButton
+            icon={<DownloadIcon />}
+            title={Locale.ChatItem.Bulk.Export}
+            disabled={checked.length === 0}
+            onClick={() => useSyncStore.getState().export(checked)}
+          />
+          <IconButton
+            icon={<DeleteIcon />}
+            title={Locale.ChatItem.Bulk.Delete}
+            disabled={checked.length === 0}
+            onClick={async () => {
+              if (
+                await showConfirm(
+                  Locale.ChatItem.Bulk.DeleteConfirm(checked.length),
+                )
+              ) {
+                chatStore.deleteSessions(checked);
+                setChecked([]);
+              }
+            }}
+          />
+        </div>
+      )}
+
+      <DragDropContext onDragEnd={onDragEnd}>
+        {groups.pinned.length > 0 && (
+          <ChatGroup
+            droppableId={PINNED_GROUP}
+            title={Locale.ChatItem.Pinned}
+            count={groups.pinned.length}
+            collapsed={collapsedGroups.includes(PINNED_GROUP)}
+            onToggle={() => toggleGroup(PINNED_GROUP)}
+            items={groups.pinned.map(renderItem)}
+          />
         )}
-      </Droppable>
-    </DragDropContext>
+        {getChildFolders(folders).flatMap((f) => renderFolder(f))}
+        <ChatGroup
+          droppableId={FOLDER_GROUP + ROOT_FOLDER}
+          title={Locale.ChatItem.Ungrouped}
+          count={groups.folders[ROOT_FOLDER].length}
+          collapsed={collapsedGroups.includes(ROOT_FOLDER)}
+          onToggle={() => toggleGroup(ROOT_FOLDER)}
+          items={groups.folders[ROOT_FOLDER].map(renderItem)}
+        />
+      </DragDropContext>
+    </div>
   );
 }
@@ -47,7 +47,14 @@ import StyleIcon from "../icons/palette.svg";
 import PluginIcon from "../icons/plugin.svg";
 import ShortcutkeyIcon from "../icons/shortcutkey.svg";
 import McpToolIcon from "../icons/tool.svg";
+import McpIcon from "../icons/mcp.svg";
 import HeadphoneIcon from "../icons/headphone.svg";
+import CompareIcon from "../icons/compare.svg";
+import ContinueIcon from "../icons/play.svg";
+import DownIcon from "../icons/down.svg";
+import UploadIcon from "../icons/upload.svg";
+import VoiceIcon from "../icons/voice.svg";
+import VoiceOffIcon from "../icons/voice-off.svg";
 import {
   BOT_HELLO,
   ChatMessage,
@@ -61,6 +68,22 @@ import {
   useChatStore,
   usePluginStore,
 } from "../store";
+import { useMessageStore } from "../store/message";
+import { LiveMessage } from "./live-message";
+import { canContinue } from "../utils/continue";
+import type { ChatReasoning } from "../utils/reasoning";
+import {
+  ChatAttachment,
+  createAttachment,
+  DOCUMENT_ACCEPT,
+  formatFileSize,
+  getAttachmentTokens,
+  isDocumentFile,
+  MAX_DOCUMENTS,
+  MAX_DOCUMENT_SIZE,
+} from "../utils/document";
+import { getPromptTokenBudget } from "../utils/token";
+import { removeFile, uploadFile } from "../utils/chat";
 
 import {
   autoGrowTextArea,
@@ -99,8 +122,8 @@ import {
 import { useNavigate } from "react-router-dom";
 import {
   CHAT_PAGE_SIZE,
-  DEFAULT_TTS_ENGINE,
-  ModelProvider,
+  DEFAULT_MODELS,
+  getModelContextWindow,
   Path,
   REQUEST_TIMEOUT_MS,
   ServiceProvider,
@@ -112,51 +135,116 @@ import { useMaskStore } from "../store/mask";
 import { ChatCommandPrefix, useChatCommand, useCommand } from "../command";
 import { prettyObject } from "../utils/format";
 import { ExportMessageModal } from "./exporter";
+import { MessageArtifactProject } from "./artifacts";
 import { getClientConfig } from "../config/client";
 import { useAllModels } from "../utils/hooks";
-import { ClientApi, MultimodalContent } from "../client/api";
-import { createTTSPlayer } from "../utils/audio";
-import { MsEdgeTTS, OUTPUT_FORMAT } from "../utils/ms_edge_tts";
+import { MultimodalContent, TokenUsage } from "../client/api";
+import { speechReader } from "../utils/audio";
+import { AudioHandler } from "../lib/audio";
+import { MIN_SPEECH_MS, transcribe } from "../utils/stt";
+import { VoicePrint } from "./voice-print";
 
 import { isEmpty } from "lodash-es";
 import { getModelProvider } from "../utils/model";
+import { getBranchInfo } from "../utils/branch";
+import {
+  formatCost,
+  formatTokens,
+  getTotalTokens,
+  getUsageCost,
+} from "../utils/usage";
 import { RealtimeChat } from "@/app/components/realtime-chat";
 import clsx from "clsx";
-import { getAvailableClientsCount, isMcpEnabled } from "../mcp/actions";
+import { getMcpPrompt, isMcpEnabled, readMcpResource } from "../mcp/actions";
+import { McpResource } from "../mcp/types";
+import {
+  createResourceAttachment,
+  getPromptContent,
+  McpClientPrompt,
+  searchMcpPrompts,
+} from "../mcp/utils";
+import { ToolApprovalCard } from "./tool-approval";
+import {
+  McpPromptModal,
+  McpResourceSelector,
+  McpScopeModal,
+  useMcpPrompts,
+  useMcpResourceRefresh,
+} from "./mcp-context";
 
 const localStorage = safeLocalStorage();
 
-const ttsPlayer = createTTSPlayer();
-
 const Markdown = dynamic(async () => (await import("./markdown")).Markdown, {
   loading: () => <LoadingIcon />,
 });
 
+// the mcp servers and tools of the current session
 const MCPAction = () => {
-  const navigate = useNavigate();
-  const [count, setCount] = useState<number>(0);
+  const chatStore = useChatStore();
+  const session = chatStore.currentSession();
   const [mcpEnabled, setMcpEnabled] = useState(false);
+  const [showScope, setShowScope] = useState(false);
+  // all servers are in scope when none are chosen
+  const count = session.mask.mcpServers?.length;
 
   useEffect(() => {
-    const checkMcpStatus = async () => {
-      const enabled = await isMcpEnabled();
-      setMcpEnabled(enabled);
-      if (enabled) {
-        const count = await getAvailableClientsCount();
-        setCount(count);
-      }
-    };
-    checkMcpStatus();
+    isMcpEnabled().then(setMcpEnabled);
+  }, []);
+
+  if (!mcpEnabled) return null;
+
+  return (
+    <>
+      <ChatAction
+        onClick={() => setShowScope(true)}
+        text={`MCP${count !== undefined ? ` (${count})` : ""}`}
+        icon={<McpToolIcon />}
+      />
+      {showScope && (
+        <McpScopeModal
+          scope={session.mask}
+          providerName={session.mask.modelConfig.providerName}
+          onClose={() => setShowScope(false)}
+          onSave={({ mcpServers, mcpTools }) =>
+            chatStore.updateTargetSession(session, (session) => {
+              session.mask.mcpServers = mcpServers;
+              session.mask.mcpTools = mcpTools;
+            })
+          }
+        />
+      )}
+    </>
+  );
+};
+
+const McpResourceAction = (props: {
+  servers?: string[];
+  onSelect: (clientId: string, resource: McpResource) => void;
+}) => {
+  const [mcpEnabled, setMcpEnabled] = useState(false);
+  const [showSelector, setShowSelector] = useState(false);
+
+  useEffect(() => {
+    isMcpEnabled().then(setMcpEnabled);
   }, []);
 
   if (!mcpEnabled) return null;
 
   return (
-    <ChatAction
-      onClick={() => navigate(Path.McpMarket)}
-      text={`MCP${count ? ` (${count})` : ""}`}
-      icon={<McpToolIcon />}
-    />
+    <>
+      <ChatAction
+        onClick={() => setShowSelector(true)}
+        text={Locale.Chat.InputActions.McpResources}
+        icon={<McpIcon />}
+      />
+      {showSelector && (
+        <McpResourceSelector
+          servers={props.servers}
+          onClose={() => setShowSelector(false)}
+          onSelect={props.onSelect}
+        />
+      )}
+    </>
   );
 };
 
@@ -305,7 +393,10 @@ function useSubmitHandler() {
   };
 }
 
-export type RenderPrompt = Pick<Prompt, "title" | "content">;
+export type RenderPrompt = Pick<Prompt, "title" | "content"> & {
+  // prompts of the mcp servers are filled in by their server
+  mcp?: McpClientPrompt;
+};
 
 export function PromptHints(props: {
   prompts: RenderPrompt[];
@@ -377,6 +468,151 @@ export function PromptHints(props: {
   );
 }
 
+function getUsageSummary(usage: TokenUsage, cost?: number) {
+  return Locale.Chat.Usage.Summary(
+    formatTokens(getTotalTokens(usage)),
+    cost ? formatCost(cost) : undefined,
+  );
+}
+
+// thinking of a reasoning model, open while it streams, collapsed after
+function ReasoningPanel(props: {
+  reasoning: ChatReasoning;
+  fontSize: number;
+  fontFamily: string;
+  parentRef: RefObject<HTMLDivElement | null>;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const { reasoning } = props;
+  const thinking = reasoning.duration === undefined;
+  const open = expanded || thinking;
+
+  return (
+    <div className={styles["chat-message-reasoning"]}>
+      <div
+        className={styles["chat-message-reasoning-header"]}
+        onClick={() => setExpanded(!open)}
+      >
+        <BrainIcon />
+        <span>
+          {thinking
+            ? Locale.Chat.Reasoning.Thinking
+            : Locale.Chat.Reasoning.Thought(
+                Math.max(1, Math.round(reasoning.duration! / 1000)),
+              )}
+          {reasoning.tokens !== undefined &&
+            " · " +
+              Locale.Chat.Reasoning.Tokens(formatTokens(reasoning.tokens))}
+        </span>
+        <DownIcon
+          className={clsx(styles["chat-message-reasoning-arrow"], {
+            [styles["chat-message-reasoning-arrow-collapsed"]]: !open,
+          })}
+        />
+      </div>
+      {open && (
+        <div className={styles["chat-message-reasoning-content"]}>
+          <Markdown
+            content={reasoning.content}
+            fontSize={props.fontSize}
+            fontFamily={props.fontFamily}
+            parentRef={props.parentRef}
+            defaultShow
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CompareMessages(props: {
+  messages: ChatMessage[];
+  fontSize: number;
+  fontFamily: string;
+  parentRef: RefObject<HTMLDivElement | null>;
+}) {
+  const chatStore = useChatStore();
+  const session = chatStore.currentSession();
+
+  return (
+    <div className={styles["chat-compare"]}>
+      {props.messages.map((message) => (
+        <LiveMessage key={message.id} message={message}>
+          {(message) => (
+            <div className={styles["chat-compare-column"]}>
+              <div className={styles["chat-message-header"]}>
+                <div className={styles["chat-message-avatar"]}>
+                  <MaskAvatar
+                    avatar={session.mask.avatar}
+                    model={message.model || session.mask.modelConfig.model}
+                  />
+                </div>
+                <div className={styles["chat-model-name"]}>
+                  {message.model}
+                  {message.providerName && ` (${message.providerName})`}
+                </div>
+              </div>
+              {message.reasoning && (
+                <ReasoningPanel
+                  reasoning={message.reasoning}
+                  fontSize={props.fontSize}
+                  fontFamily={props.fontFamily}
+                  parentRef={props.parentRef}
+                />
+              )}
+              <div className={styles["chat-message-item"]}>
+                <Markdown
+                  key={message.streaming ? "loading" : "done"}
+                  content={getMessageTextContent(message)}
+                  citations={message.citations}
+                  loading={message.streaming && message.content.length === 0}
+                  fontSize={props.fontSize}
+                  fontFamily={props.fontFamily}
+                  parentRef={props.parentRef}
+                  defaultShow
+                />
+              </div>
+              <div className={styles["chat-message-action-date"]}>
+                {message.usage &&
+                  getUsageSummary(
+                    message.usage,
+                    getUsageCost(message.model ?? "", message.usage),
+                  )}
+              </div>
+              <div className={styles["chat-compare-actions"]}>
+                {message.streaming ? (
+                  <ChatAction
+                    text={Locale.Chat.Actions.Stop}
+                    icon={<StopIcon />}
+                    onClick={() =>
+                      ChatControllerPool.stop(session.id, message.id)
+                    }
+                  />
+                ) : (
+                  <ChatAction
+                    text={Locale.Chat.Compare.Pick}
+                    icon={<ConfirmIcon />}
+                    onClick={() =>
+                      chatStore.pickCompareWinner(session, message.id)
+                    }
+                  />
+                )}
+                <ChatAction
+                  text={Locale.Chat.Actions.Copy}
+                  icon={<CopyIcon />}
+                  onClick={() =>
+                    copyToClipboard(getMessageTextContent(message))
+                  }
+                />
+              </div>
+            </div>
+          )}
+        </LiveMessage>
+      ))}
+    </div>
+  );
+}
+
 function ClearContextDivider() {
   const chatStore = useChatStore();
   const session = chatStore.currentSession();
@@ -403,6 +639,9 @@ export function ChatAction(props: {
   text: string;
   icon: JSX.Element;
   onClick: () => void;
+  // for buttons that are held down
+  onPressStart?: () => void;
+  onPressEnd?: () => void;
 }) {
   const iconRef = useRef<HTMLDivElement>(null);
   const textRef = useRef<HTMLDivElement>(null);
@@ -431,6 +670,9 @@ export function ChatAction(props: {
       }}
       onMouseEnter={updateWidth}
       onTouchStart={updateWidth}
+      onPointerDown={props.onPressStart}
+      onPointerUp={props.onPressEnd}
+      onPointerLeave={props.onPressEnd}
       style={
         {
           "--icon-width": `${width.icon}px`,
@@ -472,6 +714,12 @@ function useScrollToBottom(
     }
   });
 
+  // streamed chunks do not re-render the chat, follow them as well
+  useEffect(() => {
+    if (!autoScroll || detach) return;
+    return useMessageStore.subscribe(scrollDomToBottom);
+  }, [autoScroll, detach, scrollDomToBottom]);
+
   // auto scroll when messages length changes
   const lastMessagesLength = useRef(messages.length);
   useEffect(() => {
@@ -489,8 +737,104 @@ function useScrollToBottom(
   };
 }
 
+// records with the microphone and hands the transcript to `onTranscript`
+function useVoiceInput(onTranscript: (text: string) => void) {
+  const sttConfig = useAppConfig().sttConfig;
+  const [recording, setRecording] = useState(false);
+  const [transcribing, setTranscribing] = useState(false);
+  const [frequencies, setFrequencies] = useState<Uint8Array>();
+  // resolves to the handler once the microphone is open
+  const startRef = useRef<Promise<AudioHandler | undefined> | undefined>(
+    undefined,
+  );
+  const onTranscriptRef = useRef(onTranscript);
+  onTranscriptRef.current = onTranscript;
+
+  const start = () => {
+    if (startRef.current || transcribing) return;
+    const handler = new AudioHandler();
+    startRef.current = handler
+      .startRecording(() => {})
+      .then(() => {
+        setRecording(true);
+        return handler;
+      })
+      .catch((e) => {
+        console.error("[STT] failed to record", e);
+        showToast(Locale.Chat.InputActions.Voice.NoMicrophone);
+        handler.close().catch(console.error);
+        startRef.current = undefined;
+        return undefined;
+      });
+  };
+
+  const stop = async () => {
+    const starting = startRef.current;
+    if (!starting) return;
+    const handler = await starting;
+    startRef.current = undefined;
+    setRecording(false);
+    if (!handler) return;
+
+    handler.stopRecording();
+    const recorded = handler.saveRecordFile(undefined, undefined);
+    handler.close().catch(console.error);
+    // 16 bit samples at 24khz after the 44 bytes of wav header
+    if (recorded.size - 44 < (24000 * 2 * MIN_SPEECH_MS) / 1000) return;
+
+    setTranscribing(true);
+    try {
+      const audio = new File([recorded], "speech.wav", { type: "audio/wav" });
+      const text = (await transcribe(audio, sttConfig)).trim();
+      if (text) onTranscriptRef.current(text);
+    } catch (e) {
+      console.error("[STT] failed to transcribe", e);
+      showToast(Locale.Chat.InputActions.Voice.Failed((e as Error).message));
+    } finally {
+      setTranscribing(false);
+    }
+  };
+
+  // live waveform while recording
+  useEffect(() => {
+    if (!recording) {
+      setFrequencies(undefined);
+      return;
+    }
+    let handler: AudioHandler | undefined;
+    startRef.current?.then((h) => (handler = h));
+    let animationFrameId = requestAnimationFrame(function animationFrame() {
+      if (handler) setFrequencies(handler.getByteFrequencyData().slice());
+      animationFrameId = requestAnimationFrame(animationFrame);
+    });
+    return () => cancelAnimationFrame(animationFrameId);
+  }, [recording]);
+
+  // release the microphone when leaving the chat
+  useEffect(
+    () => () => {
+      startRef.current?.then((handler) => {
+        handler?.close().catch(console.error);
+      });
+    },
+    [],
+  );
+
+  return {
+    enabled: sttConfig.enable,
+    pushToTalk: sttConfig.pushToTalk,
+    recording,
+    transcribing,
+    frequencies,
+    start,
+    stop,
+  };
+}
+
 export function ChatActions(props: {
   uploadImage: () => void;
+  uploadDocument: () => void;
+  attachMcpResource: (clientId: string, resource: McpResource) => void;
   setAttachImages: (images: string[]) => void;
   setUploading: (uploading: boolean) => void;
   showPromptModal: () => void;
@@ -501,12 +845,14 @@ export function ChatActions(props: {
   setShowShortcutKeyModal: React.Dispatch<React.SetStateAction<boolean>>;
   setUserInput: (input: string) => void;
   setShowChatSidePanel: React.Dispatch<React.SetStateAction<boolean>>;
+  voiceInput: ReturnType<typeof useVoiceInput>;
 }) {
   const config = useAppConfig();
   const navigate = useNavigate();
   const chatStore = useChatStore();
   const pluginStore = usePluginStore();
   const session = chatStore.currentSession();
+  const { voiceInput } = props;
 
   // switch themes
   const theme = config.theme;
@@ -551,6 +897,7 @@ export function ChatActions(props: {
     return model?.displayName ?? "";
   }, [models, currentModel, currentProviderName]);
   const [showModelSelector, setShowModelSelector] = useState(false);
+  const [showCompareSelector, setShowCompareSelector] = useState(false);
   const [showPluginSelector, setShowPluginSelector] = useState(false);
   const [showUploadImage, setShowUploadImage] = useState(false);
 
@@ -626,6 +973,15 @@ export function ChatActions(props: {
             icon={props.uploading ? <LoadingButtonIcon /> : <ImageIcon />}
           />
         )}
+        <ChatAction
+          onClick={props.uploadDocument}
+          text={Locale.Chat.InputActions.UploadFile}
+          icon={props.uploading ? <LoadingButtonIcon /> : <UploadIcon />}
+        />
+        <McpResourceAction
+          servers={session.mask.mcpServers}
+          onSelect={props.attachMcpResource}
+        />
         <ChatAction
           onClick={nextTheme}
           text={Locale.Chat.InputActions.Theme[theme]}
@@ -761,6 +1117,37 @@ export function ChatActions(props: {
           />
         )}
 
+        <ChatAction
+          onClick={() => setShowCompareSelector(true)}
+          text={
+            (session.compareModels?.length ?? 0) > 1
+              ? Locale.Chat.Compare.Title(session.compareModels!.length)
+              : Locale.Chat.InputActions.Compare
+          }
+          icon={<CompareIcon />}
+        />
+
+        {showCompareSelector && (
+          <Selector
+            multiple
+            defaultSelectedValue={session.compareModels ?? []}
+            items={models.map((m) => ({
+              title: `${m.displayName}${
+                m?.provider?.providerName
+                  ? " (" + m?.provider?.providerName + ")"
+                  : ""
+              }`,
+              value: `${m.name}@${m?.provider?.providerName}`,
+            }))}
+            onClose={() => setShowCompareSelector(false)}
+            onSelection={(s) => {
+              chatStore.updateTargetSession(session, (session) => {
+                session.compareModels = s;
+              });
+            }}
+          />
+        )}
+
         {supportsCustomSize(currentModel) && (
           <ChatAction
             onClick={() => setShowSizeSelector(true)}
@@ -882,6 +1269,38 @@ export function ChatActions(props: {
         {!isMobileScreen && <MCPAction />}
       </>
       <div className={styles["chat-input-actions-end"]}>
+        {voiceInput.enabled && (
+          <ChatAction
+            onClick={() => {
+              if (voiceInput.pushToTalk) return;
+              voiceInput.recording ? voiceInput.stop() : voiceInput.start();
+            }}
+            onPressStart={
+              voiceInput.pushToTalk ? () => voiceInput.start() : undefined
+            }
+            onPressEnd={
+              voiceInput.pushToTalk ? () => voiceInput.stop() : undefined
+            }
+            text={
+              voiceInput.transcribing
+                ? Locale.Chat.InputActions.Voice.Transcribing
+                : voiceInput.recording
+                ? Locale.Chat.InputActions.Voice.Stop
+                : voiceInput.pushToTalk
+                ? Locale.Chat.InputActions.Voice.Hold
+                : Locale.Chat.InputActions.Voice.Start
+            }
+            icon={
+              voiceInput.transcribing ? (
+                <LoadingButtonIcon />
+              ) : voiceInput.recording ? (
+                <VoiceOffIcon />
+              ) : (
+                <VoiceIcon />
+              )
+            }
+          />
+        )}
         {config.realtimeConfig.enable && (
           <ChatAction
             onClick={() => props.setShowChatSidePanel(true)}
@@ -966,6 +1385,49 @@ export function DeleteImageButton(props: { deleteImage: () => void }) {
   );
 }
 
+export function AttachmentChips(props: {
+  attachments: ChatAttachment[];
+  onRemove?: (index: number) => void;
+}) {
+  return (
+    <div className={styles["chat-attachments"]}>
+      {props.attachments.map((attachment, index) => (
+        <a
+          key={index}
+          className={styles["chat-attachment"]}
+          href={attachment.url}
+          target="_blank"
+          rel="noreferrer"
+          title={attachment.name}
+        >
+          <span className={styles["chat-attachment-name"]}>
+            {attachment.name}
+          </span>
+          <span className={styles["chat-attachment-info"]}>
+            {formatFileSize(attachment.size)} ·{" "}
+            {Locale.Chat.Attachments.Tokens(formatTokens(attachment.tokens))}
+          </span>
+          {props.onRemove && (
+            <span
+              className={styles["chat-attachment-remove"]}
+              onClick={(e) => {
+                e.preventDefault();
+                props.onRemove?.(index);
+              }}
+            >
+              <CloseIcon />
+            </span>
+          )}
+        </a>
+      ))}
+    </div>
+  );
+}
+
+// attachments past this share of the prompt budget leave little room for
+// the conversation, the user is warned before sending
+const ATTACHMENT_BUDGET_SHARE = 0.5;
+
 export function ShortcutKeyModal(props: { onClose: () => void }) {
   const isMac =
     typeof navigator !== "undefined" &&
@@ -1081,15 +1543,26 @@ function ChatView() {
   const isMobileScreen = useMobileScreen();
   const navigate = useNavigate();
   const [attachImages, setAttachImages] = useState<string[]>([]);
+  const [attachFiles, setAttachFiles] = useState<ChatAttachment[]>([]);
   const [uploading, setUploading] = useState(false);
 
   // prompt hints
   const promptStore = usePromptStore();
   const [promptHints, setPromptHints] = useState<RenderPrompt[]>([]);
+  const mcpPrompts = useMcpPrompts(session.mask.mcpServers);
+  const [mcpPrompt, setMcpPrompt] = useState<McpClientPrompt>();
   const onSearch = useDebouncedCallback(
     (text: string) => {
-      const matchedPrompts = promptStore.search(text);
-      setPromptHints(matchedPrompts);
+      const matchedPrompts: RenderPrompt[] = promptStore.search(text);
+      setPromptHints(
+        matchedPrompts.concat(
+          searchMcpPrompts(mcpPrompts.prompts, text).map((prompt) => ({
+            title: `${prompt.title || prompt.name} (${prompt.clientId})`,
+            content: prompt.description ?? "",
+            mcp: prompt,
+          })),
+        ),
+      );
     },
     100,
     { leading: true, trailing: true },
@@ -1145,6 +1618,7 @@ function ChatView() {
     } else if (!config.disablePromptHint && n < SEARCH_TEXT_LIMIT) {
       // check if need to trigger auto completion
       if (text.startsWith("/")) {
+        if (text === "/") mcpPrompts.reload();
         let searchText = text.slice(1);
         onSearch(searchText);
       }
@@ -1152,7 +1626,13 @@ function ChatView() {
   };
 
   const doSubmit = (userInput: string) => {
-    if (userInput.trim() === "" && isEmpty(attachImages)) return;
+    if (
+      userInput.trim() === "" &&
+      isEmpty(attachImages) &&
+      isEmpty(attachFiles)
+    ) {
+      return;
+    }
 
     console.log("[doSubmit] Called with:", {
       userInput: userInput?.substring(0, 50) + "...",
@@ -1169,11 +1649,17 @@ function ChatView() {
       matchCommand.invoke();
       return;
     }
+    // keep the input until an answer of the comparison is picked
+    if (session.messages.some((m) => m.compareId)) {
+      showToast(Locale.Chat.Compare.PickFirst);
+      return;
+    }
     setIsLoading(true);
     chatStore
-      .onUserInput(userInput, attachImages)
+      .onUserInput(userInput, attachImages, attachFiles)
       .then(() => setIsLoading(false));
     setAttachImages([]);
+    setAttachFiles([]);
     chatStore.setLastInput(userInput);
     setUserInput("");
     setPromptHints([]);
@@ -1181,10 +1667,30 @@ function ChatView() {
     setAutoScroll(true);
   };
 
+  // dictated text goes after what is already typed
+  const voiceInput = useVoiceInput((text) => {
+    const input = [userInput.trimEnd(), text].filter((t) => t).join(" ");
+    if (config.sttConfig.autoSubmit) {
+      doSubmit(input);
+    } else {
+      setUserInput(input);
+      inputRef.current?.focus();
+    }
+  });
+
   const onPromptSelect = (prompt: RenderPrompt) => {
     setTimeout(() => {
       setPromptHints([]);
 
+      if (prompt.mcp) {
+        if (prompt.mcp.arguments?.length) {
+          setMcpPrompt(prompt.mcp);
+        } else {
+          applyMcpPrompt(prompt.mcp, {});
+        }
+        return;
+      }
+
       const matchedChatCommand = chatCommands.match(prompt.content);
       if (matchedChatCommand.matched) {
         // if user is selecting a chat command, just trigger it
@@ -1198,6 +1704,38 @@ function ChatView() {
     }, 30);
   };
 
+  // the prompt of an mcp server goes into the input, with the resources
+  // it embeds attached
+  const applyMcpPrompt = async (
+    prompt: McpClientPrompt,
+    args: Record<string, string>,
+  ) => {
+    setMcpPrompt(undefined);
+    try {
+      const messages = await getMcpPrompt(prompt.clientId, prompt.name, args);
+      const { text, resources } = getPromptContent(messages);
+      setUserInput(text);
+      if (resources.length > 0) {
+        setAttachFiles((attachments) =>
+          attachments
+            .concat(
+              resources.map((resource) =>
+                createResourceAttachment(
+                  { uri: resource.uri, name: resource.uri },
+                  [resource],
+                ),
+              ),
+            )
+            .slice(0, MAX_DOCUMENTS),
+        );
+      }
+      inputRef.current?.focus();
+    } catch (e) {
+      console.error("[MCP] failed to get prompt", prompt.name, e);
+      showToast(Locale.Mcp.PromptFailed(prompt.title || prompt.name));
+    }
+  };
+
   // stop response
   const onUserStop = (messageId: string) => {
     ChatControllerPool.stop(session.id, messageId);
@@ -1272,12 +1810,25 @@ function ChatView() {
     deleteMessage(msgId);
   };
 
+  const onRepair = (message: ChatMessage) => {
+    const index = session.messages.findIndex((m) => m.id === message.id);
+    if (index < 0) return;
+    setIsLoading(true);
+    chatStore.onRepair(index).then(() => setIsLoading(false));
+  };
+
+  const onContinue = (message: ChatMessage) => {
+    const index = session.messages.findIndex((m) => m.id === message.id);
+    if (index < 0) return;
+    setIsLoading(true);
+    chatStore.onContinue(index).then(() => setIsLoading(false));
+  };
+
   const onResend = (message: ChatMessage) => {
     // when it is resending a message
-    // 1. for a user's message, find the next bot response
-    // 2. for a bot's message, find the last user's input
-    // 3. delete original user input and bot's message
-    // 4. resend the user's input
+    // 1. for a bot's message, regenerate it as a new sibling branch
+    // 2. for a user's message, stash it with the following messages
+    //    and resend the user's input in a new sibling branch
 
     const resendingIndex = session.messages.findIndex(
       (m) => m.id === message.id,
@@ -1288,44 +1839,78 @@ function ChatView() {
       return;
     }
 
-    let userMessage: ChatMessage | undefined;
-    let botMessage: ChatMessage | undefined;
-
     if (message.role === "assistant") {
-      // if it is resending a bot's message, find the user input for it
-      botMessage = message;
-      for (let i = resendingIndex; i >= 0; i -= 1) {
-        if (session.messages[i].role === "user") {
-          userMessage = session.messages[i];
-          break;
-        }
-      }
+      setIsLoading(true);
+      chatStore.onRegenerate(resendingIndex).then(() => setIsLoading(false));
     } else if (message.role === "user") {
-      // if it is resending a user's input, find the bot's response
-      userMessage = message;
-      for (let i = resendingIndex; i < session.messages.length; i += 1) {
-        if (session.messages[i].role === "assistant") {
-          botMessage = session.messages[i];
-          break;
-        }
+      chatStore.branchSession(session, resendingIndex);
+
+      setIsLoading(true);
+      const textContent = getMessageTextContent(message);
+      const images = getMessageImages(message);
+      chatStore
+        .onUserInput(textContent, images, message.attachments)
+        .then(() => setIsLoading(false));
+    } else {
+      console.error("[Chat] failed to resend", message);
+      return;
+    }
+    inputRef.current?.focus();
+  };
+
+  const onEditMessage = async (message: ChatMessage) => {
+    const newMessage = await showPrompt(
+      Locale.Chat.Actions.Edit,
+      getMessageTextContent(message),
+      10,
+    );
+    let newContent: string | MultimodalContent[] = newMessage;
+    const images = getMessageImages(message);
+    if (images.length > 0) {
+      newContent = [{ type: "text", text: newMessage }];
+      for (let i = 0; i < images.length; i++) {
+        newContent.push({
+          type: "image_url",
+          image_url: {
+            url: images[i],
+          },
+        });
       }
     }
 
-    if (userMessage === undefined) {
-      console.error("[Chat] failed to resend", message);
+    const messageIndex = session.messages.findIndex((m) => m.id === message.id);
+
+    // context prompts are edited in place
+    if (messageIndex < 0) {
+      chatStore.updateTargetSession(session, (session) => {
+        const m = session.mask.context.find((m) => m.id === message.id);
+        if (m) {
+          m.content = newContent;
+        }
+      });
       return;
     }
 
-    // delete the original messages
-    deleteMessage(userMessage.id);
-    deleteMessage(botMessage?.id);
+    if (newMessage === getMessageTextContent(message)) return;
 
-    // resend the message
-    setIsLoading(true);
-    const textContent = getMessageTextContent(userMessage);
-    const images = getMessageImages(userMessage);
-    chatStore.onUserInput(textContent, images).then(() => setIsLoading(false));
-    inputRef.current?.focus();
+    // edits of chat messages are kept as sibling branches
+    chatStore.branchSession(session, messageIndex);
+    if (message.role === "user") {
+      setIsLoading(true);
+      chatStore
+        .onUserInput(newMessage, images, message.attachments)
+        .then(() => setIsLoading(false));
+    } else {
+      chatStore.updateTargetSession(session, (session) => {
+        session.messages = session.messages.concat(
+          createMessage({
+            role: message.role,
+            model: message.model,
+            content: newContent,
+          }),
+        );
+      });
+    }
   };
 
   const onPinMessage = (message: ChatMessage) => {
@@ -1343,49 +1928,14 @@ function ChatView() {
 
   const accessStore = useAccessStore();
   const [speechStatus, setSpeechStatus] = useState(false);
-  const [speechLoading, setSpeechLoading] = useState(false);
 
-  async function openaiSpeech(text: string) {
+  function openaiSpeech(id: string, text: string) {
     if (speechStatus) {
-      ttsPlayer.stop();
-      setSpeechStatus(false);
-    } else {
-      var api: ClientApi;
-      api = new ClientApi(ModelProvider.GPT);
-      const config = useAppConfig.getState();
-      setSpeechLoading(true);
-      ttsPlayer.init();
-      let audioBuffer: ArrayBuffer;
-      const { markdownToTxt } = require("markdown-to-txt");
-      const textContent = markdownToTxt(text);
-      if (config.ttsConfig.engine !== DEFAULT_TTS_ENGINE) {
-        const edgeVoiceName = accessStore.edgeVoiceName();
-        const tts = new MsEdgeTTS();
-        await tts.setMetadata(
-          edgeVoiceName,
-          OUTPUT_FORMAT.AUDIO_24KHZ_96KBITRATE_MONO_MP3,
-        );
-        audioBuffer = await tts.toArrayBuffer(textContent);
-      } else {
-        audioBuffer = await api.llm.speech({
-          model: config.ttsConfig.model,
-          input: textContent,
-          voice: config.ttsConfig.voice,
-          speed: config.ttsConfig.speed,
-        });
-      }
-      setSpeechStatus(true);
-      ttsPlayer
-        .play(audioBuffer, () => {
-          setSpeechStatus(false);
-        })
-        .catch((e) => {
-          console.error("[OpenAI Speech]", e);
-          showToast(prettyObject(e));
-          setSpeechStatus(false);
-        })
-        .finally(() => setSpeechLoading(false));
+      speechReader.stop();
+      return;
     }
+    setSpeechStatus(true);
+    speechReader.speak(id, text, () => setSpeechStatus(false));
   }
 
   const context: RenderMessage[] = useMemo(() => {
@@ -1569,6 +2119,14 @@ function ChatView() {
 
   const handlePaste = useCallback(
     async (event: React.ClipboardEvent<HTMLTextAreaElement>) => {
+      const documents = Array.from(event.clipboardData?.files ?? []).filter(
+        isDocumentFile,
+      );
+      if (documents.length > 0) {
+        event.preventDefault();
+        attachDocuments(documents);
+        return;
+      }
       const currentModel = chatStore.currentSession().mask.modelConfig.model;
       if (!isVisionModel(currentModel)) {
         return;
@@ -1621,7 +2179,8 @@ function ChatView() {
         }
       }
     },
-    [attachImages, chatStore],
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [attachImages, attachFiles, chatStore],
   );
 
   async function uploadImage() {
@@ -1678,6 +2237,98 @@ function ChatView() {
     setAttachImages(images);
   }
 
+  async function attachDocuments(files: File[]) {
+    const attachments = attachFiles.slice();
+    setUploading(true);
+    for (const file of files) {
+      if (attachments.length >= MAX_DOCUMENTS) {
+        showToast(Locale.Chat.Attachments.TooMany(MAX_DOCUMENTS));
+        break;
+      }
+      if (file.size > MAX_DOCUMENT_SIZE) {
+        showToast(
+          Locale.Chat.Attachments.TooLarge(
+            file.name,
+            formatFileSize(MAX_DOCUMENT_SIZE),
+          ),
+        );
+        continue;
+      }
+      try {
+        const attachment = await createAttachment(
+          file,
+          session.mask.modelConfig.model,
+        );
+        // without the service worker only the text is kept
+        attachment.url = await uploadFile(file).catch(() => undefined);
+        attachments.push(attachment);
+      } catch (e) {
+        console.error("[Attachment] failed to read", file.name, e);
+        showToast(Locale.Chat.Attachments.NoText(file.name));
+      }
+    }
+    setUploading(false);
+    setAttachFiles(attachments);
+  }
+
+  async function attachMcpResource(clientId: string, resource: McpResource) {
+    if (attachFiles.length >= MAX_DOCUMENTS) {
+      showToast(Locale.Chat.Attachments.TooMany(MAX_DOCUMENTS));
+      return;
+    }
+    setUploading(true);
+    try {
+      const { contents, version } = await readMcpResource(
+        clientId,
+        resource.uri,
+      );
+      const attachment = createResourceAttachment(resource, contents, {
+        clientId,
+        uri: resource.uri,
+        version,
+      });
+      setAttachFiles((attachments) => attachments.concat(attachment));
+    } catch (e) {
+      console.error("[MCP] failed to read resource", resource.uri, e);
+      showToast(Locale.Mcp.ResourceFailed(resource.title || resource.name));
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  useMcpResourceRefresh(attachFiles, setAttachFiles);
+
+  function removeAttachment(index: number) {
+    const url = attachFiles[index]?.url;
+    if (url) removeFile(url).catch(() => {});
+    setAttachFiles(attachFiles.filter((_, i) => i !== index));
+  }
+
+  function uploadDocument() {
+    const fileInput = document.createElement("input");
+    fileInput.type = "file";
+    fileInput.accept = DOCUMENT_ACCEPT;
+    fileInput.multiple = true;
+    fileInput.onchange = () =>
+      attachDocuments(Array.from(fileInput.files ?? []));
+    fileInput.click();
+  }
+
+  const onDropFiles = (e: React.DragEvent) => {
+    const documents = Array.from(e.dataTransfer.files).filter(isDocumentFile);
+    if (documents.length === 0) return;
+    e.preventDefault();
+    attachDocuments(documents);
+  };
+
+  // warn when the attachments crowd out the conversation
+  const attachTokens = getAttachmentTokens(attachFiles);
+  const promptBudget = getPromptTokenBudget(
+    DEFAULT_MODELS.find((m) => m.name === session.mask.modelConfig.model)
+      ?.contextWindow ?? getModelContextWindow(session.mask.modelConfig.model),
+    session.mask.modelConfig.max_tokens,
+  );
+
   // 快捷键 shortcut keys
   const [showShortcutKeyModal, setShowShortcutKeyModal] = useState(false);
 
@@ -1791,6 +2442,8 @@ function ChatView() {
             </div>
             <div className="window-header-sub-title">
               {Locale.Chat.SubTitle(session.messages.length)}
+              {session.stat.usage &&
+                " · " + getUsageSummary(session.stat.usage, session.stat.cost)}
             </div>
           </div>
           <div className="window-actions">
@@ -1861,273 +2514,424 @@ function ChatView() {
                 setAutoScroll(false);
               }}
             >
-              {messages
-                // TODO
-                // .filter((m) => !m.isMcpResponse)
-                .map((message, i) => {
-                  const isUser = message.role === "user";
-                  const isContext = i < context.length;
-                  const showActions =
-                    i > 0 &&
-                    !(message.preview || message.content.length === 0) &&
-                    !isContext;
-                  const showTyping = message.preview || message.streaming;
-
-                  const shouldShowClearContextDivider =
-                    i === clearContextIndex - 1;
-
+              {messages.map((message, i) => {
+                // answers of a comparison are rendered together as columns
+                if (message.compareId) {
+                  if (messages[i - 1]?.compareId === message.compareId) {
+                    return null;
+                  }
                   return (
-                    <Fragment key={message.id}>
-                      <div
-                        className={
-                          isUser
-                            ? styles["chat-message-user"]
-                            : styles["chat-message"]
-                        }
-                      >
-                        <div className={styles["chat-message-container"]}>
-                          <div className={styles["chat-message-header"]}>
-                            <div className={styles["chat-message-avatar"]}>
-                              <div className={styles["chat-message-edit"]}>
-                                <IconButton
-                                  icon={<EditIcon />}
-                                  aria={Locale.Chat.Actions.Edit}
-                                  onClick={async () => {
-                                    const newMessage = await showPrompt(
-                                      Locale.Chat.Actions.Edit,
-                                      getMessageTextContent(message),
-                                      10,
-                                    );
-                                    let newContent:
-                                      | string
-                                      | MultimodalContent[] = newMessage;
-                                    const images = getMessageImages(message);
-                                    if (images.length > 0) {
-                                      newContent = [
-                                        { type: "text", text: newMessage },
-                                      ];
-                                      for (let i = 0; i < images.length; i++) {
-                                        newContent.push({
-                                          type: "image_url",
-                                          image_url: {
-                                            url: images[i],
-                                          },
-                                        });
-                                      }
-                                    }
-                                    chatStore.updateTargetSession(
-                                      session,
-                                      (session) => {
-                                        const m = session.mask.context
-                                          .concat(session.messages)
-                                          .find((m) => m.id === message.id);
-                                        if (m) {
-                                          m.content = newContent;
-                                        }
-                                      },
-                                    );
-                                  }}
-                                ></IconButton>
-                              </div>
-                              {isUser ? (
-                                <Avatar avatar={config.avatar} />
-                              ) : (
-                                <>
-                                  {["system"].includes(message.role) ? (
-                                    <Avatar avatar="2699-fe0f" />
+                    <CompareMessages
+                      key={message.compareId}
+                      messages={messages.filter(
+                        (m) => m.compareId === message.compareId,
+                      )}
+                      fontSize={fontSize}
+                      fontFamily={fontFamily}
+                      parentRef={scrollRef}
+                    />
+                  );
+                }
+
+                return (
+                  <LiveMessage key={message.id} message={message}>
+                    {(message) => {
+                      const isUser = message.role === "user";
+                      const isContext = i < context.length;
+                      const showActions =
+                        i > 0 &&
+                        !(message.preview || message.content.length === 0) &&
+                        !isContext;
+                      const showTyping = message.preview || message.streaming;
+
+                      const shouldShowClearContextDivider =
+                        i === clearContextIndex - 1;
+
+                      // index in session messages, used by branch navigation
+                      const sessionIndex = msgRenderIndex + i - context.length;
+                      const branch =
+                        isContext || message.preview
+                          ? undefined
+                          : getBranchInfo(session, sessionIndex);
+
+                      return (
+                        <Fragment>
+                          <div
+                            className={
+                              isUser
+                                ? styles["chat-message-user"]
+                                : styles["chat-message"]
+                            }
+                          >
+                            <div className={styles["chat-message-container"]}>
+                              <div className={styles["chat-message-header"]}>
+                                <div className={styles["chat-message-avatar"]}>
+                                  <div className={styles["chat-message-edit"]}>
+                                    <IconButton
+                                      icon={<EditIcon />}
+                                      aria={Locale.Chat.Actions.Edit}
+                                      onClick={() => onEditMessage(message)}
+                                    ></IconButton>
+                                  </div>
+                                  {isUser ? (
+                                    <Avatar avatar={config.avatar} />
                                   ) : (
-                                    <MaskAvatar
-                                      avatar={session.mask.avatar}
-                                      model={
-                                        message.model ||
-                                        session.mask.modelConfig.model
-                                      }
-                                    />
+                                    <>
+                                      {["system"].includes(message.role) ? (
+                                        <Avatar avatar="2699-fe0f" />
+                                      ) : (
+                                        <MaskAvatar
+                                          avatar={session.mask.avatar}
+                                          model={
+                                            message.model ||
+                                            session.mask.modelConfig.model
+                                          }
+                                        />
+                                      )}
+                                    </>
                                   )}
-                                </>
-                              )}
-                            </div>
-                            {!isUser && (
-                              <div className={styles["chat-model-name"]}>
-                                {message.model}
-                              </div>
-                            )}
-
-                            {showActions && (
-                              <div className={styles["chat-message-actions"]}>
-                                <div className={styles["chat-input-actions"]}>
-                                  {message.streaming ? (
-                                    <ChatAction
-                                      text={Locale.Chat.Actions.Stop}
-                                      icon={<StopIcon />}
+                                </div>
+                                {!isUser && (
+                                  <div className={styles["chat-model-name"]}>
+                                    {message.model}
+                                  </div>
+                                )}
+                                {branch && (
+                                  <div
+                                    className={styles["chat-message-branch"]}
+                                  >
+                                    <span
+                                      className={clsx("clickable", {
+                                        [styles["disabled"]]:
+                                          branch.index === 0,
+                                      })}
+                                      title={Locale.Chat.Branch.Prev}
                                       onClick={() =>
-                                        onUserStop(message.id ?? i)
+                                        chatStore.switchBranch(
+                                          session,
+                                          sessionIndex,
+                                          -1,
+                                        )
                                       }
-                                    />
-                                  ) : (
-                                    <>
-                                      <ChatAction
-                                        text={Locale.Chat.Actions.Retry}
-                                        icon={<ResetIcon />}
-                                        onClick={() => onResend(message)}
-                                      />
-
-                                      <ChatAction
-                                        text={Locale.Chat.Actions.Delete}
-                                        icon={<DeleteIcon />}
-                                        onClick={() =>
-                                          onDelete(message.id ?? i)
-                                        }
-                                      />
+                                    >
+                                      ‹
+                                    </span>
+                                    <span>
+                                      {branch.index + 1}/{branch.total}
+                                    </span>
+                                    <span
+                                      className={clsx("clickable", {
+                                        [styles["disabled"]]:
+                                          branch.index === branch.total - 1,
+                                      })}
+                                      title={Locale.Chat.Branch.Next}
+                                      onClick={() =>
+                                        chatStore.switchBranch(
+                                          session,
+                                          sessionIndex,
+                                          1,
+                                        )
+                                      }
+                                    >
+                                      ›
+                                    </span>
+                                  </div>
+                                )}
 
-                                      <ChatAction
-                                        text={Locale.Chat.Actions.Pin}
-                                        icon={<PinIcon />}
-                                        onClick={() => onPinMessage(message)}
-                                      />
-                                      <ChatAction
-                                        text={Locale.Chat.Actions.Copy}
-                                        icon={<CopyIcon />}
-                                        onClick={() =>
-                                          copyToClipboard(
-                                            getMessageTextContent(message),
-                                          )
-                                        }
-                                      />
-                                      {config.ttsConfig.enable && (
+                                {showActions && (
+                                  <div
+                                    className={styles["chat-message-actions"]}
+                                  >
+                                    <div
+                                      className={styles["chat-input-actions"]}
+                                    >
+                                      {message.streaming ? (
                                         <ChatAction
-                                          text={
-                                            speechStatus
-                                              ? Locale.Chat.Actions.StopSpeech
-                                              : Locale.Chat.Actions.Speech
-                                          }
-                                          icon={
-                                            speechStatus ? (
-                                              <SpeakStopIcon />
-                                            ) : (
-                                              <SpeakIcon />
-                                            )
-                                          }
+                                          text={Locale.Chat.Actions.Stop}
+                                          icon={<StopIcon />}
                                           onClick={() =>
-                                            openaiSpeech(
-                                              getMessageTextContent(message),
-                                            )
+                                            onUserStop(message.id ?? i)
                                           }
                                         />
+                                      ) : (
+                                        <>
+                                          <ChatAction
+                                            text={Locale.Chat.Actions.Retry}
+                                            icon={<ResetIcon />}
+                                            onClick={() => onResend(message)}
+                                          />
+
+                                          <ChatAction
+                                            text={Locale.Chat.Actions.Delete}
+                                            icon={<DeleteIcon />}
+                                            onClick={() =>
+                                              onDelete(message.id ?? i)
+                                            }
+                                          />
+
+                                          <ChatAction
+                                            text={Locale.Chat.Actions.Pin}
+                                            icon={<PinIcon />}
+                                            onClick={() =>
+                                              onPinMessage(message)
+                                            }
+                                          />
+                                          <ChatAction
+                                            text={Locale.Chat.Actions.Copy}
+                                            icon={<CopyIcon />}
+                                            onClick={() =>
+                                              copyToClipboard(
+                                                getMessageTextContent(message),
+                                              )
+                                            }
+                                          />
+                                          {config.ttsConfig.enable && (
+                                            <ChatAction
+                                              text={
+                                                speechStatus
+                                                  ? Locale.Chat.Actions
+                                                      .StopSpeech
+                                                  : Locale.Chat.Actions.Speech
+                                              }
+                                              icon={
+                                                speechStatus ? (
+                                                  <SpeakStopIcon />
+                                                ) : (
+                                                  <SpeakIcon />
+                                                )
+                                              }
+                                              onClick={() =>
+                                                openaiSpeech(
+                                                  message.id,
+                                                  getMessageTextContent(
+                                                    message,
+                                                  ),
+                                                )
+                                              }
+                                            />
+                                          )}
+                                        </>
                                       )}
-                                    </>
+                                    </div>
+                                  </div>
+                                )}
+                              </div>
+                              {message?.tools?.length == 0 && showTyping && (
+                                <div className={styles["chat-message-status"]}>
+                                  {Locale.Chat.Typing}
+                                </div>
+                              )}
+                              {/*@ts-ignore*/}
+                              {message?.tools?.length > 0 && (
+                                <div className={styles["chat-message-tools"]}>
+                                  {message?.tools?.map((tool) =>
+                                    tool.approval?.status === "pending" &&
+                                    message.streaming ? (
+                                      <ToolApprovalCard
+                                        key={tool.id}
+                                        tool={tool}
+                                      />
+                                    ) : (
+                                      <div
+                                        key={tool.id}
+                                        title={tool?.errorMsg}
+                                        className={styles["chat-message-tool"]}
+                                      >
+                                        {tool.isError === false ? (
+                                          <ConfirmIcon />
+                                        ) : tool.isError === true ? (
+                                          <CloseIcon />
+                                        ) : (
+                                          <LoadingButtonIcon />
+                                        )}
+                                        <span>{tool?.function?.name}</span>
+                                        {tool.approval?.originalArguments && (
+                                          <span>
+                                            {` (${Locale.Chat.ToolApproval.Edited})`}
+                                          </span>
+                                        )}
+                                      </div>
+                                    ),
                                   )}
                                 </div>
+                              )}
+                              {message.reasoning && (
+                                <ReasoningPanel
+                                  reasoning={message.reasoning}
+                                  fontSize={fontSize}
+                                  fontFamily={fontFamily}
+                                  parentRef={scrollRef}
+                                />
+                              )}
+                              <div className={styles["chat-message-item"]}>
+                                <Markdown
+                                  key={message.streaming ? "loading" : "done"}
+                                  content={getMessageTextContent(message)}
+                                  citations={message.citations}
+                                  loading={
+                                    (message.preview || message.streaming) &&
+                                    message.content.length === 0 &&
+                                    !isUser
+                                  }
+                                  //   onContextMenu={(e) => onRightClick(e, message)} // hard to use
+                                  onDoubleClickCapture={() => {
+                                    if (!isMobileScreen) return;
+                                    setUserInput(
+                                      getMessageTextContent(message),
+                                    );
+                                  }}
+                                  fontSize={fontSize}
+                                  fontFamily={fontFamily}
+                                  parentRef={scrollRef}
+                                  defaultShow={i >= messages.length - 6}
+                                />
+                                {getMessageImages(message).length == 1 && (
+                                  <img
+                                    className={
+                                      styles["chat-message-item-image"]
+                                    }
+                                    src={getMessageImages(message)[0]}
+                                    alt=""
+                                  />
+                                )}
+                                {getMessageImages(message).length > 1 && (
+                                  <div
+                                    className={
+                                      styles["chat-message-item-images"]
+                                    }
+                                    style={
+                                      {
+                                        "--image-count":
+                                          getMessageImages(message).length,
+                                      } as React.CSSProperties
+                                    }
+                                  >
+                                    {getMessageImages(message).map(
+                                      (image, index) => {
+                                        return (
+                                          <img
+                                            className={
+                                              styles[
+                                                "chat-message-item-image-multi"
+                                              ]
+                                            }
+                                            key={index}
+                                            src={image}
+                                            alt=""
+                                          />
+                                        );
+                                      },
+                                    )}
+                                  </div>
+                                )}
+                                {message.attachments && (
+                                  <AttachmentChips
+                                    attachments={message.attachments}
+                                  />
+                                )}
                               </div>
-                            )}
-                          </div>
-                          {message?.tools?.length == 0 && showTyping && (
-                            <div className={styles["chat-message-status"]}>
-                              {Locale.Chat.Typing}
-                            </div>
-                          )}
-                          {/*@ts-ignore*/}
-                          {message?.tools?.length > 0 && (
-                            <div className={styles["chat-message-tools"]}>
-                              {message?.tools?.map((tool) => (
+                              {message?.audio_url && (
+                                <div className={styles["chat-message-audio"]}>
+                                  <audio src={message.audio_url} controls />
+                                </div>
+                              )}
+                              {!isUser && !isContext && !showTyping && (
+                                <MessageArtifactProject
+                                  session={session}
+                                  index={sessionIndex}
+                                  message={message}
+                                />
+                              )}
+                              {message.structuredError &&
+                                !message.streaming && (
+                                  <div
+                                    className={
+                                      styles["chat-message-structured-error"]
+                                    }
+                                  >
+                                    <span>
+                                      {Locale.Chat.Structured.Invalid}:{" "}
+                                      {message.structuredError}
+                                    </span>
+                                    <ChatAction
+                                      text={Locale.Chat.Structured.Repair}
+                                      icon={<ResetIcon />}
+                                      onClick={() => onRepair(message)}
+                                    />
+                                  </div>
+                                )}
+                              {canContinue(message) && (
                                 <div
-                                  key={tool.id}
-                                  title={tool?.errorMsg}
-                                  className={styles["chat-message-tool"]}
+                                  className={styles["chat-message-incomplete"]}
                                 >
-                                  {tool.isError === false ? (
-                                    <ConfirmIcon />
-                                  ) : tool.isError === true ? (
-                                    <CloseIcon />
-                                  ) : (
-                                    <LoadingButtonIcon />
+                                  <span>
+                                    {message.interrupted
+                                      ? Locale.Chat.Incomplete.Interrupted
+                                      : Locale.Chat.Incomplete.Truncated}
+                                  </span>
+                                  {sessionIndex ===
+                                    session.messages.length - 1 && (
+                                    <ChatAction
+                                      text={Locale.Chat.Incomplete.Continue}
+                                      icon={<ContinueIcon />}
+                                      onClick={() => onContinue(message)}
+                                    />
                                   )}
-                                  <span>{tool?.function?.name}</span>
                                 </div>
-                              ))}
-                            </div>
-                          )}
-                          <div className={styles["chat-message-item"]}>
-                            <Markdown
-                              key={message.streaming ? "loading" : "done"}
-                              content={getMessageTextContent(message)}
-                              loading={
-                                (message.preview || message.streaming) &&
-                                message.content.length === 0 &&
-                                !isUser
-                              }
-                              //   onContextMenu={(e) => onRightClick(e, message)} // hard to use
-                              onDoubleClickCapture={() => {
-                                if (!isMobileScreen) return;
-                                setUserInput(getMessageTextContent(message));
-                              }}
-                              fontSize={fontSize}
-                              fontFamily={fontFamily}
-                              parentRef={scrollRef}
-                              defaultShow={i >= messages.length - 6}
-                            />
-                            {getMessageImages(message).length == 1 && (
-                              <img
-                                className={styles["chat-message-item-image"]}
-                                src={getMessageImages(message)[0]}
-                                alt=""
-                              />
-                            )}
-                            {getMessageImages(message).length > 1 && (
+                              )}
+
                               <div
-                                className={styles["chat-message-item-images"]}
-                                style={
-                                  {
-                                    "--image-count":
-                                      getMessageImages(message).length,
-                                  } as React.CSSProperties
-                                }
+                                className={styles["chat-message-action-date"]}
                               >
-                                {getMessageImages(message).map(
-                                  (image, index) => {
-                                    return (
-                                      <img
-                                        className={
-                                          styles[
-                                            "chat-message-item-image-multi"
-                                          ]
-                                        }
-                                        key={index}
-                                        src={image}
-                                        alt=""
-                                      />
-                                    );
-                                  },
+                                {isContext
+                                  ? Locale.Chat.IsContext
+                                  : message.date.toLocaleString()}
+                                {!isContext && message.usage && (
+                                  <span
+                                    title={Locale.Chat.Usage.Detail(
+                                      message.usage.prompt_tokens,
+                                      message.usage.completion_tokens,
+                                      message.usage.reasoning_tokens ?? 0,
+                                      message.usage.cached_tokens ?? 0,
+                                    )}
+                                  >
+                                    {" · " +
+                                      getUsageSummary(
+                                        message.usage,
+                                        getUsageCost(
+                                          message.model ??
+                                            session.mask.modelConfig.model,
+                                          message.usage,
+                                        ),
+                                      )}
+                                  </span>
                                 )}
                               </div>
-                            )}
-                          </div>
-                          {message?.audio_url && (
-                            <div className={styles["chat-message-audio"]}>
-                              <audio src={message.audio_url} controls />
                             </div>
-                          )}
-
-                          <div className={styles["chat-message-action-date"]}>
-                            {isContext
-                              ? Locale.Chat.IsContext
-                              : message.date.toLocaleString()}
                           </div>
-                        </div>
-                      </div>
-                      {shouldShowClearContextDivider && <ClearContextDivider />}
-                    </Fragment>
-                  );
-                })}
+                          {shouldShowClearContextDivider && (
+                            <ClearContextDivider />
+                          )}
+                        </Fragment>
+                      );
+                    }}
+                  </LiveMessage>
+                );
+              })}
             </div>
             <div className={styles["chat-input-panel"]}>
               <PromptHints
                 prompts={promptHints}
                 onPromptSelect={onPromptSelect}
               />
+              {voiceInput.recording && (
+                <VoicePrint frequencies={voiceInput.frequencies} isActive />
+              )}
 
               <ChatActions
                 uploadImage={uploadImage}
+                uploadDocument={uploadDocument}
+                attachMcpResource={attachMcpResource}
                 setAttachImages={setAttachImages}
                 setUploading={setUploading}
                 showPromptModal={() => setShowPromptModal(true)}
@@ -2148,13 +2952,32 @@ function ChatView() {
                 setShowShortcutKeyModal={setShowShortcutKeyModal}
                 setUserInput={setUserInput}
                 setShowChatSidePanel={setShowChatSidePanel}
+                voiceInput={voiceInput}
               />
+              {attachFiles.length > 0 && (
+                <>
+                  <AttachmentChips
+                    attachments={attachFiles}
+                    onRemove={removeAttachment}
+                  />
+                  {attachTokens > promptBudget * ATTACHMENT_BUDGET_SHARE && (
+                    <div className={styles["chat-attachments-warning"]}>
+                      {Locale.Chat.Attachments.OverBudget(
+                        formatTokens(attachTokens),
+                        formatTokens(promptBudget),
+                      )}
+                    </div>
+                  )}
+                </>
+              )}
               <label
                 className={clsx(styles["chat-input-panel-inner"], {
                   [styles["chat-input-panel-inner-attach"]]:
                     attachImages.length !== 0,
                 })}
                 htmlFor="chat-input"
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={onDropFiles}
               >
                 <textarea
                   id="chat-input"
@@ -2241,6 +3064,14 @@ function ChatView() {
       {showShortcutKeyModal && (
         <ShortcutKeyModal onClose={() => setShowShortcutKeyModal(false)} />
       )}
+
+      {mcpPrompt && (
+        <McpPromptModal
+          prompt={mcpPrompt}
+          onClose={() => setMcpPrompt(undefined)}
+          onSubmit={(args) => applyMcpPrompt(mcpPrompt, args)}
+        />
+      )}
     </>
   );
 }
@@ -2248,5 +3079,12 @@ function ChatView() {
 export function Chat() {
   const chatStore = useChatStore();
   const session = chatStore.currentSession();
+
+  // messages of a chat are read from its own record when it is opened
+  useEffect(() => {
+    chatStore.loadSession(session.id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session.id]);
+
   return <ChatView key={session.id}></ChatView>;
 }
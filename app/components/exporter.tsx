@@ -1,5 +1,10 @@
 /* eslint-disable @next/next/no-img-element */
-import { ChatMessage, useAppConfig, useChatStore } from "../store";
+import {
+  ChatMessage,
+  useAccessStore,
+  useAppConfig,
+  useChatStore,
+} from "../store";
 import Locale from "../locales";
 import styles from "./exporter.module.scss";
 import {
@@ -23,6 +28,7 @@ import CopyIcon from "../icons/copy.svg";
 import LoadingIcon from "../icons/three-dots.svg";
 import ChatGptIcon from "../icons/chatgpt.png";
 import ShareIcon from "../icons/share.svg";
+import SpeakIcon from "../icons/speak.svg";
 
 import DownloadIcon from "../icons/download.svg";
 import { useEffect, useMemo, useRef, useState } from "react";
@@ -34,11 +40,23 @@ import NextImage from "next/image";
 import { toBlob, toPng } from "html-to-image";
 
 import { prettyObject } from "../utils/format";
-import { EXPORT_MESSAGE_CLASS_NAME } from "../constant";
+import {
+  DEFAULT_TTS_ENGINE,
+  DEFAULT_TTS_VOICES,
+  EXPORT_MESSAGE_CLASS_NAME,
+} from "../constant";
 import { getClientConfig } from "../config/client";
 import { type ClientApi, getClientApi } from "../client/api";
 import { getMessageTextContent } from "../utils";
 import { MaskAvatar } from "./mask";
+import { synthesizeSpeech } from "../utils/audio";
+import { splitSpeech } from "../utils/speech";
+import {
+  concatSamples,
+  encodeWav,
+  joinMp3,
+  NarrationChapter,
+} from "../utils/narration";
 import clsx from "clsx";
 
 const Markdown = dynamic(async () => (await import("./markdown")).Markdown, {
@@ -150,7 +168,7 @@ export function MessageExporter() {
   ];
   const { currentStep, setCurrentStepIndex, currentStepIndex } =
     useSteps(steps);
-  const formats = ["text", "image", "json"] as const;
+  const formats = ["text", "image", "json", "audio"] as const;
   type ExportFormat = (typeof formats)[number];
 
   const [exportConfig, setExportConfig] = useState({
@@ -189,6 +207,10 @@ export function MessageExporter() {
       return (
         <JsonPreviewer messages={selectedMessages} topic={session.topic} />
       );
+    } else if (exportConfig.format === "audio") {
+      return (
+        <AudioPreviewer messages={selectedMessages} topic={session.topic} />
+      );
     } else {
       return (
         <ImagePreviewer messages={selectedMessages} topic={session.topic} />
@@ -692,3 +714,222 @@ export function JsonPreviewer(props: {
     </>
   );
 }
+
+// characters per speech request, the OpenAI limit is 4096
+const MAX_SPEECH_INPUT = 2000;
+const NARRATION_SAMPLE_RATE = 24000;
+// silence between turns of a wav
+const TURN_GAP_MS = 600;
+// two edge voices per language, the user reads with the one not configured
+const EDGE_VOICES: Record<string, [string, string]> = {
+  "zh-CN": ["zh-CN-XiaoxiaoNeural", "zh-CN-YunxiNeural"],
+  "zh-TW": ["zh-TW-HsiaoChenNeural", "zh-TW-YunJheNeural"],
+  "en-US": ["en-US-JennyNeural", "en-US-GuyNeural"],
+  "en-GB": ["en-GB-SoniaNeural", "en-GB-RyanNeural"],
+  "ja-JP": ["ja-JP-NanamiNeural", "ja-JP-KeitaNeural"],
+  "ko-KR": ["ko-KR-SunHiNeural", "ko-KR-InJoonNeural"],
+  "fr-FR": ["fr-FR-DeniseNeural", "fr-FR-HenriNeural"],
+  "de-DE": ["de-DE-KatjaNeural", "de-DE-ConradNeural"],
+  "es-ES": ["es-ES-ElviraNeural", "es-ES-AlvaroNeural"],
+};
+
+// a voice in the language of `voice`, itself when the language is unknown
+function getEdgeUserVoice(voice: string) {
+  const language = voice.split("-").slice(0, 2).join("-");
+  return EDGE_VOICES[language]?.find((v) => v !== voice) ?? voice;
+}
+
+export function AudioPreviewer(props: {
+  messages: ChatMessage[];
+  topic: string;
+}) {
+  const config = useAppConfig();
+  const accessStore = useAccessStore();
+  const ttsConfig = config.ttsConfig;
+  const isOpenAI = ttsConfig.engine === DEFAULT_TTS_ENGINE;
+
+  const [format, setFormat] = useState<"mp3" | "wav">("mp3");
+  const [assistantVoice, setAssistantVoice] = useState(
+    isOpenAI ? ttsConfig.voice : accessStore.edgeTTSVoiceName,
+  );
+  const [userVoice, setUserVoice] = useState(
+    isOpenAI
+      ? DEFAULT_TTS_VOICES.find((v) => v !== ttsConfig.voice) ?? ""
+      : getEdgeUserVoice(accessStore.edgeTTSVoiceName),
+  );
+  const [progress, setProgress] = useState<[number, number]>();
+  const [audio, setAudio] = useState<{ url: string; blob: Blob }>();
+
+  // stop when the modal is closed halfway
+  const cancelled = useRef(false);
+  useEffect(() => {
+    cancelled.current = false;
+    return () => {
+      cancelled.current = true;
+    };
+  }, []);
+  useEffect(() => () => audio && URL.revokeObjectURL(audio.url), [audio]);
+
+  const generate = async () => {
+    const { markdownToTxt } = require("markdown-to-txt");
+    const turns = props.messages
+      .filter((m) => m.role !== "system")
+      .map((m) => ({
+        message: m,
+        pieces: splitSpeech(getMessageTextContent(m), MAX_SPEECH_INPUT)
+          .map((piece) => markdownToTxt(piece).trim())
+          .filter((piece) => piece),
+      }))
+      .filter((turn) => turn.pieces.length > 0);
+    const total = turns.reduce((count, t) => count + t.pieces.length, 0);
+    if (total === 0) return;
+
+    setAudio(undefined);
+    setProgress([0, total]);
+    try {
+      const context = new OfflineAudioContext(1, 1, NARRATION_SAMPLE_RATE);
+      const segments: Uint8Array[] = [];
+      const samples: Float32Array[] = [];
+      const chapters: NarrationChapter[] = [];
+      let time = 0;
+      let done = 0;
+
+      for (const [i, { message, pieces }] of turns.entries()) {
+        const isUser = message.role === "user";
+        const start = time;
+        for (const piece of pieces) {
+          const data = await synthesizeSpeech(
+            piece,
+            ttsConfig,
+            isUser ? userVoice : assistantVoice,
+          );
+          if (cancelled.current) return;
+          const buffer = await context.decodeAudioData(data.slice(0));
+          segments.push(new Uint8Array(data));
+          samples.push(buffer.getChannelData(0));
+          time += buffer.duration * 1000;
+          setProgress([++done, total]);
+        }
+        chapters.push({
+          title: `${
+            isUser
+              ? Locale.Export.MessageFromYou
+              : Locale.Export.MessageFromChatGPT
+          }: ${pieces[0].slice(0, 40)}`,
+          start,
+          end: time,
+        });
+        if (format === "wav" && i < turns.length - 1) {
+          samples.push(
+            new Float32Array((NARRATION_SAMPLE_RATE * TURN_GAP_MS) / 1000),
+          );
+          time += TURN_GAP_MS;
+        }
+      }
+
+      const bytes =
+        format === "mp3"
+          ? joinMp3(segments, chapters, props.topic)
+          : encodeWav(concatSamples(samples), NARRATION_SAMPLE_RATE, chapters);
+      const blob = new Blob([bytes], {
+        type: format === "mp3" ? "audio/mpeg" : "audio/wav",
+      });
+      setAudio({ url: URL.createObjectURL(blob), blob });
+    } catch (e) {
+      console.error("[Export Audio]", e);
+      showToast(prettyObject(e));
+    } finally {
+      if (!cancelled.current) setProgress(undefined);
+    }
+  };
+
+  const download = async () => {
+    if (!audio) return;
+    const fileName = `${props.topic}.${format}`;
+    if (getClientConfig()?.isApp && window.__TAURI__) {
+      const result = await window.__TAURI__.dialog.save({
+        defaultPath: fileName,
+        filters: [
+          {
+            name: `${format.toUpperCase()} Files`,
+            extensions: [format],
+          },
+        ],
+      });
+      if (result === null) return showToast(Locale.Download.Failed);
+      const data = new Uint8Array(await audio.blob.arrayBuffer());
+      await window.__TAURI__.fs.writeBinaryFile(result, data);
+      showToast(Locale.Download.Success);
+    } else {
+      const link = document.createElement("a");
+      link.download = fileName;
+      link.href = audio.url;
+      link.click();
+    }
+  };
+
+  const voiceInput = (value: string, onChange: (value: string) => void) =>
+    isOpenAI ? (
+      <Select value={value} onChange={(e) => onChange(e.currentTarget.value)}>
+        {DEFAULT_TTS_VOICES.map((v) => (
+          <option value={v} key={v}>
+            {v}
+          </option>
+        ))}
+      </Select>
+    ) : (
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.currentTarget.value)}
+      ></input>
+    );
+
+  return (
+    <>
+      <div className={styles["preview-actions"]}>
+        <IconButton
+          text={
+            progress
+              ? Locale.Export.Audio.Generating(...progress)
+              : Locale.Export.Audio.Generate
+          }
+          bordered
+          shadow
+          icon={progress ? <LoadingIcon /> : <SpeakIcon />}
+          disabled={!!progress}
+          onClick={generate}
+        ></IconButton>
+        <IconButton
+          text={Locale.Export.Download}
+          bordered
+          shadow
+          icon={<DownloadIcon />}
+          disabled={!audio}
+          onClick={download}
+        ></IconButton>
+      </div>
+      <List>
+        <ListItem title={Locale.Export.Audio.Format}>
+          <Select
+            value={format}
+            onChange={(e) => {
+              setFormat(e.currentTarget.value as typeof format);
+              setAudio(undefined);
+            }}
+          >
+            <option value="mp3">MP3</option>
+            <option value="wav">WAV</option>
+          </Select>
+        </ListItem>
+        <ListItem title={Locale.Export.Audio.AssistantVoice}>
+          {voiceInput(assistantVoice, setAssistantVoice)}
+        </ListItem>
+        <ListItem title={Locale.Export.Audio.UserVoice}>
+          {voiceInput(userVoice, setUserVoice)}
+        </ListItem>
+      </List>
+      {audio && <audio controls src={audio.url} style={{ width: "100%" }} />}
+    </>
+  );
+}
@@ -0,0 +1,269 @@
+import { DEFAULT_EMBEDDING_MODELS } from "../constant";
+import { IconButton } from "./button";
+import { ErrorBoundary } from "./error";
+
+import styles from "./mask.module.scss";
+
+import EditIcon from "../icons/edit.svg";
+import AddIcon from "../icons/add.svg";
+import CloseIcon from "../icons/close.svg";
+import DeleteIcon from "../icons/delete.svg";
+import ConfirmIcon from "../icons/confirm.svg";
+import UploadIcon from "../icons/upload.svg";
+import LoadingIcon from "../icons/three-dots.svg";
+
+import { KnowledgeCollection, useKnowledgeStore } from "../store/knowledge";
+import { LOCAL_EMBEDDING } from "../utils/knowledge";
+import { DOCUMENT_ACCEPT, formatFileSize } from "../utils/document";
+import {
+  List,
+  ListItem,
+  Modal,
+  Select,
+  showConfirm,
+  showToast,
+} from "./ui-lib";
+import Locale from "../locales";
+import { useNavigate } from "react-router-dom";
+import { useState } from "react";
+import clsx from "clsx";
+
+function KnowledgeEditModal(props: {
+  collection: KnowledgeCollection;
+  onClose: () => void;
+}) {
+  const knowledgeStore = useKnowledgeStore();
+  const collection = props.collection;
+  const [adding, setAdding] = useState<string>();
+
+  const addDocuments = async (files: File[]) => {
+    for (const file of files) {
+      setAdding(file.name);
+      try {
+        await knowledgeStore.addDocument(collection.id, file);
+      } catch (e) {
+        console.error("[Knowledge] failed to add", e);
+        showToast(
+          Locale.Knowledge.EditModal.Error(
+            file.name,
+            (e as Error)?.message ?? String(e),
+          ),
+        );
+      }
+    }
+    setAdding(undefined);
+  };
+
+  const selectDocuments = () => {
+    const fileInput = document.createElement("input");
+    fileInput.type = "file";
+    fileInput.accept = DOCUMENT_ACCEPT;
+    fileInput.multiple = true;
+    fileInput.onchange = () => addDocuments(Array.from(fileInput.files ?? []));
+    fileInput.click();
+  };
+
+  return (
+    <div className="modal-mask">
+      <Modal
+        title={Locale.Knowledge.EditModal.Title}
+        onClose={props.onClose}
+        actions={[
+          <IconButton
+            icon={<ConfirmIcon />}
+            text={Locale.UI.Confirm}
+            key="confirm"
+            bordered
+            onClick={props.onClose}
+          />,
+        ]}
+      >
+        <List>
+          <ListItem title={Locale.Knowledge.EditModal.Name}>
+            <input
+              type="text"
+              value={collection.name}
+              onChange={(e) =>
+                knowledgeStore.update(collection.id, (collection) => {
+                  collection.name = e.currentTarget.value;
+                })
+              }
+            ></input>
+          </ListItem>
+          <ListItem
+            title={Locale.Knowledge.EditModal.Embedding.Title}
+            subTitle={Locale.Knowledge.EditModal.Embedding.SubTitle}
+          >
+            <Select
+              aria-label={Locale.Knowledge.EditModal.Embedding.Title}
+              value={collection.embedding}
+              disabled={collection.documents.length > 0}
+              onChange={(e) =>
+                knowledgeStore.update(collection.id, (collection) => {
+                  collection.embedding = e.currentTarget.value;
+                })
+              }
+            >
+              <option value={LOCAL_EMBEDDING}>
+                {Locale.Knowledge.EditModal.Embedding.Local}
+              </option>
+              {DEFAULT_EMBEDDING_MODELS.map((model) => (
+                <option value={model} key={model}>
+                  {model}
+                </option>
+              ))}
+            </Select>
+          </ListItem>
+        </List>
+        <List>
+          <ListItem title={Locale.Knowledge.EditModal.Documents}>
+            {adding ? (
+              <div className="one-line">
+                <LoadingIcon />
+                {Locale.Knowledge.EditModal.Adding(adding)}
+              </div>
+            ) : (
+              <IconButton
+                icon={<UploadIcon />}
+                text={Locale.Knowledge.EditModal.Add}
+                bordered
+                onClick={selectDocuments}
+              />
+            )}
+          </ListItem>
+          {collection.documents.length === 0 && (
+            <ListItem title={Locale.Knowledge.EditModal.Empty} />
+          )}
+          {collection.documents.map((document) => (
+            <ListItem
+              key={document.id}
+              title={document.name}
+              subTitle={Locale.Knowledge.EditModal.Chunks(
+                document.chunks,
+                formatFileSize(document.size),
+              )}
+            >
+              <IconButton
+                icon={<DeleteIcon />}
+                onClick={() =>
+                  knowledgeStore.removeDocument(collection.id, document.id)
+                }
+              />
+            </ListItem>
+          ))}
+        </List>
+      </Modal>
+    </div>
+  );
+}
+
+export function KnowledgePage() {
+  const navigate = useNavigate();
+  const knowledgeStore = useKnowledgeStore();
+
+  const [searchText, setSearchText] = useState("");
+  const collections = knowledgeStore
+    .getAll()
+    .filter((c) => c.name.toLowerCase().includes(searchText.toLowerCase()));
+
+  const [editingId, setEditingId] = useState<string>();
+  const editingCollection = editingId
+    ? knowledgeStore.collections[editingId]
+    : undefined;
+
+  return (
+    <ErrorBoundary>
+      <div className={styles["mask-page"]}>
+        <div className="window-header">
+          <div className="window-header-title">
+            <div className="window-header-main-title">
+              {Locale.Knowledge.Page.Title}
+            </div>
+            <div className="window-header-submai-title">
+              {Locale.Knowledge.Page.SubTitle(collections.length)}
+            </div>
+          </div>
+
+          <div className="window-actions">
+            <div className="window-action-button">
+              <IconButton
+                icon={<CloseIcon />}
+                bordered
+                onClick={() => navigate(-1)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className={styles["mask-page-body"]}>
+          <div className={styles["mask-filter"]}>
+            <input
+              type="text"
+              className={styles["search-bar"]}
+              placeholder={Locale.Knowledge.Page.Search}
+              autoFocus
+              onInput={(e) => setSearchText(e.currentTarget.value)}
+            />
+
+            <IconButton
+              className={styles["mask-create"]}
+              icon={<AddIcon />}
+              text={Locale.Knowledge.Page.Create}
+              bordered
+              onClick={() => setEditingId(knowledgeStore.create().id)}
+            />
+          </div>
+
+          <div>
+            {collections.map((c) => (
+              <div className={styles["mask-item"]} key={c.id}>
+                <div className={styles["mask-header"]}>
+                  <div className={styles["mask-icon"]}></div>
+                  <div className={styles["mask-title"]}>
+                    <div className={styles["mask-name"]}>
+                      {c.name || Locale.Knowledge.Untitled}
+                    </div>
+                    <div className={clsx(styles["mask-info"], "one-line")}>
+                      {`${Locale.Knowledge.DocumentCount(
+                        c.documents.length,
+                      )} / ${
+                        c.embedding === LOCAL_EMBEDDING
+                          ? Locale.Knowledge.EditModal.Embedding.Local
+                          : c.embedding
+                      }`}
+                    </div>
+                  </div>
+                </div>
+                <div className={styles["mask-actions"]}>
+                  <IconButton
+                    icon={<EditIcon />}
+                    text={Locale.Knowledge.Item.Edit}
+                    onClick={() => setEditingId(c.id)}
+                  />
+                  <IconButton
+                    icon={<DeleteIcon />}
+                    text={Locale.Knowledge.Item.Delete}
+                    onClick={async () => {
+                      if (
+                        await showConfirm(Locale.Knowledge.Item.DeleteConfirm)
+                      ) {
+                        knowledgeStore.delete(c.id);
+                      }
+                    }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {editingCollection && (
+        <KnowledgeEditModal
+          collection={editingCollection}
+          onClose={() => setEditingId(undefined)}
+        />
+      )}
+    </ErrorBoundary>
+  );
+}
@@ -0,0 +1,12 @@
+import type { ReactNode } from "react";
+import { ChatMessage } from "../store/chat";
+import { useChatMessage } from "../store/message";
+
+// renders the live state of a message, so a streamed chunk re-renders
+// nothing but the message it belongs to
+export function LiveMessage<T extends ChatMessage>(props: {
+  message: T;
+  children: (message: T) => ReactNode;
+}) {
+  return props.children(useChatMessage(props.message));
+}
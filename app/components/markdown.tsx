@@ -5,7 +5,16 @@ import RemarkBreaks from "remark-breaks";
 import RehypeKatex from "rehype-katex";
 import RemarkGfm from "remark-gfm";
 import RehypeHighlight from "rehype-highlight";
-import { useRef, useState, RefObject, useEffect, useMemo } from "react";
+import {
+  useRef,
+  useState,
+  RefObject,
+  useEffect,
+  useMemo,
+  useId,
+  createContext,
+  useContext,
+} from "react";
 import { copyToClipboard, useWindowSize } from "../utils";
 import mermaid from "mermaid";
 import Locale from "../locales";
@@ -18,12 +27,21 @@ import {
   ArtifactsShareButton,
   HTMLPreview,
   HTMLPreviewHander,
+  sendPreviewLogs,
 } from "./artifacts";
 import { useChatStore } from "../store";
 import { IconButton } from "./button";
 
 import { useAppConfig } from "../store/config";
 import clsx from "clsx";
+import { appendCitations, KnowledgeCitation } from "../utils/knowledge";
+import {
+  isArtifactProject,
+  parseProjectFiles,
+} from "../utils/artifact-project";
+
+// set when the code blocks are previewed together as a project
+const ArtifactProjectContext = createContext(false);
 
 export function Mermaid(props: { code: string }) {
   const ref = useRef<HTMLDivElement>(null);
@@ -78,6 +96,7 @@ export function PreCode(props: { children: any }) {
   const { height } = useWindowSize();
   const chatStore = useChatStore();
   const session = chatStore.currentSession();
+  const inProject = useContext(ArtifactProjectContext);
 
   const renderArtifacts = useDebouncedCallback(() => {
     if (!ref.current) return;
@@ -147,7 +166,7 @@ export function PreCode(props: { children: any }) {
       {mermaidCode.length > 0 && (
         <Mermaid code={mermaidCode} key={mermaidCode} />
       )}
-      {htmlCode.length > 0 && enableArtifacts && (
+      {htmlCode.length > 0 && enableArtifacts && !inProject && (
         <FullScreen className="no-dark html" right={70}>
           <ArtifactsShareButton
             style={{ position: "absolute", right: 20, top: 10 }}
@@ -165,6 +184,7 @@ export function PreCode(props: { children: any }) {
             code={htmlCode}
             autoHeight={!document.fullscreenElement}
             height={!document.fullscreenElement ? 600 : height}
+            onSendLogs={sendPreviewLogs}
           />
         </FullScreen>
       )}
@@ -266,52 +286,80 @@ function tryWrapHtmlCode(text: string) {
     );
 }
 
-function MarkDownContent(props: { content: string }) {
+function MarkDownContent(props: {
+  content: string;
+  citations?: KnowledgeCitation[];
+}) {
   const escapedContent = useMemo(() => {
-    return tryWrapHtmlCode(escapeBrackets(props.content));
-  }, [props.content]);
+    return tryWrapHtmlCode(
+      escapeBrackets(appendCitations(props.content, props.citations)),
+    );
+  }, [props.content, props.citations]);
+  // footnote ids must be unique across the messages on the page
+  const clobberPrefix = `${useId()}-`;
+  const isProject = useMemo(
+    () => isArtifactProject(parseProjectFiles(props.content)),
+    [props.content],
+  );
 
   return (
-    <ReactMarkdown
-      remarkPlugins={[RemarkMath, RemarkGfm, RemarkBreaks]}
-      rehypePlugins={[
-        RehypeKatex,
-        [
-          RehypeHighlight,
-          {
-            detect: false,
-            ignoreMissing: true,
+    <ArtifactProjectContext.Provider value={isProject}>
+      <ReactMarkdown
+        remarkPlugins={[RemarkMath, RemarkGfm, RemarkBreaks]}
+        remarkRehypeOptions={{ clobberPrefix }}
+        rehypePlugins={[
+          RehypeKatex,
+          [
+            RehypeHighlight,
+            {
+              detect: false,
+              ignoreMissing: true,
+            },
+          ],
+        ]}
+        components={{
+          pre: PreCode,
+          code: CustomCode,
+          p: (pProps) => <p {...pProps} dir="auto" />,
+          a: (aProps) => {
+            const href = aProps.href || "";
+            if (/\.(aac|mp3|opus|wav)$/.test(href)) {
+              return (
+                <figure>
+                  <audio controls src={href}></audio>
+                </figure>
+              );
+            }
+            if (/\.(3gp|3g2|webm|ogv|mpeg|mp4|avi)$/.test(href)) {
+              return (
+                <video controls width="99.9%">
+                  <source src={href} />
+                </video>
+              );
+            }
+            // footnotes, the hash of the url belongs to the router
+            if (href.startsWith("#")) {
+              return (
+                <a
+                  {...aProps}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    document
+                      .getElementById(decodeURIComponent(href.slice(1)))
+                      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+                  }}
+                />
+              );
+            }
+            const isInternal = /^\/#/i.test(href);
+            const target = isInternal ? "_self" : aProps.target ?? "_blank";
+            return <a {...aProps} target={target} />;
           },
-        ],
-      ]}
-      components={{
-        pre: PreCode,
-        code: CustomCode,
-        p: (pProps) => <p {...pProps} dir="auto" />,
-        a: (aProps) => {
-          const href = aProps.href || "";
-          if (/\.(aac|mp3|opus|wav)$/.test(href)) {
-            return (
-              <figure>
-                <audio controls src={href}></audio>
-              </figure>
-            );
-          }
-          if (/\.(3gp|3g2|webm|ogv|mpeg|mp4|avi)$/.test(href)) {
-            return (
-              <video controls width="99.9%">
-                <source src={href} />
-              </video>
-            );
-          }
-          const isInternal = /^\/#/i.test(href);
-          const target = isInternal ? "_self" : aProps.target ?? "_blank";
-          return <a {...aProps} target={target} />;
-        },
-      }}
-    >
-      {escapedContent}
-    </ReactMarkdown>
+        }}
+      >
+        {escapedContent}
+      </ReactMarkdown>
+    </ArtifactProjectContext.Provider>
   );
 }
 
@@ -320,6 +368,7 @@ export const MarkdownContent = React.memo(MarkDownContent);
 export function Markdown(
   props: {
     content: string;
+    citations?: KnowledgeCitation[];
     loading?: boolean;
     fontSize?: number;
     fontFamily?: string;
@@ -344,7 +393,7 @@ export function Markdown(
       {props.loading ? (
         <LoadingIcon />
       ) : (
-        <MarkdownContent content={props.content} />
+        <MarkdownContent content={props.content} citations={props.citations} />
       )}
     </div>
   );
@@ -30,6 +30,7 @@ import {
   Modal,
   Popover,
   Select,
+  Selector,
   showConfirm,
 } from "./ui-lib";
 import { Avatar, AvatarPicker } from "./emoji";
@@ -37,7 +38,7 @@ import Locale, { AllLangs, ALL_LANG_OPTIONS, Lang } from "../locales";
 import { useNavigate } from "react-router-dom";
 
 import chatStyle from "./chat.module.scss";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import {
   copyToClipboard,
   downloadAs,
@@ -48,6 +49,7 @@ import { Updater } from "../typing";
 import { ModelConfigList } from "./model-config";
 import { FileName, Path } from "../constant";
 import { BUILTIN_MASK_STORE } from "../masks";
+import { useKnowledgeStore } from "../store/knowledge";
 import {
   DragDropContext,
   Droppable,
@@ -56,6 +58,8 @@ import {
 } from "@hello-pangea/dnd";
 import { getMessageTextContent } from "../utils";
 import clsx from "clsx";
+import { isMcpEnabled } from "../mcp/actions";
+import { McpScopeModal } from "./mcp-context";
 
 // drag and drop helper function
 function reorder<T>(list: T[], startIndex: number, endIndex: number): T[] {
@@ -81,6 +85,18 @@ export function MaskConfig(props: {
   shouldSyncFromGlobal?: boolean;
 }) {
   const [showPicker, setShowPicker] = useState(false);
+  const [showKnowledgeSelector, setShowKnowledgeSelector] = useState(false);
+  const knowledgeStore = useKnowledgeStore();
+  const collections = knowledgeStore.getAll();
+  const knowledge = (props.mask.knowledge ?? []).filter(
+    (id) => knowledgeStore.collections[id],
+  );
+  const [mcpEnabled, setMcpEnabled] = useState(false);
+  const [showMcpScope, setShowMcpScope] = useState(false);
+
+  useEffect(() => {
+    isMcpEnabled().then(setMcpEnabled);
+  }, []);
 
   const updateConfig = (updater: (config: ModelConfig) => void) => {
     if (props.readonly) return;
@@ -166,6 +182,68 @@ export function MaskConfig(props: {
             }}
           ></input>
         </ListItem>
+        <ListItem
+          title={Locale.Mask.Config.Knowledge.Title}
+          subTitle={Locale.Mask.Config.Knowledge.SubTitle}
+        >
+          <IconButton
+            aria={Locale.Mask.Config.Knowledge.Title}
+            text={Locale.Mask.Config.Knowledge.Selected(knowledge.length)}
+            onClick={() => setShowKnowledgeSelector(true)}
+            disabled={props.readonly || collections.length === 0}
+            bordered
+          />
+          {showKnowledgeSelector && (
+            <Selector
+              multiple
+              defaultSelectedValue={knowledge}
+              items={collections.map((collection) => ({
+                title: collection.name || Locale.Knowledge.Untitled,
+                subTitle: Locale.Knowledge.DocumentCount(
+                  collection.documents.length,
+                ),
+                value: collection.id,
+              }))}
+              onClose={() => setShowKnowledgeSelector(false)}
+              onSelection={(ids) =>
+                props.updateMask((mask) => {
+                  mask.knowledge = ids;
+                })
+              }
+            />
+          )}
+        </ListItem>
+        {mcpEnabled && (
+          <ListItem
+            title={Locale.Mcp.Scope.Title}
+            subTitle={Locale.Mcp.Scope.SubTitle}
+          >
+            <IconButton
+              aria={Locale.Mcp.Scope.Title}
+              text={
+                props.mask.mcpServers
+                  ? Locale.Mcp.Scope.Selected(props.mask.mcpServers.length)
+                  : Locale.Mcp.Scope.All
+              }
+              onClick={() => setShowMcpScope(true)}
+              disabled={props.readonly}
+              bordered
+            />
+            {showMcpScope && (
+              <McpScopeModal
+                scope={props.mask}
+                providerName={props.mask.modelConfig.providerName}
+                onClose={() => setShowMcpScope(false)}
+                onSave={({ mcpServers, mcpTools }) =>
+                  props.updateMask((mask) => {
+                    mask.mcpServers = mcpServers;
+                    mask.mcpTools = mcpTools;
+                  })
+                }
+              />
+            )}
+          </ListItem>
+        )}
 
         {globalConfig.enableArtifacts && (
           <ListItem
@@ -0,0 +1,413 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  getAllPrompts,
+  getAllResources,
+  getClientTools,
+  getMcpConfigFromFile,
+  getMcpResourceVersions,
+  initializeMcpClients,
+  isMcpEnabled,
+  readMcpResource,
+  subscribeMcpResource,
+  unsubscribeMcpResource,
+} from "../mcp/actions";
+import {
+  ListToolsResponse,
+  McpClientPrompts,
+  McpResource,
+  McpResourceRef,
+} from "../mcp/types";
+import {
+  createResourceAttachment,
+  getMcpToolName,
+  McpClientPrompt,
+} from "../mcp/utils";
+import { ChatAttachment } from "../utils/document";
+import { Mask } from "../store/mask";
+import { Path, TOOL_CALL_PROVIDERS } from "../constant";
+import Locale from "../locales";
+import { IconButton } from "./button";
+import { List, ListItem, Modal, Selector, showToast } from "./ui-lib";
+import { ToolPolicySelect } from "./tool-approval";
+import ConfirmIcon from "../icons/confirm.svg";
+import McpToolIcon from "../icons/tool.svg";
+import styles from "./mcp-context.module.scss";
+
+// how often subscribed resources are checked for updates
+const RESOURCE_POLL_INTERVAL = 2000;
+
+function getResourceKey({ clientId, uri }: McpResourceRef) {
+  return `${clientId}\n${uri}`;
+}
+
+/**
+ * the prompts of the mcp servers a session uses, all of them when
+ * `servers` is not set, `reload` picks up prompts the servers added later
+ */
+export function useMcpPrompts(servers?: string[]) {
+  const [prompts, setPrompts] = useState<McpClientPrompts[]>([]);
+  const serversKey = servers?.join("\n");
+  const reload = () =>
+    (servers?.length !== 0 ? isMcpEnabled() : Promise.resolve(false))
+      .then((enabled) => (enabled ? getAllPrompts(servers) : []))
+      .then(setPrompts)
+      .catch((e) => console.error("[MCP] failed to load prompts", e));
+
+  useEffect(() => {
+    reload();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [serversKey]);
+
+  return { prompts, reload };
+}
+
+/**
+ * keeps the attached mcp resources up to date, the servers that support
+ * it are subscribed to and their resources read again when they change
+ */
+export function useMcpResourceRefresh(
+  attachments: ChatAttachment[],
+  setAttachments: React.Dispatch<React.SetStateAction<ChatAttachment[]>>,
+) {
+  const attachmentsRef = useRef(attachments);
+  attachmentsRef.current = attachments;
+
+  const refs = new Map<string, McpResourceRef>();
+  attachments.forEach(({ mcp }) => {
+    if (mcp) refs.set(getResourceKey(mcp), mcp);
+  });
+  const refsKey = Array.from(refs.keys()).sort().join("\n\n");
+
+  useEffect(() => {
+    const watched = Array.from(refs.values());
+    if (watched.length === 0) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setInterval> | undefined;
+
+    const refresh = async (ref: McpResourceRef, latest: number) => {
+      const isResource = (a: ChatAttachment) =>
+        a.mcp && getResourceKey(a.mcp) === getResourceKey(ref);
+      const current = attachmentsRef.current.find(isResource)?.mcp;
+      if (!current || latest <= current.version) return;
+      const { contents, version } = await readMcpResource(
+        ref.clientId,
+        ref.uri,
+      );
+      if (cancelled) return;
+      setAttachments((attachments) =>
+        attachments.map((a) =>
+          isResource(a)
+            ? createResourceAttachment(
+                { uri: ref.uri, name: a.name, mimeType: a.type },
+                contents,
+                { ...ref, version },
+              )
+            : a,
+        ),
+      );
+    };
+
+    Promise.all(
+      watched.map((ref) => subscribeMcpResource(ref.clientId, ref.uri)),
+    ).then((subscribed) => {
+      const polled = watched.filter((_, i) => subscribed[i]);
+      if (cancelled || polled.length === 0) return;
+      timer = setInterval(async () => {
+        try {
+          const versions = await getMcpResourceVersions(polled);
+          await Promise.all(polled.map((ref, i) => refresh(ref, versions[i])));
+        } catch (e) {
+          console.error("[MCP] failed to refresh resources", e);
+        }
+      }, RESOURCE_POLL_INTERVAL);
+    });
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+      watched.forEach((ref) => unsubscribeMcpResource(ref.clientId, ref.uri));
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [refsKey]);
+}
+
+export function McpResourceSelector(props: {
+  servers?: string[];
+  onClose: () => void;
+  onSelect: (clientId: string, resource: McpResource) => void;
+}) {
+  const [resources, setResources] =
+    useState<{ clientId: string; resource: McpResource }[]>();
+
+  useEffect(() => {
+    getAllResources(props.servers)
+      .then((clients) =>
+        clients.flatMap(({ clientId, resources }) =>
+          resources.map((resource) => ({ clientId, resource })),
+        ),
+      )
+      .catch((e) => {
+        console.error("[MCP] failed to list resources", e);
+        return [];
+      })
+      .then((resources) => {
+        if (resources.length === 0) {
+          showToast(Locale.Mcp.NoResources);
+          props.onClose();
+        }
+        setResources(resources);
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  if (!resources?.length) return null;
+  return (
+    <Selector
+      items={resources.map(({ clientId, resource }) => ({
+        title: `${resource.title || resource.name} (${clientId})`,
+        subTitle: resource.description || resource.uri,
+        value: getResourceKey({ clientId, uri: resource.uri }),
+      }))}
+      onClose={props.onClose}
+      onSelection={([key]) => {
+        const selected = resources.find(
+          ({ clientId, resource }) =>
+            getResourceKey({ clientId, uri: resource.uri }) === key,
+        );
+        if (selected) props.onSelect(selected.clientId, selected.resource);
+      }}
+    />
+  );
+}
+
+/** the arguments of a prompt, the required ones must be filled */
+export function McpPromptModal(props: {
+  prompt: McpClientPrompt;
+  onClose: () => void;
+  onSubmit: (args: Record<string, string>) => void;
+}) {
+  const [args, setArgs] = useState<Record<string, string>>({});
+  const missing = props.prompt.arguments?.some(
+    (arg) => arg.required && !args[arg.name]?.trim(),
+  );
+
+  return (
+    <div className="modal-mask">
+      <Modal
+        title={Locale.Mcp.PromptArgs(props.prompt.title || props.prompt.name)}
+        onClose={props.onClose}
+        actions={[
+          <IconButton
+            key="confirm"
+            type="primary"
+            text={Locale.UI.Confirm}
+            icon={<ConfirmIcon />}
+            disabled={missing}
+            onClick={() => props.onSubmit(args)}
+          />,
+        ]}
+      >
+        <List>
+          {props.prompt.arguments?.map((arg) => (
+            <ListItem
+              key={arg.name}
+              title={arg.required ? `${arg.name} *` : arg.name}
+              subTitle={arg.description}
+            >
+              <input
+                type="text"
+                aria-label={arg.name}
+                value={args[arg.name] ?? ""}
+                onChange={(e) =>
+                  setArgs({ ...args, [arg.name]: e.currentTarget.value })
+                }
+              />
+            </ListItem>
+          ))}
+        </List>
+      </Modal>
+    </div>
+  );
+}
+
+export type McpScope = Pick<Mask, "mcpServers" | "mcpTools">;
+
+type McpToolInfo = { name: string; description?: string };
+
+/**
+ * the mcp servers of a mask or session and the tools of each, listing the
+ * tools of a server starts it
+ */
+export function McpScopeModal(props: {
+  scope: McpScope;
+  // the provider of the chat, tools only reach providers with tool calling
+  providerName: string;
+  onClose: () => void;
+  onSave: (scope: McpScope) => void;
+}) {
+  const navigate = useNavigate();
+  const [servers, setServers] = useState<string[]>();
+  const [selected, setSelected] = useState(props.scope.mcpServers ?? []);
+  const [allowed, setAllowed] = useState(props.scope.mcpTools ?? {});
+  // null when the tools of the server failed to load
+  const [tools, setTools] = useState<Record<string, McpToolInfo[] | null>>({});
+
+  const loadTools = async (clientId: string) => {
+    try {
+      await initializeMcpClients([clientId]);
+      const result = await getClientTools(clientId);
+      if (!result) throw Error(`no tools from ${clientId}`);
+      const list = result.tools.map((tool: ListToolsResponse["tools"]) => ({
+        name: tool.name ?? "",
+        description: tool.description,
+      }));
+      setTools((tools) => ({ ...tools, [clientId]: list }));
+    } catch (e) {
+      console.error("[MCP] failed to load tools", e);
+      setTools((tools) => ({ ...tools, [clientId]: null }));
+    }
+  };
+
+  useEffect(() => {
+    getMcpConfigFromFile()
+      .then((config) => {
+        const servers = Object.keys(config.mcpServers);
+        // no servers set means all of them
+        const selected = props.scope.mcpServers ?? servers;
+        setServers(servers);
+        setSelected(selected);
+        selected.forEach(loadTools);
+      })
+      .catch((e) => {
+        console.error("[MCP] failed to load servers", e);
+        setServers([]);
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const toggleServer = (clientId: string, checked: boolean) => {
+    if (checked) {
+      setSelected([...selected, clientId]);
+      if (!(clientId in tools)) loadTools(clientId);
+    } else {
+      setSelected(selected.filter((id) => id !== clientId));
+      const { [clientId]: _, ...rest } = allowed;
+      setAllowed(rest);
+    }
+  };
+
+  // a server with all of its tools allowed has no entry
+  const toggleTool = (clientId: string, name: string, checked: boolean) => {
+    const all = (tools[clientId] ?? []).map((tool) => tool.name);
+    const current = allowed[clientId] ?? all;
+    const next = checked
+      ? all.filter((tool) => tool === name || current.includes(tool))
+      : current.filter((tool) => tool !== name);
+    const { [clientId]: _, ...rest } = allowed;
+    setAllowed(
+      next.length === all.length ? rest : { ...rest, [clientId]: next },
+    );
+  };
+
+  const renderTools = (clientId: string) => {
+    const list = tools[clientId];
+    if (list === undefined || list === null) {
+      return (
+        <ListItem
+          className={styles["mcp-scope-tool"]}
+          title={
+            list === null ? Locale.Mcp.Scope.Failed : Locale.Mcp.Scope.Loading
+          }
+        />
+      );
+    }
+    return list.map((tool) => (
+      <ListItem
+        key={tool.name}
+        className={styles["mcp-scope-tool"]}
+        title={tool.name}
+        subTitle={tool.description}
+      >
+        <div className={styles["mcp-scope-tool-actions"]}>
+          <ToolPolicySelect name={getMcpToolName(clientId, tool.name)} />
+          <input
+            type="checkbox"
+            aria-label={tool.name}
+            checked={allowed[clientId]?.includes(tool.name) ?? true}
+            onChange={(e) =>
+              toggleTool(clientId, tool.name, e.currentTarget.checked)
+            }
+          />
+        </div>
+      </ListItem>
+    ));
+  };
+
+  return (
+    <div className="modal-mask">
+      <Modal
+        title={Locale.Mcp.Scope.Title}
+        onClose={props.onClose}
+        actions={[
+          <IconButton
+            key="market"
+            bordered
+            text={Locale.Mcp.Scope.Market}
+            icon={<McpToolIcon />}
+            onClick={() => navigate(Path.McpMarket)}
+          />,
+          <IconButton
+            key="confirm"
+            type="primary"
+            text={Locale.UI.Confirm}
+            icon={<ConfirmIcon />}
+            onClick={() => {
+              const mcpServers = (servers ?? []).filter((id) =>
+                selected.includes(id),
+              );
+              const mcpTools = Object.fromEntries(
+                Object.entries(allowed).filter(([id]) =>
+                  mcpServers.includes(id),
+                ),
+              );
+              // with every server selected, servers added later are too
+              props.onSave({
+                mcpServers:
+                  mcpServers.length === servers?.length
+                    ? undefined
+                    : mcpServers,
+                mcpTools,
+              });
+              props.onClose();
+            }}
+          />,
+        ]}
+      >
+        <List>
+          {!TOOL_CALL_PROVIDERS.includes(props.providerName) && (
+            <ListItem
+              title={Locale.Mcp.Scope.Unsupported(props.providerName)}
+            />
+          )}
+          {servers?.length === 0 && <ListItem title={Locale.Mcp.Scope.Empty} />}
+          {servers?.map((clientId) => (
+            <div key={clientId}>
+              <ListItem title={clientId}>
+                <input
+                  type="checkbox"
+                  aria-label={clientId}
+                  checked={selected.includes(clientId)}
+                  onChange={(e) =>
+                    toggleServer(clientId, e.currentTarget.checked)
+                  }
+                />
+              </ListItem>
+              {selected.includes(clientId) && renderTools(clientId)}
+            </div>
+          ))}
+        </List>
+      </Modal>
+    </div>
+  );
+}
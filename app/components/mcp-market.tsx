@@ -8,26 +8,30 @@ import DeleteIcon from "../icons/delete.svg";
 import RestartIcon from "../icons/reload.svg";
 import EyeIcon from "../icons/eye.svg";
 import GithubIcon from "../icons/github.svg";
-import { List, ListItem, Modal, showToast } from "./ui-lib";
+import { List, ListItem, Modal, Select, showToast } from "./ui-lib";
 import { useNavigate } from "react-router-dom";
 import { useEffect, useState } from "react";
 import {
   addMcpServer,
   getClientsStatus,
   getClientTools,
+  initializeMcpClients,
   getMcpConfigFromFile,
   isMcpEnabled,
   pauseMcpServer,
+  removeMcpServer,
   restartAllClients,
   resumeMcpServer,
 } from "../mcp/actions";
 import {
   ListToolsResponse,
   McpConfigData,
+  McpServerAuth,
   PresetServer,
   ServerConfig,
   ServerStatusResponse,
 } from "../mcp/types";
+import { isRemoteServer } from "../mcp/utils";
 import clsx from "clsx";
 import PlayIcon from "../icons/play.svg";
 import StopIcon from "../icons/pause.svg";
@@ -40,6 +44,69 @@ interface ConfigProperty {
   minItems?: number;
 }
 
+// 远程服务器的编辑表单
+interface RemoteServerForm {
+  id: string;
+  editing: boolean;
+  type: "sse" | "streamable-http";
+  url: string;
+  // 每行一个 `Name: value`
+  headers: string;
+  authType: "none" | McpServerAuth["type"];
+  token: string;
+  clientId: string;
+  clientSecret: string;
+  scope: string;
+  issuer: string;
+}
+
+function toRemoteServerForm(id = "", config?: ServerConfig): RemoteServerForm {
+  const auth = config?.auth;
+  return {
+    id,
+    editing: !!config,
+    type: config?.type === "sse" ? "sse" : "streamable-http",
+    url: config?.url ?? "",
+    headers: Object.entries(config?.headers ?? {})
+      .map(([name, value]) => `${name}: ${value}`)
+      .join("\n"),
+    authType: auth?.type ?? "none",
+    token: auth?.type === "bearer" ? auth.token : "",
+    clientId: auth?.type === "oauth" ? auth.clientId : "",
+    clientSecret: auth?.type === "oauth" ? auth.clientSecret : "",
+    scope: auth?.type === "oauth" ? auth.scope ?? "" : "",
+    issuer: auth?.type === "oauth" ? auth.issuer ?? "" : "",
+  };
+}
+
+function toRemoteServerConfig(form: RemoteServerForm): ServerConfig {
+  const headers: Record<string, string> = {};
+  form.headers.split("\n").forEach((line) => {
+    const colon = line.indexOf(":");
+    if (colon > 0) {
+      headers[line.slice(0, colon).trim()] = line.slice(colon + 1).trim();
+    }
+  });
+  const auth: McpServerAuth | undefined =
+    form.authType === "bearer"
+      ? { type: "bearer", token: form.token.trim() }
+      : form.authType === "oauth"
+      ? {
+          type: "oauth",
+          clientId: form.clientId.trim(),
+          clientSecret: form.clientSecret.trim(),
+          ...(form.scope.trim() ? { scope: form.scope.trim() } : {}),
+          ...(form.issuer.trim() ? { issuer: form.issuer.trim() } : {}),
+        }
+      : undefined;
+  return {
+    type: form.type,
+    url: form.url.trim(),
+    ...(Object.keys(headers).length > 0 ? { headers } : {}),
+    ...(auth ? { auth } : {}),
+  };
+}
+
 export function McpMarketPage() {
   const navigate = useNavigate();
   const [mcpEnabled, setMcpEnabled] = useState(false);
@@ -55,6 +122,7 @@ export function McpMarketPage() {
   >({});
   const [loadingPresets, setLoadingPresets] = useState(true);
   const [presetServers, setPresetServers] = useState<PresetServer[]>([]);
+  const [remoteForm, setRemoteForm] = useState<RemoteServerForm>();
   const [loadingStates, setLoadingStates] = useState<Record<string, string>>(
     {},
   );
@@ -141,14 +209,15 @@ export function McpMarketPage() {
       const preset = presetServers.find((s) => s.id === editingServerId);
       if (preset?.configSchema) {
         const userConfig: Record<string, any> = {};
+        const args = currentConfig.args ?? [];
         Object.entries(preset.argsMapping || {}).forEach(([key, mapping]) => {
           if (mapping.type === "spread") {
             // For spread types, extract the array from args.
             const startPos = mapping.position ?? 0;
-            userConfig[key] = currentConfig.args.slice(startPos);
+            userConfig[key] = args.slice(startPos);
           } else if (mapping.type === "single") {
             // For single types, get a single value
-            userConfig[key] = currentConfig.args[mapping.position ?? 0];
+            userConfig[key] = args[mapping.position ?? 0];
           } else if (
             mapping.type === "env" &&
             mapping.key &&
@@ -228,6 +297,8 @@ export function McpMarketPage() {
   // 获取服务器支持的 Tools
   const loadTools = async (id: string) => {
     try {
+      // idle servers are started to list their tools
+      await initializeMcpClients([id]);
       const result = await getClientTools(id);
       if (result) {
         setTools(result);
@@ -326,6 +397,167 @@ export function McpMarketPage() {
     }
   };
 
+  const isRemote = (id: string) => {
+    const serverConfig = config?.mcpServers[id];
+    return !!serverConfig && isRemoteServer(serverConfig);
+  };
+
+  // 已添加的远程服务器，与预设服务器一起展示
+  const remoteServers: PresetServer[] = Object.entries(config?.mcpServers ?? {})
+    .filter(([_, serverConfig]) => isRemoteServer(serverConfig))
+    .map(([id, serverConfig]) => ({
+      id,
+      name: id,
+      description: serverConfig.url ?? "",
+      repo: "",
+      tags: [serverConfig.type === "sse" ? "SSE" : "Streamable HTTP"],
+      command: "",
+      baseArgs: [],
+      configurable: false,
+    }));
+
+  // Save remote server
+  const saveRemoteServer = async () => {
+    if (!remoteForm) return;
+    const id = remoteForm.id.trim();
+    if (!id || !remoteForm.url.trim()) {
+      showToast("Server ID and URL are required");
+      return;
+    }
+    if (!remoteForm.editing && isServerAdded(id)) {
+      showToast(`Server ${id} already exists`);
+      return;
+    }
+    setRemoteForm(undefined);
+
+    try {
+      updateLoadingState(id, "Connecting to server...");
+      const newConfig = await addMcpServer(id, {
+        ...toRemoteServerConfig(remoteForm),
+        status: config?.mcpServers[id]?.status,
+      });
+      setConfig(newConfig);
+      showToast("Server configuration updated successfully");
+    } catch (error) {
+      showToast(
+        error instanceof Error ? error.message : "Failed to save configuration",
+      );
+    } finally {
+      updateLoadingState(id, null);
+    }
+  };
+
+  // Remove server
+  const removeServer = async (id: string) => {
+    try {
+      updateLoadingState(id, "Removing server...");
+      const newConfig = await removeMcpServer(id);
+      setConfig(newConfig);
+      showToast("Server removed successfully");
+    } catch (error) {
+      showToast("Failed to remove server");
+      console.error(error);
+    } finally {
+      updateLoadingState(id, null);
+    }
+  };
+
+  // Render remote server form
+  const renderRemoteForm = () => {
+    if (!remoteForm) return null;
+    const update = (value: Partial<RemoteServerForm>) =>
+      setRemoteForm({ ...remoteForm, ...value });
+    const textInput = (
+      key:
+        | "id"
+        | "url"
+        | "token"
+        | "clientId"
+        | "clientSecret"
+        | "scope"
+        | "issuer",
+      title: string,
+      placeholder: string,
+      subTitle?: string,
+    ) => (
+      <ListItem key={key} title={title} subTitle={subTitle}>
+        <input
+          aria-label={title}
+          type={key === "token" || key === "clientSecret" ? "password" : "text"}
+          value={remoteForm[key]}
+          placeholder={placeholder}
+          disabled={key === "id" && remoteForm.editing}
+          onChange={(e) => update({ [key]: e.currentTarget.value })}
+        />
+      </ListItem>
+    );
+
+    return (
+      <>
+        {textInput("id", "Server ID", "my-server")}
+        <ListItem title="Transport">
+          <Select
+            aria-label="Transport"
+            value={remoteForm.type}
+            onChange={(e) =>
+              update({
+                type: e.currentTarget.value as RemoteServerForm["type"],
+              })
+            }
+          >
+            <option value="streamable-http">Streamable HTTP</option>
+            <option value="sse">SSE</option>
+          </Select>
+        </ListItem>
+        {textInput("url", "URL", "https://example.com/mcp")}
+        <ListItem
+          title="Headers"
+          subTitle="One `Name: value` per line"
+          vertical
+        >
+          <textarea
+            aria-label="Headers"
+            className={styles["headers-input"]}
+            rows={3}
+            value={remoteForm.headers}
+            placeholder="X-Api-Key: ..."
+            onChange={(e) => update({ headers: e.currentTarget.value })}
+          />
+        </ListItem>
+        <ListItem title="Authentication">
+          <Select
+            aria-label="Authentication"
+            value={remoteForm.authType}
+            onChange={(e) =>
+              update({
+                authType: e.currentTarget.value as RemoteServerForm["authType"],
+              })
+            }
+          >
+            <option value="none">None</option>
+            <option value="bearer">Bearer Token</option>
+            <option value="oauth">OAuth Client Credentials</option>
+          </Select>
+        </ListItem>
+        {remoteForm.authType === "bearer" &&
+          textInput("token", "Token", "Bearer token")}
+        {remoteForm.authType === "oauth" && (
+          <>
+            {textInput("clientId", "Client ID", "Client ID")}
+            {textInput("clientSecret", "Client Secret", "Client secret")}
+            {textInput("scope", "Scope", "Optional")}
+            {textInput(
+              "issuer",
+              "Issuer",
+              "https://auth.example.com",
+              "Only send the credentials to this authorization server",
+            )}
+          </>
+        )}
+      </>
+    );
+  };
+
   // Render configuration form
   const renderConfigForm = () => {
     const preset = presetServers.find((s) => s.id === editingServerId);
@@ -427,6 +659,17 @@ export function McpMarketPage() {
         </span>
       ),
       active: <span className={styles["server-status"]}>Running</span>,
+      idle: (
+        <span className={clsx(styles["server-status"], styles["stopped"])}>
+          Idle
+        </span>
+      ),
+      reconnecting: (
+        <span className={clsx(styles["server-status"], styles["initializing"])}>
+          Reconnecting ({status.reconnectAttempt})
+          <span className={styles["error-message"]}>: {status.errorMsg}</span>
+        </span>
+      ),
       error: (
         <span className={clsx(styles["server-status"], styles["error"])}>
           Error
@@ -458,7 +701,11 @@ export function McpMarketPage() {
       );
     }
 
-    if (!Array.isArray(presetServers) || presetServers.length === 0) {
+    const servers = [
+      ...remoteServers,
+      ...(Array.isArray(presetServers) ? presetServers : []),
+    ];
+    if (servers.length === 0) {
       return (
         <div className={styles["empty-container"]}>
           <div className={styles["empty-text"]}>No servers available</div>
@@ -466,7 +713,7 @@ export function McpMarketPage() {
       );
     }
 
-    return presetServers
+    return servers
       .filter((server) => {
         if (searchText.length === 0) return true;
         const searchLower = searchText.toLowerCase();
@@ -487,8 +734,10 @@ export function McpMarketPage() {
           error: 0, // Highest priority for error status
           active: 1, // Second for active
           initializing: 2, // Initializing
+          reconnecting: 2, // Reconnecting
           starting: 3, // Starting
           stopping: 4, // Stopping
+          idle: 5, // Not started by any chat yet
           paused: 5, // Paused
           undefined: 6, // Lowest priority for undefined
         };
@@ -580,6 +829,29 @@ export function McpMarketPage() {
                       disabled={isLoading}
                     />
                   )}
+                  {isRemote(server.id) && (
+                    <>
+                      <IconButton
+                        icon={<EditIcon />}
+                        text="Configure"
+                        onClick={() =>
+                          setRemoteForm(
+                            toRemoteServerForm(
+                              server.id,
+                              config?.mcpServers[server.id],
+                            ),
+                          )
+                        }
+                        disabled={isLoading}
+                      />
+                      <IconButton
+                        icon={<DeleteIcon />}
+                        text="Remove"
+                        onClick={() => removeServer(server.id)}
+                        disabled={isLoading}
+                      />
+                    </>
+                  )}
                   {checkServerStatus(server.id).status === "paused" ? (
                     <>
                       <IconButton
@@ -651,6 +923,15 @@ export function McpMarketPage() {
           </div>
 
           <div className="window-actions">
+            <div className="window-action-button">
+              <IconButton
+                icon={<AddIcon />}
+                bordered
+                onClick={() => setRemoteForm(toRemoteServerForm())}
+                text="Add Remote"
+                disabled={isLoading}
+              />
+            </div>
             <div className="window-action-button">
               <IconButton
                 icon={<RestartIcon />}
@@ -714,6 +995,36 @@ export function McpMarketPage() {
           </div>
         )}
 
+        {remoteForm && (
+          <div className="modal-mask">
+            <Modal
+              title={
+                remoteForm.editing
+                  ? `Configure Server - ${remoteForm.id}`
+                  : "Add Remote Server"
+              }
+              onClose={() => setRemoteForm(undefined)}
+              actions={[
+                <IconButton
+                  key="cancel"
+                  text="Cancel"
+                  onClick={() => setRemoteForm(undefined)}
+                  bordered
+                />,
+                <IconButton
+                  key="confirm"
+                  text="Save"
+                  type="primary"
+                  onClick={saveRemoteServer}
+                  bordered
+                />,
+              ]}
+            >
+              <List>{renderRemoteForm()}</List>
+            </Modal>
+          </div>
+        )}
+
         {viewingServerId && (
           <div className="modal-mask">
             <Modal
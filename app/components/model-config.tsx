@@ -1,13 +1,22 @@
-import { ServiceProvider } from "@/app/constant";
+import { RESPONSE_SCHEMA_LIBRARY, ServiceProvider } from "@/app/constant";
 import { ModalConfigValidator, ModelConfig } from "../store";
 
 import Locale from "../locales";
 import { InputRange } from "./input-range";
-import { ListItem, Select } from "./ui-lib";
+import { Input, ListItem, Select } from "./ui-lib";
 import { useAllModels } from "../utils/hooks";
 import { groupBy } from "lodash-es";
 import styles from "./model-config.module.scss";
 import { getModelProvider } from "../utils/model";
+import { parseJsonSchema, ResponseFormatType } from "../utils/response-format";
+import {
+  MAX_THINKING_BUDGET,
+  MIN_THINKING_BUDGET,
+  REASONING_EFFORTS,
+  ReasoningEffort,
+  supportsReasoningEffort,
+  supportsThinkingBudget,
+} from "../utils/reasoning";
 
 export function ModelConfigList(props: {
   modelConfig: ModelConfig;
@@ -20,6 +29,10 @@ export function ModelConfigList(props: {
   );
   const value = `${props.modelConfig.model}@${props.modelConfig?.providerName}`;
   const compressModelValue = `${props.modelConfig.compressModel}@${props.modelConfig?.compressProviderName}`;
+  const responseFormat = props.modelConfig.responseFormat ?? { type: "text" };
+  const invalidSchema =
+    responseFormat.type === "json_schema" &&
+    !parseJsonSchema(responseFormat.schema);
 
   return (
     <>
@@ -109,6 +122,53 @@ export function ModelConfigList(props: {
           }
         ></input>
       </ListItem>
+      {supportsReasoningEffort(props.modelConfig.model) && (
+        <ListItem
+          title={Locale.Settings.ReasoningEffort.Title}
+          subTitle={Locale.Settings.ReasoningEffort.SubTitle}
+        >
+          <Select
+            aria-label={Locale.Settings.ReasoningEffort.Title}
+            value={props.modelConfig.reasoningEffort ?? ""}
+            onChange={(e) =>
+              props.updateConfig(
+                (config) =>
+                  (config.reasoningEffort = e.currentTarget
+                    .value as ReasoningEffort),
+              )
+            }
+          >
+            {REASONING_EFFORTS.map((effort) => (
+              <option value={effort} key={effort}>
+                {Locale.Settings.ReasoningEffort.Levels[effort || "default"]}
+              </option>
+            ))}
+          </Select>
+        </ListItem>
+      )}
+      {supportsThinkingBudget(props.modelConfig.model) && (
+        <ListItem
+          title={Locale.Settings.ThinkingBudget.Title}
+          subTitle={Locale.Settings.ThinkingBudget.SubTitle}
+        >
+          <input
+            aria-label={Locale.Settings.ThinkingBudget.Title}
+            type="number"
+            min={0}
+            max={MAX_THINKING_BUDGET}
+            step={MIN_THINKING_BUDGET}
+            value={props.modelConfig.thinkingBudget ?? 0}
+            onChange={(e) =>
+              props.updateConfig(
+                (config) =>
+                  (config.thinkingBudget = ModalConfigValidator.thinkingBudget(
+                    e.currentTarget.valueAsNumber,
+                  )),
+              )
+            }
+          ></input>
+        </ListItem>
+      )}
 
       {props.modelConfig?.providerName == ServiceProvider.Google ? null : (
         <>
@@ -268,6 +328,129 @@ export function ModelConfigList(props: {
             ))}
         </Select>
       </ListItem>
+      <ListItem
+        title={Locale.Settings.Retry.Title}
+        subTitle={Locale.Settings.Retry.SubTitle}
+      >
+        <InputRange
+          aria={Locale.Settings.Retry.Title}
+          title={(props.modelConfig.retryCount ?? 2).toString()}
+          value={props.modelConfig.retryCount ?? 2}
+          min="0"
+          max="5"
+          step="1"
+          onChange={(e) =>
+            props.updateConfig(
+              (config) =>
+                (config.retryCount = ModalConfigValidator.retryCount(
+                  e.currentTarget.valueAsNumber,
+                )),
+            )
+          }
+        ></InputRange>
+      </ListItem>
+      <ListItem
+        title={Locale.Settings.FallbackModels.Title}
+        subTitle={Locale.Settings.FallbackModels.SubTitle}
+        vertical={true}
+      >
+        <input
+          aria-label={Locale.Settings.FallbackModels.Title}
+          style={{ width: "100%", maxWidth: "unset", textAlign: "left" }}
+          type="text"
+          value={props.modelConfig.fallbackModels ?? ""}
+          placeholder="gpt-4o@OpenAI,claude-3-5-sonnet-latest@Anthropic"
+          onChange={(e) =>
+            props.updateConfig(
+              (config) => (config.fallbackModels = e.currentTarget.value),
+            )
+          }
+        ></input>
+      </ListItem>
+      <ListItem
+        title={Locale.Settings.ResponseFormat.Title}
+        subTitle={Locale.Settings.ResponseFormat.SubTitle}
+      >
+        <Select
+          aria-label={Locale.Settings.ResponseFormat.Title}
+          value={responseFormat.type}
+          onChange={(e) =>
+            props.updateConfig(
+              (config) =>
+                (config.responseFormat = {
+                  ...responseFormat,
+                  type: e.currentTarget.value as ResponseFormatType,
+                }),
+            )
+          }
+        >
+          {Object.entries(Locale.Settings.ResponseFormat.Types).map(
+            ([type, name]) => (
+              <option value={type} key={type}>
+                {name}
+              </option>
+            ),
+          )}
+        </Select>
+      </ListItem>
+      {responseFormat.type === "json_schema" && (
+        <>
+          <ListItem title={Locale.Settings.ResponseFormat.Library}>
+            <Select
+              aria-label={Locale.Settings.ResponseFormat.Library}
+              value=""
+              onChange={(e) => {
+                const preset = RESPONSE_SCHEMA_LIBRARY.find(
+                  (v) => v.name === e.currentTarget.value,
+                );
+                if (!preset) return;
+                props.updateConfig(
+                  (config) =>
+                    (config.responseFormat = {
+                      type: "json_schema",
+                      schema: JSON.stringify(preset.schema, null, 2),
+                    }),
+                );
+              }}
+            >
+              <option value="" disabled>
+                {Locale.Settings.ResponseFormat.Library}
+              </option>
+              {RESPONSE_SCHEMA_LIBRARY.map((v) => (
+                <option value={v.name} key={v.name}>
+                  {v.name}
+                </option>
+              ))}
+            </Select>
+          </ListItem>
+          <ListItem
+            title={Locale.Settings.ResponseFormat.Schema}
+            subTitle={
+              invalidSchema
+                ? Locale.Settings.ResponseFormat.InvalidSchema
+                : undefined
+            }
+            vertical={true}
+          >
+            <Input
+              aria-label={Locale.Settings.ResponseFormat.Schema}
+              className={styles["schema-input"]}
+              rows={8}
+              value={responseFormat.schema ?? ""}
+              placeholder='{ "type": "object", "properties": { ... } }'
+              onInput={(e) =>
+                props.updateConfig(
+                  (config) =>
+                    (config.responseFormat = {
+                      type: "json_schema",
+                      schema: e.currentTarget.value,
+                    }),
+                )
+              }
+            ></Input>
+          </ListItem>
+        </>
+      )}
     </>
   );
 }
@@ -29,6 +29,7 @@ import Locale from "../locales";
 import { useNavigate } from "react-router-dom";
 import { useState } from "react";
 import clsx from "clsx";
+import { ToolPolicySelect } from "./tool-approval";
 
 export function PluginPage() {
   const navigate = useNavigate();
@@ -359,7 +360,9 @@ export function PluginPage() {
                   key={index}
                   title={tool?.function?.name}
                   subTitle={tool?.function?.description}
-                />
+                >
+                  <ToolPolicySelect name={tool?.function?.name} />
+                </ListItem>
               ))}
             </List>
           </Modal>
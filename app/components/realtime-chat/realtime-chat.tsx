@@ -7,13 +7,21 @@ import clsx from "clsx";
 
 import { useState, useRef, useEffect } from "react";
 
-import { useChatStore, createMessage, useAppConfig } from "@/app/store";
+import {
+  useChatStore,
+  createMessage,
+  useAppConfig,
+  ChatMessage,
+  ChatMessageTool,
+} from "@/app/store";
+import { McpToolService, usePluginStore } from "@/app/store/plugin";
 
 import { IconButton } from "@/app/components/button";
 
 import {
   Modality,
   RTClient,
+  RTFunctionCallItem,
   RTInputAudioItem,
   RTResponse,
   TurnDetection,
@@ -21,6 +29,11 @@ import {
 import { AudioHandler } from "@/app/lib/audio";
 import { uploadImage } from "@/app/utils/chat";
 import { VoicePrint } from "@/app/components/voice-print";
+import { getMessageTextContent } from "@/app/utils";
+import { toRealtimeTools } from "@/app/utils/realtime-tools";
+import { getToolPolicy } from "@/app/utils/tool-approval";
+import { showConfirm } from "@/app/components/ui-lib";
+import Locale from "@/app/locales";
 
 interface RealtimeChatProps {
   onClose?: () => void;
@@ -47,6 +60,10 @@ export function RealtimeChat({
   const clientRef = useRef<RTClient | null>(null);
   const audioHandlerRef = useRef<AudioHandler | null>(null);
   const initRef = useRef(false);
+  const toolsRef = useRef<{
+    names: Record<string, string>;
+    funcs: Record<string, Function>;
+  }>({ names: {}, funcs: {} });
 
   const temperature = config.realtimeConfig.temperature;
   const apiKey = config.realtimeConfig.apiKey;
@@ -56,6 +73,43 @@ export function RealtimeChat({
   const azureDeployment = config.realtimeConfig.azure.deployment;
   const voice = config.realtimeConfig.voice;
 
+  // the enabled plugins and mcp servers, as in text chat
+  const loadTools = async () => {
+    const mcpTools = await McpToolService.load(session.mask);
+    const [functionTools, funcs] = usePluginStore
+      .getState()
+      .getAsTools(session.mask?.plugin || [], mcpTools);
+    const { tools, names } = toRealtimeTools(functionTools);
+    toolsRef.current = { names, funcs };
+    return tools;
+  };
+
+  const runTool = async (name: string, args: string) => {
+    const funcName = toolsRef.current.names[name];
+    const func = toolsRef.current.funcs[funcName];
+    if (!func) throw new Error(`Unknown tool ${name}`);
+    // there is no approval card in a voice chat, asking is a confirm dialog
+    const policy = getToolPolicy(
+      funcName,
+      useAppConfig.getState().toolPolicies,
+      session.toolApprovals,
+    );
+    if (
+      policy === "deny" ||
+      (policy === "ask" &&
+        !(await showConfirm(Locale.Chat.ToolApproval.Title(funcName))))
+    ) {
+      throw new Error(`the tool ${funcName} is not allowed`);
+    }
+    const params = args ? JSON.parse(args) : {};
+    const res = await func(params);
+    const content = res.data || res?.statusText;
+    const output =
+      typeof content === "string" ? content : JSON.stringify(content);
+    if (res.status >= 300) throw output;
+    return output;
+  };
+
   const handleConnect = async () => {
     if (isConnecting) return;
     if (!isConnected) {
@@ -73,12 +127,18 @@ export function RealtimeChat({
         const turnDetection: TurnDetection = useVAD
           ? { type: "server_vad" }
           : null;
+        const tools = await loadTools();
         await clientRef.current.configure({
-          instructions: "",
+          // the system prompts of the mask
+          instructions: session.mask.context
+            .filter((m) => m.role === "system")
+            .map((m) => getMessageTextContent(m))
+            .join("\n\n"),
           voice,
           input_audio_transcription: { model: "whisper-1" },
           turn_detection: turnDetection,
-          tools: [],
+          tools,
+          tool_choice: tools.length > 0 ? "auto" : "none",
           temperature,
           modalities,
         });
@@ -148,9 +208,64 @@ export function RealtimeChat({
     }
   };
 
+  const updateMessages = () =>
+    chatStore.updateTargetSession(session, (session) => {
+      session.messages = session.messages.concat();
+    });
+
+  // run a function call and hand its output back to the session, the
+  // call is shown on `message` like tool calls in text chat
+  const handleFunctionCall = async (
+    item: RTFunctionCallItem,
+    message: ChatMessage,
+  ) => {
+    await item.waitForCompletion();
+    const tool: ChatMessageTool = {
+      id: item.callId,
+      type: "function",
+      function: { name: item.functionName, arguments: item.arguments },
+    };
+    (message.tools = message.tools || []).push(tool);
+    updateMessages();
+
+    const output = await runTool(item.functionName, item.arguments)
+      .then((content) => {
+        tool.content = content;
+        tool.isError = false;
+        return content;
+      })
+      .catch((e) => {
+        console.error("[Realtime] tool call failed", e);
+        tool.isError = true;
+        tool.errorMsg = e.toString();
+        return e.toString() as string;
+      });
+    message.tools?.forEach((t, i, tools) => {
+      if (t.id === tool.id) tools[i] = { ...tool };
+    });
+    updateMessages();
+
+    await clientRef.current?.sendItem({
+      type: "function_call_output",
+      call_id: item.callId,
+      output,
+    });
+  };
+
   const handleResponse = async (response: RTResponse) => {
+    let toolMessage: ChatMessage | undefined;
+    const functionCalls: Promise<void>[] = [];
     for await (const item of response) {
-      if (item.type === "message" && item.role === "assistant") {
+      if (item.type === "function_call") {
+        if (!toolMessage) {
+          toolMessage = createMessage({ role: "assistant", content: "" });
+          chatStore.updateTargetSession(session, (session) => {
+            session.messages = session.messages.concat([toolMessage!]);
+          });
+        }
+        // calls of one response run in parallel
+        functionCalls.push(handleFunctionCall(item, toolMessage));
+      } else if (item.type === "message" && item.role === "assistant") {
         const botMessage = createMessage({
           role: item.role,
           content: "",
@@ -181,9 +296,7 @@ export function RealtimeChat({
             await Promise.all([textTask(), audioTask()]);
           }
           // update message.content
-          chatStore.updateTargetSession(session, (session) => {
-            session.messages = session.messages.concat();
-          });
+          updateMessages();
         }
         if (hasAudio) {
           // upload audio get audio_url
@@ -191,13 +304,16 @@ export function RealtimeChat({
           uploadImage(blob!).then((audio_url) => {
             botMessage.audio_url = audio_url;
             // update text and audio_url
-            chatStore.updateTargetSession(session, (session) => {
-              session.messages = session.messages.concat();
-            });
+            updateMessages();
           });
         }
       }
     }
+    // the model answers once it has the outputs of all calls
+    if (functionCalls.length > 0) {
+      await Promise.all(functionCalls);
+      await clientRef.current?.generateResponse();
+    }
   };
 
   const handleInputAudio = async (item: RTInputAudioItem) => {
@@ -67,6 +67,12 @@ export function SearchChatPage() {
     return results;
   }, []);
 
+  useEffect(() => {
+    // search needs the messages of every chat
+    chatStore.loadAllSessions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   useEffect(() => {
     const intervalId = setInterval(() => {
       if (searchInputRef.current) {
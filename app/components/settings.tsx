@@ -86,8 +86,18 @@ import { useSyncStore } from "../store/sync";
 import { nanoid } from "nanoid";
 import { useMaskStore } from "../store/mask";
 import { ProviderType } from "../utils/cloud";
+import { getSessionMessageCount } from "../utils/session-storage";
 import { TTSConfigList } from "./tts-config";
+import { STTConfigList } from "./stt-config";
 import { RealtimeConfigList } from "./realtime-chat/realtime-config";
+import type { TokenUsage } from "../client/api";
+import {
+  addUsage,
+  formatCost,
+  formatTokens,
+  getTotalTokens,
+  getUsageDay,
+} from "../utils/usage";
 
 function EditPromptModal(props: { id: string; onClose: () => void }) {
   const promptStore = usePromptStore();
@@ -498,7 +508,10 @@ function SyncItems() {
 
   const stateOverview = useMemo(() => {
     const sessions = chatStore.sessions;
-    const messageCount = sessions.reduce((p, c) => p + c.messages.length, 0);
+    const messageCount = sessions.reduce(
+      (p, c) => p + getSessionMessageCount(c),
+      0,
+    );
 
     return {
       chat: sessions.length,
@@ -603,6 +616,29 @@ export function Settings() {
     console.log("[Update] remote version ", updateStore.remoteVersion);
   }
 
+  const dailyUsage = useChatStore((state) => state.dailyUsage);
+  const tokenUsage = useMemo(() => {
+    const summary = (days: string[]) => {
+      let usage: TokenUsage | undefined;
+      let cost = 0;
+      for (const day of days) {
+        usage = addUsage(usage, dailyUsage?.[day]?.usage);
+        cost += dailyUsage?.[day]?.cost ?? 0;
+      }
+      return Locale.Chat.Usage.Summary(
+        formatTokens(getTotalTokens(usage)),
+        cost ? formatCost(cost) : undefined,
+      );
+    };
+    const recentDays = Array.from({ length: 30 }, (_, i) =>
+      getUsageDay(new Date(Date.now() - i * 24 * 60 * 60 * 1000)),
+    );
+    return Locale.Settings.TokenUsage.SubTitle(
+      summary(recentDays.slice(0, 1)),
+      summary(recentDays),
+    );
+  }, [dailyUsage]);
+
   const accessStore = useAccessStore();
   const shouldHideBalanceQuery = useMemo(() => {
     const isOpenAiUrl = accessStore.openaiUrl.includes(OPENAI_BASE_URL);
@@ -1853,6 +1889,11 @@ export function Settings() {
             </ListItem>
           ) : null}
 
+          <ListItem
+            title={Locale.Settings.TokenUsage.Title}
+            subTitle={tokenUsage}
+          />
+
           <ListItem
             title={Locale.Settings.Access.CustomModel.Title}
             subTitle={Locale.Settings.Access.CustomModel.SubTitle}
@@ -1909,6 +1950,16 @@ export function Settings() {
             }}
           />
         </List>
+        <List>
+          <STTConfigList
+            sttConfig={config.sttConfig}
+            updateConfig={(updater) => {
+              const sttConfig = { ...config.sttConfig };
+              updater(sttConfig);
+              config.update((config) => (config.sttConfig = sttConfig));
+            }}
+          />
+        </List>
 
         <DangerItems />
       </div>
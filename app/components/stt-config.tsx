@@ -0,0 +1,140 @@
+import { STTConfig } from "../store";
+
+import Locale from "../locales";
+import { ListItem, PasswordInput, Select } from "./ui-lib";
+import { DEFAULT_STT_ENGINES, DEFAULT_STT_MODELS } from "../constant";
+
+export function STTConfigList(props: {
+  sttConfig: STTConfig;
+  updateConfig: (updater: (config: STTConfig) => void) => void;
+}) {
+  return (
+    <>
+      <ListItem
+        title={Locale.Settings.STT.Enable.Title}
+        subTitle={Locale.Settings.STT.Enable.SubTitle}
+      >
+        <input
+          type="checkbox"
+          checked={props.sttConfig.enable}
+          onChange={(e) =>
+            props.updateConfig(
+              (config) => (config.enable = e.currentTarget.checked),
+            )
+          }
+        ></input>
+      </ListItem>
+      {props.sttConfig.enable && (
+        <>
+          <ListItem title={Locale.Settings.STT.Engine}>
+            <Select
+              value={props.sttConfig.engine}
+              onChange={(e) => {
+                props.updateConfig(
+                  (config) => (config.engine = e.currentTarget.value),
+                );
+              }}
+            >
+              {DEFAULT_STT_ENGINES.map((v, i) => (
+                <option value={v} key={i}>
+                  {v}
+                </option>
+              ))}
+            </Select>
+          </ListItem>
+          <ListItem
+            title={Locale.Settings.STT.Model.Title}
+            subTitle={Locale.Settings.STT.Model.SubTitle}
+          >
+            <input
+              type="text"
+              list="stt-models"
+              value={props.sttConfig.model}
+              onChange={(e) =>
+                props.updateConfig(
+                  (config) => (config.model = e.currentTarget.value),
+                )
+              }
+            ></input>
+            <datalist id="stt-models">
+              {DEFAULT_STT_MODELS.map((v) => (
+                <option value={v} key={v} />
+              ))}
+            </datalist>
+          </ListItem>
+          <ListItem
+            title={Locale.Settings.STT.BaseUrl.Title}
+            subTitle={Locale.Settings.STT.BaseUrl.SubTitle}
+          >
+            <input
+              type="text"
+              value={props.sttConfig.baseUrl}
+              placeholder="http://localhost:8000/v1"
+              onChange={(e) =>
+                props.updateConfig(
+                  (config) => (config.baseUrl = e.currentTarget.value),
+                )
+              }
+            ></input>
+          </ListItem>
+          {props.sttConfig.baseUrl && (
+            <ListItem title={Locale.Settings.STT.ApiKey}>
+              <PasswordInput
+                type="text"
+                value={props.sttConfig.apiKey}
+                onChange={(e) =>
+                  props.updateConfig(
+                    (config) => (config.apiKey = e.currentTarget.value),
+                  )
+                }
+              ></PasswordInput>
+            </ListItem>
+          )}
+          <ListItem
+            title={Locale.Settings.STT.Language.Title}
+            subTitle={Locale.Settings.STT.Language.SubTitle}
+          >
+            <input
+              type="text"
+              value={props.sttConfig.language}
+              placeholder="en"
+              onChange={(e) =>
+                props.updateConfig(
+                  (config) => (config.language = e.currentTarget.value),
+                )
+              }
+            ></input>
+          </ListItem>
+          <ListItem
+            title={Locale.Settings.STT.PushToTalk.Title}
+            subTitle={Locale.Settings.STT.PushToTalk.SubTitle}
+          >
+            <input
+              type="checkbox"
+              checked={props.sttConfig.pushToTalk}
+              onChange={(e) =>
+                props.updateConfig(
+                  (config) => (config.pushToTalk = e.currentTarget.checked),
+                )
+              }
+            ></input>
+          </ListItem>
+          <ListItem
+            title={Locale.Settings.STT.AutoSubmit.Title}
+            subTitle={Locale.Settings.STT.AutoSubmit.SubTitle}
+          >
+            <input
+              type="checkbox"
+              checked={props.sttConfig.autoSubmit}
+              onChange={(e) =>
+                props.updateConfig(
+                  (config) => (config.autoSubmit = e.currentTarget.checked),
+                )
+              }
+            ></input>
+          </ListItem>
+        </>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { ChatMessageTool } from "../store/chat";
+import { useAppConfig } from "../store/config";
+import {
+  decideTool,
+  DEFAULT_TOOL_POLICY,
+  TOOL_POLICIES,
+  ToolPolicy,
+} from "../utils/tool-approval";
+import Locale from "../locales";
+import { IconButton } from "./button";
+import { Select, showToast } from "./ui-lib";
+import ConfirmIcon from "../icons/confirm.svg";
+import CloseIcon from "../icons/close.svg";
+import styles from "./tool-approval.module.scss";
+
+function formatArguments(args?: string) {
+  try {
+    return JSON.stringify(JSON.parse(args || "{}"), null, 2);
+  } catch {
+    return args ?? "";
+  }
+}
+
+function isJson(text: string) {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** a tool call waiting in the reply, its arguments can be edited first */
+export function ToolApprovalCard(props: { tool: ChatMessageTool }) {
+  const name = props.tool.function?.name ?? "";
+  const [args, setArgs] = useState(() =>
+    formatArguments(props.tool.function?.arguments),
+  );
+  const invalid = !isJson(args);
+
+  const decide = (approved: boolean, remember = false) => {
+    // unchanged arguments are kept as the model wrote them
+    const edited = args !== formatArguments(props.tool.function?.arguments);
+    const decided = decideTool(props.tool.id, {
+      approved,
+      remember,
+      arguments:
+        approved && edited ? JSON.stringify(JSON.parse(args)) : undefined,
+    });
+    if (!decided) showToast(Locale.Chat.ToolApproval.Expired);
+  };
+
+  return (
+    <div className={styles["tool-approval"]}>
+      <div className={styles["tool-approval-title"]}>
+        {Locale.Chat.ToolApproval.Title(name)}
+      </div>
+      <textarea
+        className={styles["tool-approval-args"]}
+        aria-label={name}
+        rows={Math.min(10, args.split("\n").length)}
+        value={args}
+        onChange={(e) => setArgs(e.currentTarget.value)}
+      />
+      {invalid && (
+        <div className={styles["tool-approval-error"]}>
+          {Locale.Chat.ToolApproval.InvalidArguments}
+        </div>
+      )}
+      <div className={styles["tool-approval-actions"]}>
+        <IconButton
+          bordered
+          text={Locale.Chat.ToolApproval.Deny}
+          icon={<CloseIcon />}
+          onClick={() => decide(false)}
+        />
+        <IconButton
+          bordered
+          text={Locale.Chat.ToolApproval.AllowSession}
+          disabled={invalid}
+          onClick={() => decide(true, true)}
+        />
+        <IconButton
+          type="primary"
+          text={Locale.Chat.ToolApproval.Allow}
+          icon={<ConfirmIcon />}
+          disabled={invalid}
+          onClick={() => decide(true)}
+        />
+      </div>
+    </div>
+  );
+}
+
+/** what happens when the model calls the tool `name` */
+export function ToolPolicySelect(props: { name: string }) {
+  const config = useAppConfig();
+  const policy = config.toolPolicies[props.name] ?? DEFAULT_TOOL_POLICY;
+
+  return (
+    <Select
+      aria-label={Locale.Chat.ToolApproval.Policy.Title}
+      value={policy}
+      onChange={(e) => {
+        const policy = e.currentTarget.value as ToolPolicy;
+        config.update(
+          (config) =>
+            (config.toolPolicies = {
+              ...config.toolPolicies,
+              [props.name]: policy,
+            }),
+        );
+      }}
+    >
+      {TOOL_POLICIES.map((policy) => (
+        <option key={policy} value={policy}>
+          {Locale.Chat.ToolApproval.Policy[policy]}
+        </option>
+      ))}
+    </Select>
+  );
+}
@@ -92,6 +92,20 @@ declare global {
       DEFAULT_INPUT_TEMPLATE?: string;
 
       ENABLE_MCP?: string; // enable mcp functionality
+
+      // artifacts sharing
+      ARTIFACTS_STORAGE?: "cloudflare" | "local" | "redis" | "s3";
+      ARTIFACTS_TTL?: string; // seconds
+      ARTIFACTS_MAX_SIZE?: string; // bytes
+      ARTIFACTS_SECRET?: string; // signs the tokens to delete artifacts
+      ARTIFACTS_DIR?: string; // local only
+      ARTIFACTS_REDIS_URL?: string; // upstash compatible rest url
+      ARTIFACTS_REDIS_TOKEN?: string;
+      ARTIFACTS_S3_ENDPOINT?: string;
+      ARTIFACTS_S3_REGION?: string;
+      ARTIFACTS_S3_BUCKET?: string;
+      ARTIFACTS_S3_ACCESS_KEY_ID?: string;
+      ARTIFACTS_S3_SECRET_ACCESS_KEY?: string;
     }
   }
 }
@@ -241,6 +255,21 @@ export const getServerSideConfig = () => {
     cloudflareKVApiKey: getApiKey(process.env.CLOUDFLARE_KV_API_KEY),
     cloudflareKVTTL: process.env.CLOUDFLARE_KV_TTL,
 
+    artifactsStorage: process.env.ARTIFACTS_STORAGE,
+    artifactsTTL: parseInt(
+      process.env.ARTIFACTS_TTL ?? process.env.CLOUDFLARE_KV_TTL ?? "",
+    ),
+    artifactsMaxSize: parseInt(process.env.ARTIFACTS_MAX_SIZE ?? "1048576"),
+    artifactsSecret: process.env.ARTIFACTS_SECRET ?? process.env.CODE,
+    artifactsDir: process.env.ARTIFACTS_DIR ?? "data/artifacts",
+    artifactsRedisUrl: process.env.ARTIFACTS_REDIS_URL,
+    artifactsRedisToken: process.env.ARTIFACTS_REDIS_TOKEN,
+    artifactsS3Endpoint: process.env.ARTIFACTS_S3_ENDPOINT,
+    artifactsS3Region: process.env.ARTIFACTS_S3_REGION ?? "us-east-1",
+    artifactsS3Bucket: process.env.ARTIFACTS_S3_BUCKET,
+    artifactsS3AccessKeyId: process.env.ARTIFACTS_S3_ACCESS_KEY_ID,
+    artifactsS3SecretAccessKey: process.env.ARTIFACTS_S3_SECRET_ACCESS_KEY,
+
     isSiliconFlow,
     siliconFlowUrl: process.env.SILICONFLOW_URL,
     siliconFlowApiKey: getApiKey(process.env.SILICONFLOW_API_KEY),
@@ -52,6 +52,7 @@ export enum Path {
   Artifacts = "/artifacts",
   SearchChat = "/search-chat",
   McpMarket = "/mcp-market",
+  Knowledge = "/knowledge",
 }
 
 export enum ApiPath {
@@ -96,6 +97,7 @@ export enum StoreKey {
   Sync = "sync",
   SdList = "sd-list",
   Mcp = "mcp-store",
+  Knowledge = "knowledge-store",
 }
 
 export const DEFAULT_SIDEBAR_WIDTH = 300;
@@ -134,6 +136,21 @@ export enum ServiceProvider {
   Bedrock = "Bedrock",
 }
 
+// providers whose clients send plugins and mcp tools as native tool calls
+export const TOOL_CALL_PROVIDERS: string[] = [
+  ServiceProvider.OpenAI,
+  ServiceProvider.Azure,
+  ServiceProvider.Google,
+  ServiceProvider.Anthropic,
+  ServiceProvider.ByteDance,
+  ServiceProvider.Alibaba,
+  ServiceProvider.Moonshot,
+  ServiceProvider.XAI,
+  ServiceProvider.ChatGLM,
+  ServiceProvider.DeepSeek,
+  ServiceProvider.SiliconFlow,
+];
+
 // Google API safety settings, see https://ai.google.dev/gemini-api/docs/safety-settings
 // BLOCK_NONE will not block any content, and BLOCK_ONLY_HIGH will block only high-risk content.
 export enum GoogleSafetySettingsThreshold {
@@ -176,10 +193,12 @@ export const Anthropic = {
 export const OpenaiPath = {
   ChatPath: "v1/chat/completions",
   SpeechPath: "v1/audio/speech",
+  TranscriptionPath: "v1/audio/transcriptions",
   ImagePath: "v1/images/generations",
   UsagePath: "dashboard/billing/usage",
   SubsPath: "dashboard/billing/subscription",
   ListModelPath: "v1/models",
+  EmbeddingPath: "v1/embeddings",
 };
 
 export const Azure = {
@@ -188,6 +207,8 @@ export const Azure = {
   // https://<your_resource_name>.openai.azure.com/openai/deployments/<your_deployment_name>/images/generations?api-version=<api_version>
   ImagePath: (deployName: string, apiVersion: string) =>
     `deployments/${deployName}/images/generations?api-version=${apiVersion}`,
+  EmbeddingPath: (deployName: string, apiVersion: string) =>
+    `deployments/${deployName}/embeddings?api-version=${apiVersion}`,
   ExampleEndpoint: "https://{resource-url}/openai",
 };
 
@@ -195,6 +216,8 @@ export const Google = {
   ExampleEndpoint: "https://generativelanguage.googleapis.com/",
   ChatPath: (modelName: string) =>
     `v1beta/models/${modelName}:streamGenerateContent`,
+  EmbeddingPath: (modelName: string) =>
+    `v1beta/models/${modelName}:batchEmbedContents`,
 };
 
 export const Baidu = {
@@ -291,130 +314,6 @@ Latex inline: \\(x^2\\)
 Latex block: $$e=mc^2$$
 `;
 
-export const MCP_TOOLS_TEMPLATE = `
-[clientId]
-{{ clientId }}
-[tools]
-{{ tools }}
-`;
-
-export const MCP_SYSTEM_TEMPLATE = `
-You are an AI assistant with access to system tools. Your role is to help users by combining natural language understanding with tool operations when needed.
-
-1. AVAILABLE TOOLS:
-{{ MCP_TOOLS }}
-
-2. WHEN TO USE TOOLS:
-   - ALWAYS USE TOOLS when they can help answer user questions
-   - DO NOT just describe what you could do - TAKE ACTION immediately
-   - If you're not sure whether to use a tool, USE IT
-   - Common triggers for tool use:
-     * Questions about files or directories
-     * Requests to check, list, or manipulate system resources
-     * Any query that can be answered with available tools
-
-3. HOW TO USE TOOLS:
-   A. Tool Call Format:
-      - Use markdown code blocks with format: \`\`\`json:mcp:{clientId}\`\`\`
-      - Always include:
-        * method: "tools/call"（Only this method is supported）
-        * params: 
-          - name: must match an available primitive name
-          - arguments: required parameters for the primitive
-
-   B. Response Format:
-      - Tool responses will come as user messages
-      - Format: \`\`\`json:mcp-response:{clientId}\`\`\`
-      - Wait for response before making another tool call
-
-   C. Important Rules:
-      - Only use tools/call method
-      - Only ONE tool call per message
-      - ALWAYS TAKE ACTION instead of just describing what you could do
-      - Include the correct clientId in code block language tag
-      - Verify arguments match the primitive's requirements
-
-4. INTERACTION FLOW:
-   A. When user makes a request:
-      - IMMEDIATELY use appropriate tool if available
-      - DO NOT ask if user wants you to use the tool
-      - DO NOT just describe what you could do
-   B. After receiving tool response:
-      - Explain results clearly
-      - Take next appropriate action if needed
-   C. If tools fail:
-      - Explain the error
-      - Try alternative approach immediately
-
-5. EXAMPLE INTERACTION:
-
-  good example:
-
-   \`\`\`json:mcp:filesystem
-   {
-     "method": "tools/call",
-     "params": {
-       "name": "list_allowed_directories",
-       "arguments": {}
-     }
-   }
-   \`\`\`"
-
-
-  \`\`\`json:mcp-response:filesystem
-  {
-  "method": "tools/call",
-  "params": {
-    "name": "write_file",
-    "arguments": {
-      "path": "/Users/river/dev/nextchat/test/joke.txt",
-      "content": "为什么数学书总是感到忧伤？因为它有太多的问题。"
-    }
-  }
-  }
-\`\`\`
-
-   follwing is the wrong! mcp json example:
-
-   \`\`\`json:mcp:filesystem
-   {
-      "method": "write_file",
-      "params": {
-        "path": "NextChat_Information.txt",
-        "content": "1"
-    }
-   }
-   \`\`\`
-
-   This is wrong because the method is not tools/call.
-   
-   \`\`\`{
-  "method": "search_repositories",
-  "params": {
-    "query": "2oeee"
-  }
-}
-   \`\`\`
-
-   This is wrong because the method is not tools/call.!!!!!!!!!!!
-
-   the right format is:
-   \`\`\`json:mcp:filesystem
-   {
-     "method": "tools/call",
-     "params": {
-       "name": "search_repositories",
-       "arguments": {
-         "query": "2oeee"
-       }
-     }
-   }
-   \`\`\`
-   
-   please follow the format strictly ONLY use tools/call method!!!!!!!!!!!
-   
-`;
-
 export const SUMMARIZE_MODEL = "gpt-4o-mini";
 export const GEMINI_SUMMARIZE_MODEL = "gemini-pro";
 export const DEEPSEEK_SUMMARIZE_MODEL = "deepseek-chat";
@@ -462,6 +361,23 @@ export const DEFAULT_TTS_VOICES = [
   "shimmer",
 ];
 
+export const DEFAULT_STT_ENGINE = "OpenAI-STT";
+export const DEFAULT_STT_ENGINES = ["OpenAI-STT"];
+export const DEFAULT_STT_MODEL = "whisper-1";
+export const DEFAULT_STT_MODELS = [
+  "whisper-1",
+  "gpt-4o-transcribe",
+  "gpt-4o-mini-transcribe",
+];
+
+// model@provider pairs offered for knowledge bases, besides the local one
+export const DEFAULT_EMBEDDING_MODELS = [
+  "text-embedding-3-small@OpenAI",
+  "text-embedding-3-large@OpenAI",
+  "text-embedding-3-small@Azure",
+  "text-embedding-004@Google",
+];
+
 export const VISION_MODEL_REGEXES = [
   /vision/,
   /gpt-4o/,
@@ -481,6 +397,45 @@ export const VISION_MODEL_REGEXES = [
 
 export const EXCLUDE_VISION_MODEL_REGEXES = [/claude-3-5-haiku-20241022/];
 
+// USD per 1M tokens, matched by the longest model name prefix ending at a dash
+export const MODEL_PRICES: Record<
+  string,
+  { input: number; output: number; cached?: number }
+> = {
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "gpt-4": { input: 30, output: 60 },
+  "gpt-4-32k": { input: 60, output: 120 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-4-1106-preview": { input: 10, output: 30 },
+  "gpt-4-vision-preview": { input: 10, output: 30 },
+  "gpt-4o": { input: 2.5, output: 10, cached: 1.25 },
+  "gpt-4o-2024-05-13": { input: 5, output: 15 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6, cached: 0.075 },
+  "chatgpt-4o-latest": { input: 5, output: 15 },
+  o1: { input: 15, output: 60, cached: 7.5 },
+  "o1-mini": { input: 1.1, output: 4.4, cached: 0.55 },
+  "o3-mini": { input: 1.1, output: 4.4, cached: 0.55 },
+  "claude-3-opus": { input: 15, output: 75, cached: 1.5 },
+  "claude-3-sonnet": { input: 3, output: 15, cached: 0.3 },
+  "claude-3-haiku": { input: 0.25, output: 1.25, cached: 0.03 },
+  "claude-3-5-sonnet": { input: 3, output: 15, cached: 0.3 },
+  "claude-3-5-haiku": { input: 0.8, output: 4, cached: 0.08 },
+  "claude-3-7-sonnet": { input: 3, output: 15, cached: 0.3 },
+  "gemini-1.0-pro": { input: 0.5, output: 1.5 },
+  "gemini-1.5-pro": { input: 1.25, output: 5, cached: 0.3125 },
+  "gemini-1.5-flash": { input: 0.075, output: 0.3, cached: 0.01875 },
+  "gemini-1.5-flash-8b": { input: 0.0375, output: 0.15, cached: 0.01 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4, cached: 0.025 },
+  "gemini-2.0-flash-lite": { input: 0.075, output: 0.3 },
+  "deepseek-chat": { input: 0.27, output: 1.1, cached: 0.07 },
+  "deepseek-reasoner": { input: 0.55, output: 2.19, cached: 0.14 },
+  "grok-beta": { input: 5, output: 15 },
+  "grok-2": { input: 2, output: 10 },
+  "moonshot-v1-8k": { input: 1.68, output: 1.68 },
+  "moonshot-v1-32k": { input: 3.36, output: 3.36 },
+  "moonshot-v1-128k": { input: 8.4, output: 8.4 },
+};
+
 const openaiModels = [
   // As of July 2024, gpt-4o-mini should be used in place of gpt-3.5-turbo,
   // as it is cheaper, more capable, multimodal, and just as fast. gpt-3.5-turbo is still available for use in the API.
@@ -676,11 +631,93 @@ const bedrockModels = [
   "meta.llama2-70b-chat-v1",
 ];
 
+// context window in tokens, matched by the longest model name prefix
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  "gpt-3.5-turbo": 16385,
+  "gpt-4": 8192,
+  "gpt-4-32k": 32768,
+  "gpt-4-turbo": 128000,
+  "gpt-4-1106-preview": 128000,
+  "gpt-4-0125-preview": 128000,
+  "gpt-4-vision-preview": 128000,
+  "gpt-4o": 128000,
+  "chatgpt-4o": 128000,
+  o1: 200000,
+  "o1-mini": 128000,
+  "o1-preview": 128000,
+  "o3-mini": 200000,
+  "gemini-pro": 32760,
+  "gemini-1.0-pro": 32760,
+  "gemini-1.5-pro": 2097152,
+  "gemini-1.5-flash": 1048576,
+  "gemini-exp": 2097152,
+  "gemini-2.0": 1048576,
+  "gemini-2.0-pro": 2097152,
+  learnlm: 32767,
+  "claude-instant": 100000,
+  "claude-2.0": 100000,
+  "claude-2.1": 200000,
+  "claude-3": 200000,
+  "qwen-turbo": 131072,
+  "qwen-plus": 131072,
+  "qwen-max": 32768,
+  "qwen-omni-turbo": 32768,
+  "qwen-vl-plus": 8192,
+  "qwen-vl-max": 32768,
+  "qwen2.5": 32768,
+  hunyuan: 32768,
+  "hunyuan-lite": 262144,
+  "hunyuan-code": 8192,
+  "hunyuan-vision": 8192,
+  general: 8192,
+  "4.0ultra": 8192,
+  "deepseek-chat": 65536,
+  "deepseek-coder": 65536,
+  "deepseek-reasoner": 65536,
+  "deepseek-r1": 65536,
+  "deepseek-v3": 65536,
+  "grok-beta": 131072,
+  "grok-2": 131072,
+  "grok-vision-beta": 8192,
+  "grok-2-vision": 32768,
+  "glm-4": 128000,
+  "glm-4-long": 1000000,
+  "glm-4v": 8192,
+  "glm-4-9b": 32768,
+  "llama-3.3": 131072,
+  "amazon.titan-text-express": 8192,
+  "amazon.titan-text-lite": 4096,
+  "cohere.command": 4096,
+  "ai21.j2": 8191,
+  "meta.llama2": 4096,
+};
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+export function getModelContextWindow(model: string) {
+  // strip provider prefixes like "anthropic." or "Qwen/"
+  const name = (model.toLowerCase().split("/").pop() ?? "").replace(
+    /^anthropic\./,
+    "",
+  );
+  let matched = "";
+  for (const key of Object.keys(MODEL_CONTEXT_WINDOWS)) {
+    if (name.startsWith(key) && key.length > matched.length) {
+      matched = key;
+    }
+  }
+  if (matched) return MODEL_CONTEXT_WINDOWS[matched];
+
+  // names like "ernie-speed-128k" or "Doubao-pro-32k" carry the size
+  const size = name.match(/-(\d+)k\b/)?.[1];
+  return size ? parseInt(size) * 1024 : DEFAULT_CONTEXT_WINDOW;
+}
+
 let seq = 1000; // 内置的模型序号生成器从1000开始
 export const DEFAULT_MODELS = [
   ...openaiModels.map((name) => ({
     name,
     available: true,
+    contextWindow: getModelContextWindow(name),
     sorted: seq++, // Global sequence sort(index)
     provider: {
       id: "openai",
@@ -692,6 +729,7 @@ export const DEFAULT_MODELS = [
   ...openaiModels.map((name) => ({
     name,
     available: true,
+    contextWindow: getModelContextWindow(name),
     sorted: seq++,
     provider: {
       id: "azure",
@@ -703,6 +741,7 @@ export const DEFAULT_MODELS = [
   ...googleModels.map((name) => ({
     name,
     available: true,
+    contextWindow: getModelContextWindow(name),
     sorted: seq++,
     provider: {
       id: "google",
@@ -714,6 +753,7 @@ export const DEFAULT_MODELS = [
   ...anthropicModels.map((name) => ({
     name,
     available: true,
+    contextWindow: getModelContextWindow(name),
     sorted: seq++,
     provider: {
       id: "anthropic",
@@ -725,6 +765,7 @@ export const DEFAULT_MODELS = [
   ...baiduModels.map((name) => ({
     name,
     available: true,
+    contextWindow: getModelContextWindow(name),
     sorted: seq++,
     provider: {
       id: "baidu",
@@ -736,6 +777,7 @@ export const DEFAULT_MODELS = [
   ...bytedanceModels.map((name) => ({
     name,
     available: true,
+    contextWindow: getModelContextWindow(name),
     sorted: seq++,
     provider: {
       id: "bytedance",
@@ -747,6 +789,7 @@ export const DEFAULT_MODELS = [
   ...alibabaModes.map((name) => ({
     name,
     available: true,
+    contextWindow: getModelContextWindow(name),
     sorted: seq++,
     provider: {
       id: "alibaba",
@@ -758,6 +801,7 @@ export const DEFAULT_MODELS = [
   ...tencentModels.map((name) => ({
     name,
     available: true,
+    contextWindow: getModelContextWindow(name),
     sorted: seq++,
     provider: {
       id: "tencent",
@@ -769,6 +813,7 @@ export const DEFAULT_MODELS = [
   ...moonshotModes.map((name) => ({
     name,
     available: true,
+    contextWindow: getModelContextWindow(name),
     sorted: seq++,
     provider: {
       id: "moonshot",
@@ -780,6 +825,7 @@ export const DEFAULT_MODELS = [
   ...iflytekModels.map((name) => ({
     name,
     available: true,
+    contextWindow: getModelContextWindow(name),
     sorted: seq++,
     provider: {
       id: "iflytek",
@@ -791,6 +837,7 @@ export const DEFAULT_MODELS = [
   ...xAIModes.map((name) => ({
     name,
     available: true,
+    contextWindow: getModelContextWindow(name),
     sorted: seq++,
     provider: {
       id: "xai",
@@ -802,6 +849,7 @@ export const DEFAULT_MODELS = [
   ...chatglmModels.map((name) => ({
     name,
     available: true,
+    contextWindow: getModelContextWindow(name),
     sorted: seq++,
     provider: {
       id: "chatglm",
@@ -813,6 +861,7 @@ export const DEFAULT_MODELS = [
   ...deepseekModels.map((name) => ({
     name,
     available: true,
+    contextWindow: getModelContextWindow(name),
     sorted: seq++,
     provider: {
       id: "deepseek",
@@ -824,6 +873,7 @@ export const DEFAULT_MODELS = [
   ...siliconflowModels.map((name) => ({
     name,
     available: true,
+    contextWindow: getModelContextWindow(name),
     sorted: seq++,
     provider: {
       id: "siliconflow",
@@ -835,6 +885,7 @@ export const DEFAULT_MODELS = [
   ...bedrockModels.map((name) => ({
     name,
     available: true,
+    contextWindow: getModelContextWindow(name),
     sorted: seq++,
     provider: {
       id: "bedrock",
@@ -845,6 +896,64 @@ export const DEFAULT_MODELS = [
   })),
 ] as const;
 
+// starting points for the json schema response format of a mask
+export const RESPONSE_SCHEMA_LIBRARY: { name: string; schema: object }[] = [
+  {
+    name: "Classification",
+    schema: {
+      title: "classification",
+      type: "object",
+      properties: {
+        label: { type: "string", description: "the chosen category" },
+        confidence: { type: "number", minimum: 0, maximum: 1 },
+        reason: { type: "string" },
+      },
+      required: ["label", "confidence", "reason"],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: "Entity extraction",
+    schema: {
+      title: "entities",
+      type: "object",
+      properties: {
+        entities: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              type: {
+                type: "string",
+                enum: ["person", "organization", "location", "date", "other"],
+              },
+            },
+            required: ["name", "type"],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ["entities"],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: "Summary",
+    schema: {
+      title: "summary",
+      type: "object",
+      properties: {
+        title: { type: "string" },
+        summary: { type: "string" },
+        key_points: { type: "array", items: { type: "string" } },
+      },
+      required: ["title", "summary", "key_points"],
+      additionalProperties: false,
+    },
+  },
+];
+
 export const CHAT_PAGE_SIZE = 15;
 export const MAX_RENDER_MSG_COUNT = 45;
 
@@ -10,6 +10,9 @@ declare module "*.scss" {
 
 declare module "*.svg";
 
+// bpe tables of js-tiktoken, resolved through package exports
+declare module "js-tiktoken/ranks/*";
+
 declare interface Window {
   __TAURI__?: {
     writeText(text: string): Promise<void>;
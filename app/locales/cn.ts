@@ -27,6 +27,33 @@ const cn = {
   },
   ChatItem: {
     ChatItemCount: (count: number) => `${count} 条对话`,
+    Pin: "置顶",
+    Unpin: "取消置顶",
+    Pinned: "已置顶",
+    Ungrouped: "对话",
+    Tags: "编辑标签，用逗号分隔",
+    Folder: {
+      New: "新建文件夹",
+      NewSub: "新建子文件夹",
+      Name: "文件夹名称",
+      Rename: "重命名",
+      Delete: "删除文件夹",
+      DeleteConfirm: "确认删除文件夹？其中的对话和子文件夹会移到上一级",
+    },
+    Filter: {
+      AllTags: "全部标签",
+      AllModels: "全部模型",
+    },
+    Bulk: {
+      Select: "多选",
+      Selected: (count: number) => `已选 ${count} 项`,
+      MoveTo: "移动到…",
+      Root: "不在文件夹中",
+      Export: "导出",
+      Delete: "删除",
+      DeleteConfirm: (count: number) => `确认删除 ${count} 个对话？`,
+      Done: "完成",
+    },
   },
   Chat: {
     SubTitle: (count: number) => `共 ${count} 条对话`,
@@ -55,6 +82,68 @@ const cn = {
       Speech: "朗读",
       StopSpeech: "停止",
     },
+    Branch: {
+      Prev: "上一个分支",
+      Next: "下一个分支",
+    },
+    Compare: {
+      Title: (count: number) => `对比 ${count} 个模型`,
+      Pick: "采用此回答",
+      PickFirst: "请先采用一个对比的回答",
+    },
+    Reasoning: {
+      Thinking: "思考中…",
+      Thought: (seconds: number) => `已思考 ${seconds} 秒`,
+      Tokens: (tokens: string) => `${tokens} Tokens`,
+    },
+    Incomplete: {
+      Interrupted: "回复在生成时被中断",
+      Truncated: "回复达到了最大 Token 数",
+      Continue: "继续",
+    },
+    Attachments: {
+      Tokens: (tokens: string) => `约 ${tokens} Tokens`,
+      TooLarge: (name: string, limit: string) => `${name} 超过了 ${limit}`,
+      TooMany: (count: number) => `最多只能附加 ${count} 个文件`,
+      NoText: (name: string) => `无法从 ${name} 中读取文本`,
+      OverBudget: (tokens: string, budget: string) =>
+        `附件约占 ${tokens} Tokens，当前模型最多可用 ${budget}，较早的消息可能被丢弃，请求也可能被拒绝`,
+    },
+    Structured: {
+      Invalid: "输出不符合响应格式",
+      Repair: "修复",
+    },
+    Retry: {
+      Waiting: (attempt: number, seconds: number) =>
+        `请求失败，${seconds} 秒后进行第 ${attempt} 次重试…`,
+      Fallback: (model: string) => `请求失败，正在切换到 ${model}…`,
+    },
+    ToolApproval: {
+      Title: (name: string) => `允许调用 ${name}？`,
+      InvalidArguments: "参数不是有效的 JSON",
+      Allow: "允许",
+      AllowSession: "本次对话都允许",
+      Deny: "拒绝",
+      Expired: "这次调用已不再等待确认",
+      Edited: "参数已修改",
+      Policy: {
+        Title: "调用时",
+        allow: "总是允许",
+        ask: "询问",
+        deny: "拒绝",
+      },
+    },
+    Usage: {
+      Summary: (tokens: string, cost?: string) =>
+        cost ? `${tokens} tokens · 约 ${cost}` : `${tokens} tokens`,
+      Detail: (
+        prompt: number,
+        completion: number,
+        reasoning: number,
+        cached: number,
+      ) =>
+        `输入 ${prompt}（缓存命中 ${cached}），输出 ${completion}（推理 ${reasoning}）`,
+    },
     Commands: {
       new: "新建聊天",
       newm: "从面具新建聊天",
@@ -77,6 +166,17 @@ const cn = {
       Clear: "清除聊天",
       Settings: "对话设置",
       UploadImage: "上传图片",
+      UploadFile: "上传文件",
+      Voice: {
+        Start: "语音输入",
+        Stop: "停止录音",
+        Hold: "按住说话",
+        Transcribing: "识别中…",
+        NoMicrophone: "无法访问麦克风",
+        Failed: (error: string) => `语音识别失败：${error}`,
+      },
+      Compare: "对比模式",
+      McpResources: "MCP 资源",
     },
     Rename: "重命名对话",
     Typing: "正在输入…",
@@ -128,9 +228,30 @@ const cn = {
       Toast: "正在生成截图",
       Modal: "长按或右键保存图片",
     },
+    Audio: {
+      Generate: "生成音频",
+      Generating: (done: number, total: number) => `生成中 ${done}/${total}`,
+      Format: "音频格式",
+      AssistantVoice: "助手声音",
+      UserVoice: "用户声音",
+    },
     Artifacts: {
       Title: "分享页面",
       Error: "分享失败",
+      Version: (index: number, total: number) => `版本 ${index}/${total}`,
+      Preview: "预览",
+      Files: "文件",
+      Changes: "改动",
+      NoChanges: "与上一版本相比没有改动",
+      DownloadZip: "下载为 zip",
+      Logs: {
+        Title: (count: number, errors: number) =>
+          `控制台 (${count})${errors ? `，${errors} 个错误` : ""}`,
+        Clear: "清空",
+        Send: "发送错误到聊天",
+        Prompt: (logs: string) =>
+          `你写的页面在预览时控制台输出了以下内容，请修复代码：\n\n\`\`\`\n${logs}\n\`\`\``,
+      },
     },
   },
   Select: {
@@ -305,6 +426,11 @@ const cn = {
       Check: "重新检查",
       NoAccess: "输入 API Key 或访问密码查看余额",
     },
+    TokenUsage: {
+      Title: "Token 用量",
+      SubTitle: (today: string, recent: string) =>
+        `今日 ${today}；近 30 天 ${recent}`,
+    },
 
     Access: {
       SaasStart: {
@@ -541,6 +667,41 @@ const cn = {
       Title: "对话摘要模型",
       SubTitle: "用于压缩历史记录、生成对话标题的模型",
     },
+    ReasoningEffort: {
+      Title: "推理强度",
+      SubTitle: "模型在回答前进行推理的程度",
+      Levels: {
+        default: "默认",
+        low: "低",
+        medium: "中",
+        high: "高",
+      },
+    },
+    ThinkingBudget: {
+      Title: "思考预算",
+      SubTitle:
+        "用于思考的最大 Token 数，0 表示使用模型默认值（Claude 为关闭）",
+    },
+    ResponseFormat: {
+      Title: "响应格式",
+      SubTitle: "要求模型输出 JSON，并按 Schema 校验回复",
+      Types: {
+        text: "文本",
+        json_object: "JSON 对象",
+        json_schema: "JSON Schema",
+      },
+      Library: "从模板库选择",
+      Schema: "JSON Schema",
+      InvalidSchema: "Schema 不是合法的 JSON 对象",
+    },
+    Retry: {
+      Title: "失败重试次数",
+      SubTitle: "遇到限流或服务端错误时自动重试，采用指数退避",
+    },
+    FallbackModels: {
+      Title: "备用模型",
+      SubTitle: "重试仍失败时依次尝试，格式：模型@服务商，用英文逗号分隔",
+    },
     Temperature: {
       Title: "随机性 (temperature)",
       SubTitle: "值越大，回复越随机",
@@ -568,7 +729,7 @@ const cn = {
       },
       Autoplay: {
         Title: "启用自动朗读",
-        SubTitle: "自动生成语音并播放，需先开启文本转语音开关",
+        SubTitle: "回复生成时逐句朗读，需先开启文本转语音开关",
       },
       Model: "模型",
       Engine: "转换引擎",
@@ -581,6 +742,35 @@ const cn = {
         SubTitle: "生成语音的速度",
       },
     },
+    STT: {
+      Enable: {
+        Title: "启用语音输入",
+        SubTitle: "在输入框显示麦克风按钮，用语音输入消息",
+      },
+      Engine: "转写引擎",
+      Model: {
+        Title: "模型",
+        SubTitle: "语音转写模型，例如 whisper-1",
+      },
+      BaseUrl: {
+        Title: "接口地址",
+        SubTitle:
+          "任意兼容 OpenAI 的服务，会自动拼接 /audio/transcriptions，留空则使用 OpenAI 服务商",
+      },
+      ApiKey: "API Key",
+      Language: {
+        Title: "语言",
+        SubTitle: "语音的 ISO-639-1 代码，留空自动识别",
+      },
+      PushToTalk: {
+        Title: "按住说话",
+        SubTitle: "说话时按住麦克风按钮",
+      },
+      AutoSubmit: {
+        Title: "自动发送",
+        SubTitle: "识别后直接发送，而不是填入输入框",
+      },
+    },
     Realtime: {
       Enable: {
         Title: "实时聊天",
@@ -625,6 +815,12 @@ const cn = {
         "使用四到五个字直接返回这句话的简要主题，不要解释、不要标点、不要语气词、不要多余文本，不要加粗，如果没有主题，请直接返回“闲聊”",
       Summarize:
         "简要总结一下对话内容，用作后续的上下文提示 prompt，控制在 200 字以内",
+      RepairJson: (error: string) =>
+        `你上一条回复不符合要求的 JSON 格式：${error}\n请只输出修正后的 JSON，不要附加任何其他内容。`,
+      Continue:
+        "你上一条回复没有完成，请从中断处直接接着写，不要重复已经写过的内容，也不要添加任何开场白。",
+      Knowledge: (sources: string) =>
+        `以下是用户知识库中带编号的摘录，相关时请据此回答。在引用摘录的陈述后用方括号标注其编号，例如 [1]，不要标注未使用的摘录。\n\n${sources}`,
     },
   },
   Copy: {
@@ -647,6 +843,22 @@ const cn = {
   },
   Mcp: {
     Name: "MCP",
+    NoResources: "MCP 服务器没有可用的资源",
+    PromptArgs: (name: string) => `${name} 的参数`,
+    PromptFailed: (name: string) => `无法获取提示词 ${name}`,
+    ResourceFailed: (name: string) => `无法读取资源 ${name}`,
+    Scope: {
+      Title: "MCP 服务器",
+      SubTitle: "模型可以调用这些服务器的工具，服务器在用到时才会启动",
+      Selected: (count: number) => `已选 ${count} 个`,
+      All: "全部服务器",
+      Empty: "还没有配置 MCP 服务器",
+      Loading: "正在加载工具...",
+      Failed: "无法加载工具",
+      Market: "MCP 市场",
+      Unsupported: (provider: string) =>
+        `${provider} 不支持工具调用，它的模型用不到 MCP 工具`,
+    },
   },
   FineTuned: {
     Sysmessage: "你是一个助手",
@@ -706,6 +918,37 @@ const cn = {
       Error: "格式错误",
     },
   },
+  Knowledge: {
+    Name: "知识库",
+    Page: {
+      Title: "知识库",
+      SubTitle: (count: number) => `${count} 个知识库`,
+      Search: "搜索知识库",
+      Create: "新建",
+    },
+    Untitled: "未命名",
+    DocumentCount: (count: number) => `${count} 个文档`,
+    Item: {
+      Edit: "编辑",
+      Delete: "删除",
+      DeleteConfirm: "确认删除知识库及其全部文档？",
+    },
+    EditModal: {
+      Title: "编辑知识库",
+      Name: "名称",
+      Embedding: {
+        Title: "向量模型",
+        SubTitle: "添加文档后不可更改，本地模式只匹配相同的词，不发送请求",
+        Local: "本地（关键词）",
+      },
+      Documents: "文档",
+      Add: "添加文档",
+      Adding: (name: string) => `正在索引 ${name}...`,
+      Chunks: (count: number, size: string) => `${count} 个片段，${size}`,
+      Empty: "还没有文档",
+      Error: (name: string, error: string) => `索引 ${name} 失败：${error}`,
+    },
+  },
   Mask: {
     Name: "面具",
     Page: {
@@ -740,6 +983,11 @@ const cn = {
         Title: "隐藏预设对话",
         SubTitle: "隐藏后预设对话不会出现在聊天界面",
       },
+      Knowledge: {
+        Title: "知识库",
+        SubTitle: "每条消息都会检索所选知识库，并标注引用的摘录",
+        Selected: (count: number) => `已选 ${count} 个`,
+      },
       Artifacts: {
         Title: "启用Artifacts",
         SubTitle: "启用之后可以直接渲染HTML页面",
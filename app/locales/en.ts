@@ -28,6 +28,34 @@ const en: LocaleType = {
   },
   ChatItem: {
     ChatItemCount: (count: number) => `${count} messages`,
+    Pin: "Pin",
+    Unpin: "Unpin",
+    Pinned: "Pinned",
+    Ungrouped: "Chats",
+    Tags: "Edit tags, separated by commas",
+    Folder: {
+      New: "New Folder",
+      NewSub: "New Subfolder",
+      Name: "Folder name",
+      Rename: "Rename",
+      Delete: "Delete Folder",
+      DeleteConfirm:
+        "Delete this folder? Its chats and subfolders move up one level.",
+    },
+    Filter: {
+      AllTags: "All tags",
+      AllModels: "All models",
+    },
+    Bulk: {
+      Select: "Select",
+      Selected: (count: number) => `${count} selected`,
+      MoveTo: "Move to…",
+      Root: "No folder",
+      Export: "Export",
+      Delete: "Delete",
+      DeleteConfirm: (count: number) => `Delete ${count} chats?`,
+      Done: "Done",
+    },
   },
   Chat: {
     SubTitle: (count: number) => `${count} messages`,
@@ -56,6 +84,69 @@ const en: LocaleType = {
       Speech: "Play",
       StopSpeech: "Stop",
     },
+    Branch: {
+      Prev: "Previous branch",
+      Next: "Next branch",
+    },
+    Compare: {
+      Title: (count: number) => `Comparing ${count} models`,
+      Pick: "Use this answer",
+      PickFirst: "Pick one of the compared answers first",
+    },
+    Reasoning: {
+      Thinking: "Thinking…",
+      Thought: (seconds: number) => `Thought for ${seconds}s`,
+      Tokens: (tokens: string) => `${tokens} tokens`,
+    },
+    Incomplete: {
+      Interrupted: "The reply was interrupted while generating",
+      Truncated: "The reply reached the max tokens limit",
+      Continue: "Continue",
+    },
+    Attachments: {
+      Tokens: (tokens: string) => `~${tokens} tokens`,
+      TooLarge: (name: string, limit: string) =>
+        `${name} is larger than ${limit}`,
+      TooMany: (count: number) => `At most ${count} files can be attached`,
+      NoText: (name: string) => `No text could be read from ${name}`,
+      OverBudget: (tokens: string, budget: string) =>
+        `Attachments take about ${tokens} of the ${budget} tokens this model can read, older messages may be dropped or the request rejected`,
+    },
+    Structured: {
+      Invalid: "Reply does not match the response format",
+      Repair: "Repair",
+    },
+    Retry: {
+      Waiting: (attempt: number, seconds: number) =>
+        `Request failed, retry #${attempt} in ${seconds}s…`,
+      Fallback: (model: string) => `Request failed, switching to ${model}…`,
+    },
+    ToolApproval: {
+      Title: (name: string) => `Allow calling ${name}?`,
+      InvalidArguments: "The arguments are not valid JSON",
+      Allow: "Allow",
+      AllowSession: "Allow in this chat",
+      Deny: "Deny",
+      Expired: "This call is not waiting for approval anymore",
+      Edited: "Arguments edited",
+      Policy: {
+        Title: "When called",
+        allow: "Always allow",
+        ask: "Ask",
+        deny: "Deny",
+      },
+    },
+    Usage: {
+      Summary: (tokens: string, cost?: string) =>
+        cost ? `${tokens} tokens · ~${cost}` : `${tokens} tokens`,
+      Detail: (
+        prompt: number,
+        completion: number,
+        reasoning: number,
+        cached: number,
+      ) =>
+        `Input ${prompt} (cached ${cached}), output ${completion} (reasoning ${reasoning})`,
+    },
     Commands: {
       new: "Start a new chat",
       newm: "Start a new chat with mask",
@@ -78,6 +169,17 @@ const en: LocaleType = {
       Clear: "Clear Context",
       Settings: "Settings",
       UploadImage: "Upload Images",
+      UploadFile: "Attach Files",
+      Voice: {
+        Start: "Voice Input",
+        Stop: "Stop Recording",
+        Hold: "Hold to Talk",
+        Transcribing: "Transcribing…",
+        NoMicrophone: "Can not access the microphone",
+        Failed: (error: string) => `Transcription failed: ${error}`,
+      },
+      Compare: "Compare Models",
+      McpResources: "MCP Resources",
     },
     Rename: "Rename Chat",
     Typing: "Typing…",
@@ -129,9 +231,31 @@ const en: LocaleType = {
       Toast: "Capturing Image...",
       Modal: "Long press or right click to save image",
     },
+    Audio: {
+      Generate: "Generate Audio",
+      Generating: (done: number, total: number) =>
+        `Generating ${done}/${total}`,
+      Format: "Audio Format",
+      AssistantVoice: "Assistant Voice",
+      UserVoice: "User Voice",
+    },
     Artifacts: {
       Title: "Share Artifacts",
       Error: "Share Error",
+      Version: (index: number, total: number) => `Version ${index}/${total}`,
+      Preview: "Preview",
+      Files: "Files",
+      Changes: "Changes",
+      NoChanges: "No changes from the previous version",
+      DownloadZip: "Download as zip",
+      Logs: {
+        Title: (count: number, errors: number) =>
+          `Console (${count})${errors ? `, ${errors} errors` : ""}`,
+        Clear: "Clear",
+        Send: "Send errors to chat",
+        Prompt: (logs: string) =>
+          `The page you wrote reported the following in its console when previewed, please fix the code:\n\n\`\`\`\n${logs}\n\`\`\``,
+      },
     },
   },
   Select: {
@@ -309,6 +433,11 @@ const en: LocaleType = {
       Check: "Check",
       NoAccess: "Enter API Key to check balance",
     },
+    TokenUsage: {
+      Title: "Token Usage",
+      SubTitle: (today: string, recent: string) =>
+        `Today ${today}; last 30 days ${recent}`,
+    },
     Access: {
       SaasStart: {
         Title: "Use NextChat AI",
@@ -546,6 +675,43 @@ const en: LocaleType = {
       Title: "Summary Model",
       SubTitle: "Model used to compress history and generate title",
     },
+    ReasoningEffort: {
+      Title: "Reasoning Effort",
+      SubTitle: "How much the model reasons before it answers",
+      Levels: {
+        default: "Default",
+        low: "Low",
+        medium: "Medium",
+        high: "High",
+      },
+    },
+    ThinkingBudget: {
+      Title: "Thinking Budget",
+      SubTitle:
+        "Max tokens spent on thinking, 0 keeps the model default (off for Claude)",
+    },
+    ResponseFormat: {
+      Title: "Response Format",
+      SubTitle: "Ask the model for JSON and validate replies against a schema",
+      Types: {
+        text: "Text",
+        json_object: "JSON Object",
+        json_schema: "JSON Schema",
+      },
+      Library: "Pick from library",
+      Schema: "JSON Schema",
+      InvalidSchema: "Schema is not a valid JSON object",
+    },
+    Retry: {
+      Title: "Retry Count",
+      SubTitle:
+        "Retry with exponential backoff on rate limits and server errors",
+    },
+    FallbackModels: {
+      Title: "Fallback Models",
+      SubTitle:
+        "Tried in order when retries fail, e.g. model@provider, comma separated",
+    },
     Temperature: {
       Title: "Temperature",
       SubTitle: "A larger value makes the more random output",
@@ -576,7 +742,7 @@ const en: LocaleType = {
       Autoplay: {
         Title: "Enable Autoplay",
         SubTitle:
-          "Automatically generate speech and play, you need to enable the text-to-speech switch first",
+          "Read replies aloud sentence by sentence while they are generated, you need to enable the text-to-speech switch first",
       },
       Model: "Model",
       Voice: {
@@ -589,6 +755,35 @@ const en: LocaleType = {
       },
       Engine: "TTS Engine",
     },
+    STT: {
+      Enable: {
+        Title: "Enable Voice Input",
+        SubTitle: "Show a microphone button to dictate messages",
+      },
+      Engine: "STT Engine",
+      Model: {
+        Title: "Model",
+        SubTitle: "The transcription model, e.g. whisper-1",
+      },
+      BaseUrl: {
+        Title: "Endpoint",
+        SubTitle:
+          "Any OpenAI compatible server, /audio/transcriptions is appended. Leave empty to use the OpenAI provider",
+      },
+      ApiKey: "API Key",
+      Language: {
+        Title: "Language",
+        SubTitle: "ISO-639-1 code of the speech, empty to detect it",
+      },
+      PushToTalk: {
+        Title: "Push to Talk",
+        SubTitle: "Hold the microphone button while speaking",
+      },
+      AutoSubmit: {
+        Title: "Send Automatically",
+        SubTitle: "Send the transcript instead of filling the input",
+      },
+    },
     Realtime: {
       Enable: {
         Title: "Realtime Chat",
@@ -634,6 +829,12 @@ const en: LocaleType = {
         "Please generate a four to five word title summarizing our conversation without any lead-in, punctuation, quotation marks, periods, symbols, bold text, or additional text. Remove enclosing quotation marks.",
       Summarize:
         "Summarize the discussion briefly in 200 words or less to use as a prompt for future context.",
+      RepairJson: (error: string) =>
+        `Your previous reply is not valid for the required JSON format: ${error}\nReply with only the corrected JSON and nothing else.`,
+      Continue:
+        "Your previous reply was cut off. Continue exactly where it stopped, without repeating what you already wrote and without any preamble.",
+      Knowledge: (sources: string) =>
+        `Answer with the help of these numbered excerpts from the user's knowledge base when they are relevant. Cite the excerpts you use with their number in square brackets, like [1], right after the statement they support. Do not cite excerpts you did not use.\n\n${sources}`,
     },
   },
   Copy: {
@@ -656,6 +857,23 @@ const en: LocaleType = {
   },
   Mcp: {
     Name: "MCP",
+    NoResources: "The MCP servers have no resources",
+    PromptArgs: (name: string) => `Arguments of ${name}`,
+    PromptFailed: (name: string) => `Failed to get the prompt ${name}`,
+    ResourceFailed: (name: string) => `Failed to read the resource ${name}`,
+    Scope: {
+      Title: "MCP Servers",
+      SubTitle:
+        "The model can call the tools of these servers, they start when needed",
+      Selected: (count: number) => `${count} selected`,
+      All: "All servers",
+      Empty: "No MCP servers are configured",
+      Loading: "Loading tools...",
+      Failed: "Failed to load the tools",
+      Market: "MCP Market",
+      Unsupported: (provider: string) =>
+        `${provider} has no tool calling, its models cannot use MCP tools`,
+    },
   },
   FineTuned: {
     Sysmessage: "You are an assistant that",
@@ -716,6 +934,39 @@ const en: LocaleType = {
       Error: "OpenAPI Schema Error",
     },
   },
+  Knowledge: {
+    Name: "Knowledge",
+    Page: {
+      Title: "Knowledge Bases",
+      SubTitle: (count: number) => `${count} knowledge bases`,
+      Search: "Search Knowledge Bases",
+      Create: "Create",
+    },
+    Untitled: "Untitled",
+    DocumentCount: (count: number) => `${count} documents`,
+    Item: {
+      Edit: "Edit",
+      Delete: "Delete",
+      DeleteConfirm: "Delete the knowledge base and all of its documents?",
+    },
+    EditModal: {
+      Title: "Edit Knowledge Base",
+      Name: "Name",
+      Embedding: {
+        Title: "Embedding Model",
+        SubTitle:
+          "Can not be changed once documents are added. Local matches shared words without any request",
+        Local: "Local (keywords)",
+      },
+      Documents: "Documents",
+      Add: "Add Documents",
+      Adding: (name: string) => `Indexing ${name}...`,
+      Chunks: (count: number, size: string) => `${count} chunks, ${size}`,
+      Empty: "No documents yet",
+      Error: (name: string, error: string) =>
+        `Failed to index ${name}: ${error}`,
+    },
+  },
   Mask: {
     Name: "Mask",
     Page: {
@@ -750,6 +1001,11 @@ const en: LocaleType = {
         Title: "Hide Context Prompts",
         SubTitle: "Do not show in-context prompts in chat",
       },
+      Knowledge: {
+        Title: "Knowledge Bases",
+        SubTitle: "Search them for each message and cite the excerpts used",
+        Selected: (count: number) => `${count} selected`,
+      },
       Artifacts: {
         Title: "Enable Artifacts",
         SubTitle: "Can render HTML page when enable artifacts.",
@@ -2,18 +2,32 @@
 import {
   createClient,
   executeRequest,
+  getPrompt,
+  getReconnectDelay,
+  listPrompts,
+  listResources,
   listTools,
+  MAX_RECONNECT_ATTEMPTS,
+  onResourceUpdated,
+  readResource,
   removeClient,
+  subscribeResource,
+  unsubscribeResource,
 } from "./client";
 import { MCPClientLogger } from "./logger";
+import { isRemoteServer } from "./utils";
 import {
   DEFAULT_MCP_CONFIG,
   McpClientData,
+  McpClientPrompts,
+  McpClientResources,
   McpConfigData,
   McpRequestMessage,
+  McpResourceRef,
   ServerConfig,
   ServerStatusResponse,
 } from "./types";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import fs from "fs/promises";
 import path from "path";
 import { getServerSideConfig } from "../config/server";
@@ -22,6 +36,23 @@ const logger = new MCPClientLogger("MCP Actions");
 const CONFIG_PATH = path.join(process.cwd(), "app/mcp/mcp_config.json");
 
 const clientsMap = new Map<string, McpClientData>();
+const reconnectTimers = new Map<string, ReturnType<typeof setTimeout>>();
+// 正在连接的客户端
+const pendingClients = new Map<string, Promise<void>>();
+// 资源更新通知的次数，页面轮询到变化后重新读取资源
+const resourceVersions = new Map<string, number>();
+
+function getResourceKey({ clientId, uri }: McpResourceRef) {
+  return `${clientId}\n${uri}`;
+}
+
+function getActiveClient(clientId: string) {
+  const client = clientsMap.get(clientId)?.client;
+  if (!client) {
+    throw new Error(`Client ${clientId} not found`);
+  }
+  return client;
+}
 
 // 获取客户端状态
 export async function getClientsStatus(): Promise<
@@ -44,8 +75,9 @@ export async function getClientsStatus(): Promise<
       continue;
     }
 
+    // 没有会话用到的服务器不会启动
     if (!status) {
-      result[clientId] = { status: "undefined", errorMsg: null };
+      result[clientId] = { status: "idle", errorMsg: null };
       continue;
     }
 
@@ -59,7 +91,13 @@ export async function getClientsStatus(): Promise<
     }
 
     if (status.errorMsg) {
-      result[clientId] = { status: "error", errorMsg: status.errorMsg };
+      result[clientId] = status.reconnectAttempt
+        ? {
+            status: "reconnecting",
+            errorMsg: status.errorMsg,
+            reconnectAttempt: status.reconnectAttempt,
+          }
+        : { status: "error", errorMsg: status.errorMsg };
       continue;
     }
 
@@ -86,10 +124,11 @@ export async function getAvailableClientsCount() {
   return count;
 }
 
-// 获取所有客户端工具
-export async function getAllTools() {
+// 获取所有客户端工具，传入 clientIds 时只返回这些客户端
+export async function getAllTools(clientIds?: string[]) {
   const result = [];
   for (const [clientId, status] of clientsMap.entries()) {
+    if (clientIds && !clientIds.includes(clientId)) continue;
     result.push({
       clientId,
       tools: status.tools,
@@ -98,6 +137,157 @@ export async function getAllTools() {
   return result;
 }
 
+// 连接客户端，远程服务器断开后自动重连
+async function connectClient(clientId: string, serverConfig: ServerConfig) {
+  const client: Client = await createClient(clientId, serverConfig, () => {
+    // 主动关闭的客户端已不在 clientsMap 中
+    if (clientsMap.get(clientId)?.client !== client) return;
+    logger.error(`Client [${clientId}] disconnected`);
+    scheduleReconnect(clientId, serverConfig, 0, "Connection closed");
+  });
+  onResourceUpdated(client, (uri) => {
+    const key = getResourceKey({ clientId, uri });
+    resourceVersions.set(key, (resourceVersions.get(key) ?? 0) + 1);
+  });
+  // 连接期间客户端被暂停或移除
+  if (!clientsMap.has(clientId)) {
+    await removeClient(client);
+    throw new Error(`Client ${clientId} was stopped`);
+  }
+  try {
+    const tools = await listTools(client);
+    clientsMap.set(clientId, { client, tools, errorMsg: null });
+    return tools;
+  } catch (error) {
+    await removeClient(client);
+    throw error;
+  }
+}
+
+// 远程服务器按指数退避重连，本地服务器或超过次数后标记为错误
+function scheduleReconnect(
+  clientId: string,
+  serverConfig: ServerConfig,
+  attempt: number,
+  errorMsg: string,
+) {
+  if (!clientsMap.has(clientId)) return;
+  if (!isRemoteServer(serverConfig) || attempt >= MAX_RECONNECT_ATTEMPTS) {
+    clientsMap.set(clientId, { client: null, tools: null, errorMsg });
+    return;
+  }
+
+  const delay = getReconnectDelay(attempt);
+  logger.info(`Reconnecting client [${clientId}] in ${delay}ms...`);
+  clientsMap.set(clientId, {
+    client: null,
+    tools: null,
+    errorMsg,
+    reconnectAttempt: attempt + 1,
+  });
+  reconnectTimers.set(
+    clientId,
+    setTimeout(() => {
+      reconnectTimers.delete(clientId);
+      connectClient(clientId, serverConfig)
+        .then(() => logger.success(`Client [${clientId}] reconnected`))
+        .catch((error) => {
+          logger.error(`Failed to reconnect client [${clientId}]: ${error}`);
+          scheduleReconnect(
+            clientId,
+            serverConfig,
+            attempt + 1,
+            error instanceof Error ? error.message : String(error),
+          );
+        });
+    }, delay),
+  );
+}
+
+// 关闭客户端并取消重连
+async function closeClient(clientId: string) {
+  clearTimeout(reconnectTimers.get(clientId));
+  reconnectTimers.delete(clientId);
+  const client = clientsMap.get(clientId)?.client;
+  clientsMap.delete(clientId);
+  if (client) {
+    await removeClient(client);
+  }
+}
+
+// 获取会话用到的客户端资源
+export async function getAllResources(
+  clientIds?: string[],
+): Promise<McpClientResources[]> {
+  const scoped = await initializeMcpClients(clientIds);
+  const result: McpClientResources[] = [];
+  for (const [clientId, status] of clientsMap.entries()) {
+    if (!status.client || !scoped.includes(clientId)) continue;
+    try {
+      result.push({ clientId, resources: await listResources(status.client) });
+    } catch (error) {
+      logger.error(`Failed to list resources of [${clientId}]: ${error}`);
+    }
+  }
+  return result;
+}
+
+// 读取资源，同时返回读取时的更新次数
+export async function readMcpResource(clientId: string, uri: string) {
+  const version = resourceVersions.get(getResourceKey({ clientId, uri })) ?? 0;
+  const contents = await readResource(getActiveClient(clientId), uri);
+  return { contents, version };
+}
+
+// 订阅资源更新，服务器不支持时返回 false
+export async function subscribeMcpResource(clientId: string, uri: string) {
+  try {
+    return await subscribeResource(getActiveClient(clientId), uri);
+  } catch (error) {
+    logger.error(`Failed to subscribe to [${clientId}] ${uri}: ${error}`);
+    return false;
+  }
+}
+
+export async function unsubscribeMcpResource(clientId: string, uri: string) {
+  try {
+    await unsubscribeResource(getActiveClient(clientId), uri);
+  } catch (error) {
+    logger.error(`Failed to unsubscribe from [${clientId}] ${uri}: ${error}`);
+  }
+}
+
+// 获取资源的更新次数
+export async function getMcpResourceVersions(refs: McpResourceRef[]) {
+  return refs.map((ref) => resourceVersions.get(getResourceKey(ref)) ?? 0);
+}
+
+// 获取会话用到的客户端提示词
+export async function getAllPrompts(
+  clientIds?: string[],
+): Promise<McpClientPrompts[]> {
+  const scoped = await initializeMcpClients(clientIds);
+  const result: McpClientPrompts[] = [];
+  for (const [clientId, status] of clientsMap.entries()) {
+    if (!status.client || !scoped.includes(clientId)) continue;
+    try {
+      result.push({ clientId, prompts: await listPrompts(status.client) });
+    } catch (error) {
+      logger.error(`Failed to list prompts of [${clientId}]: ${error}`);
+    }
+  }
+  return result;
+}
+
+// 获取填入参数后的提示词
+export async function getMcpPrompt(
+  clientId: string,
+  name: string,
+  args: Record<string, string>,
+) {
+  return getPrompt(getActiveClient(clientId), name, args);
+}
+
 // 初始化单个客户端
 async function initializeSingleClient(
   clientId: string,
@@ -111,6 +301,9 @@ async function initializeSingleClient(
 
   logger.info(`Initializing client [${clientId}]...`);
 
+  // 关闭修改配置前的客户端
+  await closeClient(clientId);
+
   // 先设置初始化状态
   clientsMap.set(clientId, {
     client: null,
@@ -119,23 +312,60 @@ async function initializeSingleClient(
   });
 
   // 异步初始化
-  createClient(clientId, serverConfig)
-    .then(async (client) => {
-      const tools = await listTools(client);
+  const pending = connectClient(clientId, serverConfig)
+    .then((tools) => {
       logger.info(
         `Supported tools for [${clientId}]: ${JSON.stringify(tools, null, 2)}`,
       );
-      clientsMap.set(clientId, { client, tools, errorMsg: null });
       logger.success(`Client [${clientId}] initialized successfully`);
     })
     .catch((error) => {
-      clientsMap.set(clientId, {
-        client: null,
-        tools: null,
-        errorMsg: error instanceof Error ? error.message : String(error),
-      });
       logger.error(`Failed to initialize client [${clientId}]: ${error}`);
+      scheduleReconnect(
+        clientId,
+        serverConfig,
+        0,
+        error instanceof Error ? error.message : String(error),
+      );
+    })
+    .finally(() => {
+      if (pendingClients.get(clientId) === pending) {
+        pendingClients.delete(clientId);
+      }
     });
+  pendingClients.set(clientId, pending);
+}
+
+// 按需初始化会话用到的客户端，等待连接完成，不传 clientIds 时为所有服务器
+// 传入 timeoutMs 时最多等待这么久，仍在连接的客户端在后台继续连接
+// 返回已配置的 clientIds
+export async function initializeMcpClients(
+  clientIds?: string[],
+  timeoutMs?: number,
+) {
+  const config = await getMcpConfigFromFile();
+  const configured = (clientIds ?? Object.keys(config.mcpServers)).filter(
+    (clientId) => config.mcpServers[clientId],
+  );
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const connected = Promise.all(
+    configured.map(async (clientId) => {
+      if (!clientsMap.has(clientId)) {
+        await initializeSingleClient(clientId, config.mcpServers[clientId]);
+      }
+      await pendingClients.get(clientId);
+    }),
+  );
+  await (timeoutMs === undefined
+    ? connected
+    : Promise.race([
+        connected,
+        new Promise<void>((resolve) => {
+          timer = setTimeout(resolve, timeoutMs);
+        }),
+      ]));
+  clearTimeout(timer);
+  return configured;
 }
 
 // 初始化系统
@@ -148,11 +378,13 @@ export async function initializeMcpSystem() {
       return;
     }
 
+    // 客户端在会话需要时才初始化，见 initializeMcpClients
     const config = await getMcpConfigFromFile();
-    // 初始化所有客户端
-    for (const [clientId, serverConfig] of Object.entries(config.mcpServers)) {
-      await initializeSingleClient(clientId, serverConfig);
-    }
+    logger.info(
+      `${
+        Object.keys(config.mcpServers).length
+      } servers configured, started on demand`,
+    );
     return config;
   } catch (error) {
     logger.error(`Failed to initialize MCP system: ${error}`);
@@ -180,8 +412,8 @@ export async function addMcpServer(clientId: string, config: ServerConfig) {
     };
     await updateMcpConfig(newConfig);
 
-    // 只有新服务器或状态为 active 的服务器才初始化
-    if (isNewServer || config.status === "active") {
+    // 只重启已启动的客户端，其他的在会话用到时再初始化
+    if (clientsMap.has(clientId) && config.status === "active") {
       await initializeSingleClient(clientId, config);
     }
 
@@ -215,11 +447,7 @@ export async function pauseMcpServer(clientId: string) {
     await updateMcpConfig(newConfig);
 
     // 然后关闭客户端
-    const client = clientsMap.get(clientId);
-    if (client?.client) {
-      await removeClient(client.client);
-    }
-    clientsMap.delete(clientId);
+    await closeClient(clientId);
 
     return newConfig;
   } catch (error) {
@@ -240,9 +468,9 @@ export async function resumeMcpServer(clientId: string): Promise<void> {
     // 先尝试初始化客户端
     logger.info(`Trying to initialize client [${clientId}]...`);
     try {
-      const client = await createClient(clientId, serverConfig);
-      const tools = await listTools(client);
-      clientsMap.set(clientId, { client, tools, errorMsg: null });
+      await closeClient(clientId);
+      clientsMap.set(clientId, { client: null, tools: null, errorMsg: null });
+      await connectClient(clientId, serverConfig);
       logger.success(`Client [${clientId}] initialized successfully`);
 
       // 初始化成功后更新配置
@@ -294,11 +522,7 @@ export async function removeMcpServer(clientId: string) {
     await updateMcpConfig(newConfig);
 
     // 关闭并移除客户端
-    const client = clientsMap.get(clientId);
-    if (client?.client) {
-      await removeClient(client.client);
-    }
-    clientsMap.delete(clientId);
+    await closeClient(clientId);
 
     return newConfig;
   } catch (error) {
@@ -311,20 +535,19 @@ export async function removeMcpServer(clientId: string) {
 export async function restartAllClients() {
   logger.info("Restarting all clients...");
   try {
-    // 关闭所有客户端
-    for (const client of clientsMap.values()) {
-      if (client.client) {
-        await removeClient(client.client);
-      }
+    // 关闭所有客户端并清空状态，只重启已启动的客户端
+    const started = Array.from(clientsMap.keys());
+    for (const clientId of started) {
+      await closeClient(clientId);
     }
 
-    // 清空状态
-    clientsMap.clear();
-
     // 重新初始化
     const config = await getMcpConfigFromFile();
-    for (const [clientId, serverConfig] of Object.entries(config.mcpServers)) {
-      await initializeSingleClient(clientId, serverConfig);
+    for (const clientId of started) {
+      const serverConfig = config.mcpServers[clientId];
+      if (serverConfig) {
+        await initializeSingleClient(clientId, serverConfig);
+      }
     }
     return config;
   } catch (error) {
@@ -1,29 +1,99 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { ClientCredentialsProvider } from "@modelcontextprotocol/sdk/client/auth-extensions.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import { MCPClientLogger } from "./logger";
-import { ListToolsResponse, McpRequestMessage, ServerConfig } from "./types";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import {
+  ListToolsResponse,
+  McpPrompt,
+  McpPromptMessage,
+  McpRequestMessage,
+  McpResource,
+  McpResourceContents,
+  ServerConfig,
+} from "./types";
+import { isRemoteServer } from "./utils";
 import { z } from "zod";
 
 const logger = new MCPClientLogger();
 
+// a dropped remote server is retried this many times, waiting twice as
+// long each time
+export const MAX_RECONNECT_ATTEMPTS = 6;
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30 * 1000;
+
+/** the wait before reconnect `attempt`, counted from 0 */
+export function getReconnectDelay(attempt: number) {
+  return Math.min(RECONNECT_BASE_DELAY * 2 ** attempt, RECONNECT_MAX_DELAY);
+}
+
+function createAuthProvider(config: ServerConfig) {
+  const auth = config.auth;
+  if (auth?.type !== "oauth") return undefined;
+  const options = {
+    clientId: auth.clientId,
+    clientSecret: auth.clientSecret,
+    scope: auth.scope,
+  };
+  return auth.issuer
+    ? new ClientCredentialsProvider({ ...options, expectedIssuer: auth.issuer })
+    : new ClientCredentialsProvider(options);
+}
+
+async function createTransport(config: ServerConfig): Promise<Transport> {
+  if (!isRemoteServer(config)) {
+    if (!config.command) throw new Error("Missing server command");
+    return new StdioClientTransport({
+      command: config.command,
+      args: config.args ?? [],
+      env: {
+        ...Object.fromEntries(
+          Object.entries(process.env)
+            .filter(([_, v]) => v !== undefined)
+            .map(([k, v]) => [k, v as string]),
+        ),
+        ...(config.env || {}),
+      },
+    });
+  }
+
+  if (!config.url) throw new Error("Missing server url");
+  const url = new URL(config.url);
+  const headers: Record<string, string> = { ...(config.headers ?? {}) };
+  if (config.auth?.type === "bearer") {
+    headers["Authorization"] = `Bearer ${config.auth.token}`;
+  }
+  const options = {
+    requestInit: { headers },
+    authProvider: createAuthProvider(config),
+  };
+  // loaded when needed, the streamable http client needs web streams
+  if (config.type === "sse") {
+    const { SSEClientTransport } = await import(
+      "@modelcontextprotocol/sdk/client/sse.js"
+    );
+    return new SSEClientTransport(url, options);
+  }
+  const { StreamableHTTPClientTransport } = await import(
+    "@modelcontextprotocol/sdk/client/streamableHttp.js"
+  );
+  return new StreamableHTTPClientTransport(url, options);
+}
+
+/**
+ * connects to the server of `config`, `onClose` is called when the
+ * connection ends, also when the client is removed
+ */
 export async function createClient(
   id: string,
   config: ServerConfig,
+  onClose?: () => void,
 ): Promise<Client> {
   logger.info(`Creating client for ${id}...`);
 
-  const transport = new StdioClientTransport({
-    command: config.command,
-    args: config.args,
-    env: {
-      ...Object.fromEntries(
-        Object.entries(process.env)
-          .filter(([_, v]) => v !== undefined)
-          .map(([k, v]) => [k, v as string]),
-      ),
-      ...(config.env || {}),
-    },
-  });
+  const transport = await createTransport(config);
 
   const client = new Client(
     {
@@ -35,6 +105,7 @@ export async function createClient(
     },
   );
   await client.connect(transport);
+  client.onclose = onClose;
   return client;
 }
 
@@ -53,3 +124,64 @@ export async function executeRequest(
 ) {
   return client.request(request, z.any());
 }
+
+// the lists are paged, servers without the capability have none
+export async function listResources(client: Client): Promise<McpResource[]> {
+  if (!client.getServerCapabilities()?.resources) return [];
+  const resources: McpResource[] = [];
+  let cursor: string | undefined;
+  do {
+    const result = await client.listResources(cursor ? { cursor } : undefined);
+    resources.push(...result.resources);
+    cursor = result.nextCursor;
+  } while (cursor);
+  return resources;
+}
+
+export async function readResource(
+  client: Client,
+  uri: string,
+): Promise<McpResourceContents[]> {
+  return (await client.readResource({ uri })).contents;
+}
+
+/** false when the server does not send resource updates */
+export async function subscribeResource(client: Client, uri: string) {
+  if (!client.getServerCapabilities()?.resources?.subscribe) return false;
+  await client.subscribeResource({ uri });
+  return true;
+}
+
+export async function unsubscribeResource(client: Client, uri: string) {
+  if (!client.getServerCapabilities()?.resources?.subscribe) return;
+  await client.unsubscribeResource({ uri });
+}
+
+export function onResourceUpdated(
+  client: Client,
+  callback: (uri: string) => void,
+) {
+  client.setNotificationHandler(ResourceUpdatedNotificationSchema, (n) =>
+    callback(n.params.uri),
+  );
+}
+
+export async function listPrompts(client: Client): Promise<McpPrompt[]> {
+  if (!client.getServerCapabilities()?.prompts) return [];
+  const prompts: McpPrompt[] = [];
+  let cursor: string | undefined;
+  do {
+    const result = await client.listPrompts(cursor ? { cursor } : undefined);
+    prompts.push(...result.prompts);
+    cursor = result.nextCursor;
+  } while (cursor);
+  return prompts;
+}
+
+export async function getPrompt(
+  client: Client,
+  name: string,
+  args: Record<string, string>,
+): Promise<McpPromptMessage[]> {
+  return (await client.getPrompt({ name, arguments: args })).messages;
+}
@@ -73,6 +73,59 @@ export interface ListToolsResponse {
   };
 }
 
+// 服务器提供的资源，可作为上下文附加到消息
+export interface McpResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  // base64 编码的二进制内容
+  blob?: string;
+}
+
+// 指向某个客户端的资源
+export interface McpResourceRef {
+  clientId: string;
+  uri: string;
+}
+
+// 服务器提供的提示词模板
+export interface McpPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: {
+    name: string;
+    description?: string;
+    required?: boolean;
+  }[];
+}
+
+export interface McpPromptMessage {
+  role: "user" | "assistant";
+  content:
+    | { type: "text"; text: string }
+    | { type: "resource"; resource: McpResourceContents }
+    | { type: string; [key: string]: unknown };
+}
+
+export interface McpClientResources {
+  clientId: string;
+  resources: McpResource[];
+}
+
+export interface McpClientPrompts {
+  clientId: string;
+  prompts: McpPrompt[];
+}
+
 export type McpClientData =
   | McpActiveClient
   | McpErrorClient
@@ -94,6 +147,8 @@ interface McpErrorClient {
   client: null;
   tools: null;
   errorMsg: string;
+  // 远程服务器等待重连时的重连次数
+  reconnectAttempt?: number;
 }
 
 // 服务器状态类型
@@ -102,18 +157,42 @@ export type ServerStatus =
   | "active"
   | "paused"
   | "error"
-  | "initializing";
+  | "initializing"
+  | "reconnecting"
+  | "idle";
 
 export interface ServerStatusResponse {
   status: ServerStatus;
   errorMsg: string | null;
+  reconnectAttempt?: number;
 }
 
+// 服务器的连接方式，stdio 为本地进程，sse 和 streamable-http 为远程服务器
+export type McpTransportType = "stdio" | "sse" | "streamable-http";
+
+// 远程服务器的认证方式
+export type McpServerAuth =
+  | { type: "bearer"; token: string }
+  // oauth client credentials 授权，授权服务器由 MCP 服务器发现
+  | {
+      type: "oauth";
+      clientId: string;
+      clientSecret: string;
+      scope?: string;
+      // 只向该授权服务器发送凭据
+      issuer?: string;
+    };
+
 // MCP 服务器配置相关类型
 export interface ServerConfig {
-  command: string;
-  args: string[];
+  // 未设置时为 stdio
+  type?: McpTransportType;
+  command?: string;
+  args?: string[];
   env?: Record<string, string>;
+  url?: string;
+  headers?: Record<string, string>;
+  auth?: McpServerAuth;
   status?: "active" | "paused" | "error";
 }
 
@@ -1,11 +1,135 @@
-export function isMcpJson(content: string) {
-  return content.match(/```json:mcp:([^{\s]+)([\s\S]*?)```/);
+import type { ChatAttachment } from "../utils/document";
+import { estimateTokenLength } from "../utils/token";
+import type {
+  ListToolsResponse,
+  McpClientPrompts,
+  McpPrompt,
+  McpPromptMessage,
+  McpResource,
+  McpResourceContents,
+  ServerConfig,
+} from "./types";
+
+// the tool of an mcp client a function name calls
+export type McpToolTarget = {
+  clientId: string;
+  name: string;
+};
+
+type McpClientTools = {
+  clientId: string;
+  tools: ListToolsResponse | null;
+};
+
+/** servers reached over sse or streamable http instead of a local process */
+export function isRemoteServer(config: ServerConfig) {
+  return config.type === "sse" || config.type === "streamable-http";
+}
+
+/**
+ * the function name of an mcp tool, prefixed with its client, within the
+ * [a-zA-Z0-9_-] up to 64 the providers accept
+ */
+export function getMcpToolName(clientId: string, toolName: string) {
+  return `${clientId}__${toolName}`
+    .replace(/[^a-zA-Z0-9_-]/g, "_")
+    .slice(0, 64);
+}
+
+/**
+ * the tools of the mcp clients as function tools, with the client tool
+ * each function name calls, the first of a name wins, `allowedTools`
+ * limits the tools of the clients it has
+ */
+export function toMcpFunctionTools(
+  clients: McpClientTools[],
+  allowedTools?: Record<string, string[]>,
+) {
+  const tools: {
+    type: "function";
+    function: { name: string; description?: string; parameters: object };
+  }[] = [];
+  const targets: Record<string, McpToolTarget> = {};
+  clients.forEach(
+    ({ clientId, tools: list }) =>
+      // clients that failed have no tools
+      list?.tools.forEach((tool: ListToolsResponse["tools"]) => {
+        const name = getMcpToolName(clientId, tool.name ?? "");
+        if (!tool.name || targets[name]) return;
+        if (allowedTools?.[clientId]?.includes(tool.name) === false) return;
+        tools.push({
+          type: "function",
+          function: {
+            name,
+            description: tool.description,
+            parameters: tool.inputSchema ?? { type: "object", properties: {} },
+          },
+        });
+        targets[name] = { clientId, name: tool.name };
+      }),
+  );
+  return { tools, targets };
 }
 
-export function extractMcpJson(content: string) {
-  const match = content.match(/```json:mcp:([^{\s]+)([\s\S]*?)```/);
-  if (match && match.length === 3) {
-    return { clientId: match[1], mcp: JSON.parse(match[2]) };
-  }
-  return null;
+/** the text of resource contents, binary parts are only named */
+export function getResourceText(contents: McpResourceContents[]) {
+  return contents
+    .map(({ uri, mimeType, text }) =>
+      text !== undefined ? text : `[${mimeType ?? "binary"}: ${uri}]`,
+    )
+    .join("\n\n")
+    .trim();
+}
+
+/** `mcp` is set for resources that are read again when they change */
+export function createResourceAttachment(
+  resource: Pick<McpResource, "uri" | "name" | "title" | "mimeType">,
+  contents: McpResourceContents[],
+  mcp?: ChatAttachment["mcp"],
+): ChatAttachment {
+  const text = getResourceText(contents);
+  return {
+    name: resource.title || resource.name,
+    type: resource.mimeType ?? contents[0]?.mimeType ?? "text/plain",
+    size: new TextEncoder().encode(text).length,
+    text,
+    tokens: Math.ceil(estimateTokenLength(text)),
+    ...(mcp ? { mcp } : {}),
+  };
+}
+
+/**
+ * the messages of a prompt as the text for the input, with the resources
+ * they embed to attach
+ */
+export function getPromptContent(messages: McpPromptMessage[]) {
+  const texts: string[] = [];
+  const resources: McpResourceContents[] = [];
+  messages.forEach(({ content }) => {
+    if (content.type === "text" && typeof content.text === "string") {
+      texts.push(content.text);
+    } else if (content.type === "resource" && content.resource) {
+      resources.push(content.resource as McpResourceContents);
+    }
+  });
+  return { text: texts.join("\n\n"), resources };
+}
+
+export type McpClientPrompt = McpPrompt & { clientId: string };
+
+/** the prompts whose name or description has `text` */
+export function searchMcpPrompts(
+  clients: McpClientPrompts[],
+  text: string,
+): McpClientPrompt[] {
+  const query = text.trim().toLowerCase();
+  return clients.flatMap(({ clientId, prompts }) =>
+    prompts
+      .filter((prompt) =>
+        [prompt.name, prompt.title, prompt.description].some(
+          (field) => field?.toLowerCase().includes(query),
+        ),
+      )
+      .map((prompt) => ({ ...prompt, clientId })),
+  );
 }
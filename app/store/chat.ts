@@ -11,6 +11,7 @@ import type {
   ClientApi,
   MultimodalContent,
   RequestMessage,
+  TokenUsage,
 } from "../client/api";
 import { getClientApi } from "../client/api";
 import { ChatControllerPool } from "../client/controller";
@@ -19,11 +20,10 @@ import {
   DEFAULT_INPUT_TEMPLATE,
   DEFAULT_MODELS,
   DEFAULT_SYSTEM_TEMPLATE,
+  getModelContextWindow,
   GEMINI_SUMMARIZE_MODEL,
   DEEPSEEK_SUMMARIZE_MODEL,
   KnowledgeCutOffDate,
-  MCP_SYSTEM_TEMPLATE,
-  MCP_TOOLS_TEMPLATE,
   ServiceProvider,
   StoreKey,
   SUMMARIZE_MODEL,
@@ -31,13 +31,65 @@ import {
 import Locale, { getLang } from "../locales";
 import { prettyObject } from "../utils/format";
 import { createPersistStore } from "../utils/store";
-import { estimateTokenLength } from "../utils/token";
+import {
+  countMessageTokens,
+  estimateTokenLength,
+  getPromptTokenBudget,
+  getTokenizer,
+} from "../utils/token";
 import { ModelConfig, ModelType, useAppConfig } from "./config";
 import { useAccessStore } from "./access";
-import { collectModelsWithDefaultModel } from "../utils/model";
+import {
+  collectModelsWithDefaultModel,
+  getModelProvider,
+} from "../utils/model";
 import { createEmptyMask, Mask } from "./mask";
-import { executeMcpAction, getAllTools, isMcpEnabled } from "../mcp/actions";
-import { extractMcpJson, isMcpJson } from "../mcp/utils";
+import {
+  addBranches,
+  ChatBranch,
+  createBranch,
+  getAllBranchMessages,
+  remapBranches,
+  switchBranch,
+} from "../utils/branch";
+import {
+  addUsage,
+  getTotalTokens,
+  getUsageCost,
+  getUsageDay,
+} from "../utils/usage";
+import { ChatFolder } from "../utils/folder";
+import { useMessageStore } from "./message";
+import type { ChatReasoning } from "../utils/reasoning";
+import { ChatAttachment, withAttachments } from "../utils/document";
+import { formatKnowledgeSources, KnowledgeCitation } from "../utils/knowledge";
+import { useKnowledgeStore } from "./knowledge";
+import { McpToolService, ToolSet } from "./plugin";
+import { speechReader } from "../utils/audio";
+import {
+  canContinue,
+  joinContinuation,
+  recoverInterruptedMessages,
+  supportsPrefill,
+} from "../utils/continue";
+import {
+  bindSessionStorage,
+  clearSessionRecords,
+  isSessionLoaded,
+  markSessionLoaded,
+  mergeSessionRecord,
+  readSessionRecords,
+  scheduleSessionWrite,
+  toSessionIndex,
+  writeSessionRecord,
+} from "../utils/session-storage";
+import {
+  getRetryDelay,
+  isRetryableStatus,
+  parseFallbackModels,
+} from "../utils/retry";
+import { validateStructuredOutput } from "../utils/response-format";
+import { getToolPolicy, waitForToolDecision } from "../utils/tool-approval";
 
 const localStorage = safeLocalStorage();
 
@@ -52,6 +104,13 @@ export type ChatMessageTool = {
   content?: string;
   isError?: boolean;
   errorMsg?: string;
+  // how the call was decided, by its policy or on the approval card
+  approval?: {
+    status: "pending" | "allowed" | "denied";
+    by: "policy" | "session" | "user";
+    // the arguments of the model, when the user changed them
+    originalArguments?: string;
+  };
 };
 
 export type ChatMessage = RequestMessage & {
@@ -60,9 +119,25 @@ export type ChatMessage = RequestMessage & {
   isError?: boolean;
   id: string;
   model?: ModelType;
+  providerName?: ServiceProvider;
+  // answers of one comparison share an id until a winner is picked
+  compareId?: string;
+  // why the reply does not match the mask response format
+  structuredError?: string;
+  // thinking of reasoning models, shown apart and never sent back
+  reasoning?: ChatReasoning;
+  // documents the user attached, their text is sent ahead of the content
+  attachments?: ChatAttachment[];
+  // knowledge base excerpts the reply was given, cited as footnotes
+  citations?: KnowledgeCitation[];
+  // the page was left while the reply was streaming
+  interrupted?: boolean;
+  // the reply hit the token limit
+  truncated?: boolean;
   tools?: ChatMessageTool[];
   audio_url?: string;
-  isMcpResponse?: boolean;
+  // token counts reported by the provider for this reply
+  usage?: TokenUsage;
 };
 
 export function createMessage(override: Partial<ChatMessage>): ChatMessage {
@@ -79,8 +154,19 @@ export interface ChatStat {
   tokenCount: number;
   wordCount: number;
   charCount: number;
+  usage?: TokenUsage;
+  // estimated cost in USD
+  cost?: number;
+}
+
+export interface DailyUsage {
+  usage: TokenUsage;
+  cost: number;
 }
 
+// days kept in the usage ledger
+const USAGE_HISTORY_DAYS = 90;
+
 export interface ChatSession {
   id: string;
   topic: string;
@@ -91,6 +177,19 @@ export interface ChatSession {
   lastUpdate: number;
   lastSummarizeIndex: number;
   clearContextIndex?: number;
+  // alternative message suffixes created by edit / regenerate
+  branches?: Record<string, ChatBranch>;
+  // model@provider pairs answering side by side, compare mode needs two or more
+  compareModels?: string[];
+  pinned?: boolean;
+  folderId?: string;
+  tags?: string[];
+  // when pinning, folder or tags last changed, the newer side wins in sync
+  metaUpdate?: number;
+  // number of messages while they are not loaded from the session record
+  messageCount?: number;
+  // tools the user approved for the rest of the session
+  toolApprovals?: string[];
 
   mask: Mask;
 }
@@ -158,6 +257,12 @@ function countMessages(msgs: ChatMessage[]) {
   );
 }
 
+// older versions sent mcp tool results back as user messages, the model now
+// gets them from the tool calls of the reply they belong to
+function isLegacyMcpResponse(message: ChatMessage) {
+  return !!(message as { isMcpResponse?: boolean }).isMcpResponse;
+}
+
 function fillTemplateWith(input: string, modelConfig: ModelConfig) {
   const cutoff =
     KnowledgeCutOffDate[modelConfig.model] ?? KnowledgeCutOffDate.default;
@@ -202,31 +307,13 @@ function fillTemplateWith(input: string, modelConfig: ModelConfig) {
   return output;
 }
 
-async function getMcpSystemPrompt(): Promise<string> {
-  const tools = await getAllTools();
-
-  let toolsStr = "";
-
-  tools.forEach((i) => {
-    // error client has no tools
-    if (!i.tools) return;
-
-    toolsStr += MCP_TOOLS_TEMPLATE.replace(
-      "{{ clientId }}",
-      i.clientId,
-    ).replace(
-      "{{ tools }}",
-      i.tools.tools.map((p: object) => JSON.stringify(p, null, 2)).join("\n"),
-    );
-  });
-
-  return MCP_SYSTEM_TEMPLATE.replace("{{ MCP_TOOLS }}", toolsStr);
-}
-
 const DEFAULT_CHAT_STATE = {
   sessions: [createEmptySession()],
   currentSessionIndex: 0,
   lastInput: "",
+  // token usage per local day, keyed by YYYY-MM-DD
+  dailyUsage: {} as Record<string, DailyUsage>,
+  folders: [] as ChatFolder[],
 };
 
 export const useChatStore = createPersistStore(
@@ -248,11 +335,22 @@ export const useChatStore = createPersistStore(
         const newSession = createEmptySession();
 
         newSession.topic = currentSession.topic;
-        // 深拷贝消息
-        newSession.messages = currentSession.messages.map((msg) => ({
+        // 生成新的消息 ID，分支中的消息也需要一起替换
+        const idMap = new Map<string, string>();
+        getAllBranchMessages(currentSession).forEach((msg) =>
+          idMap.set(msg.id, nanoid()),
+        );
+        const copyMessage = (msg: ChatMessage) => ({
           ...msg,
-          id: nanoid(), // 生成新的消息 ID
-        }));
+          id: idMap.get(msg.id) ?? nanoid(),
+        });
+        // 深拷贝消息
+        newSession.messages = currentSession.messages.map(copyMessage);
+        newSession.branches = remapBranches(
+          currentSession.branches,
+          idMap,
+          copyMessage,
+        );
         newSession.mask = {
           ...currentSession.mask,
           modelConfig: {
@@ -277,6 +375,42 @@ export const useChatStore = createPersistStore(
         set({
           currentSessionIndex: index,
         });
+        const session = get().sessions.at(index);
+        if (session) get().loadSession(session.id);
+      },
+
+      /** read the messages of sessions that are only known from the index */
+      async loadSessions(ids: string[]) {
+        ids = ids.filter((id) => !isSessionLoaded(id));
+        if (ids.length === 0) return;
+
+        const records = await readSessionRecords(ids);
+        const sessions = get().sessions;
+        sessions.forEach((session) => {
+          const i = ids.indexOf(session.id);
+          if (i < 0 || isSessionLoaded(session.id)) return;
+          const record = records[i];
+          markSessionLoaded(session.id, record);
+          if (!record) return;
+          recoverInterruptedMessages(record.messages);
+          // messages sent while the record was being read follow it
+          const { messages, branches } =
+            session.messages.length > 0
+              ? mergeSessionRecord(record, session)
+              : record;
+          session.messages = messages;
+          session.branches = branches;
+        });
+        set(() => ({ sessions }));
+      },
+
+      loadSession(id: string) {
+        return get().loadSessions([id]);
+      },
+
+      /** load every session, needed before the whole state is synced or exported */
+      loadAllSessions() {
+        return get().loadSessions(get().sessions.map((s) => s.id));
       },
 
       moveSession(from: number, to: number) {
@@ -377,6 +511,116 @@ export const useChatStore = createPersistStore(
         );
       },
 
+      /** delete many sessions at once, can be undone like `deleteSession` */
+      deleteSessions(ids: string[]) {
+        const currentId = get().currentSession()?.id;
+        let sessions = get().sessions.filter((s) => !ids.includes(s.id));
+        if (sessions.length === get().sessions.length) return;
+        if (sessions.length === 0) {
+          sessions = [createEmptySession()];
+        }
+
+        const restoreState = {
+          currentSessionIndex: get().currentSessionIndex,
+          sessions: get().sessions.slice(),
+        };
+
+        set(() => ({
+          currentSessionIndex: Math.max(
+            0,
+            sessions.findIndex((s) => s.id === currentId),
+          ),
+          sessions,
+        }));
+
+        showToast(
+          Locale.Home.DeleteToast,
+          {
+            text: Locale.Home.Revert,
+            onClick() {
+              set(() => restoreState);
+            },
+          },
+          5000,
+        );
+      },
+
+      /** change pinning, folder or tags of the sessions with `ids` */
+      updateSessionsMeta(
+        ids: string[],
+        updater: (session: ChatSession) => void,
+      ) {
+        const metaUpdate = Date.now();
+        set((state) => ({
+          sessions: state.sessions.map((s) => {
+            if (!ids.includes(s.id)) return s;
+            const session = { ...s, metaUpdate };
+            updater(session);
+            return session;
+          }),
+        }));
+      },
+
+      pinSessions(ids: string[], pinned: boolean) {
+        get().updateSessionsMeta(ids, (session) => {
+          session.pinned = pinned;
+        });
+      },
+
+      moveSessionsToFolder(ids: string[], folderId?: string) {
+        get().updateSessionsMeta(ids, (session) => {
+          session.folderId = folderId;
+          session.pinned = false;
+        });
+      },
+
+      setSessionTags(id: string, tags: string[]) {
+        get().updateSessionsMeta([id], (session) => {
+          session.tags = tags;
+        });
+      },
+
+      createFolder(name: string, parentId?: string) {
+        const folder: ChatFolder = {
+          id: nanoid(),
+          name,
+          parentId,
+          lastUpdate: Date.now(),
+        };
+        set((state) => ({ folders: state.folders.concat(folder) }));
+        return folder;
+      },
+
+      updateFolder(id: string, updater: (folder: ChatFolder) => void) {
+        set((state) => ({
+          folders: state.folders.map((f) => {
+            if (f.id !== id) return f;
+            const folder = { ...f, lastUpdate: Date.now() };
+            updater(folder);
+            return folder;
+          }),
+        }));
+      },
+
+      /** delete a folder, its sessions and sub folders move up one level */
+      deleteFolder(id: string) {
+        const folder = get().folders.find((f) => f.id === id);
+        if (!folder) return;
+
+        get().folders.forEach((f) => {
+          if (f.parentId === id && !f.deleted) {
+            get().updateFolder(f.id, (f) => (f.parentId = folder.parentId));
+          }
+        });
+        get().moveSessionsToFolder(
+          get()
+            .sessions.filter((s) => s.folderId === id)
+            .map((s) => s.id),
+          folder.parentId,
+        );
+        get().updateFolder(id, (f) => (f.deleted = true));
+      },
+
       currentSession() {
         let index = get().currentSessionIndex;
         const sessions = get().sessions;
@@ -399,32 +643,35 @@ export const useChatStore = createPersistStore(
 
         get().updateStat(message, targetSession);
 
-        get().checkMcpJson(message);
-
         get().summarizeSession(false, targetSession);
       },
 
       async onUserInput(
         content: string,
         attachImages?: string[],
-        isMcpResponse?: boolean,
+        attachments?: ChatAttachment[],
       ) {
         const session = get().currentSession();
+
+        // the user picks an answer of a pending comparison before moving on
+        if (session.messages.some((m) => m.compareId)) {
+          showToast(Locale.Chat.Compare.PickFirst);
+          return;
+        }
         const modelConfig = session.mask.modelConfig;
 
         console.log("[onUserInput] Starting with:", {
           content: content?.substring(0, 50) + "...",
           hasAttachImages: !!attachImages,
           attachImagesCount: attachImages?.length || 0,
-          isMcpResponse,
         });
 
-        // MCP Response no need to fill template
-        let mContent: string | MultimodalContent[] = isMcpResponse
-          ? content
-          : fillTemplateWith(content, modelConfig);
+        let mContent: string | MultimodalContent[] = fillTemplateWith(
+          content,
+          modelConfig,
+        );
 
-        if (!isMcpResponse && attachImages && attachImages.length > 0) {
+        if (attachImages && attachImages.length > 0) {
           console.log("[onUserInput] Processing attached images:", {
             imageCount: attachImages.length,
             firstImagePreview: attachImages[0]?.substring(0, 50) + "...",
@@ -450,19 +697,35 @@ export const useChatStore = createPersistStore(
         let userMessage: ChatMessage = createMessage({
           role: "user",
           content: mContent,
-          isMcpResponse,
+          attachments: attachments?.length ? attachments : undefined,
         });
 
-        const botMessage: ChatMessage = createMessage({
-          role: "assistant",
-          streaming: true,
-          model: modelConfig.model,
-        });
+        // compare mode fans the input out to every selected model
+        const compareModels = get().getCompareModels(session);
+        const compareId = nanoid();
+        const botMessages: ChatMessage[] =
+          compareModels.length > 1
+            ? compareModels.map(([model, providerName]) =>
+                createMessage({
+                  role: "assistant",
+                  streaming: true,
+                  model,
+                  providerName,
+                  compareId,
+                }),
+              )
+            : [
+                createMessage({
+                  role: "assistant",
+                  streaming: true,
+                  model: modelConfig.model,
+                  providerName: modelConfig.providerName,
+                }),
+              ];
 
         // get recent messages
-        const recentMessages = await get().getMessagesWithMemory();
+        const recentMessages = await get().getMessagesWithMemory(content);
         const sendMessages = recentMessages.concat(userMessage);
-        const messageIndex = session.messages.length + 1;
 
         // save user's and bot's message
         get().updateTargetSession(session, (session) => {
@@ -472,10 +735,90 @@ export const useChatStore = createPersistStore(
           };
           session.messages = session.messages.concat([
             savedUserMessage,
-            botMessage,
+            ...botMessages,
           ]);
         });
 
+        if (botMessages.length === 1) {
+          get().requestBotReply(
+            session,
+            sendMessages,
+            botMessages[0],
+            userMessage,
+          );
+          return;
+        }
+        botMessages.forEach((botMessage) =>
+          get().requestBotReply(session, sendMessages, botMessage, undefined, {
+            ...modelConfig,
+            model: botMessage.model!,
+            providerName: botMessage.providerName!,
+          }),
+        );
+      },
+
+      /** parse the model@provider pairs selected for compare mode */
+      getCompareModels(session: ChatSession) {
+        return (session.compareModels ?? []).map((value) => {
+          const [model, providerName] = getModelProvider(value);
+          return [
+            model as ModelType,
+            (providerName ?? ServiceProvider.OpenAI) as ServiceProvider,
+          ] as const;
+        });
+      },
+
+      /** keep one answer of a comparison in the thread, the others become sibling branches */
+      pickCompareWinner(session: ChatSession, messageId: string) {
+        get().updateTargetSession(session, (session) => {
+          const winner = session.messages.find((m) => m.id === messageId);
+          if (!winner?.compareId) return;
+
+          const compareId = winner.compareId;
+          const start = session.messages.findIndex(
+            (m) => m.compareId === compareId,
+          );
+          const losers = session.messages.filter(
+            (m) => m.compareId === compareId && m !== winner,
+          );
+          losers.forEach((m) => {
+            ChatControllerPool.stop(session.id, m.id);
+            m.compareId = undefined;
+          });
+          winner.compareId = undefined;
+
+          session.messages = session.messages.filter(
+            (m) => !losers.includes(m),
+          );
+          addBranches(
+            session,
+            start,
+            losers.map((m) => [m]),
+          );
+
+          // the thread goes on with the winning model
+          if (winner.model && winner.providerName) {
+            session.mask.modelConfig.model = winner.model;
+            session.mask.modelConfig.providerName = winner.providerName;
+            session.mask.syncGlobalConfig = false;
+          }
+        });
+      },
+
+      /**
+       * send `sendMessages` to the session model and stream the reply into
+       * `botMessage`, after `prefix` when an incomplete reply is continued
+       */
+      requestBotReply(
+        session: ChatSession,
+        sendMessages: ChatMessage[],
+        botMessage: ChatMessage,
+        userMessage?: ChatMessage,
+        modelConfig: ModelConfig = session.mask.modelConfig,
+        prefix = "",
+      ) {
+        const messageIndex = session.messages.length;
+
         // --- 详细日志 (修正版) ---
         const providerNameFromConfig = modelConfig.providerName;
         console.log(
@@ -508,80 +851,312 @@ export const useChatStore = createPersistStore(
         // --- 日志结束 ---
 
         // 使用从配置中获取的 providerName，并提供默认值
-        const api: ClientApi = getClientApi(
-          providerNameFromConfig ?? ServiceProvider.OpenAI,
-        );
+        const getApi = (config: ModelConfig) => {
+          let api: ClientApi = getClientApi(
+            config.providerName ?? ServiceProvider.OpenAI,
+          );
 
-        // Edge browser workaround: if we're using a Bedrock model but got wrong API, force Bedrock
-        if (
-          modelConfig.model?.includes("anthropic.claude") &&
-          !api.llm.constructor.name.includes("Bedrock")
-        ) {
-          console.warn(
-            "[onUserInput] Edge workaround: Detected Bedrock model but wrong API class:",
-            api.llm.constructor.name,
-            "- forcing Bedrock",
+          // Edge browser workaround: if we're using a Bedrock model but got wrong API, force Bedrock
+          if (
+            config.model?.includes("anthropic.claude") &&
+            !api.llm.constructor.name.includes("Bedrock")
+          ) {
+            console.warn(
+              "[onUserInput] Edge workaround: Detected Bedrock model but wrong API class:",
+              api.llm.constructor.name,
+              "- forcing Bedrock",
+            );
+            api = getClientApi(ServiceProvider.Bedrock);
+          }
+          return api;
+        };
+
+        // the session model first, then the fallback chain in order
+        const targets: ModelConfig[] = [
+          modelConfig,
+          ...parseFallbackModels(modelConfig.fallbackModels).map((value) => {
+            const [model, providerName] = getModelProvider(value);
+            return {
+              ...modelConfig,
+              model: model as ModelType,
+              providerName: (providerName ??
+                modelConfig.providerName) as ServiceProvider,
+            };
+          }),
+        ];
+        // reasoning of earlier replies is only shown, never sent back,
+        // attached documents go in as text
+        const requestMessages = sendMessages.map((m) => ({
+          ...withAttachments(m),
+          reasoning: undefined,
+          citations: undefined,
+        }));
+        const retryCount = modelConfig.retryCount ?? 2;
+        // the reply is read aloud as it streams, compared replies are not
+        const ttsConfig = useAppConfig.getState().ttsConfig;
+        const autoRead =
+          ttsConfig.enable && ttsConfig.autoplay && !botMessage.compareId;
+        let target = 0;
+        let attempt = 0;
+        // stopping the reply denies the tool calls waiting for approval
+        let toolController: AbortController | undefined;
+        // mcp tools go to the model as function tools, along with the plugins,
+        // loaded for this reply so that sessions do not share them
+        let mcpTools: Promise<ToolSet> | undefined;
+
+        const updateMessages = () => {
+          useMessageStore.getState().removeMessage(botMessage.id);
+          get().updateTargetSession(session, (session) => {
+            session.messages = session.messages.concat();
+          });
+        };
+
+        const markError = (isAborted: boolean) => {
+          botMessage.streaming = false;
+          if (userMessage) {
+            userMessage.isError = !isAborted;
+          }
+          botMessage.isError = !isAborted;
+          updateMessages();
+          ChatControllerPool.remove(session.id, botMessage.id ?? messageIndex);
+        };
+
+        // schedule the next attempt after a failure: retry the same model with
+        // backoff, then move down the fallback chain, false when all are used up
+        const retry = (error: string, retryAfter?: string | null) => {
+          let delay = 0;
+          if (attempt < retryCount) {
+            attempt += 1;
+            delay = getRetryDelay(attempt, retryAfter);
+            botMessage.content = Locale.Chat.Retry.Waiting(
+              attempt,
+              Math.ceil(delay / 1000),
+            );
+          } else if (target < targets.length - 1) {
+            target += 1;
+            attempt = 0;
+            botMessage.content = Locale.Chat.Retry.Fallback(
+              targets[target].model,
+            );
+          } else {
+            return false;
+          }
+          console.warn("[Chat] request failed, retrying", error);
+          botMessage.streaming = true;
+          updateMessages();
+
+          // stopping the reply while waiting keeps the last error
+          const waiter = new AbortController();
+          const timer = setTimeout(() => {
+            if (!waiter.signal.aborted) start();
+          }, delay);
+          waiter.signal.addEventListener("abort", () => {
+            clearTimeout(timer);
+            botMessage.content = error;
+            markError(false);
+          });
+          ChatControllerPool.addController(
+            session.id,
+            botMessage.id ?? messageIndex,
+            waiter,
           );
-          const bedrockApi = getClientApi(ServiceProvider.Bedrock);
-          bedrockApi.llm.chat({
-            messages: sendMessages,
-            config: { ...modelConfig, stream: true },
+          return true;
+        };
+
+        const send = async () => {
+          const config = targets[target];
+          botMessage.content = prefix;
+          botMessage.interrupted = false;
+          botMessage.truncated = false;
+          botMessage.model = config.model;
+          botMessage.providerName = config.providerName;
+          if (!prefix) {
+            botMessage.reasoning = undefined;
+            botMessage.citations = sendMessages.find((m) => m.citations)
+              ?.citations;
+          }
+
+          // stopping the reply while the mcp servers start cancels it
+          const loading = new AbortController();
+          ChatControllerPool.addController(
+            session.id,
+            botMessage.id ?? messageIndex,
+            loading,
+          );
+          mcpTools ??= McpToolService.load(session.mask);
+          const tools = await Promise.race([
+            mcpTools,
+            new Promise<undefined>((resolve) =>
+              loading.signal.addEventListener("abort", () =>
+                resolve(undefined),
+              ),
+            ),
+          ]);
+          if (loading.signal.aborted) {
+            markError(true);
+            return;
+          }
+
+          // the model reasons from the request until the answer starts
+          const startTime = Date.now();
+          const endReasoning = () => {
+            const reasoning = botMessage.reasoning;
+            if (reasoning && reasoning.duration === undefined) {
+              reasoning.duration = Date.now() - startTime;
+            }
+          };
+
+          // make request
+          getApi(config).llm.chat({
+            messages: requestMessages,
+            config: { ...config, stream: true },
+            mcpTools: tools,
+            onReasoning(reasoning) {
+              botMessage.streaming = true;
+              botMessage.reasoning = { content: reasoning };
+              useMessageStore.getState().updateMessage(botMessage);
+              scheduleSessionWrite(session.id);
+            },
             onUpdate(message) {
               botMessage.streaming = true;
               if (message) {
-                botMessage.content = message;
+                endReasoning();
+                botMessage.content = joinContinuation(prefix, message);
+                if (autoRead) speechReader.update(botMessage.id, message);
               }
-              get().updateTargetSession(session, (session) => {
-                session.messages = session.messages.concat();
-              });
+              // chunks only re-render the reply, the session is updated once
+              // it settles, the record is still saved to survive a reload
+              useMessageStore.getState().updateMessage(botMessage);
+              scheduleSessionWrite(session.id);
             },
-            async onFinish(message) {
+            async onFinish(message, responseRes) {
+              if (
+                isRetryableStatus(responseRes?.status) &&
+                retry(message, responseRes.headers?.get("retry-after"))
+              ) {
+                return;
+              }
               botMessage.streaming = false;
+              useMessageStore.getState().removeMessage(botMessage.id);
+              endReasoning();
+              // estimated when the provider does not report reasoning tokens
+              const reasoning = botMessage.reasoning;
+              if (reasoning && reasoning.tokens === undefined) {
+                reasoning.tokens = Math.round(
+                  estimateTokenLength(reasoning.content),
+                );
+              }
               if (message) {
-                botMessage.content = message;
+                botMessage.content = joinContinuation(prefix, message);
                 botMessage.date = new Date().toLocaleString();
+                botMessage.structuredError =
+                  responseRes?.ok === false
+                    ? undefined
+                    : validateStructuredOutput(
+                        botMessage.content,
+                        config.responseFormat,
+                      );
+                if (autoRead && responseRes?.ok !== false) {
+                  speechReader.update(botMessage.id, message, true);
+                }
                 get().onNewMessage(botMessage, session);
+              } else {
+                updateMessages();
               }
               ChatControllerPool.remove(session.id, botMessage.id);
             },
+            onUsage(usage) {
+              botMessage.usage = usage;
+              if (botMessage.reasoning && usage.reasoning_tokens) {
+                botMessage.reasoning.tokens = usage.reasoning_tokens;
+              }
+              get().updateUsage(usage, config.model, session);
+            },
+            onTruncated() {
+              botMessage.truncated = true;
+            },
             onBeforeTool(tool: ChatMessageTool) {
-              (botMessage.tools = botMessage?.tools || []).push(tool);
-              get().updateTargetSession(session, (session) => {
-                session.messages = session.messages.concat();
-              });
+              // a copy, the approval logged on it is not sent to the model
+              (botMessage.tools = botMessage?.tools || []).push({ ...tool });
+              updateMessages();
             },
             onAfterTool(tool: ChatMessageTool) {
               botMessage?.tools?.forEach((t, i, tools) => {
                 if (tool.id == t.id) {
-                  tools[i] = { ...tool };
+                  tools[i] = { ...t, ...tool };
                 }
               });
-              get().updateTargetSession(session, (session) => {
-                session.messages = session.messages.concat();
+              updateMessages();
+            },
+            async onApproveTool(tool: ChatMessageTool) {
+              const name = tool.function?.name ?? "";
+              const args = tool.function?.arguments;
+              // every decision is kept with the call
+              const log = (approval: ChatMessageTool["approval"]) => {
+                botMessage.tools?.forEach((t) => {
+                  if (t.id === tool.id) t.approval = approval;
+                });
+                updateMessages();
+              };
+              const policies = useAppConfig.getState().toolPolicies;
+              const policy = getToolPolicy(name, policies);
+              if (policy === "deny") {
+                log({ status: "denied", by: "policy" });
+                throw Error(`the tool ${name} is not allowed`);
+              }
+              if (policy === "allow") {
+                log({ status: "allowed", by: "policy" });
+                return args;
+              }
+              if (session.toolApprovals?.includes(name)) {
+                log({ status: "allowed", by: "session" });
+                return args;
+              }
+
+              log({ status: "pending", by: "user" });
+              const decision = await waitForToolDecision(
+                tool.id,
+                toolController?.signal,
+              );
+              if (decision.approved && decision.remember) {
+                get().updateTargetSession(session, (session) => {
+                  session.toolApprovals = Array.from(
+                    new Set([...(session.toolApprovals ?? []), name]),
+                  );
+                });
+              }
+              const edited =
+                decision.arguments !== undefined && decision.arguments !== args;
+              log({
+                status: decision.approved ? "allowed" : "denied",
+                by: "user",
+                ...(edited ? { originalArguments: args } : {}),
               });
+              if (!decision.approved) {
+                throw Error(`the user denied the call of ${name}`);
+              }
+              return edited ? decision.arguments : args;
             },
             onError(error) {
               const isAborted = error.message?.includes?.("aborted");
-              botMessage.content +=
+              const errorText =
+                botMessage.content +
                 "\n\n" +
                 prettyObject({
                   error: true,
                   message: error.message,
                 });
-              botMessage.streaming = false;
-              userMessage.isError = !isAborted;
-              botMessage.isError = !isAborted;
-              get().updateTargetSession(session, (session) => {
-                session.messages = session.messages.concat();
-              });
-              ChatControllerPool.remove(
-                session.id,
-                botMessage.id ?? messageIndex,
-              );
+              if (!isAborted && retry(errorText)) {
+                return;
+              }
+              if (autoRead) speechReader.cancel(botMessage.id);
+              botMessage.content = errorText;
+              markError(isAborted);
 
               console.error("[Chat] failed ", error);
             },
             onController(controller) {
+              toolController = controller;
               // collect controller for stop/retry
               ChatControllerPool.addController(
                 session.id,
@@ -590,76 +1165,140 @@ export const useChatStore = createPersistStore(
               );
             },
           });
+        };
+
+        // a failure before the request is made ends the reply as an error
+        const start = () =>
+          send().catch((error) => {
+            console.error("[Chat] failed ", error);
+            botMessage.content = prettyObject({
+              error: true,
+              message: error instanceof Error ? error.message : String(error),
+            });
+            markError(false);
+          });
+
+        start();
+      },
+
+      /** ask the model to fix the invalid structured reply at `index`, kept as a sibling branch */
+      async onRepair(index: number) {
+        const session = get().currentSession();
+        const message = session.messages.at(index);
+        if (!message?.structuredError) return;
+
+        get().updateTargetSession(session, (session) =>
+          createBranch(session, index),
+        );
+
+        const sendMessages = (await get().getMessagesWithMemory()).concat(
+          createMessage({
+            role: "assistant",
+            content: getMessageTextContent(message),
+          }),
+          createMessage({
+            role: "user",
+            content: Locale.Store.Prompt.RepairJson(message.structuredError),
+          }),
+        );
+        const botMessage: ChatMessage = createMessage({
+          role: "assistant",
+          streaming: true,
+          model: session.mask.modelConfig.model,
+          providerName: session.mask.modelConfig.providerName,
+        });
+        get().updateTargetSession(session, (session) => {
+          session.messages = session.messages.concat(botMessage);
+        });
+        get().requestBotReply(session, sendMessages, botMessage);
+      },
+
+      /** continue the interrupted or truncated last reply at `index` in place */
+      async onContinue(index: number) {
+        const session = get().currentSession();
+        const message = session.messages.at(index);
+        if (
+          !message ||
+          !canContinue(message) ||
+          index !== session.messages.length - 1
+        ) {
           return;
         }
 
-        // make request
-        api.llm.chat({
-          messages: sendMessages,
-          config: { ...modelConfig, stream: true },
-          onUpdate(message) {
-            botMessage.streaming = true;
-            if (message) {
-              botMessage.content = message;
-            }
-            get().updateTargetSession(session, (session) => {
-              session.messages = session.messages.concat();
-            });
-          },
-          async onFinish(message) {
-            botMessage.streaming = false;
-            if (message) {
-              botMessage.content = message;
-              botMessage.date = new Date().toLocaleString();
-              get().onNewMessage(botMessage, session);
-            }
-            ChatControllerPool.remove(session.id, botMessage.id);
-          },
-          onBeforeTool(tool: ChatMessageTool) {
-            (botMessage.tools = botMessage?.tools || []).push(tool);
-            get().updateTargetSession(session, (session) => {
-              session.messages = session.messages.concat();
-            });
-          },
-          onAfterTool(tool: ChatMessageTool) {
-            botMessage?.tools?.forEach((t, i, tools) => {
-              if (tool.id == t.id) {
-                tools[i] = { ...tool };
-              }
-            });
-            get().updateTargetSession(session, (session) => {
-              session.messages = session.messages.concat();
-            });
-          },
-          onError(error) {
-            const isAborted = error.message?.includes?.("aborted");
-            botMessage.content +=
-              "\n\n" +
-              prettyObject({
-                error: true,
-                message: error.message,
-              });
-            botMessage.streaming = false;
-            userMessage.isError = !isAborted;
-            botMessage.isError = !isAborted;
-            get().updateTargetSession(session, (session) => {
-              session.messages = session.messages.concat();
-            });
-            ChatControllerPool.remove(
-              session.id,
-              botMessage.id ?? messageIndex,
-            );
+        const modelConfig: ModelConfig = {
+          ...session.mask.modelConfig,
+          model: message.model ?? session.mask.modelConfig.model,
+          providerName:
+            message.providerName ?? session.mask.modelConfig.providerName,
+          // the continuation has to match the reply, not a fallback model
+          fallbackModels: "",
+        };
+        // the partial reply is sent as the prefill, which must not end with
+        // whitespace, or followed by an instruction to continue
+        const prefill = supportsPrefill(modelConfig.providerName);
+        const partial = getMessageTextContent(message);
+        const prefix = prefill ? partial.trimEnd() : partial;
+        const sendMessages = (await get().getMessagesWithMemory())
+          .filter((m) => m.id !== message.id)
+          .concat(
+            createMessage({ role: "assistant", content: prefix }),
+            prefill
+              ? []
+              : createMessage({
+                  role: "user",
+                  content: Locale.Store.Prompt.Continue,
+                }),
+          );
 
-            console.error("[Chat] failed ", error);
-          },
-          onController(controller) {
-            // collect controller for stop/retry
-            ChatControllerPool.addController(
-              session.id,
-              botMessage.id ?? messageIndex,
-              controller,
-            );
-          },
+        get().updateTargetSession(session, (session) => {
+          message.streaming = true;
+          session.messages = session.messages.concat();
+        });
+        get().requestBotReply(
+          session,
+          sendMessages,
+          message,
+          undefined,
+          modelConfig,
+          prefix,
+        );
+      },
+
+      /** regenerate the bot message at `index` as a new sibling branch */
+      async onRegenerate(index: number) {
+        const session = get().currentSession();
+        const message = session.messages.at(index);
+        if (!message || message.role !== "assistant") return;
+
+        get().updateTargetSession(session, (session) =>
+          createBranch(session, index),
+        );
+
+        const sendMessages = await get().getMessagesWithMemory();
+        const botMessage: ChatMessage = createMessage({
+          role: "assistant",
+          streaming: true,
+          model: session.mask.modelConfig.model,
+          providerName: session.mask.modelConfig.providerName,
+        });
+        get().updateTargetSession(session, (session) => {
+          session.messages = session.messages.concat(botMessage);
+        });
+        get().requestBotReply(session, sendMessages, botMessage);
+      },
+
+      /** start a new sibling branch at `index`, the rest of the messages are stashed */
+      branchSession(session: ChatSession, index: number) {
+        get().updateTargetSession(session, (session) =>
+          createBranch(session, index),
+        );
+      },
+
+      switchBranch(session: ChatSession, index: number, delta: number) {
+        get().updateTargetSession(session, (session) => {
+          if (switchBranch(session, index, delta)) {
+            session.lastUpdate = Date.now();
+          }
         });
       },
 
@@ -675,7 +1314,27 @@ export const useChatStore = createPersistStore(
         }
       },
 
-      async getMessagesWithMemory() {
+      /** the excerpts of the mask knowledge bases closest to `query` */
+      async getKnowledgePrompt(query: string) {
+        const ids = get().currentSession().mask.knowledge ?? [];
+        if (ids.length === 0) return;
+        try {
+          const matches = await useKnowledgeStore.getState().search(ids, query);
+          if (matches.length === 0) return;
+          return createMessage({
+            role: "system",
+            content: Locale.Store.Prompt.Knowledge(
+              formatKnowledgeSources(matches),
+            ),
+            citations: matches.map((m) => m.citation),
+          });
+        } catch (e) {
+          console.error("[Knowledge] failed to search", e);
+        }
+      },
+
+      /** `query` is the user turn the knowledge bases are searched for, the last user message by default */
+      async getMessagesWithMemory(query?: string) {
         const session = get().currentSession();
         const modelConfig = session.mask.modelConfig;
         const clearContextIndex = session.clearContextIndex ?? 0;
@@ -685,38 +1344,35 @@ export const useChatStore = createPersistStore(
         // in-context prompts
         const contextPrompts = session.mask.context.slice();
 
+        // knowledge base excerpts for the user turn
+        const lastUserMessage = messages
+          .slice()
+          .reverse()
+          .find((m) => m.role === "user");
+        const knowledgePrompt = await get().getKnowledgePrompt(
+          query ??
+            (lastUserMessage ? getMessageTextContent(lastUserMessage) : ""),
+        );
+        const knowledgePrompts = knowledgePrompt ? [knowledgePrompt] : [];
+
         // system prompts, to get close to OpenAI Web ChatGPT
         const shouldInjectSystemPrompts =
           modelConfig.enableInjectSystemPrompts &&
           (session.mask.modelConfig.model.startsWith("gpt-") ||
             session.mask.modelConfig.model.startsWith("chatgpt-"));
 
-        const mcpEnabled = await isMcpEnabled();
-        const mcpSystemPrompt = mcpEnabled ? await getMcpSystemPrompt() : "";
-
-        var systemPrompts: ChatMessage[] = [];
-
-        if (shouldInjectSystemPrompts) {
-          systemPrompts = [
-            createMessage({
-              role: "system",
-              content:
-                fillTemplateWith("", {
+        const systemPrompts = shouldInjectSystemPrompts
+          ? [
+              createMessage({
+                role: "system",
+                content: fillTemplateWith("", {
                   ...modelConfig,
                   template: DEFAULT_SYSTEM_TEMPLATE,
-                }) + mcpSystemPrompt,
-            }),
-          ];
-        } else if (mcpEnabled) {
-          systemPrompts = [
-            createMessage({
-              role: "system",
-              content: mcpSystemPrompt,
-            }),
-          ];
-        }
-
-        if (shouldInjectSystemPrompts || mcpEnabled) {
+                }),
+              }),
+            ]
+          : [];
+        if (shouldInjectSystemPrompts) {
           console.log(
             "[Global System Prompt] ",
             systemPrompts.at(0)?.content ?? "empty",
@@ -743,6 +1399,7 @@ export const useChatStore = createPersistStore(
         // 0. system prompt: to get close to OpenAI Web ChatGPT
         // 1. long term memory: summarized memory messages
         // 2. pre-defined in-context prompts
+        //    and the knowledge base excerpts
         // 3. short term memory: latest n messages
         // 4. newest input message
         const memoryStartIndex = shouldSendLongTermMemory
@@ -750,18 +1407,41 @@ export const useChatStore = createPersistStore(
           : shortTermMemoryStartIndex;
         // and if user has cleared history messages, we should exclude the memory too.
         const contextStartIndex = Math.max(clearContextIndex, memoryStartIndex);
-        const maxTokenThreshold = modelConfig.max_tokens;
+
+        // fill the context window, leaving room for the completion
+        const tokenizer = await getTokenizer(modelConfig.model);
+        const contextWindow =
+          DEFAULT_MODELS.find((m) => m.name === modelConfig.model)
+            ?.contextWindow ?? getModelContextWindow(modelConfig.model);
+        const maxTokenThreshold = [
+          ...systemPrompts,
+          ...longTermMemoryPrompts,
+          ...contextPrompts,
+          ...knowledgePrompts,
+        ].reduce(
+          (budget, msg) =>
+            budget - countMessageTokens(tokenizer, withAttachments(msg)),
+          getPromptTokenBudget(contextWindow, modelConfig.max_tokens),
+        );
 
         // get recent messages as much as possible
         const reversedRecentMessages = [];
         for (
           let i = totalMessageCount - 1, tokenCount = 0;
-          i >= contextStartIndex && tokenCount < maxTokenThreshold;
+          i >= contextStartIndex;
           i -= 1
         ) {
           const msg = messages[i];
-          if (!msg || msg.isError) continue;
-          tokenCount += estimateTokenLength(getMessageTextContent(msg));
+          if (!msg || msg.isError || isLegacyMcpResponse(msg)) continue;
+          const msgTokens = countMessageTokens(tokenizer, withAttachments(msg));
+          // the newest message is always sent, even if it overflows
+          if (
+            tokenCount + msgTokens > maxTokenThreshold &&
+            reversedRecentMessages.length > 0
+          ) {
+            break;
+          }
+          tokenCount += msgTokens;
           reversedRecentMessages.push(msg);
         }
         // concat all messages
@@ -769,6 +1449,7 @@ export const useChatStore = createPersistStore(
           ...systemPrompts,
           ...longTermMemoryPrompts,
           ...contextPrompts,
+          ...knowledgePrompts,
           ...reversedRecentMessages.reverse(),
         ];
 
@@ -858,6 +1539,9 @@ export const useChatStore = createPersistStore(
                 );
               }
             },
+            onUsage(usage) {
+              get().updateUsage(usage, model, session);
+            },
           });
         }
         const summarizeIndex = Math.max(
@@ -925,6 +1609,9 @@ export const useChatStore = createPersistStore(
                 });
               }
             },
+            onUsage(usage) {
+              get().updateUsage(usage, model, session);
+            },
             onError(err) {
               console.error("[Summarize] ", err);
             },
@@ -935,9 +1622,30 @@ export const useChatStore = createPersistStore(
       updateStat(message: ChatMessage, session: ChatSession) {
         get().updateTargetSession(session, (session) => {
           session.stat.charCount += message.content.length;
-          // TODO: should update chat count and word count
         });
       },
+
+      /** add the token usage of a reply to the session and the daily ledger */
+      updateUsage(usage: TokenUsage, model: string, session: ChatSession) {
+        const cost = getUsageCost(model, usage) ?? 0;
+        get().updateTargetSession(session, (session) => {
+          session.stat.tokenCount += getTotalTokens(usage);
+          session.stat.usage = addUsage(session.stat.usage, usage);
+          session.stat.cost = (session.stat.cost ?? 0) + cost;
+        });
+
+        const day = getUsageDay();
+        const dailyUsage = { ...get().dailyUsage };
+        dailyUsage[day] = {
+          usage: addUsage(dailyUsage[day]?.usage, usage)!,
+          cost: (dailyUsage[day]?.cost ?? 0) + cost,
+        };
+        Object.keys(dailyUsage)
+          .sort()
+          .slice(0, -USAGE_HISTORY_DAYS)
+          .forEach((key) => delete dailyUsage[key]);
+        set({ dailyUsage });
+      },
       updateTargetSession(
         targetSession: ChatSession,
         updater: (session: ChatSession) => void,
@@ -950,6 +1658,7 @@ export const useChatStore = createPersistStore(
       },
       async clearAllData() {
         await indexedDBStorage.clear();
+        await clearSessionRecords();
         localStorage.clear();
         location.reload();
       },
@@ -958,46 +1667,18 @@ export const useChatStore = createPersistStore(
           lastInput,
         });
       },
-
-      /** check if the message contains MCP JSON and execute the MCP action */
-      checkMcpJson(message: ChatMessage) {
-        const mcpEnabled = isMcpEnabled();
-        if (!mcpEnabled) return;
-        const content = getMessageTextContent(message);
-        if (isMcpJson(content)) {
-          try {
-            const mcpRequest = extractMcpJson(content);
-            if (mcpRequest) {
-              console.debug("[MCP Request]", mcpRequest);
-
-              executeMcpAction(mcpRequest.clientId, mcpRequest.mcp)
-                .then((result) => {
-                  console.log("[MCP Response]", result);
-                  const mcpResponse =
-                    typeof result === "object"
-                      ? JSON.stringify(result)
-                      : String(result);
-                  get().onUserInput(
-                    `\`\`\`json:mcp-response:${mcpRequest.clientId}\n${mcpResponse}\n\`\`\``,
-                    [],
-                    true,
-                  );
-                })
-                .catch((error) => showToast("MCP execution failed", error));
-            }
-          } catch (error) {
-            console.error("[Check MCP JSON]", error);
-          }
-        }
-      },
     };
 
     return methods;
   },
   {
     name: StoreKey.Chat,
-    version: 3.3,
-    migrate(persistedState, version) {
+    version: 3.5,
+    partialize(state) {
+      // messages are kept in per session records, see `bindSessionStorage`
+      return { ...state, sessions: state.sessions.map(toSessionIndex) };
+    },
+    async migrate(persistedState, version) {
       const state = persistedState as any;
       const newState = JSON.parse(
         JSON.stringify(state),
@@ -1061,7 +1742,25 @@ export const useChatStore = createPersistStore(
         });
       }
 
+      if (version < 3.4) {
+        newState.folders = [];
+      }
+
+      // move messages out of the single chat blob into one record per session
+      if (version < 3.5) {
+        await Promise.all(
+          newState.sessions.map((s) => {
+            recoverInterruptedMessages(s.messages);
+            const record = { messages: s.messages, branches: s.branches };
+            markSessionLoaded(s.id, record);
+            return writeSessionRecord(s.id, record);
+          }),
+        );
+      }
+
       return newState as any;
     },
   },
 );
+
+bindSessionStorage(useChatStore.getState, useChatStore.subscribe);
@@ -5,6 +5,9 @@ import {
   DEFAULT_INPUT_TEMPLATE,
   DEFAULT_MODELS,
   DEFAULT_SIDEBAR_WIDTH,
+  DEFAULT_STT_ENGINE,
+  DEFAULT_STT_ENGINES,
+  DEFAULT_STT_MODEL,
   DEFAULT_TTS_ENGINE,
   DEFAULT_TTS_ENGINES,
   DEFAULT_TTS_MODEL,
@@ -15,12 +18,16 @@ import {
   ServiceProvider,
 } from "../constant";
 import { createPersistStore } from "../utils/store";
+import type { ResponseFormat } from "../utils/response-format";
+import { MAX_THINKING_BUDGET, ReasoningEffort } from "../utils/reasoning";
+import type { ToolPolicy } from "../utils/tool-approval";
 import type { Voice } from "rt-client";
 
 export type ModelType = (typeof DEFAULT_MODELS)[number]["name"];
 export type TTSModelType = (typeof DEFAULT_TTS_MODELS)[number];
 export type TTSVoiceType = (typeof DEFAULT_TTS_VOICES)[number];
 export type TTSEngineType = (typeof DEFAULT_TTS_ENGINES)[number];
+export type STTEngineType = (typeof DEFAULT_STT_ENGINES)[number];
 
 export enum SubmitKey {
   Enter = "Enter",
@@ -57,6 +64,9 @@ export const DEFAULT_CONFIG = {
 
   disablePromptHint: false,
 
+  // what happens when the model calls a tool, by function name
+  toolPolicies: {} as Record<string, ToolPolicy>,
+
   dontShowMaskSplashScreen: false, // dont show splash screen when create chat
   hideBuiltinMasks: false, // dont add builtin masks
 
@@ -81,6 +91,12 @@ export const DEFAULT_CONFIG = {
     size: "1024x1024" as ModelSize,
     quality: "standard" as DalleQuality,
     style: "vivid" as DalleStyle,
+    retryCount: 2,
+    fallbackModels: "",
+    responseFormat: { type: "text" } as ResponseFormat,
+    // empty effort and zero budget leave reasoning to the model defaults
+    reasoningEffort: "" as ReasoningEffort,
+    thinkingBudget: 0,
   },
 
   ttsConfig: {
@@ -92,6 +108,20 @@ export const DEFAULT_CONFIG = {
     speed: 1.0,
   },
 
+  sttConfig: {
+    enable: false,
+    engine: DEFAULT_STT_ENGINE as STTEngineType,
+    model: DEFAULT_STT_MODEL,
+    // empty to transcribe through the OpenAI provider
+    baseUrl: "",
+    apiKey: "",
+    language: "",
+    // hold the button while speaking instead of clicking twice
+    pushToTalk: false,
+    // send the transcript right away instead of filling the input
+    autoSubmit: false,
+  },
+
   realtimeConfig: {
     enable: false,
     provider: "OpenAI" as ServiceProvider,
@@ -110,6 +140,7 @@ export type ChatConfig = typeof DEFAULT_CONFIG;
 
 export type ModelConfig = ChatConfig["modelConfig"];
 export type TTSConfig = ChatConfig["ttsConfig"];
+export type STTConfig = ChatConfig["sttConfig"];
 export type RealtimeConfig = ChatConfig["realtimeConfig"];
 
 export function limitNumber(
@@ -159,6 +190,12 @@ export const ModalConfigValidator = {
   top_p(x: number) {
     return limitNumber(x, 0, 1, 1);
   },
+  retryCount(x: number) {
+    return limitNumber(x, 0, 5, 2);
+  },
+  thinkingBudget(x: number) {
+    return limitNumber(x, 0, MAX_THINKING_BUDGET, 0);
+  },
 };
 
 export const useAppConfig = createPersistStore(
@@ -195,7 +232,7 @@ export const useAppConfig = createPersistStore(
   }),
   {
     name: StoreKey.Config,
-    version: 4.1,
+    version: 4.6,
 
     merge(persistedState, currentState) {
       const state = persistedState as ChatConfig | undefined;
@@ -255,6 +292,33 @@ export const useAppConfig = createPersistStore(
           DEFAULT_CONFIG.modelConfig.compressProviderName;
       }
 
+      if (version < 4.2) {
+        state.modelConfig.retryCount = DEFAULT_CONFIG.modelConfig.retryCount;
+        state.modelConfig.fallbackModels =
+          DEFAULT_CONFIG.modelConfig.fallbackModels;
+      }
+
+      if (version < 4.3) {
+        state.modelConfig.responseFormat = {
+          ...DEFAULT_CONFIG.modelConfig.responseFormat,
+        };
+      }
+
+      if (version < 4.4) {
+        state.modelConfig.reasoningEffort =
+          DEFAULT_CONFIG.modelConfig.reasoningEffort;
+        state.modelConfig.thinkingBudget =
+          DEFAULT_CONFIG.modelConfig.thinkingBudget;
+      }
+
+      if (version < 4.5) {
+        state.sttConfig = { ...DEFAULT_CONFIG.sttConfig };
+      }
+
+      if (version < 4.6) {
+        state.toolPolicies = {};
+      }
+
       return state as any;
     },
   },
@@ -0,0 +1,258 @@
+import { nanoid } from "nanoid";
+import {
+  createStore,
+  del,
+  delMany,
+  getMany,
+  set as setRecord,
+  UseStore,
+} from "idb-keyval";
+import { ServiceProvider, StoreKey } from "../constant";
+import { getClientApi } from "../client/api";
+import { createPersistStore } from "../utils/store";
+import { getModelProvider } from "../utils/model";
+import { extractDocumentText } from "../utils/document";
+import {
+  chunkText,
+  cosineSimilarity,
+  createCitation,
+  KnowledgeChunk,
+  KnowledgeCitation,
+  LOCAL_EMBEDDING,
+  localEmbedding,
+} from "../utils/knowledge";
+
+// chunks of each document are kept in their own database, the persisted
+// store only holds the collections and their documents
+const KNOWLEDGE_DB = "nextchat-knowledge";
+const CHUNK_STORE = "chunks";
+
+// texts per embeddings request
+const EMBEDDING_BATCH = 64;
+// chunks handed to the model for each user turn
+export const KNOWLEDGE_TOP_K = 5;
+
+export interface KnowledgeDocument {
+  id: string;
+  name: string;
+  size: number;
+  chunks: number;
+  createdAt: number;
+}
+
+export interface KnowledgeCollection {
+  id: string;
+  name: string;
+  // model@provider of the embeddings, or the local stand-in
+  embedding: string;
+  documents: KnowledgeDocument[];
+  createdAt: number;
+}
+
+export interface KnowledgeMatch {
+  citation: KnowledgeCitation;
+  text: string;
+  score: number;
+}
+
+type DocumentRecord = { name: string; chunks: KnowledgeChunk[] };
+
+let store: UseStore | undefined;
+function getStore() {
+  if (!store && typeof indexedDB !== "undefined") {
+    store = createStore(KNOWLEDGE_DB, CHUNK_STORE);
+  }
+  return store;
+}
+
+// records of each collection, read once per session of the page
+const recordCache = new Map<string, Promise<DocumentRecord[]>>();
+
+function readRecords(collection: KnowledgeCollection) {
+  let records = recordCache.get(collection.id);
+  if (!records) {
+    records = getMany<DocumentRecord | undefined>(
+      collection.documents.map((d) => d.id),
+      getStore(),
+    ).then((records) => records.filter((r): r is DocumentRecord => !!r));
+    records.catch(() => recordCache.delete(collection.id));
+    recordCache.set(collection.id, records);
+  }
+  return records;
+}
+
+export async function embedTexts(embedding: string, texts: string[]) {
+  if (embedding === LOCAL_EMBEDDING) return texts.map(localEmbedding);
+
+  const [model, providerName = ServiceProvider.OpenAI] =
+    getModelProvider(embedding);
+  const api = getClientApi(providerName);
+  if (!api.llm.embed) {
+    throw Error(`${providerName} has no embeddings endpoint`);
+  }
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH) {
+    vectors.push(
+      ...(await api.llm.embed({
+        model,
+        providerName,
+        input: texts.slice(i, i + EMBEDDING_BATCH),
+      })),
+    );
+  }
+  return vectors;
+}
+
+export const createEmptyCollection = (): KnowledgeCollection => ({
+  id: nanoid(),
+  name: "",
+  embedding: LOCAL_EMBEDDING,
+  documents: [],
+  createdAt: Date.now(),
+});
+
+export const DEFAULT_KNOWLEDGE_STATE = {
+  collections: {} as Record<string, KnowledgeCollection>,
+};
+
+export const useKnowledgeStore = createPersistStore(
+  { ...DEFAULT_KNOWLEDGE_STATE },
+
+  (set, _get) => {
+    function get() {
+      return {
+        ..._get(),
+        ...methods,
+      };
+    }
+
+    const methods = {
+      create(collection?: Partial<KnowledgeCollection>) {
+        const created = { ...createEmptyCollection(), ...collection };
+        set(() => ({
+          collections: { ...get().collections, [created.id]: created },
+        }));
+        get().markUpdate();
+        return created;
+      },
+
+      update(id: string, updater: (collection: KnowledgeCollection) => void) {
+        const collection = get().collections[id];
+        if (!collection) return;
+        const updated = { ...collection };
+        updater(updated);
+        set(() => ({ collections: { ...get().collections, [id]: updated } }));
+        get().markUpdate();
+      },
+
+      /** delete a collection with the chunks of its documents */
+      async delete(id: string) {
+        const collection = get().collections[id];
+        if (!collection) return;
+        const { [id]: _, ...collections } = get().collections;
+        set(() => ({ collections }));
+        get().markUpdate();
+        recordCache.delete(id);
+        await delMany(
+          collection.documents.map((d) => d.id),
+          getStore(),
+        ).catch((e) => console.error("[Knowledge] failed to delete", e));
+      },
+
+      /** extract, chunk and embed a file into the collection */
+      async addDocument(id: string, file: File) {
+        const collection = get().collections[id];
+        if (!collection) return;
+
+        const chunks = chunkText(await extractDocumentText(file));
+        if (chunks.length === 0) throw Error(`no text found in ${file.name}`);
+        const vectors = await embedTexts(
+          collection.embedding,
+          chunks.map((c) => c.text),
+        );
+
+        const document: KnowledgeDocument = {
+          id: nanoid(),
+          name: file.name,
+          size: file.size,
+          chunks: chunks.length,
+          createdAt: Date.now(),
+        };
+        const record: DocumentRecord = {
+          name: file.name,
+          chunks: chunks.map((chunk, i) => ({ ...chunk, vector: vectors[i] })),
+        };
+        await setRecord(document.id, record, getStore());
+
+        recordCache.delete(id);
+        get().update(id, (collection) => {
+          collection.documents = collection.documents.concat(document);
+        });
+        return document;
+      },
+
+      async removeDocument(id: string, documentId: string) {
+        recordCache.delete(id);
+        get().update(id, (collection) => {
+          collection.documents = collection.documents.filter(
+            (d) => d.id !== documentId,
+          );
+        });
+        await del(documentId, getStore()).catch((e) =>
+          console.error("[Knowledge] failed to delete", e),
+        );
+      },
+
+      /** the chunks of the collections closest to the query, best first */
+      async search(
+        ids: string[],
+        query: string,
+        topK = KNOWLEDGE_TOP_K,
+      ): Promise<KnowledgeMatch[]> {
+        const collections = ids
+          .map((id) => get().collections[id])
+          .filter((c) => c?.documents.length);
+        if (!query.trim() || collections.length === 0) return [];
+
+        // collections sharing an embedding model share the query vector
+        const queries = new Map<string, Promise<number[]>>();
+        const matches: KnowledgeMatch[] = [];
+        for (const collection of collections) {
+          let vector = queries.get(collection.embedding);
+          if (!vector) {
+            vector = embedTexts(collection.embedding, [query]).then(
+              ([vector]) => vector,
+            );
+            queries.set(collection.embedding, vector);
+          }
+          const [queryVector, records] = await Promise.all([
+            vector,
+            readRecords(collection),
+          ]);
+          records.forEach((record) =>
+            record.chunks.forEach((chunk) =>
+              matches.push({
+                citation: createCitation(record.name, chunk),
+                text: chunk.text,
+                score: cosineSimilarity(queryVector, chunk.vector),
+              }),
+            ),
+          );
+        }
+        return matches.sort((a, b) => b.score - a.score).slice(0, topK);
+      },
+
+      getAll() {
+        return Object.values(get().collections).sort(
+          (a, b) => b.createdAt - a.createdAt,
+        );
+      },
+    };
+
+    return methods;
+  },
+  {
+    name: StoreKey.Knowledge,
+    version: 1,
+  },
+);
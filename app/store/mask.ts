@@ -18,6 +18,13 @@ export type Mask = {
   lang: Lang;
   builtin: boolean;
   plugin?: string[];
+  // knowledge base collections searched for each user turn
+  knowledge?: string[];
+  // mcp servers whose tools the model can call, started when needed, all
+  // configured servers when not set and none when empty
+  mcpServers?: string[];
+  // tools in scope per server, all of them when not set
+  mcpTools?: Record<string, string[]>;
   enableArtifacts?: boolean;
   enableCodeFold?: boolean;
 };
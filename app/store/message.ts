@@ -0,0 +1,36 @@
+import { create } from "zustand";
+import type { ChatMessage } from "./chat";
+
+// messages that changed since the session was last updated, keyed by id.
+// streamed chunks only land here, so each one re-renders the message that
+// subscribed to it instead of the whole session
+export interface MessageState {
+  messages: Record<string, ChatMessage>;
+
+  /** publish the latest state of a message to its subscribers */
+  updateMessage: (message: ChatMessage) => void;
+  /** drop a message once the session holds its final state */
+  removeMessage: (id: string) => void;
+}
+
+export const useMessageStore = create<MessageState>()((set, get) => ({
+  messages: {},
+
+  updateMessage(message) {
+    set({ messages: { ...get().messages, [message.id]: { ...message } } });
+  },
+
+  removeMessage(id) {
+    if (!(id in get().messages)) return;
+    const { [id]: _, ...messages } = get().messages;
+    set({ messages });
+  },
+}));
+
+/**
+ * the live state of `message`, re-renders only when this message changes
+ */
+export function useChatMessage<T extends ChatMessage>(message: T): T {
+  const live = useMessageStore((state) => state.messages[message.id]);
+  return live ? { ...message, ...live } : message;
+}
@@ -6,6 +6,14 @@ import { getClientConfig } from "../config/client";
 import yaml from "js-yaml";
 import { adapter, getOperationId } from "../utils";
 import { useAccessStore } from "./access";
+import {
+  executeMcpAction,
+  getAllTools,
+  initializeMcpClients,
+  isMcpEnabled,
+} from "../mcp/actions";
+import { toMcpFunctionTools } from "../mcp/utils";
+import type { Mask } from "./mask";
 
 const isApp = getClientConfig()?.isApp !== false;
 
@@ -155,6 +163,53 @@ export const FunctionToolService = {
   },
 };
 
+// function tools with the functions running them
+export type ToolSet = {
+  tools: FunctionToolItem[];
+  funcs: Record<string, Function>;
+};
+
+// the tools of the mcp servers a session uses, offered along with the plugins
+// servers still starting after this are left out of the request,
+// they go on starting for the next one
+const MCP_LOAD_TIMEOUT_MS = 10 * 1000;
+
+export const McpToolService = {
+  /**
+   * the tools in `scope`, all configured servers when it has none set, the
+   * servers are started when not running yet
+   */
+  async load(scope: Pick<Mask, "mcpServers" | "mcpTools">): Promise<ToolSet> {
+    const toolSet: ToolSet = { tools: [], funcs: {} };
+    try {
+      if (scope.mcpServers?.length === 0 || !(await isMcpEnabled())) {
+        return toolSet;
+      }
+      const servers = await initializeMcpClients(
+        scope.mcpServers,
+        MCP_LOAD_TIMEOUT_MS,
+      );
+      const clients = await getAllTools(servers);
+      const { tools, targets } = toMcpFunctionTools(clients, scope.mcpTools);
+      toolSet.tools = tools;
+      Object.entries(targets).forEach(([name, target]) => {
+        toolSet.funcs[name] = async (args: Record<string, any>) => {
+          const result = await executeMcpAction(target.clientId, {
+            jsonrpc: "2.0",
+            method: "tools/call",
+            params: { name: target.name, arguments: args },
+          });
+          // shaped like the axios responses of the plugins
+          return { data: result, status: result?.isError ? 500 : 200 };
+        };
+      });
+    } catch (e) {
+      console.error("[MCP] failed to load tools", e);
+    }
+    return toolSet;
+  },
+};
+
 export const createEmptyPlugin = () =>
   ({
     id: nanoid(),
@@ -206,16 +261,23 @@ export const usePluginStore = createPersistStore(
       get().markUpdate();
     },
 
-    getAsTools(ids: string[]) {
+    /** the tools of the plugins `ids`, with the mcp tools of the request */
+    getAsTools(
+      ids: string[],
+      mcpTools?: ToolSet,
+    ): [FunctionToolItem[], Record<string, Function>] {
       const plugins = get().plugins;
       const selected = (ids || [])
         .map((id) => plugins[id])
         .filter((i) => i)
         .map((p) => FunctionToolService.add(p));
       return [
-        // @ts-ignore
-        selected.reduce((s, i) => s.concat(i.tools), []),
-        selected.reduce((s, i) => Object.assign(s, i.funcs), {}),
+        selected
+          .reduce((s, i) => s.concat(i.tools), [] as FunctionToolItem[])
+          .concat(mcpTools?.tools ?? []),
+        selected.reduce((s, i) => Object.assign(s, i.funcs), {
+          ...mcpTools?.funcs,
+        }),
       ];
     },
     get(id?: string) {
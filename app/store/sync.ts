@@ -12,6 +12,8 @@ import { downloadAs, readFromFile } from "../utils";
 import { showToast } from "../components/ui-lib";
 import Locale from "../locales";
 import { createSyncClient, ProviderType } from "../utils/cloud";
+import { flushSessionRecords } from "../utils/session-storage";
+import { useChatStore } from "./chat";
 
 export interface WebDavConfig {
   server: string;
@@ -55,8 +57,21 @@ export const useSyncStore = createPersistStore(
       set({ lastSyncTime: Date.now(), lastProvider: get().provider });
     },
 
-    export() {
-      const state = getLocalAppState();
+    /** download a backup, only the chosen chats when `sessionIds` is given */
+    async export(sessionIds?: string[]) {
+      await useChatStore.getState().loadAllSessions();
+      let state: Partial<AppState> = getLocalAppState();
+      if (sessionIds) {
+        const chatState = state[StoreKey.Chat]!;
+        state = {
+          [StoreKey.Chat]: {
+            ...chatState,
+            sessions: chatState.sessions.filter((s) =>
+              sessionIds.includes(s.id),
+            ),
+          },
+        };
+      }
       const datePart = isApp
         ? `${new Date().toLocaleDateString().replace(/\//g, "_")} ${new Date()
             .toLocaleTimeString()
@@ -72,9 +87,11 @@ export const useSyncStore = createPersistStore(
 
       try {
         const remoteState = JSON.parse(rawContent) as AppState;
+        await useChatStore.getState().loadAllSessions();
         const localState = getLocalAppState();
         mergeAppState(localState, remoteState);
         setLocalAppState(localState);
+        await flushSessionRecords();
         location.reload();
       } catch (e) {
         console.error("[Import]", e);
@@ -89,6 +106,7 @@ export const useSyncStore = createPersistStore(
     },
 
     async sync() {
+      await useChatStore.getState().loadAllSessions();
       const localState = getLocalAppState();
       const provider = get().provider;
       const config = get()[provider];
@@ -0,0 +1,241 @@
+// the code blocks of a reply tagged with file names, put together into a
+// page that runs in the artifacts preview
+
+export type ArtifactFile = {
+  path: string;
+  language: string;
+  content: string;
+};
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})([^\n`]*)\n([\s\S]*?)\n {0,3}\1[ \t]*$/gm;
+const FILE_NAME = /^[\w@.\-/]+\.\w+$/;
+// `// src/App.tsx`, `<!-- file: index.html -->` on the first line
+const FILE_COMMENT =
+  /^\s*(?:\/\/|#|<!--|\/\*)\s*(?:file(?:name)?:\s*)?([\w@.\-/]+\.\w+)\s*(?:-->|\*\/)?\s*$/i;
+
+const SCRIPT = /\.(m?js|jsx|ts|tsx)$/;
+const COMPILED = /\.(jsx|ts|tsx)$/;
+
+function normalizePath(path: string) {
+  return path.replace(/^(\.\/|\/)+/, "");
+}
+
+function getExtension(path: string) {
+  return path.match(/\.(\w+)$/)?.[1] ?? "";
+}
+
+// the file name in the info string of a fence: ```tsx title="App.tsx",
+// ```tsx:src/App.tsx, ```tsx src/App.tsx or ```App.tsx
+function getInfoFileName(info: string) {
+  const [lang = "", ...meta] = info.trim().split(/\s+/);
+  const attr = meta
+    .join(" ")
+    .match(/\b(?:file|filename|title|path)=["']?([^"'\s]+)/);
+  if (attr) return { language: lang, path: attr[1] };
+  const colon = lang.indexOf(":");
+  if (colon > 0 && FILE_NAME.test(lang.slice(colon + 1))) {
+    return { language: lang.slice(0, colon), path: lang.slice(colon + 1) };
+  }
+  if (meta[0] && FILE_NAME.test(meta[0])) {
+    return { language: lang, path: meta[0] };
+  }
+  if (FILE_NAME.test(lang)) return { language: getExtension(lang), path: lang };
+}
+
+/**
+ * the file tagged code blocks of `content`, a later block of the same
+ * path replaces the earlier one
+ */
+export function parseProjectFiles(content: string): ArtifactFile[] {
+  const files = new Map<string, ArtifactFile>();
+  for (const match of Array.from(content.matchAll(FENCE))) {
+    const [, , info, code] = match;
+    let file = getInfoFileName(info);
+    const comment = code.split("\n", 1)[0].match(FILE_COMMENT);
+    if (!file && comment) {
+      file = {
+        language: info.trim() || getExtension(comment[1]),
+        path: comment[1],
+      };
+    }
+    if (!file) continue;
+    const path = normalizePath(file.path);
+    files.delete(path);
+    files.set(path, { path, language: file.language, content: code });
+  }
+  return Array.from(files.values());
+}
+
+/** a project needs more than one file, or compiling */
+export function isArtifactProject(files: ArtifactFile[]) {
+  return files.length > 1 || files.some((f) => COMPILED.test(f.path));
+}
+
+function dirname(path: string) {
+  return path.includes("/") ? path.slice(0, path.lastIndexOf("/") + 1) : "";
+}
+
+function resolvePath(base: string, href: string) {
+  const parts = dirname(base).split("/").filter(Boolean);
+  normalizePath(href)
+    .split("/")
+    .forEach((part) => {
+      if (part === "..") parts.pop();
+      else if (part !== ".") parts.push(part);
+    });
+  return parts.join("/");
+}
+
+// keeps inlined code from closing the script tag around it
+function escapeScript(code: string) {
+  return code.replace(/<\/(script)/gi, "<\\/$1");
+}
+
+const REACT_VERSION = "18.3.1";
+const BABEL_URL = "https://unpkg.com/@babel/standalone@7/babel.min.js";
+
+// runs inside the preview: compiles jsx and typescript with babel, links
+// the local modules through blob urls, and loads packages from esm.sh
+const PROJECT_LOADER = `
+(async () => {
+  const { files, entries } = window.__ARTIFACT_PROJECT__;
+  const urls = {};
+  if (Object.keys(files).some((path) => ${COMPILED}.test(path))) {
+    await new Promise((resolve, reject) => {
+      const script = document.createElement("script");
+      script.src = "${BABEL_URL}";
+      script.onload = resolve;
+      script.onerror = () => reject(new Error("failed to load " + script.src));
+      document.head.appendChild(script);
+    });
+  }
+  const resolve = (from, spec) => {
+    const parts = from.split("/").slice(0, -1);
+    spec.split("/").forEach((part) => {
+      if (part === "..") parts.pop();
+      else if (part !== "." && part !== "") parts.push(part);
+    });
+    const path = parts.join("/");
+    const found = ["", ".tsx", ".ts", ".jsx", ".js", "/index.tsx", "/index.ts", "/index.jsx", "/index.js"]
+      .map((ext) => path + ext)
+      .find((candidate) => candidate in files);
+    if (!found) throw new Error("cannot find " + spec + " imported by " + from);
+    return found;
+  };
+  const external = (spec) => {
+    const name = spec.match(/^(@[^/]+\\/)?[^/]+/)[0];
+    if (name === "react") return "https://esm.sh/react@${REACT_VERSION}" + spec.slice(name.length);
+    return "https://esm.sh/" + (name === "react-dom" ? "react-dom@${REACT_VERSION}" + spec.slice(name.length) : spec) + "?deps=react@${REACT_VERSION},react-dom@${REACT_VERSION}";
+  };
+  const load = (path, stack) => {
+    if (urls[path]) return urls[path];
+    if (stack.includes(path)) throw new Error("circular import of " + path);
+    let code = files[path];
+    if (/\\.css$/.test(path)) {
+      code = "const style = document.createElement('style');\\nstyle.textContent = " + JSON.stringify(code) + ";\\ndocument.head.appendChild(style);";
+    } else if (/\\.json$/.test(path)) {
+      code = "export default " + code + ";";
+    } else if (${COMPILED}.test(path)) {
+      code = Babel.transform(code, {
+        filename: path,
+        presets: [["react", { runtime: "automatic" }], "typescript"],
+      }).code;
+    }
+    code = code.replace(/(\\bfrom\\s*|\\bimport\\s*\\(?\\s*)(["'])([^"'\\n]+)\\2/g, (match, keyword, quote, spec) => {
+      const url = /^\\.{0,2}\\//.test(spec)
+        ? load(resolve(path, spec), stack.concat(path))
+        : /^(https?|data|blob):/.test(spec) ? spec : external(spec);
+      return keyword + quote + url + quote;
+    });
+    return (urls[path] = URL.createObjectURL(new Blob([code], { type: "text/javascript" })));
+  };
+  for (const entry of entries) await import(load(entry, []));
+})().catch((error) => {
+  console.error(error);
+  const pre = document.createElement("pre");
+  pre.style.color = "red";
+  pre.textContent = String(error && error.stack || error);
+  document.body.appendChild(pre);
+});
+`;
+
+const REACT_MOUNT = (app: string) =>
+  [
+    `import { createElement } from "react";`,
+    `import { createRoot } from "react-dom/client";`,
+    `import App from "./${app}";`,
+    `createRoot(document.getElementById("root")).render(createElement(App));`,
+  ].join("\n");
+
+const EMPTY_PAGE = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+</head>
+<body>
+<div id="root"></div>
+</body>
+</html>`;
+
+/**
+ * one html document running `files`: local stylesheets and scripts of the
+ * html file are inlined, modules are loaded by the project loader, a react
+ * project without html gets a page mounting its entry or App component
+ */
+export function buildProjectHtml(files: ArtifactFile[]) {
+  const sources: Record<string, string> = {};
+  files.forEach((file) => (sources[file.path] = file.content));
+  const html =
+    files.find((f) => /(^|\/)index\.html?$/.test(f.path)) ??
+    files.find((f) => /\.html?$/.test(f.path));
+  const entries: string[] = [];
+
+  let page = html?.content ?? EMPTY_PAGE;
+  if (html) {
+    page = page.replace(/<link\b[^>]*>/gi, (tag) => {
+      const href = tag.match(/\bhref=["']([^"']+)["']/i)?.[1];
+      if (!href || !/stylesheet/i.test(tag)) return tag;
+      const css = sources[resolvePath(html.path, href)];
+      return css === undefined ? tag : `<style>\n${css}\n</style>`;
+    });
+    page = page.replace(
+      /<script\b([^>]*)\bsrc=["']([^"']+)["']([^>]*)>\s*<\/script>/gi,
+      (tag, before: string, src: string, after: string) => {
+        const path = resolvePath(html.path, src);
+        if (sources[path] === undefined) return tag;
+        if (
+          /type=["']module["']/i.test(before + after) ||
+          COMPILED.test(path)
+        ) {
+          entries.push(path);
+          return "";
+        }
+        return `<script>\n${escapeScript(sources[path])}\n</script>`;
+      },
+    );
+  } else {
+    const scripts = files.filter((f) => SCRIPT.test(f.path));
+    const entry =
+      scripts.find((f) => /(^|\/)(main|index)\.\w+$/.test(f.path)) ??
+      scripts.find((f) => /(^|\/)App\.\w+$/.test(f.path));
+    if (entry && /(^|\/)App\.\w+$/.test(entry.path)) {
+      sources["__mount__.js"] = REACT_MOUNT(entry.path);
+      entries.push("__mount__.js");
+    } else if (entry) {
+      entries.push(entry.path);
+    }
+  }
+  if (entries.length === 0) return page;
+
+  const project = JSON.stringify({ files: sources, entries }).replace(
+    /</g,
+    "\\u003c",
+  );
+  const loader = `<script>\nwindow.__ARTIFACT_PROJECT__ = ${project};\n${escapeScript(
+    PROJECT_LOADER,
+  )}\n</script>`;
+  return page.includes("</body>")
+    ? page.replace("</body>", () => `${loader}\n</body>`)
+    : page + loader;
+}
@@ -0,0 +1,277 @@
+import fs from "fs/promises";
+import path from "path";
+import type { getServerSideConfig } from "../config/server";
+import { sign, hash, hex } from "./hmac";
+
+// where shared artifacts are kept, chosen by ARTIFACTS_STORAGE
+export interface ArtifactStorage {
+  /** keep `value` under `key`, for `ttl` seconds when given */
+  put(key: string, value: string, ttl?: number): Promise<void>;
+  /** null when there is no such artifact or it has expired */
+  get(key: string): Promise<string | null>;
+  delete(key: string): Promise<void>;
+}
+
+export type ArtifactStorageType = "cloudflare" | "local" | "redis" | "s3";
+
+type ServerConfig = ReturnType<typeof getServerSideConfig>;
+
+export function cloudflareKVStorage(options: {
+  accountId: string;
+  namespaceId: string;
+  apiKey: string;
+}): ArtifactStorage {
+  const storeUrl = `https://api.cloudflare.com/client/v4/accounts/${options.accountId}/storage/kv/namespaces/${options.namespaceId}`;
+  const headers = { Authorization: `Bearer ${options.apiKey}` };
+  return {
+    async put(key, value, ttl) {
+      const res = await fetch(`${storeUrl}/bulk`, {
+        headers: { ...headers, "Content-Type": "application/json" },
+        method: "PUT",
+        // kv does not expire keys sooner than a minute
+        body: JSON.stringify([
+          { key, value, ...(ttl && ttl >= 60 ? { expiration_ttl: ttl } : {}) },
+        ]),
+      });
+      const result = await res.json();
+      if (!result?.success) {
+        throw Error(`[Cloudflare KV] ${JSON.stringify(result?.errors)}`);
+      }
+    },
+    async get(key) {
+      const res = await fetch(`${storeUrl}/values/${key}`, { headers });
+      if (res.status === 404) return null;
+      if (!res.ok) throw Error(`[Cloudflare KV] ${res.status}`);
+      return res.text();
+    },
+    async delete(key) {
+      const res = await fetch(`${storeUrl}/values/${key}`, {
+        headers,
+        method: "DELETE",
+      });
+      if (!res.ok && res.status !== 404) {
+        throw Error(`[Cloudflare KV] ${res.status}`);
+      }
+    },
+  };
+}
+
+/** one json file per artifact, with the time it expires */
+export function fileStorage(dir: string): ArtifactStorage {
+  const file = (key: string) => path.join(dir, `${key}.json`);
+  const storage: ArtifactStorage = {
+    async put(key, value, ttl) {
+      await fs.mkdir(dir, { recursive: true });
+      const expiresAt = ttl ? Date.now() + ttl * 1000 : undefined;
+      await fs.writeFile(file(key), JSON.stringify({ value, expiresAt }));
+    },
+    async get(key) {
+      let content: string;
+      try {
+        content = await fs.readFile(file(key), "utf-8");
+      } catch (e) {
+        return null;
+      }
+      const { value, expiresAt } = JSON.parse(content);
+      if (expiresAt && expiresAt < Date.now()) {
+        await storage.delete(key);
+        return null;
+      }
+      return value;
+    },
+    async delete(key) {
+      await fs.rm(file(key), { force: true });
+    },
+  };
+  return storage;
+}
+
+/** redis over the upstash rest protocol */
+export function redisStorage(options: {
+  url: string;
+  token?: string;
+}): ArtifactStorage {
+  const command = async (...args: (string | number)[]) => {
+    const res = await fetch(options.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(options.token ? { Authorization: `Bearer ${options.token}` } : {}),
+      },
+      body: JSON.stringify(args),
+    });
+    const result = await res.json();
+    if (result?.error) throw Error(`[Redis] ${result.error}`);
+    return result?.result;
+  };
+  const prefixed = (key: string) => `artifacts:${key}`;
+  return {
+    async put(key, value, ttl) {
+      await command("SET", prefixed(key), value, ...(ttl ? ["EX", ttl] : []));
+    },
+    async get(key) {
+      return (await command("GET", prefixed(key))) ?? null;
+    },
+    async delete(key) {
+      await command("DEL", prefixed(key));
+    },
+  };
+}
+
+export type S3Options = {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+};
+
+/**
+ * aws signature v4 headers for a request to `url`, `headers` are signed
+ * along with the host
+ * https://docs.aws.amazon.com/AmazonS3/latest/API/sig-v4-header-based-auth.html
+ */
+export function signS3Request(
+  method: string,
+  url: URL,
+  headers: Record<string, string>,
+  payloadHash: string,
+  options: Pick<S3Options, "region" | "accessKeyId" | "secretAccessKey">,
+  date = new Date(),
+) {
+  const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const day = amzDate.slice(0, 8);
+  const signed: Record<string, string> = {
+    ...headers,
+    host: url.host,
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate,
+  };
+  const names = Object.keys(signed)
+    .map((name) => name.toLowerCase())
+    .sort();
+  const lowerCased = Object.fromEntries(
+    Object.entries(signed).map(([name, value]) => [name.toLowerCase(), value]),
+  );
+  const signedHeaders = names.join(";");
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    Array.from(url.searchParams.entries())
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(
+        ([name, value]) =>
+          `${encodeURIComponent(name)}=${encodeURIComponent(value)}`,
+      )
+      .join("&"),
+    names.map((name) => `${name}:${lowerCased[name].trim()}\n`).join(""),
+    signedHeaders,
+    payloadHash,
+  ].join("\n");
+
+  const scope = `${day}/${options.region}/s3/aws4_request`;
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    hash(canonicalRequest),
+  ].join("\n");
+  const dateKey = sign(`AWS4${options.secretAccessKey}`, day);
+  const regionKey = sign(dateKey, options.region);
+  const serviceKey = sign(regionKey, "s3");
+  const signingKey = sign(serviceKey, "aws4_request");
+  const signature = hex(sign(signingKey, stringToSign));
+
+  return {
+    ...signed,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${options.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+/**
+ * any s3 compatible bucket, addressed path style, s3 has no ttl per object
+ * so the expiry is kept in the metadata and checked on read
+ */
+export function s3Storage(options: S3Options): ArtifactStorage {
+  const request = (
+    method: string,
+    key: string,
+    body = "",
+    headers: Record<string, string> = {},
+  ) => {
+    const url = new URL(
+      `${options.endpoint.replace(/\/+$/, "")}/${
+        options.bucket
+      }/artifacts/${key}`,
+    );
+    return fetch(url, {
+      method,
+      headers: signS3Request(method, url, headers, hash(body), options),
+      body: method === "PUT" ? body : undefined,
+    });
+  };
+  const storage: ArtifactStorage = {
+    async put(key, value, ttl) {
+      const res = await request("PUT", key, value, {
+        "content-type": "text/html; charset=utf-8",
+        ...(ttl
+          ? { "x-amz-meta-expires-at": String(Date.now() + ttl * 1000) }
+          : {}),
+      });
+      if (!res.ok) throw Error(`[S3] ${res.status} ${await res.text()}`);
+    },
+    async get(key) {
+      const res = await request("GET", key);
+      if (res.status === 404) return null;
+      if (!res.ok) throw Error(`[S3] ${res.status} ${await res.text()}`);
+      const expiresAt = Number(res.headers.get("x-amz-meta-expires-at"));
+      if (expiresAt && expiresAt < Date.now()) {
+        await storage.delete(key);
+        return null;
+      }
+      return res.text();
+    },
+    async delete(key) {
+      const res = await request("DELETE", key);
+      if (!res.ok && res.status !== 404) {
+        throw Error(`[S3] ${res.status} ${await res.text()}`);
+      }
+    },
+  };
+  return storage;
+}
+
+/**
+ * the storage configured on the server, cloudflare kv when its variables
+ * are set and nothing else is chosen, the local filesystem otherwise
+ */
+export function getArtifactStorage(config: ServerConfig): ArtifactStorage {
+  const type: ArtifactStorageType =
+    config.artifactsStorage ??
+    (config.cloudflareKVNamespaceId ? "cloudflare" : "local");
+  switch (type) {
+    case "cloudflare":
+      return cloudflareKVStorage({
+        accountId: config.cloudflareAccountId ?? "",
+        namespaceId: config.cloudflareKVNamespaceId ?? "",
+        apiKey: config.cloudflareKVApiKey ?? "",
+      });
+    case "redis":
+      return redisStorage({
+        url: config.artifactsRedisUrl ?? "",
+        token: config.artifactsRedisToken,
+      });
+    case "s3":
+      return s3Storage({
+        endpoint: config.artifactsS3Endpoint ?? "",
+        region: config.artifactsS3Region,
+        bucket: config.artifactsS3Bucket ?? "",
+        accessKeyId: config.artifactsS3AccessKeyId ?? "",
+        secretAccessKey: config.artifactsS3SecretAccessKey ?? "",
+      });
+    case "local":
+      return fileStorage(config.artifactsDir);
+    default:
+      throw Error(`[Artifacts] unknown storage ${type}`);
+  }
+}
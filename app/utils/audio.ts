@@ -1,45 +1,263 @@
+import { ClientApi } from "../client/api";
+import { DEFAULT_TTS_ENGINE, ModelProvider } from "../constant";
+import { useAccessStore } from "../store/access";
+import { TTSConfig, useAppConfig } from "../store/config";
+import { MsEdgeTTS, OUTPUT_FORMAT } from "./ms_edge_tts";
+import { takeSentences } from "./speech";
+import { prettyObject } from "./format";
+import { showToast } from "../components/ui-lib";
+
+// messages whose audio is kept for replays
+const SPEECH_CACHE_SIZE = 20;
+
 type TTSPlayer = {
-  init: () => void;
-  play: (audioBuffer: ArrayBuffer, onended: () => void | null) => Promise<void>;
+  /** play `audio` right after everything queued before it */
+  enqueue: (audio: Promise<ArrayBuffer | undefined>) => void;
   stop: () => void;
 };
 
-export function createTTSPlayer(): TTSPlayer {
+/**
+ * plays queued audio back to back, each clip is scheduled on the audio
+ * clock where the previous one ends so there is no gap between them,
+ * `onIdle` is called whenever the queue runs dry
+ */
+export function createTTSPlayer(onIdle?: () => void): TTSPlayer {
   let audioContext: AudioContext | null = null;
-  let audioBufferSourceNode: AudioBufferSourceNode | null = null;
+  let sources = new Set<AudioBufferSourceNode>();
+  let queue: Promise<void> = Promise.resolve();
+  let nextStartTime = 0;
+  let pending = 0;
+  // bumped on stop, so clips still on their way are dropped
+  let generation = 0;
 
-  const init = () => {
-    audioContext = new (window.AudioContext || window.webkitAudioContext)();
-    audioContext.suspend();
+  const checkIdle = () => {
+    if (pending === 0 && sources.size === 0) onIdle?.();
   };
 
-  const play = async (audioBuffer: ArrayBuffer, onended: () => void | null) => {
-    if (audioBufferSourceNode) {
-      audioBufferSourceNode.stop();
-      audioBufferSourceNode.disconnect();
+  const getContext = () => {
+    if (!audioContext) {
+      audioContext = new (window.AudioContext || window.webkitAudioContext)();
+      nextStartTime = 0;
     }
+    return audioContext;
+  };
+
+  const enqueue = (audio: Promise<ArrayBuffer | undefined>) => {
+    const current = generation;
+    pending += 1;
+    queue = queue.then(async () => {
+      try {
+        const data = await audio;
+        if (!data || current !== generation) return;
+        const context = getContext();
+        // decoding detaches the buffer, callers may keep theirs
+        const buffer = await context.decodeAudioData(data.slice(0));
+        if (current !== generation) return;
 
-    const buffer = await audioContext!.decodeAudioData(audioBuffer);
-    audioBufferSourceNode = audioContext!.createBufferSource();
-    audioBufferSourceNode.buffer = buffer;
-    audioBufferSourceNode.connect(audioContext!.destination);
-    audioContext!.resume().then(() => {
-      audioBufferSourceNode!.start();
+        const source = context.createBufferSource();
+        source.buffer = buffer;
+        source.connect(context.destination);
+        source.onended = () => {
+          sources.delete(source);
+          checkIdle();
+        };
+        await context.resume();
+        const startTime = Math.max(nextStartTime, context.currentTime);
+        source.start(startTime);
+        nextStartTime = startTime + buffer.duration;
+        sources.add(source);
+      } catch (e) {
+        console.error("[TTS] failed to play", e);
+      } finally {
+        if (current === generation) {
+          pending -= 1;
+          checkIdle();
+        }
+      }
     });
-    audioBufferSourceNode.onended = onended;
   };
 
   const stop = () => {
-    if (audioBufferSourceNode) {
-      audioBufferSourceNode.stop();
-      audioBufferSourceNode.disconnect();
-      audioBufferSourceNode = null;
-    }
+    generation += 1;
+    pending = 0;
+    queue = Promise.resolve();
+    sources.forEach((source) => {
+      source.onended = null;
+      source.stop();
+      source.disconnect();
+    });
+    sources = new Set();
     if (audioContext) {
       audioContext.close();
       audioContext = null;
     }
   };
 
-  return { init, play, stop };
+  return { enqueue, stop };
+}
+
+/**
+ * mp3 of `text` from the configured engine, `voice` overrides the voice
+ * of the config, or the edge voice name
+ */
+export async function synthesizeSpeech(
+  text: string,
+  config: TTSConfig = useAppConfig.getState().ttsConfig,
+  voice?: string,
+) {
+  if (config.engine !== DEFAULT_TTS_ENGINE) {
+    const tts = new MsEdgeTTS();
+    await tts.setMetadata(
+      voice || useAccessStore.getState().edgeVoiceName(),
+      OUTPUT_FORMAT.AUDIO_24KHZ_96KBITRATE_MONO_MP3,
+    );
+    return tts.toArrayBuffer(text);
+  }
+  const api = new ClientApi(ModelProvider.GPT);
+  return api.llm.speech({
+    model: config.model,
+    input: text,
+    voice: voice || config.voice,
+    response_format: "mp3",
+    speed: config.speed,
+  });
+}
+
+// cached audio is only replayed with the voice it was made with
+function getVoiceKey(config: TTSConfig) {
+  return [config.engine, config.model, config.voice, config.speed].join("/");
+}
+
+type Reading = {
+  id: string;
+  key: string;
+  text: string;
+  consumed: number;
+  segments: Promise<ArrayBuffer | undefined>[];
+};
+
+/**
+ * reads messages aloud sentence by sentence, a streaming reply starts
+ * playing with its first sentence while the rest is still generated
+ */
+export class SpeechReader {
+  private cache = new Map<
+    string,
+    { key: string; text: string; segments: ArrayBuffer[] }
+  >();
+  private player = createTTSPlayer(() => this.ended());
+  private reading?: Reading;
+  // one request at a time, in the order the sentences are read
+  private synthesis: Promise<unknown> = Promise.resolve();
+  private generation = 0;
+  private onEnded?: () => void;
+
+  private begin(id: string) {
+    this.stop();
+    const config = useAppConfig.getState().ttsConfig;
+    this.reading = {
+      id,
+      key: getVoiceKey(config),
+      text: "",
+      consumed: 0,
+      segments: [],
+    };
+    return this.reading;
+  }
+
+  private read(reading: Reading, sentence: string) {
+    const { markdownToTxt } = require("markdown-to-txt");
+    const text = markdownToTxt(sentence).trim();
+    if (!text) return;
+    const current = this.generation;
+    const audio = this.synthesis.then(() =>
+      current === this.generation ? synthesizeSpeech(text) : undefined,
+    );
+    this.synthesis = audio.catch((e) => {
+      console.error("[TTS] failed to synthesize", e);
+      // the engine will fail the following sentences as well
+      if (current === this.generation) {
+        showToast(prettyObject(e));
+        this.stop();
+      }
+    });
+    reading.segments.push(audio);
+    this.player.enqueue(audio);
+  }
+
+  private store(reading: Reading) {
+    Promise.all(reading.segments)
+      .then((segments) => {
+        this.cache.delete(reading.id);
+        this.cache.set(reading.id, {
+          key: reading.key,
+          text: reading.text,
+          segments: segments.filter((s): s is ArrayBuffer => !!s),
+        });
+        if (this.cache.size > SPEECH_CACHE_SIZE) {
+          this.cache.delete(this.cache.keys().next().value!);
+        }
+      })
+      .catch(() => {});
+  }
+
+  /** follow reply `id` as it streams, `text` is the reply so far */
+  update(id: string, text: string, done = false) {
+    let reading = this.reading;
+    // a retry streams the reply again from the start
+    if (
+      reading?.id !== id ||
+      !text.startsWith(reading.text.slice(0, reading.consumed))
+    ) {
+      reading = this.begin(id);
+    }
+    const { sentences, consumed } = takeSentences(
+      text.slice(reading.consumed),
+      done,
+    );
+    reading.consumed += consumed;
+    reading.text = text;
+    sentences.forEach((sentence) => this.read(reading!, sentence));
+    if (done) this.store(reading);
+  }
+
+  /** read message `id` from the start, replayed from cache when possible */
+  speak(id: string, text: string, onEnded?: () => void) {
+    const reading = this.begin(id);
+    this.onEnded = onEnded;
+    const cached = this.cache.get(id);
+    if (cached && cached.key === reading.key && cached.text === text) {
+      reading.text = text;
+      reading.consumed = text.length;
+      cached.segments.forEach((segment) =>
+        this.player.enqueue(Promise.resolve(segment)),
+      );
+      if (cached.segments.length === 0) this.stop();
+      return;
+    }
+    this.update(id, text, true);
+    // nothing to read, e.g. only code
+    if (reading.segments.length === 0) this.stop();
+  }
+
+  /** stop reading `id`, when it is the message being read */
+  cancel(id: string) {
+    if (this.reading?.id === id) this.stop();
+  }
+
+  stop() {
+    this.generation += 1;
+    this.synthesis = Promise.resolve();
+    this.reading = undefined;
+    this.player.stop();
+    this.ended();
+  }
+
+  private ended() {
+    const onEnded = this.onEnded;
+    this.onEnded = undefined;
+    onEnded?.();
+  }
 }
+
+export const speechReader = new SpeechReader();
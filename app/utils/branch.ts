@@ -0,0 +1,269 @@
+import type { ChatMessage, ChatSession } from "../store/chat";
+
+// fork key for alternatives of the very first message in a session
+export const BRANCH_ROOT = "root";
+
+export interface ChatBranch {
+  // which alternative is currently spliced into `session.messages`
+  active: number;
+  // message suffixes of every alternative, the active slot is kept empty
+  stash: ChatMessage[][];
+}
+
+// the session fields the branch helpers read and write
+export type BranchSession = Pick<
+  ChatSession,
+  | "messages"
+  | "branches"
+  | "clearContextIndex"
+  | "lastSummarizeIndex"
+  | "memoryPrompt"
+>;
+
+export interface BranchInfo {
+  index: number;
+  total: number;
+}
+
+export function getBranchKey(messages: ChatMessage[], index: number) {
+  return index > 0 ? messages[index - 1]?.id ?? BRANCH_ROOT : BRANCH_ROOT;
+}
+
+/**
+ * get the position of the message at `index` among its siblings,
+ * returns undefined if the message has never been edited or regenerated
+ */
+export function getBranchInfo(
+  session: Pick<ChatSession, "messages" | "branches">,
+  index: number,
+): BranchInfo | undefined {
+  if (index < 0 || index >= session.messages.length) return;
+  const branch = session.branches?.[getBranchKey(session.messages, index)];
+  if (!branch || branch.stash.length < 2) return;
+  return { index: branch.active, total: branch.stash.length };
+}
+
+// drop memory and context markers that point into a replaced suffix
+function resetIndexesAfter(session: BranchSession, index: number) {
+  if ((session.clearContextIndex ?? 0) > index) {
+    session.clearContextIndex = undefined;
+  }
+  if (session.lastSummarizeIndex > index) {
+    session.lastSummarizeIndex = 0;
+    session.memoryPrompt = "";
+  }
+}
+
+/**
+ * stash every message from `index` onward as an alternative and start a new
+ * empty sibling branch there, new messages appended to the session fill it
+ */
+export function createBranch(session: BranchSession, index: number) {
+  const key = getBranchKey(session.messages, index);
+  const branches = (session.branches = { ...session.branches });
+  const branch: ChatBranch = branches[key]
+    ? { ...branches[key], stash: branches[key].stash.slice() }
+    : { active: 0, stash: [[]] };
+
+  branch.stash[branch.active] = session.messages.slice(index);
+  branch.stash.push([]);
+  branch.active = branch.stash.length - 1;
+  branches[key] = branch;
+
+  session.messages = session.messages.slice(0, index);
+  resetIndexesAfter(session, index);
+}
+
+/**
+ * keep `suffixes` as inactive siblings of the branch at `index`,
+ * used to stash the answers that lost a model comparison
+ */
+export function addBranches(
+  session: BranchSession,
+  index: number,
+  suffixes: ChatMessage[][],
+) {
+  if (suffixes.length === 0) return;
+  const key = getBranchKey(session.messages, index);
+  const branches = (session.branches = { ...session.branches });
+  const branch: ChatBranch = branches[key]
+    ? { ...branches[key], stash: branches[key].stash.slice() }
+    : { active: 0, stash: [[]] };
+
+  branch.stash.push(...suffixes);
+  branches[key] = branch;
+}
+
+/**
+ * swap the suffix starting at `index` with a sibling branch,
+ * `delta` moves to the previous (-1) or next (+1) alternative
+ */
+export function switchBranch(
+  session: BranchSession,
+  index: number,
+  delta: number,
+) {
+  const key = getBranchKey(session.messages, index);
+  const branch = session.branches?.[key];
+  if (!branch) return false;
+
+  const next = branch.active + delta;
+  if (next < 0 || next >= branch.stash.length || next === branch.active) {
+    return false;
+  }
+
+  const stash = branch.stash.slice();
+  stash[branch.active] = session.messages.slice(index);
+  const restored = stash[next];
+  stash[next] = [];
+
+  session.branches = {
+    ...session.branches,
+    [key]: { active: next, stash },
+  };
+  session.messages = session.messages.slice(0, index).concat(restored);
+  resetIndexesAfter(session, index);
+  return true;
+}
+
+/**
+ * the message at `index` in each alternative of its branch, oldest first,
+ * with the position of the one in the session
+ */
+export function getBranchVersions(
+  session: Pick<ChatSession, "messages" | "branches">,
+  index: number,
+) {
+  const message = session.messages[index];
+  const branch = session.branches?.[getBranchKey(session.messages, index)];
+  if (!message) return { versions: [] as ChatMessage[], active: -1 };
+  if (!branch) return { versions: [message], active: 0 };
+  const versions = branch.stash
+    .map((suffix, i) => (i === branch.active ? message : suffix[0]))
+    .filter((m) => m?.role === message.role);
+  return { versions, active: versions.indexOf(message) };
+}
+
+/**
+ * collect messages of all branches, including the active path
+ */
+export function getAllBranchMessages(
+  session: Pick<ChatSession, "messages" | "branches">,
+) {
+  const messages = session.messages.slice();
+  Object.values(session.branches ?? {}).forEach((branch) =>
+    branch.stash.forEach((suffix) => messages.push(...suffix)),
+  );
+  return messages;
+}
+
+// the alternatives following every message, the active one continues the path
+type MessageTree = Map<
+  string,
+  { children: (ChatMessage | undefined)[]; active: number }
+>;
+
+function toMessageTree(session: Pick<ChatSession, "messages" | "branches">) {
+  // the message after each one on the path it was last seen on
+  const next = new Map<string, ChatMessage>();
+  const walk = (key: string, path: ChatMessage[]) =>
+    path.forEach((message) => {
+      next.set(key, message);
+      key = message.id;
+    });
+  walk(BRANCH_ROOT, session.messages);
+  Object.values(session.branches ?? {}).forEach((branch) =>
+    branch.stash.forEach((suffix) => {
+      if (suffix.length > 0) walk(suffix[0].id, suffix.slice(1));
+    }),
+  );
+
+  const tree: MessageTree = new Map();
+  next.forEach((message, key) =>
+    tree.set(key, { children: [message], active: 0 }),
+  );
+  Object.entries(session.branches ?? {}).forEach(([key, branch]) =>
+    tree.set(key, {
+      children: branch.stash.map((suffix, i) =>
+        i === branch.active ? next.get(key) : suffix[0],
+      ),
+      active: branch.active,
+    }),
+  );
+  return tree;
+}
+
+function getTreePath(tree: MessageTree, key: string) {
+  const path: ChatMessage[] = [];
+  let node = tree.get(key);
+  let message = node?.children[node.active];
+  while (message) {
+    path.push(message);
+    node = tree.get(message.id);
+    message = node?.children[node.active];
+  }
+  return path;
+}
+
+/**
+ * merge the messages and branches of `remote` into `session` by the message
+ * each one follows, the alternatives `session` does not have become siblings
+ * and the path it shows is only extended, returns false when nothing is new
+ */
+export function mergeBranches(
+  session: Pick<ChatSession, "messages" | "branches">,
+  remote: Pick<ChatSession, "messages" | "branches">,
+) {
+  const known = new Set(getAllBranchMessages(session).map((m) => m.id));
+  const tree = toMessageTree(session);
+  let changed = false;
+  toMessageTree(remote).forEach((node, key) => {
+    const local = tree.get(key);
+    if (!local) {
+      tree.set(key, node);
+      changed = true;
+      return;
+    }
+    node.children.forEach((message) => {
+      if (!message || known.has(message.id)) return;
+      local.children.push(message);
+      changed = true;
+    });
+  });
+  if (!changed) return false;
+
+  const branches: Record<string, ChatBranch> = {};
+  tree.forEach((node, key) => {
+    if (node.children.length < 2) return;
+    branches[key] = {
+      active: node.active,
+      stash: node.children.map((message, i) =>
+        message && i !== node.active
+          ? [message, ...getTreePath(tree, message.id)]
+          : [],
+      ),
+    };
+  });
+  session.messages = getTreePath(tree, BRANCH_ROOT);
+  session.branches = Object.keys(branches).length > 0 ? branches : undefined;
+  return true;
+}
+
+/**
+ * rebuild the branch table with new message ids, used when copying sessions
+ */
+export function remapBranches(
+  branches: ChatSession["branches"],
+  idMap: Map<string, string>,
+  copyMessage: (message: ChatMessage) => ChatMessage,
+) {
+  if (!branches) return;
+  const result: Record<string, ChatBranch> = {};
+  Object.entries(branches).forEach(([key, branch]) => {
+    result[idMap.get(key) ?? key] = {
+      active: branch.active,
+      stash: branch.stash.map((suffix) => suffix.map(copyMessage)),
+    };
+  });
+  return result;
+}
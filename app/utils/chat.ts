@@ -3,7 +3,11 @@ import {
   UPLOAD_URL,
   REQUEST_TIMEOUT_MS,
 } from "@/app/constant";
-import { MultimodalContent, RequestMessage } from "@/app/client/api";
+import {
+  MultimodalContent,
+  RequestMessage,
+  TokenUsage,
+} from "@/app/client/api";
 import Locale from "@/app/locales";
 import {
   EventStreamContentType,
@@ -11,6 +15,8 @@ import {
 } from "@fortaine/fetch-event-source";
 import { prettyObject } from "./format";
 import { fetch as tauriFetch } from "./stream";
+import { addUsage, mergeUsage, parseUsage } from "./usage";
+import { isTruncatedReply } from "./continue";
 
 export function compressImage(file: Blob, maxSize: number): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -141,10 +147,12 @@ export function base64Image2Blob(base64Data: string, contentType: string) {
   return new Blob([byteArray], { type: contentType });
 }
 
-export function uploadImage(file: Blob): Promise<string> {
+/**
+ * keep a file in the service worker cache, resolves to its cache url
+ */
+export function uploadFile(file: Blob): Promise<string> {
   if (!window._SW_ENABLED) {
-    // if serviceWorker register error, using compressImage
-    return compressImage(file, 256 * 1024);
+    return Promise.reject(Error("service worker is not enabled"));
   }
   const body = new FormData();
   body.append("file", file);
@@ -164,14 +172,51 @@ export function uploadImage(file: Blob): Promise<string> {
     });
 }
 
-export function removeImage(imageUrl: string) {
-  return fetch(imageUrl, {
+export function uploadImage(file: Blob): Promise<string> {
+  if (!window._SW_ENABLED) {
+    // if serviceWorker register error, using compressImage
+    return compressImage(file, 256 * 1024);
+  }
+  return uploadFile(file);
+}
+
+export function removeFile(fileUrl: string) {
+  return fetch(fileUrl, {
     method: "DELETE",
     mode: "cors",
     credentials: "include",
   });
 }
 
+export function removeImage(imageUrl: string) {
+  return removeFile(imageUrl);
+}
+
+// pick token usage out of a raw stream chunk
+function readUsage(text: string) {
+  if (!/usage/i.test(text)) return;
+  try {
+    return parseUsage(JSON.parse(text));
+  } catch {}
+}
+
+// whether a raw stream chunk reports that the reply hit the token limit
+function readTruncated(text: string) {
+  if (!/length|max_tokens/i.test(text)) return false;
+  try {
+    return isTruncatedReply(JSON.parse(text));
+  } catch {
+    return false;
+  }
+}
+
+// the arguments to call the tool with, rejects when the call is denied
+function approveTool(tool: any, options: any): Promise<string | undefined> {
+  return Promise.resolve(
+    options?.onApproveTool?.(tool) ?? tool?.function?.arguments,
+  );
+}
+
 export function stream(
   chatPath: string,
   requestPayload: any,
@@ -193,6 +238,10 @@ export function stream(
   let running = false;
   let runTools: any[] = [];
   let responseRes: Response;
+  // usage of finished tool call rounds and of the running request
+  let usage: TokenUsage | undefined;
+  let requestUsage: TokenUsage | undefined;
+  let truncated = false;
 
   // animate response to make it looks smooth
   function animateResponseText() {
@@ -228,18 +277,21 @@ export function stream(
         };
         running = true;
         runTools.splice(0, runTools.length); // empty runTools
+        usage = addUsage(usage, requestUsage);
+        requestUsage = undefined;
         return Promise.all(
           toolCallMessage.tool_calls.map((tool) => {
             options?.onBeforeTool?.(tool);
-            return Promise.resolve(
-              // @ts-ignore
-              funcs[tool.function.name](
-                // @ts-ignore
-                tool?.function?.arguments
-                  ? JSON.parse(tool?.function?.arguments)
-                  : {},
-              ),
-            )
+            return approveTool(tool, options)
+              .then((args) => {
+                // the model is told about the arguments the tool ran with
+                if (args !== undefined) tool.function.arguments = args;
+                return funcs[tool.function.name](
+                  tool?.function?.arguments
+                    ? JSON.parse(tool?.function?.arguments)
+                    : {},
+                );
+              })
               .then((res) => {
                 let content = res.data || res?.statusText;
                 // hotfix #5614
@@ -291,6 +343,13 @@ export function stream(
       }
       console.debug("[ChatAPI] end");
       finished = true;
+      usage = addUsage(usage, requestUsage);
+      if (usage) {
+        options.onUsage?.(usage);
+      }
+      if (truncated) {
+        options.onTruncated?.();
+      }
       options.onFinish(responseText + remainText, responseRes); // 将res传递给onFinish
     }
   };
@@ -366,6 +425,8 @@ export function stream(
         if (!text || text.trim().length === 0) {
           return;
         }
+        requestUsage = mergeUsage(requestUsage, readUsage(text));
+        truncated = truncated || readTruncated(text);
         try {
           const chunk = parseSSE(text, runTools);
           if (chunk) {
@@ -389,6 +450,12 @@ export function stream(
   chatApi(chatPath, headers, requestPayload, tools); // call fetchEventSource
 }
 
+// a piece of a streamed reply, thinking pieces go to the reasoning
+export interface ThinkChunk {
+  isThinking: boolean;
+  content: string | undefined;
+}
+
 export function streamWithThink(
   chatPath: string,
   requestPayload: any,
@@ -396,13 +463,7 @@ export function streamWithThink(
   tools: any[],
   funcs: Record<string, Function>,
   controller: AbortController,
-  parseSSE: (
-    text: string,
-    runTools: any[],
-  ) => {
-    isThinking: boolean;
-    content: string | undefined;
-  },
+  parseSSE: (text: string, runTools: any[]) => ThinkChunk | ThinkChunk[],
   processToolMessage: (
     requestPayload: any,
     toolCallMessage: any,
@@ -416,8 +477,12 @@ export function streamWithThink(
   let running = false;
   let runTools: any[] = [];
   let responseRes: Response;
-  let isInThinkingMode = false;
-  let lastIsThinking = false;
+  // usage of finished tool call rounds and of the running request
+  let usage: TokenUsage | undefined;
+  let requestUsage: TokenUsage | undefined;
+  let truncated = false;
+  // reasoning is kept apart from the reply and reported as a whole
+  let reasoningText = "";
   let lastIsThinkingTagged = false; //between <think> and </think> tags
 
   // animate response to make it looks smooth
@@ -425,7 +490,7 @@ export function streamWithThink(
     if (finished || controller.signal.aborted) {
       responseText += remainText;
       console.log("[Response Animation] finished");
-      if (responseText?.length === 0) {
+      if (responseText?.length === 0 && reasoningText.length === 0) {
         options.onError?.(new Error("empty response from server"));
       }
       return;
@@ -454,18 +519,21 @@ export function streamWithThink(
         };
         running = true;
         runTools.splice(0, runTools.length); // empty runTools
+        usage = addUsage(usage, requestUsage);
+        requestUsage = undefined;
         return Promise.all(
           toolCallMessage.tool_calls.map((tool) => {
             options?.onBeforeTool?.(tool);
-            return Promise.resolve(
-              // @ts-ignore
-              funcs[tool.function.name](
-                // @ts-ignore
-                tool?.function?.arguments
-                  ? JSON.parse(tool?.function?.arguments)
-                  : {},
-              ),
-            )
+            return approveTool(tool, options)
+              .then((args) => {
+                // the model is told about the arguments the tool ran with
+                if (args !== undefined) tool.function.arguments = args;
+                return funcs[tool.function.name](
+                  tool?.function?.arguments
+                    ? JSON.parse(tool?.function?.arguments)
+                    : {},
+                );
+              })
               .then((res) => {
                 let content = res.data || res?.statusText;
                 // hotfix #5614
@@ -517,6 +585,13 @@ export function streamWithThink(
       }
       console.debug("[ChatAPI] end");
       finished = true;
+      usage = addUsage(usage, requestUsage);
+      if (usage) {
+        options.onUsage?.(usage);
+      }
+      if (truncated) {
+        options.onTruncated?.();
+      }
       options.onFinish(responseText + remainText, responseRes);
     }
   };
@@ -592,61 +667,40 @@ export function streamWithThink(
         if (!text || text.trim().length === 0) {
           return;
         }
+        requestUsage = mergeUsage(requestUsage, readUsage(text));
+        truncated = truncated || readTruncated(text);
         try {
-          const chunk = parseSSE(text, runTools);
-          // Skip if content is empty
-          if (!chunk?.content || chunk.content.length === 0) {
-            return;
-          }
-
-          // deal with <think> and </think> tags start
-          if (!chunk.isThinking) {
-            if (chunk.content.startsWith("<think>")) {
-              chunk.isThinking = true;
-              chunk.content = chunk.content.slice(7).trim();
-              lastIsThinkingTagged = true;
-            } else if (chunk.content.endsWith("</think>")) {
-              chunk.isThinking = false;
-              chunk.content = chunk.content.slice(0, -8).trim();
-              lastIsThinkingTagged = false;
-            } else if (lastIsThinkingTagged) {
-              chunk.isThinking = true;
+          const result = parseSSE(text, runTools);
+          const chunks = Array.isArray(result) ? result : [result];
+          chunks.forEach((chunk) => {
+            // Skip if content is empty
+            if (!chunk?.content || chunk.content.length === 0) {
+              return;
             }
-          }
-          // deal with <think> and </think> tags start
-
-          // Check if thinking mode changed
-          const isThinkingChanged = lastIsThinking !== chunk.isThinking;
-          lastIsThinking = chunk.isThinking;
-
-          if (chunk.isThinking) {
-            // If in thinking mode
-            if (!isInThinkingMode || isThinkingChanged) {
-              // If this is a new thinking block or mode changed, add prefix
-              isInThinkingMode = true;
-              if (remainText.length > 0) {
-                remainText += "\n";
-              }
-              remainText += "> " + chunk.content;
-            } else {
-              // Handle newlines in thinking content
-              if (chunk.content.includes("\n\n")) {
-                const lines = chunk.content.split("\n\n");
-                remainText += lines.join("\n\n> ");
-              } else {
-                remainText += chunk.content;
+
+            // deal with <think> and </think> tags start
+            if (!chunk.isThinking) {
+              if (chunk.content.startsWith("<think>")) {
+                chunk.isThinking = true;
+                chunk.content = chunk.content.slice(7).trim();
+                lastIsThinkingTagged = true;
+              } else if (chunk.content.endsWith("</think>")) {
+                chunk.isThinking = true;
+                chunk.content = chunk.content.slice(0, -8).trim();
+                lastIsThinkingTagged = false;
+              } else if (lastIsThinkingTagged) {
+                chunk.isThinking = true;
               }
             }
-          } else {
-            // If in normal mode
-            if (isInThinkingMode || isThinkingChanged) {
-              // If switching from thinking mode to normal mode
-              isInThinkingMode = false;
-              remainText += "\n\n" + chunk.content;
+            // deal with <think> and </think> tags end
+
+            if (chunk.isThinking) {
+              reasoningText += chunk.content;
+              options.onReasoning?.(reasoningText);
             } else {
               remainText += chunk.content;
             }
-          }
+          });
         } catch (e) {
           console.error("[Request] parse error", text, msg, e);
           // Don't throw error for parse failures, just log them
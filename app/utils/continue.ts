@@ -0,0 +1,71 @@
+import type { ChatMessage } from "../store/chat";
+import { ServiceProvider } from "../constant";
+
+// providers that carry on from a trailing assistant message,
+// others are asked to continue in a new user message
+const PREFILL_PROVIDERS: string[] = [ServiceProvider.Anthropic];
+
+// finish reasons of a reply cut off by the token limit
+const TRUNCATED_REASONS = ["length", "max_tokens", "MAX_TOKENS"];
+
+// how much of the end of the reply a continuation may repeat, shorter
+// overlaps are most likely a coincidence
+const MIN_OVERLAP = 10;
+const MAX_OVERLAP = 200;
+
+/**
+ * whether a response body or a stream chunk of any provider reports that
+ * the reply hit the token limit
+ */
+export function isTruncatedReply(json: any) {
+  if (!json || typeof json !== "object") return false;
+  const reason =
+    json.choices?.at?.(0)?.finish_reason ??
+    json.candidates?.at?.(0)?.finishReason ??
+    json.delta?.stop_reason ??
+    json.stop_reason ??
+    json.output?.finish_reason;
+  return TRUNCATED_REASONS.includes(reason);
+}
+
+/**
+ * replies still streaming when the page was left never finish,
+ * mark them as interrupted, returns whether any was found
+ */
+export function recoverInterruptedMessages(messages: ChatMessage[]) {
+  let found = false;
+  messages.forEach((message) => {
+    if (!message.streaming) return;
+    message.streaming = false;
+    message.interrupted = true;
+    found = true;
+  });
+  return found;
+}
+
+export function canContinue(message: ChatMessage) {
+  return (
+    message.role === "assistant" &&
+    !message.streaming &&
+    !message.isError &&
+    !!(message.interrupted || message.truncated)
+  );
+}
+
+export function supportsPrefill(providerName?: string) {
+  return !!providerName && PREFILL_PROVIDERS.includes(providerName);
+}
+
+/**
+ * append a continuation to the reply, the part of `addition` that repeats
+ * the end of `partial` is dropped
+ */
+export function joinContinuation(partial: string, addition: string) {
+  const max = Math.min(MAX_OVERLAP, partial.length, addition.length);
+  for (let size = max; size >= MIN_OVERLAP; size--) {
+    if (partial.endsWith(addition.slice(0, size))) {
+      return partial + addition.slice(size);
+    }
+  }
+  return partial + addition;
+}
@@ -0,0 +1,53 @@
+export type DiffLine = {
+  type: "same" | "add" | "remove";
+  text: string;
+};
+
+// beyond this many line pairs the files are shown as replaced
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * line diff of `before` and `after` along their longest common subsequence
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map((text) => ({ type: "remove" as const, text })),
+      ...b.map((text) => ({ type: "add" as const, text })),
+    ];
+  }
+
+  // lengths[i][j] is the lcs of a[i..] and b[j..]
+  const lengths = Array.from(
+    { length: a.length + 1 },
+    () => new Uint32Array(b.length + 1),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: "remove", text: a[i++] });
+    } else {
+      lines.push({ type: "add", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: "remove", text: a[i++] });
+  while (j < b.length) lines.push({ type: "add", text: b[j++] });
+  return lines;
+}
@@ -0,0 +1,275 @@
+import type { MultimodalContent } from "../client/api";
+import type { McpResourceRef } from "../mcp/types";
+import { extractPdfPages } from "./pdf";
+import { getTokenizer } from "./token";
+import { readZip, readZipText } from "./zip";
+
+// a document attached to a user message, its text goes into the prompt
+// and the original file stays in the service worker cache
+export interface ChatAttachment {
+  name: string;
+  type: string;
+  size: number;
+  // the cached file, missing when the service worker is off
+  url?: string;
+  text: string;
+  tokens: number;
+  // an mcp resource, read again when its server reports a change
+  mcp?: McpResourceRef & { version: number };
+}
+
+export const MAX_DOCUMENT_SIZE = 20 * 1024 * 1024;
+export const MAX_DOCUMENTS = 10;
+
+const OFFICE_EXTENSIONS = ["pdf", "docx", "xlsx"];
+const TEXT_EXTENSIONS = [
+  "txt",
+  "md",
+  "markdown",
+  "csv",
+  "tsv",
+  "json",
+  "jsonl",
+  "yaml",
+  "yml",
+  "toml",
+  "ini",
+  "xml",
+  "html",
+  "htm",
+  "css",
+  "scss",
+  "less",
+  "js",
+  "jsx",
+  "mjs",
+  "cjs",
+  "ts",
+  "tsx",
+  "vue",
+  "svelte",
+  "py",
+  "rb",
+  "go",
+  "rs",
+  "java",
+  "kt",
+  "swift",
+  "c",
+  "h",
+  "cc",
+  "cpp",
+  "hpp",
+  "cs",
+  "php",
+  "lua",
+  "dart",
+  "scala",
+  "r",
+  "sql",
+  "sh",
+  "bash",
+  "zsh",
+  "ps1",
+  "tex",
+  "log",
+];
+
+// for the `accept` of file inputs
+export const DOCUMENT_ACCEPT = [...OFFICE_EXTENSIONS, ...TEXT_EXTENSIONS]
+  .map((ext) => `.${ext}`)
+  .join(",");
+
+function getExtension(name: string) {
+  const index = name.lastIndexOf(".");
+  return index < 0 ? "" : name.slice(index + 1).toLowerCase();
+}
+
+export function isDocumentFile(file: { name: string; type: string }) {
+  const ext = getExtension(file.name);
+  return (
+    OFFICE_EXTENSIONS.includes(ext) ||
+    TEXT_EXTENSIONS.includes(ext) ||
+    file.type.startsWith("text/")
+  );
+}
+
+function parseXml(xml: string) {
+  return new DOMParser().parseFromString(xml, "application/xml");
+}
+
+function toCsvLine(cells: string[]) {
+  return cells
+    .map((cell) =>
+      /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell,
+    )
+    .join(",");
+}
+
+export async function readDocx(buffer: ArrayBuffer) {
+  const xml = await readZipText(readZip(buffer), "word/document.xml");
+  if (!xml) throw Error("not a docx document");
+
+  const paragraphs = parseXml(xml).getElementsByTagName("w:p");
+  return Array.from(paragraphs, (paragraph) => {
+    let text = "";
+    for (const node of Array.from(paragraph.getElementsByTagName("*"))) {
+      if (node.tagName === "w:t") text += node.textContent ?? "";
+      else if (node.tagName === "w:tab") text += "\t";
+      else if (node.tagName === "w:br") text += "\n";
+    }
+    return text;
+  })
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// "AB12" -> 27
+function getColumnIndex(ref: string) {
+  let index = 0;
+  for (const c of ref.match(/^[A-Z]+/)?.[0] ?? "") {
+    index = index * 26 + c.charCodeAt(0) - 64;
+  }
+  return index - 1;
+}
+
+export async function readXlsx(buffer: ArrayBuffer) {
+  const entries = readZip(buffer);
+  const read = async (name: string) => {
+    const xml = await readZipText(entries, name);
+    return xml ? parseXml(xml) : undefined;
+  };
+
+  const workbook = await read("xl/workbook.xml");
+  if (!workbook) throw Error("not a xlsx workbook");
+  const rels = await read("xl/_rels/workbook.xml.rels");
+  const targets = new Map(
+    Array.from(rels?.getElementsByTagName("Relationship") ?? [], (rel) => [
+      rel.getAttribute("Id"),
+      rel.getAttribute("Target") ?? "",
+    ]),
+  );
+  const strings = Array.from(
+    (await read("xl/sharedStrings.xml"))?.getElementsByTagName("si") ?? [],
+    // phonetic runs repeat the text, only the plain runs are kept
+    (si) =>
+      Array.from(si.getElementsByTagName("t"))
+        .filter((t) => t.parentElement?.tagName !== "rPh")
+        .map((t) => t.textContent)
+        .join(""),
+  );
+
+  const sheets: string[] = [];
+  for (const sheet of Array.from(workbook.getElementsByTagName("sheet"))) {
+    const target = targets.get(sheet.getAttribute("r:id")) ?? "";
+    const path = target.startsWith("/")
+      ? target.slice(1)
+      : `xl/${target.replace(/^\.\//, "")}`;
+    const doc = await read(path);
+    if (!doc) continue;
+
+    const lines = Array.from(doc.getElementsByTagName("row"), (row) => {
+      const cells: string[] = [];
+      for (const cell of Array.from(row.getElementsByTagName("c"))) {
+        const type = cell.getAttribute("t");
+        const value = cell.getElementsByTagName("v")[0]?.textContent ?? "";
+        const column = getColumnIndex(cell.getAttribute("r") ?? "");
+        cells[column < 0 ? cells.length : column] =
+          type === "s"
+            ? strings[parseInt(value)] ?? ""
+            : type === "inlineStr"
+            ? cell.getElementsByTagName("t")[0]?.textContent ?? ""
+            : type === "b"
+            ? value === "1"
+              ? "TRUE"
+              : "FALSE"
+            : value;
+      }
+      return toCsvLine(Array.from(cells, (cell) => cell ?? ""));
+    });
+    sheets.push(
+      `--- Sheet: ${sheet.getAttribute("name")} ---\n${lines
+        .join("\n")
+        .trim()}`,
+    );
+  }
+  return sheets.join("\n\n");
+}
+
+/**
+ * the text of a document, with page and sheet markers where the format
+ * has them
+ */
+export async function extractDocumentText(file: File) {
+  switch (getExtension(file.name)) {
+    case "pdf": {
+      const pages = await extractPdfPages(await file.arrayBuffer());
+      if (!pages.some((page) => page.trim())) return "";
+      return pages
+        .map((page, i) => `--- Page ${i + 1} ---\n${page}`)
+        .join("\n\n");
+    }
+    case "docx":
+      return readDocx(await file.arrayBuffer());
+    case "xlsx":
+      return readXlsx(await file.arrayBuffer());
+    default:
+      return (await file.text()).replace(/\r\n/g, "\n");
+  }
+}
+
+/**
+ * an attachment for `file` with its tokens counted for `model`,
+ * throws when no text can be read from it
+ */
+export async function createAttachment(
+  file: File,
+  model: string,
+): Promise<ChatAttachment> {
+  const text = (await extractDocumentText(file)).trim();
+  if (!text) throw Error(`no text found in ${file.name}`);
+  const tokenizer = await getTokenizer(model);
+  return {
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    text,
+    tokens: tokenizer.count(text),
+  };
+}
+
+export function getAttachmentTokens(attachments: ChatAttachment[] = []) {
+  return attachments.reduce((tokens, a) => tokens + a.tokens, 0);
+}
+
+export function formatAttachments(attachments: ChatAttachment[]) {
+  return attachments
+    .map((a) => `<file name="${a.name}">\n${a.text}\n</file>`)
+    .join("\n\n");
+}
+
+/**
+ * the message as it is sent, with the text of its attachments ahead of
+ * what the user typed
+ */
+export function withAttachments<
+  T extends {
+    content: string | MultimodalContent[];
+    attachments?: ChatAttachment[];
+  },
+>(message: T): T {
+  if (!message.attachments?.length) return message;
+  const files = formatAttachments(message.attachments);
+  const content =
+    typeof message.content === "string"
+      ? [files, message.content].filter((text) => text).join("\n\n")
+      : [{ type: "text" as const, text: files }, ...message.content];
+  return { ...message, content, attachments: undefined };
+}
+
+export function formatFileSize(size: number) {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / 1024 / 1024).toFixed(1)} MB`;
+}
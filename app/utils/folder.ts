@@ -0,0 +1,156 @@
+import type { ChatSession } from "../store/chat";
+
+export interface ChatFolder {
+  id: string;
+  name: string;
+  // nested folders point to their parent, top level folders have none
+  parentId?: string;
+  collapsed?: boolean;
+  // deleted folders are kept as tombstones so the deletion wins when syncing
+  deleted?: boolean;
+  lastUpdate: number;
+}
+
+export interface SessionFilter {
+  tag?: string;
+  model?: string;
+}
+
+// the fields of a session the folder helpers read
+export type FiledSession = Pick<
+  ChatSession,
+  "pinned" | "folderId" | "tags" | "metaUpdate"
+> & {
+  mask: { modelConfig: { model: string } };
+};
+
+// key of the sessions that are not in any folder
+export const ROOT_FOLDER = "";
+
+export interface SessionGroups {
+  // session indexes in the order of `sessions`
+  pinned: number[];
+  folders: Record<string, number[]>;
+}
+
+export function getSessionModel(session: FiledSession) {
+  return session.mask.modelConfig.model;
+}
+
+export function matchSessionFilter(
+  session: FiledSession,
+  filter: SessionFilter,
+) {
+  if (filter.tag && !session.tags?.includes(filter.tag)) return false;
+  if (filter.model && getSessionModel(session) !== filter.model) return false;
+  return true;
+}
+
+export function getAllTags(sessions: FiledSession[]) {
+  const tags = new Set<string>();
+  sessions.forEach((s) => s.tags?.forEach((tag) => tags.add(tag)));
+  return Array.from(tags).sort();
+}
+
+export function getAllSessionModels(sessions: FiledSession[]) {
+  return Array.from(new Set(sessions.map(getSessionModel))).sort();
+}
+
+/**
+ * split user input like "work, todo" into unique trimmed tags
+ */
+export function parseTags(input: string) {
+  return Array.from(
+    new Set(
+      input
+        .split(/[,，]/)
+        .map((v) => v.trim())
+        .filter((v) => v.length > 0),
+    ),
+  );
+}
+
+export function getVisibleFolders(folders: ChatFolder[]) {
+  return folders.filter((f) => !f.deleted);
+}
+
+/**
+ * folders directly under `parentId`, orphans of a missing parent
+ * are shown on the top level
+ */
+export function getChildFolders(folders: ChatFolder[], parentId?: string) {
+  const visible = getVisibleFolders(folders);
+  const ids = new Set(visible.map((f) => f.id));
+  return visible
+    .filter((f) =>
+      parentId ? f.parentId === parentId : !f.parentId || !ids.has(f.parentId),
+    )
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * full name of a folder like "work / project"
+ */
+export function getFolderPath(folders: ChatFolder[], id: string) {
+  const names: string[] = [];
+  const visited = new Set<string>();
+  let folder = folders.find((f) => f.id === id && !f.deleted);
+  while (folder && !visited.has(folder.id)) {
+    visited.add(folder.id);
+    names.unshift(folder.name);
+    const parentId = folder.parentId;
+    folder = folders.find((f) => f.id === parentId && !f.deleted);
+  }
+  return names.join(" / ");
+}
+
+/**
+ * split sessions matching `filter` into pinned ones and folders,
+ * sessions of a missing folder fall back to the top level
+ */
+export function groupSessions(
+  sessions: FiledSession[],
+  folders: ChatFolder[],
+  filter: SessionFilter = {},
+): SessionGroups {
+  const ids = new Set(getVisibleFolders(folders).map((f) => f.id));
+  const groups: SessionGroups = { pinned: [], folders: { [ROOT_FOLDER]: [] } };
+  sessions.forEach((session, i) => {
+    if (!matchSessionFilter(session, filter)) return;
+    if (session.pinned) {
+      groups.pinned.push(i);
+      return;
+    }
+    const key =
+      session.folderId && ids.has(session.folderId)
+        ? session.folderId
+        : ROOT_FOLDER;
+    (groups.folders[key] = groups.folders[key] ?? []).push(i);
+  });
+  return groups;
+}
+
+/**
+ * merge folders of two devices, the latest change of each folder wins
+ */
+export function mergeFolders(local: ChatFolder[], remote: ChatFolder[]) {
+  const folders = new Map(local.map((f) => [f.id, f]));
+  remote.forEach((f) => {
+    const localFolder = folders.get(f.id);
+    if (!localFolder || f.lastUpdate > localFolder.lastUpdate) {
+      folders.set(f.id, f);
+    }
+  });
+  return Array.from(folders.values());
+}
+
+/**
+ * take pinning, folder and tags of the remote session if they changed later
+ */
+export function mergeSessionMeta(local: FiledSession, remote: FiledSession) {
+  if ((remote.metaUpdate ?? 0) <= (local.metaUpdate ?? 0)) return;
+  local.pinned = remote.pinned;
+  local.folderId = remote.folderId;
+  local.tags = remote.tags;
+  local.metaUpdate = remote.metaUpdate;
+}
@@ -0,0 +1,189 @@
+// chunking, local embeddings and citations of knowledge bases, the
+// collections themselves live in the knowledge store
+
+export const LOCAL_EMBEDDING = "local";
+const LOCAL_DIMENSIONS = 512;
+
+// characters per chunk, and how much of the previous chunk is repeated
+const CHUNK_SIZE = 1000;
+const CHUNK_OVERLAP = 150;
+
+// the page and sheet markers of extracted documents
+const LOCATION_MARKER = /^--- (Page \d+|Sheet: .*) ---$/;
+
+const CJK = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/;
+
+export interface TextChunk {
+  text: string;
+  // page or sheet the chunk starts on
+  location?: string;
+}
+
+export interface KnowledgeChunk extends TextChunk {
+  vector: number[];
+}
+
+// a source a reply may cite, numbered as in the prompt
+export interface KnowledgeCitation {
+  name: string;
+  location?: string;
+  excerpt: string;
+}
+
+// words of a chunk, runs of cjk have no spaces so their bigrams are used
+function getTerms(text: string) {
+  const terms: string[] = [];
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    if (!CJK.test(word)) {
+      terms.push(word);
+    } else if (word.length === 1) {
+      terms.push(word);
+    } else {
+      for (let i = 0; i < word.length - 1; i++) {
+        terms.push(word.slice(i, i + 2));
+      }
+    }
+  }
+  return terms;
+}
+
+// fnv-1a
+function hash(text: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function normalize(vector: number[]) {
+  const norm = Math.hypot(...vector);
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+}
+
+/**
+ * a hashed bag of words, the stand-in when no embeddings endpoint is
+ * configured, it only matches shared words but needs no network
+ */
+export function localEmbedding(text: string) {
+  const counts = new Map<string, number>();
+  getTerms(text).forEach((term) =>
+    counts.set(term, (counts.get(term) ?? 0) + 1),
+  );
+  const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+  counts.forEach((count, term) => {
+    const h = hash(term);
+    vector[h % LOCAL_DIMENSIONS] +=
+      (h & 0x80000000 ? -1 : 1) * (1 + Math.log(count));
+  });
+  return normalize(vector);
+}
+
+export function cosineSimilarity(a: number[], b: number[]) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * split extracted text into overlapping chunks, each remembers the page
+ * or sheet it starts on
+ */
+export function chunkText(
+  text: string,
+  size = CHUNK_SIZE,
+  overlap = CHUNK_OVERLAP,
+) {
+  const chunks: TextChunk[] = [];
+  let location: string | undefined;
+  let current = "";
+  let currentLocation: string | undefined;
+
+  const flush = (keepOverlap: boolean) => {
+    if (current.trim()) {
+      chunks.push({ text: current.trim(), location: currentLocation });
+    }
+    const tail = keepOverlap ? current.slice(-overlap) : "";
+    // start the overlap at a word
+    current = tail.slice(tail.search(/\s/) + 1);
+    currentLocation = location;
+  };
+
+  for (const line of text.split("\n")) {
+    const marker = line.match(LOCATION_MARKER);
+    if (marker) {
+      flush(false);
+      location = currentLocation = marker[1];
+      continue;
+    }
+    // long lines are cut so that each piece fits next to an overlap
+    const pieces =
+      line.length > size - overlap
+        ? line.match(new RegExp(`[\\s\\S]{1,${size - overlap}}`, "g"))!
+        : [line];
+    for (const piece of pieces) {
+      if (current.length + piece.length > size && current.trim()) flush(true);
+      current += piece + "\n";
+    }
+  }
+  flush(false);
+  return chunks;
+}
+
+function getExcerpt(text: string) {
+  const excerpt = text.replace(/\s+/g, " ").trim();
+  return excerpt.length > 120 ? excerpt.slice(0, 120) + "…" : excerpt;
+}
+
+export function createCitation(
+  name: string,
+  chunk: TextChunk,
+): KnowledgeCitation {
+  return { name, location: chunk.location, excerpt: getExcerpt(chunk.text) };
+}
+
+function formatSource(citation: KnowledgeCitation) {
+  return [citation.name, citation.location].filter((s) => s).join(", ");
+}
+
+/**
+ * the numbered excerpts handed to the model
+ */
+export function formatKnowledgeSources(
+  sources: { citation: KnowledgeCitation; text: string }[],
+) {
+  return sources
+    .map(
+      ({ citation, text }, i) =>
+        `[${i + 1}] ${formatSource(citation)}\n${text}`,
+    )
+    .join("\n\n");
+}
+
+/**
+ * turn the source numbers a reply cites into markdown footnotes, with the
+ * sources as their definitions, code is left alone
+ */
+export function appendCitations(
+  content: string,
+  citations?: KnowledgeCitation[],
+) {
+  if (!citations?.length) return content;
+  const cited = content.replace(
+    /(```[\s\S]*?```|`[^`\n]*`)|(?<![\w\]^])\[\^?(\d+)\](?![(:[])/g,
+    (match, code, index) =>
+      !code && citations[index - 1] ? `[^${index}]` : match,
+  );
+  const definitions = citations.map(
+    (citation, i) =>
+      `[^${i + 1}]: ${formatSource(citation)} — ${citation.excerpt}`,
+  );
+  return `${cited}\n\n${definitions.join("\n")}`;
+}
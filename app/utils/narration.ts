@@ -0,0 +1,265 @@
+// joining synthesised speech into one audio file with a chapter per turn,
+// mp3 segments are concatenated frame by frame under an id3 tag with
+// CHAP frames, wav gets the pcm with cue points and labels
+
+export interface NarrationChapter {
+  title: string;
+  // milliseconds from the start of the file
+  start: number;
+  end: number;
+}
+
+const textEncoder = new TextEncoder();
+
+function concatBytes(parts: Uint8Array[]) {
+  const bytes = new Uint8Array(parts.reduce((size, p) => size + p.length, 0));
+  let offset = 0;
+  parts.forEach((part) => {
+    bytes.set(part, offset);
+    offset += part.length;
+  });
+  return bytes;
+}
+
+/** the samples of every piece, one after another */
+export function concatSamples(parts: Float32Array[]) {
+  const samples = new Float32Array(
+    parts.reduce((size, p) => size + p.length, 0),
+  );
+  let offset = 0;
+  parts.forEach((part) => {
+    samples.set(part, offset);
+    offset += part.length;
+  });
+  return samples;
+}
+
+function uint32(value: number, littleEndian = false) {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, littleEndian);
+  return bytes;
+}
+
+// id3v2.4 sizes keep the top bit of each byte clear
+function syncsafe(value: number) {
+  return new Uint8Array([
+    (value >> 21) & 0x7f,
+    (value >> 14) & 0x7f,
+    (value >> 7) & 0x7f,
+    value & 0x7f,
+  ]);
+}
+
+function readSyncsafe(bytes: Uint8Array, offset: number) {
+  return (
+    (bytes[offset] << 21) |
+    (bytes[offset + 1] << 14) |
+    (bytes[offset + 2] << 7) |
+    bytes[offset + 3]
+  );
+}
+
+function id3Frame(id: string, data: Uint8Array) {
+  return concatBytes([
+    textEncoder.encode(id),
+    syncsafe(data.length),
+    new Uint8Array(2),
+    data,
+  ]);
+}
+
+function id3Text(id: string, text: string) {
+  // 3 is utf-8
+  return id3Frame(
+    id,
+    concatBytes([new Uint8Array([3]), textEncoder.encode(text)]),
+  );
+}
+
+function cString(text: string) {
+  return concatBytes([textEncoder.encode(text), new Uint8Array(1)]);
+}
+
+const BITRATES_V1 = [
+  0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320,
+];
+const BITRATES_V2 = [
+  0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160,
+];
+// by the version bits of the header: 2.5, reserved, 2, 1
+const SAMPLE_RATES = [
+  [11025, 12000, 8000],
+  [],
+  [22050, 24000, 16000],
+  [44100, 48000, 32000],
+];
+
+// length of the layer III frame at `offset`, undefined when there is none
+function getFrameLength(bytes: Uint8Array, offset: number) {
+  if (offset + 4 > bytes.length) return;
+  if (bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) return;
+  const version = (bytes[offset + 1] >> 3) & 3;
+  const layer = (bytes[offset + 1] >> 1) & 3;
+  if (version === 1 || layer !== 1) return;
+  const bitrate =
+    (version === 3 ? BITRATES_V1 : BITRATES_V2)[bytes[offset + 2] >> 4] * 1000;
+  const sampleRate = SAMPLE_RATES[version][(bytes[offset + 2] >> 2) & 3];
+  if (!bitrate || !sampleRate) return;
+  const padding = (bytes[offset + 2] >> 1) & 1;
+  return (
+    Math.floor(((version === 3 ? 144 : 72) * bitrate) / sampleRate) + padding
+  );
+}
+
+/**
+ * the audio frames of an mp3, without its tags and without the Xing/Info
+ * frame that would tell players the length of this segment only
+ */
+export function getMp3Frames(bytes: Uint8Array) {
+  let start = 0;
+  while (
+    bytes[start] === 0x49 &&
+    bytes[start + 1] === 0x44 &&
+    bytes[start + 2] === 0x33
+  ) {
+    const hasFooter = bytes[start + 5] & 0x10;
+    start += 10 + readSyncsafe(bytes, start + 6) + (hasFooter ? 10 : 0);
+  }
+  while (start < bytes.length && getFrameLength(bytes, start) === undefined) {
+    start += 1;
+  }
+
+  const first = getFrameLength(bytes, start);
+  if (first) {
+    const header = new TextDecoder().decode(
+      bytes.subarray(start, start + Math.min(first, 64)),
+    );
+    if (header.includes("Xing") || header.includes("Info")) start += first;
+  }
+
+  // a trailing id3v1 tag
+  let end = bytes.length;
+  if (
+    end - start >= 128 &&
+    bytes[end - 128] === 0x54 &&
+    bytes[end - 127] === 0x41 &&
+    bytes[end - 126] === 0x47
+  ) {
+    end -= 128;
+  }
+  return bytes.subarray(start, end);
+}
+
+/**
+ * one mp3 of `segments`, with a table of contents for the chapters
+ */
+export function joinMp3(
+  segments: Uint8Array[],
+  chapters: NarrationChapter[],
+  title?: string,
+) {
+  const ids = chapters.map((_, i) => `chp${i}`);
+  const frames = [
+    ...(title ? [id3Text("TIT2", title)] : []),
+    id3Frame(
+      "CTOC",
+      concatBytes([
+        cString("toc"),
+        // top level and ordered
+        new Uint8Array([0x03, Math.min(ids.length, 255)]),
+        ...ids.slice(0, 255).map(cString),
+      ]),
+    ),
+    ...chapters.map((chapter, i) =>
+      id3Frame(
+        "CHAP",
+        concatBytes([
+          cString(ids[i]),
+          uint32(Math.round(chapter.start)),
+          uint32(Math.round(chapter.end)),
+          // no byte offsets
+          uint32(0xffffffff),
+          uint32(0xffffffff),
+          id3Text("TIT2", chapter.title),
+        ]),
+      ),
+    ),
+  ];
+  const tagBody = concatBytes(frames);
+  const tag = concatBytes([
+    textEncoder.encode("ID3"),
+    new Uint8Array([4, 0, 0]),
+    syncsafe(tagBody.length),
+    tagBody,
+  ]);
+  return concatBytes([tag, ...segments.map(getMp3Frames)]);
+}
+
+function riffChunk(id: string, data: Uint8Array) {
+  // chunks are padded to an even length
+  const padding = new Uint8Array(data.length % 2);
+  return concatBytes([
+    textEncoder.encode(id),
+    uint32(data.length, true),
+    data,
+    padding,
+  ]);
+}
+
+/**
+ * 16 bit mono wav of `samples`, with a cue point and label per chapter
+ */
+export function encodeWav(
+  samples: Float32Array,
+  sampleRate: number,
+  chapters: NarrationChapter[],
+) {
+  const format = new DataView(new ArrayBuffer(16));
+  format.setUint16(0, 1, true); // pcm
+  format.setUint16(2, 1, true); // mono
+  format.setUint32(4, sampleRate, true);
+  format.setUint32(8, sampleRate * 2, true); // byte rate
+  format.setUint16(12, 2, true); // block align
+  format.setUint16(14, 16, true); // bits per sample
+
+  const pcm = new DataView(new ArrayBuffer(samples.length * 2));
+  samples.forEach((sample, i) => {
+    const s = Math.max(-1, Math.min(1, sample));
+    pcm.setInt16(i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  });
+
+  const cues = new DataView(new ArrayBuffer(4 + chapters.length * 24));
+  cues.setUint32(0, chapters.length, true);
+  chapters.forEach((chapter, i) => {
+    const offset = 4 + i * 24;
+    const position = Math.round((chapter.start * sampleRate) / 1000);
+    cues.setUint32(offset, i + 1, true);
+    cues.setUint32(offset + 4, position, true);
+    textEncoder
+      .encode("data")
+      .forEach((c, j) => cues.setUint8(offset + 8 + j, c));
+    cues.setUint32(offset + 20, position, true);
+  });
+  const labels = concatBytes([
+    textEncoder.encode("adtl"),
+    ...chapters.map((chapter, i) =>
+      riffChunk(
+        "labl",
+        concatBytes([uint32(i + 1, true), cString(chapter.title)]),
+      ),
+    ),
+  ]);
+
+  const body = concatBytes([
+    textEncoder.encode("WAVE"),
+    riffChunk("fmt ", new Uint8Array(format.buffer)),
+    riffChunk("data", new Uint8Array(pcm.buffer)),
+    ...(chapters.length
+      ? [
+          riffChunk("cue ", new Uint8Array(cues.buffer)),
+          riffChunk("LIST", labels),
+        ]
+      : []),
+  ]);
+  return riffChunk("RIFF", body);
+}
@@ -0,0 +1,501 @@
+import { inflate } from "./zip";
+
+// plain text of a pdf, read from the text operators of each page.
+// fonts are mapped back to unicode through their ToUnicode cmaps, scanned
+// pages and text that cannot be decoded, like cid fonts without a ToUnicode
+// cmap, come out empty and are left to the caller
+
+interface PdfObject {
+  dict: string;
+  data?: Uint8Array;
+}
+
+interface CMap {
+  bytes: number;
+  map: Map<number, string>;
+}
+
+type Operand = number | string | { name: string } | Operand[];
+
+// pdf strings are bytes, they are kept as one char per byte
+function binary(bytes: Uint8Array) {
+  let text = "";
+  for (let i = 0; i < bytes.length; i += 8192) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return text;
+}
+
+function keyPattern(key: string) {
+  return new RegExp(`/${key}(?=[\\s/<\\[(])`);
+}
+
+function getRef(dict: string, key: string) {
+  const match = dict.match(new RegExp(`/${key}\\s+(\\d+)\\s+\\d+\\s+R`));
+  return match ? parseInt(match[1]) : undefined;
+}
+
+function getRefs(dict: string, key: string) {
+  const array = dict.match(new RegExp(`/${key}\\s*\\[([^\\]]*)\\]`));
+  if (!array) {
+    const ref = getRef(dict, key);
+    return ref === undefined ? [] : [ref];
+  }
+  return Array.from(array[1].matchAll(/(\d+)\s+\d+\s+R/g), (m) =>
+    parseInt(m[1]),
+  );
+}
+
+// the `<< >>` right after `key`, nested dictionaries included
+function getInlineDict(dict: string, key: string) {
+  const match = keyPattern(key).exec(dict);
+  if (!match) return;
+  const start = dict.indexOf("<<", match.index);
+  if (start < 0 || dict.slice(match.index + key.length + 1, start).trim()) {
+    return;
+  }
+  for (let i = start, depth = 0; i < dict.length - 1; i++) {
+    if (dict.startsWith("<<", i)) {
+      depth++;
+      i++;
+    } else if (dict.startsWith(">>", i)) {
+      depth--;
+      i++;
+      if (depth === 0) return dict.slice(start, i + 1);
+    }
+  }
+}
+
+class PdfDocument {
+  objects = new Map<number, PdfObject>();
+  streams = new Map<number, Promise<string | undefined>>();
+
+  constructor(private bytes: Uint8Array) {
+    const text = binary(bytes);
+    if (/\/Encrypt\s/.test(text)) throw Error("encrypted pdf");
+
+    const objectPattern = /(\d+)\s+\d+\s+obj\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = objectPattern.exec(text))) {
+      const id = parseInt(match[1]);
+      const start = objectPattern.lastIndex;
+      const end = text.indexOf("endobj", start);
+      const streamAt = text.indexOf("stream", start);
+      if (streamAt < 0 || (end >= 0 && streamAt > end)) {
+        if (end < 0) break;
+        this.objects.set(id, { dict: text.slice(start, end) });
+        continue;
+      }
+
+      const dict = text.slice(start, streamAt);
+      let dataStart = streamAt + "stream".length;
+      if (text[dataStart] === "\r") dataStart++;
+      if (text[dataStart] === "\n") dataStart++;
+      const length = dict.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/);
+      let dataEnd = length
+        ? dataStart + parseInt(length[1])
+        : text.indexOf("endstream", dataStart);
+      if (dataEnd < dataStart) break;
+      if (!length) {
+        while (/[\r\n]/.test(text[dataEnd - 1])) dataEnd--;
+      }
+      this.objects.set(id, { dict, data: bytes.subarray(dataStart, dataEnd) });
+      objectPattern.lastIndex = dataEnd;
+    }
+  }
+
+  async load() {
+    // objects compressed into object streams, pdf 1.5 and later
+    for (const [id, object] of Array.from(this.objects)) {
+      if (!/\/Type\s*\/ObjStm/.test(object.dict)) continue;
+      const text = await this.getStream(id);
+      const first = parseInt(object.dict.match(/\/First\s+(\d+)/)?.[1] ?? "");
+      if (!text || isNaN(first)) continue;
+      const header = text.slice(0, first).trim().split(/\s+/).map(Number);
+      for (let i = 0; i < header.length; i += 2) {
+        if (this.objects.has(header[i])) continue;
+        const start = first + header[i + 1];
+        const end = i + 3 < header.length ? first + header[i + 3] : undefined;
+        this.objects.set(header[i], { dict: text.slice(start, end) });
+      }
+    }
+    return this;
+  }
+
+  getStream(id: number) {
+    let stream = this.streams.get(id);
+    if (!stream) {
+      stream = this.decodeStream(this.objects.get(id));
+      this.streams.set(id, stream);
+    }
+    return stream;
+  }
+
+  private async decodeStream(object?: PdfObject) {
+    if (!object?.data) return;
+    const filters = Array.from(
+      object.dict
+        .match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1]
+        .matchAll(/\/(\w+)/g) ?? [],
+      (m) => m[1],
+    );
+    let data = object.data;
+    for (const filter of filters) {
+      if (filter !== "FlateDecode") return;
+      try {
+        data = await inflate(data, "deflate");
+      } catch (e) {
+        console.warn("[PDF] failed to inflate stream", e);
+        return;
+      }
+    }
+    return binary(data);
+  }
+
+  getPages() {
+    const pages: number[] = [];
+    const visited = new Set<number>();
+    const walk = (id: number) => {
+      const object = this.objects.get(id);
+      if (!object || visited.has(id)) return;
+      visited.add(id);
+      if (/\/Type\s*\/Pages(?=[\s/>])/.test(object.dict)) {
+        getRefs(object.dict, "Kids").forEach(walk);
+      } else if (/\/Type\s*\/Page(?=[\s/>])/.test(object.dict)) {
+        pages.push(id);
+      }
+    };
+
+    // the catalog of the last revision points at the page tree
+    const roots = Array.from(
+      binary(this.bytes).matchAll(/\/Root\s+(\d+)\s+\d+\s+R/g),
+    );
+    const catalog = this.objects.get(parseInt(roots.at(-1)?.[1] ?? ""));
+    const tree = catalog && getRef(catalog.dict, "Pages");
+    if (tree !== undefined) walk(tree);
+    if (pages.length > 0) return pages;
+
+    this.objects.forEach((object, id) => {
+      if (/\/Type\s*\/Page(?=[\s/>])/.test(object.dict)) pages.push(id);
+    });
+    return pages.sort((a, b) => a - b);
+  }
+
+  // a dictionary entry given inline or as a reference
+  getDict(dict: string, key: string) {
+    const ref = getRef(dict, key);
+    if (ref !== undefined) return this.objects.get(ref)?.dict;
+    return getInlineDict(dict, key);
+  }
+
+  // resources are inherited from the page tree
+  getResources(page: number) {
+    for (
+      let id: number | undefined = page, depth = 0;
+      id !== undefined && depth < 32;
+      depth++
+    ) {
+      const dict = this.objects.get(id)?.dict;
+      if (!dict) return;
+      const resources = this.getDict(dict, "Resources");
+      if (resources) return resources;
+      id = getRef(dict, "Parent");
+    }
+  }
+
+  async getFonts(page: number) {
+    const fonts = new Map<string, CMap | undefined>();
+    const resources = this.getResources(page);
+    const dict = resources && this.getDict(resources, "Font");
+    if (!dict) return fonts;
+    for (const match of dict.matchAll(
+      /\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g,
+    )) {
+      const font = this.objects.get(parseInt(match[2]))?.dict ?? "";
+      const toUnicode = getRef(font, "ToUnicode");
+      const cmap =
+        toUnicode !== undefined ? await this.getStream(toUnicode) : undefined;
+      if (cmap) {
+        fonts.set(match[1], parseCMap(cmap));
+      } else if (keyPattern("Type0").test(font)) {
+        // cid codes map to glyphs only, an empty cmap drops their text
+        fonts.set(match[1], { bytes: 2, map: new Map() });
+      } else {
+        fonts.set(match[1], undefined);
+      }
+    }
+    return fonts;
+  }
+
+  async getPageText(page: number) {
+    const dict = this.objects.get(page)?.dict ?? "";
+    const contents = await Promise.all(
+      getRefs(dict, "Contents").map((id) => this.getStream(id)),
+    );
+    return readTextOperators(contents.join("\n"), await this.getFonts(page));
+  }
+}
+
+function parseHex(hex: string) {
+  return parseInt(hex, 16);
+}
+
+function hexToUnicode(hex: string) {
+  let text = "";
+  for (let i = 0; i + 4 <= hex.length; i += 4) {
+    text += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+  }
+  return text;
+}
+
+export function parseCMap(text: string): CMap {
+  const map = new Map<number, string>();
+  const space = text.match(/begincodespacerange\s*<([0-9a-fA-F]+)>/);
+  let bytes = space ? space[1].length / 2 : 0;
+
+  for (const block of text.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const m of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      bytes ||= m[1].length / 2;
+      map.set(parseHex(m[1]), hexToUnicode(m[2]));
+    }
+  }
+  for (const block of text.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const m of block[1].matchAll(
+      /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g,
+    )) {
+      bytes ||= m[1].length / 2;
+      const from = parseHex(m[1]);
+      const to = parseHex(m[2]);
+      if (m[3].startsWith("[")) {
+        Array.from(m[3].matchAll(/<([0-9a-fA-F]*)>/g)).forEach((d, i) =>
+          map.set(from + i, hexToUnicode(d[1])),
+        );
+        continue;
+      }
+      const dest = m[3].slice(1, -1);
+      const last = parseInt(dest.slice(-4) || "0", 16);
+      for (let code = from; code <= to && code - from < 65536; code++) {
+        map.set(
+          code,
+          hexToUnicode(dest.slice(0, -4)) +
+            String.fromCharCode(last + code - from),
+        );
+      }
+    }
+  }
+  return { bytes: bytes || 1, map };
+}
+
+// made on first use, some environments loading this module lack TextDecoder
+let winAnsi: TextDecoder | undefined;
+
+function decodeString(value: string, cmap?: CMap) {
+  if (!cmap) {
+    const bytes = Uint8Array.from(value, (c) => c.charCodeAt(0));
+    winAnsi ??= new TextDecoder("windows-1252");
+    return winAnsi.decode(bytes).replace(/[\x00-\x08\x0b-\x1f]/g, "");
+  }
+  let text = "";
+  for (let i = 0; i + cmap.bytes <= value.length; i += cmap.bytes) {
+    let code = 0;
+    for (let j = 0; j < cmap.bytes; j++) {
+      code = code * 256 + value.charCodeAt(i + j);
+    }
+    text += cmap.map.get(code) ?? "";
+  }
+  return text;
+}
+
+const LITERAL_ESCAPES: Record<string, string> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  b: "\b",
+  f: "\f",
+};
+
+// kerning wider than this, in thousandths of the font size, is a space
+const WORD_GAP = 200;
+
+/**
+ * the text drawn by a content stream, one line per text line
+ */
+export function readTextOperators(
+  content: string,
+  fonts = new Map<string, CMap | undefined>(),
+) {
+  let text = "";
+  let font: CMap | undefined;
+  // y of the text position and of the last text shown, a change is a new line
+  let y = 0;
+  let shownY: number | undefined;
+  let operands: Operand[] = [];
+  const arrays: Operand[][] = [];
+
+  const push = (operand: Operand) => (arrays.at(-1) ?? operands).push(operand);
+  const show = (value: Operand) => {
+    if (typeof value !== "string") return;
+    if (shownY !== undefined && y !== shownY && !text.endsWith("\n")) {
+      text += "\n";
+    }
+    shownY = y;
+    text += decodeString(value, font);
+  };
+
+  for (let i = 0; i < content.length; ) {
+    const c = content[i];
+    if (/\s/.test(c)) {
+      i++;
+    } else if (c === "%") {
+      while (i < content.length && !/[\r\n]/.test(content[i])) i++;
+    } else if (c === "(") {
+      let value = "";
+      let depth = 1;
+      for (i++; i < content.length; i++) {
+        const ch = content[i];
+        if (ch === "\\") {
+          const next = content[++i];
+          if (/[0-7]/.test(next)) {
+            const octal = content.slice(i, i + 3).match(/^[0-7]{1,3}/)![0];
+            value += String.fromCharCode(parseInt(octal, 8) & 0xff);
+            i += octal.length - 1;
+          } else if (next === "\r" || next === "\n") {
+            if (next === "\r" && content[i + 1] === "\n") i++;
+          } else {
+            value += LITERAL_ESCAPES[next] ?? next;
+          }
+        } else if (ch === "(") {
+          depth++;
+          value += ch;
+        } else if (ch === ")") {
+          if (--depth === 0) break;
+          value += ch;
+        } else {
+          value += ch;
+        }
+      }
+      i++;
+      push(value);
+    } else if (content.startsWith("<<", i) || content.startsWith(">>", i)) {
+      i += 2;
+    } else if (c === "<") {
+      const end = content.indexOf(">", i);
+      const hex = content.slice(i + 1, end < 0 ? undefined : end);
+      const digits = hex.replace(/[^0-9a-fA-F]/g, "");
+      let value = "";
+      for (let j = 0; j < digits.length; j += 2) {
+        value += String.fromCharCode(
+          parseInt(digits.slice(j, j + 2).padEnd(2, "0"), 16),
+        );
+      }
+      push(value);
+      i = end < 0 ? content.length : end + 1;
+    } else if (c === "[") {
+      arrays.push([]);
+      i++;
+    } else if (c === "]") {
+      const array = arrays.pop();
+      if (array) push(array);
+      i++;
+    } else if (c === "/") {
+      const name = content.slice(i + 1).match(/^[^\s/<>[\]()%{}]*/)![0];
+      push({ name });
+      i += name.length + 1;
+    } else {
+      const word = content.slice(i).match(/^[^\s/<>[\]()%{}]+/)?.[0] ?? c;
+      i += word.length;
+      if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+        push(parseFloat(word));
+        continue;
+      }
+
+      switch (word) {
+        case "Tf": {
+          const name = operands[0];
+          font =
+            typeof name === "object" && "name" in name
+              ? fonts.get(name.name)
+              : undefined;
+          break;
+        }
+        case "Tj":
+          show(operands[0]);
+          break;
+        case "'":
+          y--;
+          show(operands[0]);
+          break;
+        case '"':
+          y--;
+          show(operands[2]);
+          break;
+        case "TJ": {
+          const array = operands[0];
+          if (!Array.isArray(array)) break;
+          for (const item of array) {
+            if (typeof item === "number") {
+              if (item < -WORD_GAP && !/\s$/.test(text)) text += " ";
+            } else {
+              show(item);
+            }
+          }
+          break;
+        }
+        case "Td":
+        case "TD": {
+          const [tx, ty] = operands as number[];
+          y += ty || 0;
+          if (!ty && tx > 0 && y === shownY && !/\s$/.test(text)) {
+            text += " ";
+          }
+          break;
+        }
+        case "T*":
+          y--;
+          break;
+        case "Tm":
+          y = (operands[5] as number) || 0;
+          break;
+        case "BT":
+          // the text matrix starts over in every text object
+          y = 0;
+          break;
+        case "BI": {
+          // inline image data is binary, skip to its end
+          const end = content.slice(i).search(/\sEI(?=\s|$)/);
+          i = end < 0 ? content.length : i + end + 3;
+          break;
+        }
+      }
+      operands = [];
+      arrays.length = 0;
+    }
+  }
+  return text
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trimEnd())
+    .join("\n")
+    .trim();
+}
+
+// replacement, control and private use characters of a wrong encoding
+const GARBLED_CHARS = /[\ufffd\x00-\x1f\x7f-\x9f\ue000-\uf8ff]/g;
+
+// text is garbled when at least half of its characters are
+function isGarbled(text: string) {
+  const chars = text.replace(/\s/g, "");
+  return (chars.match(GARBLED_CHARS)?.length ?? 0) * 2 >= chars.length;
+}
+
+/**
+ * text of every page, in page order, pages that cannot be decoded are empty
+ */
+export async function extractPdfPages(buffer: ArrayBuffer) {
+  const pdf = await new PdfDocument(new Uint8Array(buffer)).load();
+  const pages: string[] = [];
+  for (const page of pdf.getPages()) {
+    const text = await pdf.getPageText(page);
+    pages.push(isGarbled(text) ? "" : text);
+  }
+  return pages;
+}
@@ -0,0 +1,35 @@
+import type { FunctionToolItem } from "../store/plugin";
+
+// function tools of a realtime session, flat unlike chat completions
+export type RealtimeTool = {
+  type: "function";
+  name: string;
+  description?: string;
+  parameters: object;
+};
+
+/** a function name the realtime api accepts, [a-zA-Z0-9_-] up to 64 */
+export function getRealtimeToolName(name: string) {
+  return name.replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, 64);
+}
+
+/**
+ * plugin and mcp function tools as realtime function tools, with the
+ * function each realtime name runs, the first of a name wins
+ */
+export function toRealtimeTools(functionTools: FunctionToolItem[]) {
+  const tools: RealtimeTool[] = [];
+  const names: Record<string, string> = {};
+  functionTools.forEach(({ function: f }) => {
+    const name = getRealtimeToolName(f.name);
+    if (!name || names[name]) return;
+    tools.push({
+      type: "function",
+      name,
+      description: f.description,
+      parameters: f.parameters,
+    });
+    names[name] = f.name;
+  });
+  return { tools, names };
+}
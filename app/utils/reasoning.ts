@@ -0,0 +1,72 @@
+export type ReasoningEffort = "" | "low" | "medium" | "high";
+
+export const REASONING_EFFORTS: ReasoningEffort[] = [
+  "",
+  "low",
+  "medium",
+  "high",
+];
+
+// the budget anthropic accepts at least, and the room left for the answer
+export const MIN_THINKING_BUDGET = 1024;
+export const MAX_THINKING_BUDGET = 32768;
+const MIN_ANSWER_TOKENS = 1024;
+
+// reasoning kept apart from the reply, it is shown but never sent again
+export interface ChatReasoning {
+  content: string;
+  // milliseconds spent on reasoning before the answer started
+  duration?: number;
+  tokens?: number;
+}
+
+/**
+ * openai reasoning models and grok mini take `reasoning_effort`
+ */
+export function supportsReasoningEffort(model: string) {
+  return /^(o\d|gpt-5)/.test(model) || model.includes("grok-3-mini");
+}
+
+export function isClaudeThinkingModel(model: string) {
+  return /claude-(3-7-sonnet|(sonnet|opus|haiku)-4)/.test(model);
+}
+
+export function isGeminiThinkingModel(model: string) {
+  return /gemini-(2\.5|[3-9])/.test(model);
+}
+
+/**
+ * claude extended thinking and gemini `thinkingConfig` take a token budget
+ */
+export function supportsThinkingBudget(model: string) {
+  return isClaudeThinkingModel(model) || isGeminiThinkingModel(model);
+}
+
+/**
+ * anthropic `thinking` and the max tokens it needs, as the budget has to
+ * stay below them, undefined when thinking is off
+ */
+export function getAnthropicThinking(
+  model: string,
+  budget: number | undefined,
+  maxTokens: number,
+) {
+  if (!budget || !isClaudeThinkingModel(model)) return;
+  const budgetTokens = Math.max(budget, MIN_THINKING_BUDGET);
+  return {
+    thinking: { type: "enabled" as const, budget_tokens: budgetTokens },
+    max_tokens: Math.max(maxTokens, budgetTokens + MIN_ANSWER_TOKENS),
+  };
+}
+
+/**
+ * gemini `thinkingConfig`, thoughts are always requested so they can be
+ * shown, the budget is left to the model when it is not set
+ */
+export function getGeminiThinkingConfig(model: string, budget?: number) {
+  if (!isGeminiThinkingModel(model)) return;
+  return {
+    includeThoughts: true,
+    ...(budget ? { thinkingBudget: budget } : {}),
+  };
+}
@@ -0,0 +1,237 @@
+import { z } from "zod";
+
+export type ResponseFormatType = "text" | "json_object" | "json_schema";
+
+export interface ResponseFormat {
+  type: ResponseFormatType;
+  // json schema source, only used by the json_schema type
+  schema?: string;
+}
+
+export interface JsonSchema {
+  type?: string | string[];
+  title?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  nullable?: boolean;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  [key: string]: unknown;
+}
+
+export function isStructuredOutput(format?: ResponseFormat) {
+  return !!format && format.type !== "text";
+}
+
+export function parseJsonSchema(source?: string): JsonSchema | undefined {
+  if (!source?.trim()) return;
+  try {
+    const schema = JSON.parse(source);
+    if (schema && typeof schema === "object" && !Array.isArray(schema)) {
+      return schema;
+    }
+  } catch {}
+}
+
+/**
+ * the schema sent to the provider, json_object mode accepts any object
+ */
+export function getResponseSchema(
+  format?: ResponseFormat,
+): JsonSchema | undefined {
+  if (format?.type === "json_object") return { type: "object" };
+  if (format?.type === "json_schema") return parseJsonSchema(format.schema);
+}
+
+// openai and anthropic only accept [a-zA-Z0-9_-] in schema and tool names
+export function getSchemaName(schema: JsonSchema) {
+  const name = (schema.title ?? "").replace(/[^a-zA-Z0-9_-]+/g, "_");
+  return name.slice(0, 64) || "response";
+}
+
+export function jsonSchemaToZod(schema: JsonSchema): z.ZodTypeAny {
+  let type = convertSchema(schema);
+  if (schema.nullable) type = type.nullable();
+  return schema.description ? type.describe(schema.description) : type;
+}
+
+function union(types: z.ZodTypeAny[]): z.ZodTypeAny {
+  if (types.length === 0) return z.never();
+  if (types.length === 1) return types[0];
+  return z.union(types as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+}
+
+function convertSchema(schema: JsonSchema): z.ZodTypeAny {
+  if (schema.const !== undefined) {
+    return z.literal(schema.const as z.Primitive);
+  }
+  if (schema.enum) {
+    return union(schema.enum.map((v) => z.literal(v as z.Primitive)));
+  }
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants) {
+    return union(variants.map(jsonSchemaToZod));
+  }
+  if (Array.isArray(schema.type)) {
+    return union(schema.type.map((type) => convertSchema({ ...schema, type })));
+  }
+
+  switch (schema.type) {
+    case "string": {
+      let type = z.string();
+      if (schema.minLength !== undefined) type = type.min(schema.minLength);
+      if (schema.maxLength !== undefined) type = type.max(schema.maxLength);
+      if (schema.pattern) type = type.regex(new RegExp(schema.pattern));
+      return type;
+    }
+    case "number":
+    case "integer": {
+      let type = z.number();
+      if (schema.type === "integer") type = type.int();
+      if (schema.minimum !== undefined) type = type.min(schema.minimum);
+      if (schema.maximum !== undefined) type = type.max(schema.maximum);
+      return type;
+    }
+    case "boolean":
+      return z.boolean();
+    case "null":
+      return z.null();
+    case "array": {
+      let type = z.array(
+        schema.items ? jsonSchemaToZod(schema.items) : z.any(),
+      );
+      if (schema.minItems !== undefined) type = type.min(schema.minItems);
+      if (schema.maxItems !== undefined) type = type.max(schema.maxItems);
+      return type;
+    }
+    case "object": {
+      const required = new Set(schema.required ?? []);
+      const shape: Record<string, z.ZodTypeAny> = {};
+      Object.entries(schema.properties ?? {}).forEach(([key, value]) => {
+        const type = jsonSchemaToZod(value);
+        shape[key] = required.has(key) ? type : type.optional();
+      });
+      const object = z.object(shape);
+      if (schema.additionalProperties === false) return object.strict();
+      if (typeof schema.additionalProperties === "object") {
+        return object.catchall(jsonSchemaToZod(schema.additionalProperties));
+      }
+      return object.passthrough();
+    }
+    default:
+      return z.any();
+  }
+}
+
+// models like to wrap json replies in a markdown code fence
+export function extractJson(text: string) {
+  const fenced = text.match(/^\s*```[a-zA-Z]*\s*\n([\s\S]*?)\n?\s*```\s*$/);
+  return (fenced ? fenced[1] : text).trim();
+}
+
+/**
+ * check a reply against the response format,
+ * returns a readable error or undefined when the reply is valid
+ */
+export function validateStructuredOutput(
+  text: string,
+  format?: ResponseFormat,
+): string | undefined {
+  if (!isStructuredOutput(format)) return;
+
+  let value: unknown;
+  try {
+    value = JSON.parse(extractJson(text));
+  } catch (e) {
+    return `Invalid JSON: ${(e as Error).message}`;
+  }
+
+  const schema = getResponseSchema(format);
+  if (!schema) return;
+  let type: z.ZodTypeAny;
+  try {
+    type = jsonSchemaToZod(schema);
+  } catch (e) {
+    // a `pattern` that is not a valid regular expression
+    return `Invalid schema: ${(e as Error).message}`;
+  }
+  const result = type.safeParse(value);
+  if (result.success) return;
+  return result.error.issues
+    .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("; ");
+}
+
+// keywords of the openapi subset understood by gemini
+const GEMINI_SCHEMA_KEYS = new Set([
+  "type",
+  "format",
+  "title",
+  "description",
+  "nullable",
+  "enum",
+  "properties",
+  "required",
+  "items",
+  "minItems",
+  "maxItems",
+  "minimum",
+  "maximum",
+  "anyOf",
+  "propertyOrdering",
+]);
+
+/**
+ * convert a json schema for gemini's `responseSchema`,
+ * unsupported keywords are dropped and type unions become `nullable`
+ */
+export function toGeminiSchema(schema: JsonSchema): JsonSchema {
+  const result: JsonSchema = {};
+  Object.entries(schema).forEach(([key, value]) => {
+    if (!GEMINI_SCHEMA_KEYS.has(key)) return;
+    if (key === "properties") {
+      result.properties = Object.fromEntries(
+        Object.entries(value as Record<string, JsonSchema>).map(([k, v]) => [
+          k,
+          toGeminiSchema(v),
+        ]),
+      );
+    } else if (key === "items") {
+      result.items = toGeminiSchema(value as JsonSchema);
+    } else if (key === "anyOf") {
+      result.anyOf = (value as JsonSchema[]).map(toGeminiSchema);
+    } else {
+      result[key] = value;
+    }
+  });
+
+  if (schema.const !== undefined) {
+    result.enum = [schema.const];
+  }
+  if (result.enum) {
+    // gemini only supports string enums
+    result.type = "string";
+    result.enum = result.enum.map(String);
+  }
+  if (Array.isArray(schema.type)) {
+    const types = schema.type.filter((type) => type !== "null");
+    result.type = types[0];
+    if (types.length < schema.type.length) result.nullable = true;
+  }
+  if (schema.oneOf && !result.anyOf) {
+    result.anyOf = schema.oneOf.map(toGeminiSchema);
+  }
+  return result;
+}
@@ -0,0 +1,39 @@
+// rate limits and server side errors are worth another try
+export function isRetryableStatus(status?: number) {
+  return !!status && (status === 408 || status === 429 || status >= 500);
+}
+
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+/**
+ * parse a `Retry-After` header, either delay seconds or an http date
+ */
+export function parseRetryAfter(value?: string | null, now = Date.now()) {
+  if (!value) return;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (!isNaN(date)) return Math.max(0, date - now);
+}
+
+/**
+ * delay before the `attempt`-th retry (starting from 1), exponential backoff
+ * unless the server told us how long to wait
+ */
+export function getRetryDelay(attempt: number, retryAfter?: string | null) {
+  const delay =
+    parseRetryAfter(retryAfter) ??
+    BASE_RETRY_DELAY_MS * Math.pow(2, attempt - 1);
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * split "model@provider,model@provider" into trimmed entries
+ */
+export function parseFallbackModels(value?: string) {
+  return (value ?? "")
+    .split(",")
+    .map((v) => v.trim())
+    .filter((v) => v.length > 0);
+}
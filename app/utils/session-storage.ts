@@ -0,0 +1,243 @@
+import { clear, createStore, del, getMany, set, UseStore } from "idb-keyval";
+import type { ChatSession } from "../store/chat";
+
+// messages of every session are kept in their own database, one record per
+// session, while the persisted chat store only holds the session index
+const SESSION_DB = "nextchat-sessions";
+const SESSION_STORE = "sessions";
+const LOCAL_KEY_PREFIX = "chat-session-";
+
+// delay before writing a changed session, streaming replies change it a lot
+const WRITE_DELAY_MS = 500;
+// delay before dropping a deleted session, deleting can be undone for a while
+const DELETE_DELAY_MS = 10 * 1000;
+
+export type SessionRecord = Pick<ChatSession, "messages" | "branches">;
+
+// the fields of a session this module reads
+type StoredSession = SessionRecord & Pick<ChatSession, "id" | "messageCount">;
+
+// the fallback when indexeddb fails, read here rather than through the app
+// utils, which load the chat store and with it this module
+function getLocalStorage() {
+  return typeof window !== "undefined" ? window.localStorage : undefined;
+}
+
+let store: UseStore | undefined;
+function getStore() {
+  if (!store && typeof indexedDB !== "undefined") {
+    store = createStore(SESSION_DB, SESSION_STORE);
+  }
+  return store;
+}
+
+export async function readSessionRecords(
+  ids: string[],
+): Promise<(SessionRecord | undefined)[]> {
+  try {
+    return await getMany(ids, getStore());
+  } catch (error) {
+    return ids.map((id) => {
+      const value = getLocalStorage()?.getItem(LOCAL_KEY_PREFIX + id);
+      return value ? JSON.parse(value) : undefined;
+    });
+  }
+}
+
+export async function writeSessionRecord(id: string, record: SessionRecord) {
+  try {
+    await set(id, record, getStore());
+  } catch (error) {
+    getLocalStorage()?.setItem(LOCAL_KEY_PREFIX + id, JSON.stringify(record));
+  }
+}
+
+export async function deleteSessionRecord(id: string) {
+  try {
+    await del(id, getStore());
+  } catch (error) {
+    getLocalStorage()?.removeItem(LOCAL_KEY_PREFIX + id);
+  }
+}
+
+export async function clearSessionRecords() {
+  try {
+    await clear(getStore());
+  } catch (error) {}
+}
+
+// sessions listed in the index whose messages have not been read yet,
+// they must never be written back or their messages would be lost
+const unloadedSessions = new Set<string>();
+// the last record written or read per session, to detect changes
+const savedRecords = new Map<string, SessionRecord>();
+
+export function isSessionLoaded(id: string) {
+  return !unloadedSessions.has(id);
+}
+
+export function markSessionUnloaded(id: string) {
+  unloadedSessions.add(id);
+}
+
+export function markSessionLoaded(id: string, record?: SessionRecord) {
+  unloadedSessions.delete(id);
+  if (record) savedRecords.set(id, record);
+}
+
+export function getSessionMessageCount(session: StoredSession) {
+  return isSessionLoaded(session.id)
+    ? session.messages.length
+    : session.messageCount ?? 0;
+}
+
+/**
+ * the part of a session kept in the persisted index, messages are replaced
+ * by their count
+ */
+export function toSessionIndex<T extends StoredSession>(session: T): T {
+  if (!isSessionLoaded(session.id)) return session;
+  return {
+    ...session,
+    messages: [],
+    branches: undefined,
+    messageCount: session.messages.length,
+  };
+}
+
+/**
+ * the record read for a session followed by the messages sent while it was
+ * being read, messages already in the record are not added twice
+ */
+export function mergeSessionRecord(
+  record: SessionRecord,
+  session: SessionRecord,
+): SessionRecord {
+  const ids = new Set(record.messages.map((m) => m.id));
+  return {
+    messages: record.messages.concat(
+      session.messages.filter((m) => !ids.has(m.id)),
+    ),
+    branches: session.branches
+      ? { ...record.branches, ...session.branches }
+      : record.branches,
+  };
+}
+
+let flushWrites: (() => Promise<void>) | undefined;
+let scheduleWrite: ((id: string) => void) | undefined;
+
+/**
+ * write a session whose messages changed in place, like a streaming reply
+ * that does not update the store for every chunk
+ */
+export function scheduleSessionWrite(id: string) {
+  scheduleWrite?.(id);
+}
+
+/** write pending changes now, e.g. before the page is reloaded */
+export async function flushSessionRecords() {
+  await flushWrites?.();
+}
+
+interface SessionState {
+  sessions: StoredSession[];
+  _hasHydrated: boolean;
+}
+
+/**
+ * write the record of every changed session and drop deleted ones,
+ * `getState` and `subscribe` come from the chat store
+ */
+export function bindSessionStorage(
+  getState: () => SessionState,
+  subscribe: (listener: (state: SessionState) => void) => () => void,
+) {
+  const writeTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  const deleteTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  let knownIds = new Set<string>();
+  let hydrated = false;
+
+  const write = async (id: string) => {
+    writeTimers.delete(id);
+    const session = getState().sessions.find((s) => s.id === id);
+    if (!session || !isSessionLoaded(id)) return;
+    await writeSessionRecord(id, {
+      messages: session.messages,
+      branches: session.branches,
+    });
+  };
+
+  const flush = async () => {
+    const ids = Array.from(writeTimers.keys());
+    writeTimers.forEach((timer) => clearTimeout(timer));
+    await Promise.all(ids.map(write));
+  };
+  flushWrites = flush;
+
+  const schedule = (id: string) => {
+    if (writeTimers.has(id)) return;
+    writeTimers.set(
+      id,
+      setTimeout(() => write(id), WRITE_DELAY_MS),
+    );
+  };
+  scheduleWrite = schedule;
+
+  const onChange = (state: SessionState) => {
+    if (!state._hasHydrated) return;
+    if (!hydrated) {
+      hydrated = true;
+      // sessions restored from the index wait for their messages until opened
+      state.sessions.forEach((session) => {
+        if (session.messages.length === 0) markSessionUnloaded(session.id);
+      });
+      knownIds = new Set(state.sessions.map((s) => s.id));
+    }
+
+    const ids = new Set<string>();
+    state.sessions.forEach((session) => {
+      ids.add(session.id);
+      clearTimeout(deleteTimers.get(session.id));
+      deleteTimers.delete(session.id);
+      if (!isSessionLoaded(session.id)) return;
+
+      const saved = savedRecords.get(session.id);
+      if (
+        saved?.messages === session.messages &&
+        saved?.branches === session.branches
+      ) {
+        return;
+      }
+      savedRecords.set(session.id, {
+        messages: session.messages,
+        branches: session.branches,
+      });
+      schedule(session.id);
+    });
+
+    knownIds.forEach((id) => {
+      if (ids.has(id) || deleteTimers.has(id)) return;
+      deleteTimers.set(
+        id,
+        setTimeout(() => {
+          deleteTimers.delete(id);
+          if (getState().sessions.some((s) => s.id === id)) return;
+          savedRecords.delete(id);
+          deleteSessionRecord(id);
+        }, DELETE_DELAY_MS),
+      );
+    });
+    knownIds = ids;
+  };
+
+  if (typeof window !== "undefined") {
+    window.addEventListener("pagehide", flush);
+    document.addEventListener("visibilitychange", () => {
+      if (document.visibilityState === "hidden") flush();
+    });
+  }
+
+  onChange(getState());
+  return subscribe(onChange);
+}
@@ -0,0 +1,64 @@
+// splitting replies into sentences to read them aloud while they stream
+
+// shorter pieces are read together with the next sentence, a cjk
+// character counts twice as it says about as much as a short word
+const MIN_SENTENCE_LENGTH = 12;
+const CJK = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/g;
+
+// a fenced code block (closed or still streaming), or the end of a
+// sentence: cjk punctuation needs no space after it, latin punctuation
+// does so that "3.14" or "index.ts" are not cut
+const SENTENCE_BREAK =
+  /```[\s\S]*?(?:```|$)|[。！？；…]+[”’」』）"')]*|[.!?;]+[”’"')\]]*(?=\s)|\n/g;
+
+/**
+ * the complete sentences at the start of `text` and how much of it they
+ * used, the rest waits for more text unless `final`, code is skipped
+ */
+export function takeSentences(text: string, final = false) {
+  const sentences: string[] = [];
+  let start = 0;
+  const cut = (end: number, force: boolean) => {
+    const sentence = text.slice(start, end).trim();
+    const length = sentence.length + (sentence.match(CJK)?.length ?? 0);
+    if (!force && length < MIN_SENTENCE_LENGTH) return;
+    if (sentence) sentences.push(sentence);
+    start = end;
+  };
+
+  for (const match of Array.from(text.matchAll(SENTENCE_BREAK))) {
+    const end = match.index! + match[0].length;
+    if (match[0].startsWith("```")) {
+      cut(match.index!, true);
+      const closed = match[0].length >= 6 && match[0].endsWith("```");
+      if (!closed && !final) break;
+      start = end;
+      continue;
+    }
+    cut(end, false);
+  }
+  if (final) cut(text.length, true);
+  return { sentences, consumed: final ? text.length : start };
+}
+
+/**
+ * `text` in pieces of whole sentences up to `maxLength` characters, for
+ * engines that limit their input
+ */
+export function splitSpeech(text: string, maxLength: number) {
+  const pieces: string[] = [];
+  let current = "";
+  for (const sentence of takeSentences(text, true).sentences) {
+    // a sentence longer than the limit is cut where it reaches it
+    for (let i = 0; i < sentence.length; i += maxLength) {
+      const part = sentence.slice(i, i + maxLength);
+      if (current && current.length + part.length + 1 > maxLength) {
+        pieces.push(current);
+        current = "";
+      }
+      current = current ? `${current} ${part}` : part;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
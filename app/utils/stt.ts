@@ -0,0 +1,27 @@
+import { getClientApi } from "../client/api";
+import { DEFAULT_STT_ENGINE, ServiceProvider } from "../constant";
+import type { STTConfig } from "../store/config";
+
+export type STTEngine = (audio: File, config: STTConfig) => Promise<string>;
+
+// recordings shorter than this are taken as a slip of the button
+export const MIN_SPEECH_MS = 300;
+
+export const STT_ENGINES: Record<string, STTEngine> = {
+  // any OpenAI compatible /audio/transcriptions endpoint
+  [DEFAULT_STT_ENGINE]: (audio, config) => {
+    const api = getClientApi(ServiceProvider.OpenAI);
+    return api.llm.transcribe!({
+      model: config.model,
+      file: audio,
+      language: config.language || undefined,
+      baseUrl: config.baseUrl || undefined,
+      apiKey: config.apiKey || undefined,
+    });
+  },
+};
+
+export function transcribe(audio: File, config: STTConfig) {
+  const engine = STT_ENGINES[config.engine] ?? STT_ENGINES[DEFAULT_STT_ENGINE];
+  return engine(audio, config);
+}
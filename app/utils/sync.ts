@@ -8,6 +8,8 @@ import { useMaskStore } from "../store/mask";
 import { usePromptStore } from "../store/prompt";
 import { StoreKey } from "../constant";
 import { merge } from "./merge";
+import { mergeBranches } from "./branch";
+import { mergeFolders, mergeSessionMeta } from "./folder";
 
 type NonFunctionKeys<T> = {
   [K in keyof T]: T[K] extends (...args: any[]) => any ? never : K;
@@ -77,21 +79,19 @@ const MergeStates: StateMerger = {
         // if remote session is new, just merge it
         localState.sessions.push(remoteSession);
       } else {
-        // if both have the same session id, merge the messages
-        const localMessageIds = new Set(localSession.messages.map((v) => v.id));
-        remoteSession.messages.forEach((m) => {
-          if (!localMessageIds.has(m.id)) {
-            localSession.messages.push(m);
-          }
-        });
-
-        // sort local messages with date field in asc order
-        localSession.messages.sort(
-          (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime(),
-        );
+        // if both have the same session id, merge the messages,
+        // replies that diverged are kept as sibling branches
+        mergeBranches(localSession, remoteSession);
+
+        mergeSessionMeta(localSession, remoteSession);
       }
     });
 
+    localState.folders = mergeFolders(
+      localState.folders ?? [],
+      remoteState.folders ?? [],
+    );
+
     // sort local sessions with date field in desc order
     localState.sessions.sort(
       (a, b) =>
@@ -139,6 +139,8 @@ export function mergeAppState(localState: AppState, remoteState: AppState) {
     const key = k as T;
     const localStoreState = localState[key];
     const remoteStoreState = remoteState[key];
+    // partial backups only carry some of the stores
+    if (!remoteStoreState) return;
     MergeStates[key](localStoreState, remoteStoreState);
   });
 
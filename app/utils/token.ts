@@ -1,3 +1,5 @@
+import type { RequestMessage } from "../client/api";
+
 export function estimateTokenLength(input: string): number {
   let tokenLength = 0;
 
@@ -20,3 +22,158 @@ export function estimateTokenLength(input: string): number {
 
   return tokenLength;
 }
+
+export interface Tokenizer {
+  name: TokenizerFamily;
+  count(text: string): number;
+}
+
+export type TokenizerFamily =
+  | "o200k_base"
+  | "cl100k_base"
+  | "claude"
+  | "gemini"
+  | "qwen"
+  | "default";
+
+export function getTokenizerFamily(model: string): TokenizerFamily {
+  const name = (model.toLowerCase().split("/").pop() ?? "").replace(
+    /^anthropic\./,
+    "",
+  );
+  if (/^(gpt-4o|chatgpt-4o|gpt-4\.[15]|gpt-5|o\d)/.test(name)) {
+    return "o200k_base";
+  }
+  if (/^(gpt-4|gpt-3\.5|gpt-35|text-embedding)/.test(name)) {
+    return "cl100k_base";
+  }
+  if (name.includes("claude")) return "claude";
+  if (/gemini|gemma|learnlm/.test(name)) return "gemini";
+  if (/qwen|qwq/.test(name)) return "qwen";
+  return "default";
+}
+
+interface Approximation {
+  // latin letters per token
+  letters: number;
+  // tokens per CJK character
+  cjk: number;
+  // tokens per punctuation or symbol
+  symbol: number;
+  // tokens per other non-ascii character
+  other: number;
+}
+
+// rough averages for mixed english, chinese and code text
+const APPROXIMATIONS: Record<"claude" | "gemini" | "qwen", Approximation> = {
+  claude: { letters: 3.5, cjk: 1.2, symbol: 0.9, other: 0.7 },
+  gemini: { letters: 4.2, cjk: 0.9, symbol: 0.8, other: 0.4 },
+  qwen: { letters: 4, cjk: 0.7, symbol: 0.8, other: 0.5 },
+};
+
+const SEGMENT_REGEX =
+  /([A-Za-z]+)|(\d+)|([\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff])|(\s+)|([\x21-\x7e])|([\s\S])/g;
+
+export function approximateTokenLength(input: string, params: Approximation) {
+  let tokenLength = 0;
+  for (const [, letters, digits, cjk, space, symbol] of input.matchAll(
+    SEGMENT_REGEX,
+  )) {
+    if (letters) {
+      tokenLength += Math.ceil(letters.length / params.letters);
+    } else if (digits) {
+      // numbers are split into groups of up to three digits
+      tokenLength += Math.ceil(digits.length / 3);
+    } else if (cjk) {
+      tokenLength += params.cjk;
+    } else if (space) {
+      // spaces are merged into the next word, line breaks are not
+      tokenLength += space.includes("\n") ? 1 : 0;
+    } else if (symbol) {
+      tokenLength += params.symbol;
+    } else {
+      tokenLength += params.other;
+    }
+  }
+  return Math.ceil(tokenLength);
+}
+
+const tokenizers = new Map<TokenizerFamily, Promise<Tokenizer>>();
+
+async function loadTokenizer(family: TokenizerFamily): Promise<Tokenizer> {
+  switch (family) {
+    case "o200k_base":
+    case "cl100k_base": {
+      // the bpe tables are large, only load them when an openai model is used
+      const [{ Tiktoken }, ranks] = await Promise.all([
+        import("js-tiktoken/lite"),
+        family === "o200k_base"
+          ? import("js-tiktoken/ranks/o200k_base")
+          : import("js-tiktoken/ranks/cl100k_base"),
+      ]);
+      const encoder = new Tiktoken(ranks.default);
+      return {
+        name: family,
+        // special tokens in user content are counted as plain text
+        count: (text) => encoder.encode(text, [], []).length,
+      };
+    }
+    case "claude":
+    case "gemini":
+    case "qwen":
+      return {
+        name: family,
+        count: (text) => approximateTokenLength(text, APPROXIMATIONS[family]),
+      };
+    default:
+      return {
+        name: "default",
+        count: (text) => Math.ceil(estimateTokenLength(text)),
+      };
+  }
+}
+
+export function getTokenizer(model: string) {
+  const family = getTokenizerFamily(model);
+  let tokenizer = tokenizers.get(family);
+  if (!tokenizer) {
+    tokenizer = loadTokenizer(family).catch((e) => {
+      console.error("[Tokenizer] failed to load", family, e);
+      tokenizers.delete(family);
+      return loadTokenizer("default");
+    });
+    tokenizers.set(family, tokenizer);
+  }
+  return tokenizer;
+}
+
+// role and separator tokens added around every message
+const MESSAGE_TOKEN_OVERHEAD = 4;
+// a high detail 1024x1024 image on gpt-4o
+const IMAGE_TOKEN_ESTIMATE = 765;
+
+export function countMessageTokens(
+  tokenizer: Tokenizer,
+  message: Pick<RequestMessage, "content">,
+) {
+  let tokens = MESSAGE_TOKEN_OVERHEAD;
+  if (typeof message.content === "string") {
+    return tokens + tokenizer.count(message.content);
+  }
+  for (const part of message.content) {
+    if (part.type === "text" && part.text) {
+      tokens += tokenizer.count(part.text);
+    } else if (part.type === "image_url") {
+      tokens += IMAGE_TOKEN_ESTIMATE;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * tokens left for the prompt after reserving room for the completion,
+ * prompt and `max_tokens` of the request together fit in the window
+ */
+export function getPromptTokenBudget(contextWindow: number, maxTokens: number) {
+  return Math.max(0, contextWindow - maxTokens);
+}
@@ -0,0 +1,56 @@
+// what happens when the model calls a tool
+export type ToolPolicy = "allow" | "ask" | "deny";
+
+export const TOOL_POLICIES: ToolPolicy[] = ["allow", "ask", "deny"];
+
+export const DEFAULT_TOOL_POLICY: ToolPolicy = "ask";
+
+export type ToolDecision = {
+  approved: boolean;
+  // the arguments as edited on the approval card
+  arguments?: string;
+  // approve the tool for the rest of the session
+  remember?: boolean;
+};
+
+// the calls waiting on an approval card, by tool call id
+const pendingDecisions = new Map<string, (decision: ToolDecision) => void>();
+
+/**
+ * the policy of the tool `name`, tools approved for the session are
+ * allowed unless their policy denies them
+ */
+export function getToolPolicy(
+  name: string,
+  policies: Record<string, ToolPolicy>,
+  sessionApprovals: string[] = [],
+): ToolPolicy {
+  const policy = policies[name] ?? DEFAULT_TOOL_POLICY;
+  return policy === "ask" && sessionApprovals.includes(name) ? "allow" : policy;
+}
+
+/** resolves once the user decides on the call, a denial when `signal` aborts */
+export function waitForToolDecision(id: string, signal?: AbortSignal) {
+  return new Promise<ToolDecision>((resolve) => {
+    const onAbort = () => done({ approved: false });
+    const done = (decision: ToolDecision) => {
+      pendingDecisions.delete(id);
+      signal?.removeEventListener("abort", onAbort);
+      resolve(decision);
+    };
+    if (signal?.aborted) return onAbort();
+    signal?.addEventListener("abort", onAbort);
+    pendingDecisions.set(id, done);
+  });
+}
+
+export function isToolPending(id: string) {
+  return pendingDecisions.has(id);
+}
+
+/** false when the call is not waiting anymore, as after a reload */
+export function decideTool(id: string, decision: ToolDecision) {
+  const done = pendingDecisions.get(id);
+  done?.(decision);
+  return !!done;
+}
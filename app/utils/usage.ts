@@ -0,0 +1,179 @@
+import type { TokenUsage } from "../client/api";
+import { MODEL_PRICES } from "../constant";
+
+function num(value: any) {
+  // some gateways report -1 for unknown counts
+  return typeof value === "number" && isFinite(value) && value >= 0
+    ? value
+    : undefined;
+}
+
+function compact(usage: Partial<TokenUsage>) {
+  const result: Partial<TokenUsage> = {};
+  (Object.keys(usage) as (keyof TokenUsage)[]).forEach((key) => {
+    if (usage[key] !== undefined) result[key] = usage[key];
+  });
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/**
+ * read token counts from a response body or a stream chunk of any provider,
+ * fields missing in the chunk are left undefined so they can be merged later
+ */
+export function parseUsage(json: any): Partial<TokenUsage> | undefined {
+  if (!json || typeof json !== "object") return;
+
+  // gemini
+  const meta = json.usageMetadata;
+  if (meta) {
+    const thoughts = num(meta.thoughtsTokenCount);
+    const candidates = num(meta.candidatesTokenCount);
+    return compact({
+      prompt_tokens: num(meta.promptTokenCount),
+      completion_tokens:
+        candidates === undefined && thoughts === undefined
+          ? undefined
+          : (candidates ?? 0) + (thoughts ?? 0),
+      reasoning_tokens: thoughts,
+      cached_tokens: num(meta.cachedContentTokenCount),
+    });
+  }
+
+  // tencent hunyuan
+  if (json.Usage) {
+    return compact({
+      prompt_tokens: num(json.Usage.PromptTokens),
+      completion_tokens: num(json.Usage.CompletionTokens),
+    });
+  }
+
+  // anthropic message_start carries usage inside the message,
+  // moonshot puts it on the last choice while streaming
+  const usage =
+    json.usage ?? json.message?.usage ?? json.choices?.at?.(0)?.usage;
+  if (!usage || typeof usage !== "object") return;
+
+  // anthropic, alibaba
+  if ("input_tokens" in usage || "output_tokens" in usage) {
+    const input = num(usage.input_tokens);
+    const cacheRead = num(usage.cache_read_input_tokens);
+    const cacheWrite = num(usage.cache_creation_input_tokens);
+    return compact({
+      // anthropic does not count cache hits and writes as input tokens
+      prompt_tokens:
+        input === undefined
+          ? undefined
+          : input + (cacheRead ?? 0) + (cacheWrite ?? 0),
+      completion_tokens: num(usage.output_tokens),
+      reasoning_tokens: num(usage.output_tokens_details?.reasoning_tokens),
+      cached_tokens: cacheRead,
+    });
+  }
+
+  // openai compatible
+  return compact({
+    prompt_tokens: num(usage.prompt_tokens),
+    completion_tokens: num(usage.completion_tokens),
+    reasoning_tokens: num(usage.completion_tokens_details?.reasoning_tokens),
+    cached_tokens:
+      num(usage.prompt_tokens_details?.cached_tokens) ??
+      num(usage.prompt_cache_hit_tokens),
+  });
+}
+
+/**
+ * combine stream chunks of a single request, later values win
+ */
+export function mergeUsage(
+  prev: TokenUsage | undefined,
+  next: Partial<TokenUsage> | undefined,
+): TokenUsage | undefined {
+  if (!next) return prev;
+  return {
+    prompt_tokens: 0,
+    completion_tokens: 0,
+    ...prev,
+    ...next,
+  };
+}
+
+/**
+ * sum usage of separate requests, e.g. the rounds of a tool call loop
+ */
+export function addUsage(
+  a: TokenUsage | undefined,
+  b: TokenUsage | undefined,
+): TokenUsage | undefined {
+  if (!a || !b) return a ?? b;
+  const result: TokenUsage = {
+    prompt_tokens: a.prompt_tokens + b.prompt_tokens,
+    completion_tokens: a.completion_tokens + b.completion_tokens,
+  };
+  if (a.reasoning_tokens !== undefined || b.reasoning_tokens !== undefined) {
+    result.reasoning_tokens =
+      (a.reasoning_tokens ?? 0) + (b.reasoning_tokens ?? 0);
+  }
+  if (a.cached_tokens !== undefined || b.cached_tokens !== undefined) {
+    result.cached_tokens = (a.cached_tokens ?? 0) + (b.cached_tokens ?? 0);
+  }
+  return result;
+}
+
+export function getTotalTokens(usage?: TokenUsage) {
+  return usage ? usage.prompt_tokens + usage.completion_tokens : 0;
+}
+
+export function getModelPrice(model: string) {
+  // strip provider prefixes like "anthropic." or "deepseek-ai/"
+  const name = (model.toLowerCase().split("/").pop() ?? "").replace(
+    /^anthropic\./,
+    "",
+  );
+  let matched = "";
+  for (const key of Object.keys(MODEL_PRICES)) {
+    // "gpt-4" prices gpt-4-0613 but not gpt-4.1 or gpt-4.5
+    const prefixed =
+      name === key || (name.startsWith(key) && name[key.length] === "-");
+    if (prefixed && key.length > matched.length) {
+      matched = key;
+    }
+  }
+  return matched ? MODEL_PRICES[matched] : undefined;
+}
+
+/**
+ * estimated cost in USD, undefined if the model has no known price
+ */
+export function getUsageCost(model: string, usage?: TokenUsage) {
+  const price = getModelPrice(model);
+  if (!price || !usage) return;
+  const cached = Math.min(usage.cached_tokens ?? 0, usage.prompt_tokens);
+  return (
+    ((usage.prompt_tokens - cached) * price.input +
+      cached * (price.cached ?? price.input) +
+      usage.completion_tokens * price.output) /
+    1e6
+  );
+}
+
+export function formatCost(cost: number) {
+  if (cost === 0) return "$0";
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+export function formatTokens(tokens: number) {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`;
+}
+
+// local date key of the daily usage ledger
+export function getUsageDay(date = new Date()) {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate(),
+  )}`;
+}
+
+// usage of a complete (non-stream) response body
+export function getUsage(json: any) {
+  return mergeUsage(undefined, parseUsage(json));
+}
@@ -0,0 +1,171 @@
+// just enough of the zip format to read office documents (docx, xlsx),
+// entries are inflated with the browser DecompressionStream, and to
+// write uncompressed archives
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+export async function inflate(
+  data: Uint8Array,
+  format: "deflate" | "deflate-raw",
+) {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * the entries of a zip archive by name, read lazily
+ */
+export function readZip(buffer: ArrayBuffer) {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // the end record sits in the last 64k, after an optional comment
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw Error("not a zip archive");
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, () => Promise<Uint8Array>>();
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) break;
+    const method = view.getUint16(offset + 10, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const header = view.getUint32(offset + 42, true);
+    const name = decoder.decode(
+      bytes.subarray(offset + 46, offset + 46 + nameLength),
+    );
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    entries.set(name, async () => {
+      if (view.getUint32(header, true) !== LOCAL_FILE_HEADER) {
+        throw Error(`broken zip entry ${name}`);
+      }
+      const start =
+        header +
+        30 +
+        view.getUint16(header + 26, true) +
+        view.getUint16(header + 28, true);
+      const data = bytes.subarray(start, start + size);
+      if (method === STORED) return data;
+      if (method === DEFLATED) return inflate(data, "deflate-raw");
+      throw Error(`unsupported zip compression ${method}`);
+    });
+  }
+  return entries;
+}
+
+export async function readZipText(
+  entries: Map<string, () => Promise<Uint8Array>>,
+  name: string,
+) {
+  const read = entries.get(name);
+  return read ? new TextDecoder().decode(await read()) : undefined;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Uint8Array) {
+  let crc = 0xffffffff;
+  data.forEach((byte) => {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  });
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * a zip archive of `files`, stored without compression
+ */
+export function writeZip(
+  files: { name: string; data: string | Uint8Array }[],
+  date = new Date(),
+) {
+  const encoder = new TextEncoder();
+  const time =
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    (date.getSeconds() >> 1);
+  const day =
+    ((date.getFullYear() - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate();
+
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+  files.forEach((file) => {
+    const name = encoder.encode(file.name);
+    const data =
+      typeof file.data === "string" ? encoder.encode(file.data) : file.data;
+    const crc = crc32(data);
+
+    // the fields shared by the local header and the directory entry
+    const fields = (view: DataView, at: number) => {
+      view.setUint16(at, 20, true); // version needed
+      view.setUint16(at + 2, 0x0800, true); // utf-8 names
+      view.setUint16(at + 4, STORED, true);
+      view.setUint16(at + 6, time, true);
+      view.setUint16(at + 8, day, true);
+      view.setUint32(at + 10, crc, true);
+      view.setUint32(at + 14, data.length, true);
+      view.setUint32(at + 18, data.length, true);
+      view.setUint16(at + 22, name.length, true);
+    };
+
+    const header = new Uint8Array(30 + name.length);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, LOCAL_FILE_HEADER, true);
+    fields(headerView, 4);
+    header.set(name, 30);
+
+    const entry = new Uint8Array(46 + name.length);
+    const entryView = new DataView(entry.buffer);
+    entryView.setUint32(0, CENTRAL_DIRECTORY_ENTRY, true);
+    entryView.setUint16(4, 20, true); // version made by
+    fields(entryView, 6);
+    entryView.setUint32(42, offset, true);
+    entry.set(name, 46);
+
+    parts.push(header, data);
+    directory.push(entry);
+    offset += header.length + data.length;
+  });
+
+  const directorySize = directory.reduce((size, e) => size + e.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  endView.setUint16(8, files.length, true);
+  endView.setUint16(10, files.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  const zip = new Uint8Array(offset + directorySize + end.length);
+  let position = 0;
+  [...parts, ...directory, end].forEach((part) => {
+    zip.set(part, position);
+    position += part.length;
+  });
+  return zip;
+}
@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+import {
+  buildProjectHtml,
+  isArtifactProject,
+  parseProjectFiles,
+} from "../app/utils/artifact-project";
+import { diffLines } from "../app/utils/diff";
+import { readZip, readZipText, writeZip } from "../app/utils/zip";
+
+const reply = [
+  "Here is the page:",
+  '```html title="index.html"',
+  '<link rel="stylesheet" href="./style.css">',
+  '<script src="app.js"></script>',
+  "<body><h1>Hi</h1></body>",
+  "```",
+  "```css style.css",
+  "h1 { color: red; }",
+  "```",
+  "```js",
+  "// app.js",
+  'console.log("</script>");',
+  "```",
+  "```js",
+  "console.log('not a file');",
+  "```",
+].join("\n");
+
+describe("artifact projects", () => {
+  test("file tagged code blocks are collected", () => {
+    const files = parseProjectFiles(reply);
+    expect(files.map((f) => f.path)).toEqual([
+      "index.html",
+      "style.css",
+      "app.js",
+    ]);
+    expect(isArtifactProject(files)).toBe(true);
+    expect(isArtifactProject(files.slice(0, 1))).toBe(false);
+  });
+
+  test("local stylesheets and scripts are inlined", () => {
+    const html = buildProjectHtml(parseProjectFiles(reply));
+    expect(html).toContain("<style>\nh1 { color: red; }\n</style>");
+    expect(html).toContain('console.log("<\\/script>");');
+    expect(html).not.toContain("__ARTIFACT_PROJECT__");
+  });
+
+  test("a react app is mounted by the loader", () => {
+    const html = buildProjectHtml(
+      parseProjectFiles(
+        [
+          "```tsx:src/App.tsx",
+          'import { Button } from "./Button";',
+          "export default () => <Button />;",
+          "```",
+          "```tsx src/Button.tsx",
+          "export const Button = () => <button>ok</button>;",
+          "```",
+        ].join("\n"),
+      ),
+    );
+    expect(html).toContain('<div id="root"></div>');
+    expect(html).toContain('"entries":["__mount__.js"]');
+    expect(html).toContain('import App from \\"./src/App.tsx\\"');
+    expect(html).toContain("\\u003cbutton>");
+  });
+
+  test("versions are compared line by line", () => {
+    expect(diffLines("a\nb\nc", "a\nc\nd")).toEqual([
+      { type: "same", text: "a" },
+      { type: "remove", text: "b" },
+      { type: "same", text: "c" },
+      { type: "add", text: "d" },
+    ]);
+  });
+
+  test("projects are zipped", async () => {
+    const zip = writeZip([
+      { name: "index.html", data: "<h1>Hi</h1>" },
+      { name: "src/app.js", data: "alert(1)" },
+    ]);
+    const entries = readZip(zip.buffer);
+    expect(Array.from(entries.keys())).toEqual(["index.html", "src/app.js"]);
+    expect(await readZipText(entries, "src/app.js")).toBe("alert(1)");
+  });
+});
@@ -0,0 +1,59 @@
+import {
+  canContinue,
+  isTruncatedReply,
+  joinContinuation,
+  recoverInterruptedMessages,
+  supportsPrefill,
+} from "../app/utils/continue";
+import type { ChatMessage } from "../app/store/chat";
+
+describe("continue generation", () => {
+  test("detects replies cut off by the token limit", () => {
+    expect(
+      isTruncatedReply({ choices: [{ delta: {}, finish_reason: "length" }] }),
+    ).toBe(true);
+    expect(
+      isTruncatedReply({
+        type: "message_delta",
+        delta: { stop_reason: "max_tokens" },
+      }),
+    ).toBe(true);
+    expect(
+      isTruncatedReply({ candidates: [{ finishReason: "MAX_TOKENS" }] }),
+    ).toBe(true);
+    expect(isTruncatedReply({ choices: [{ finish_reason: "stop" }] })).toBe(
+      false,
+    );
+    expect(isTruncatedReply({ choices: [{ finish_reason: null }] })).toBe(
+      false,
+    );
+  });
+
+  test("marks stale streaming replies as interrupted", () => {
+    const messages: ChatMessage[] = [
+      { id: "a", role: "user", content: "hi", date: "" },
+      { id: "b", role: "assistant", content: "Hel", date: "", streaming: true },
+    ];
+    expect(recoverInterruptedMessages(messages)).toBe(true);
+    expect(messages[1]).toMatchObject({ streaming: false, interrupted: true });
+    expect(canContinue(messages[1])).toBe(true);
+    expect(canContinue(messages[0])).toBe(false);
+    expect(recoverInterruptedMessages(messages)).toBe(false);
+  });
+
+  test("appends continuations without repeating the reply", () => {
+    expect(joinContinuation("The quick brown", " fox")).toBe(
+      "The quick brown fox",
+    );
+    expect(
+      joinContinuation(
+        "Step 1: install the package",
+        "install the package, then run it",
+      ),
+    ).toBe("Step 1: install the package, then run it");
+    // short overlaps are kept as they are
+    expect(joinContinuation("It is", " is")).toBe("It is is");
+    expect(supportsPrefill("Anthropic")).toBe(true);
+    expect(supportsPrefill("OpenAI")).toBe(false);
+  });
+});
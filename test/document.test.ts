@@ -0,0 +1,152 @@
+/**
+ * @jest-environment node
+ */
+import { deflateRawSync, deflateSync } from "zlib";
+import { withAttachments } from "../app/utils/document";
+import { extractPdfPages, readTextOperators } from "../app/utils/pdf";
+import { readZip, readZipText } from "../app/utils/zip";
+
+function pdf(objects: (string | Buffer)[][]) {
+  const parts: Buffer[] = [Buffer.from("%PDF-1.5\n")];
+  objects.forEach((object, i) => {
+    parts.push(Buffer.from(`${i + 1} 0 obj\n`));
+    object.forEach((part) => parts.push(Buffer.from(part)));
+    parts.push(Buffer.from("\nendobj\n"));
+  });
+  parts.push(Buffer.from("trailer\n<< /Root 1 0 R >>\n%%EOF"));
+  return new Uint8Array(Buffer.concat(parts)).buffer;
+}
+
+function stream(dict: string, data: Buffer) {
+  return [
+    `<< ${dict} /Length ${data.length} >>\nstream\n`,
+    data,
+    "\nendstream",
+  ];
+}
+
+function zip(name: string, text: string) {
+  const data = deflateRawSync(Buffer.from(text));
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(8, 8);
+  local.writeUInt32LE(data.length, 18);
+  local.writeUInt16LE(name.length, 26);
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt32LE(data.length, 20);
+  central.writeUInt16LE(name.length, 28);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(1, 10);
+  end.writeUInt32LE(30 + name.length + data.length, 16);
+  return new Uint8Array(
+    Buffer.concat([
+      local,
+      Buffer.from(name),
+      data,
+      central,
+      Buffer.from(name),
+      end,
+    ]),
+  ).buffer;
+}
+
+describe("document attachments", () => {
+  test("reads pdf pages in page tree order", async () => {
+    const cmap = Buffer.from(
+      "begincmap 1 begincodespacerange <0000> <FFFF> endcodespacerange " +
+        "1 beginbfrange <0041> <007A> <0041> endbfrange endcmap",
+    );
+    const first = deflateSync(
+      "BT /F1 12 Tf 72 700 Td " +
+        "[<00480065006C006C006F> -300 <0077006F0072006C0064>] TJ " +
+        "0 -14 Td <00480069> Tj ET",
+    );
+    const buffer = pdf([
+      ["<< /Type /Catalog /Pages 2 0 R >>"],
+      [
+        "<< /Type /Pages /Kids [4 0 R 3 0 R] /Count 2 " +
+          "/Resources << /Font << /F1 5 0 R >> >> >>",
+      ],
+      ["<< /Type /Page /Parent 2 0 R /Contents 6 0 R >>"],
+      ["<< /Type /Page /Parent 2 0 R /Contents 7 0 R >>"],
+      ["<< /Type /Font /Subtype /Type0 /ToUnicode 8 0 R >>"],
+      stream("", Buffer.from("BT 72 700 Td (Second \\(last\\) page) Tj ET")),
+      stream("/Filter /FlateDecode", first),
+      stream("", cmap),
+    ]);
+
+    expect(await extractPdfPages(buffer)).toEqual([
+      "Hello world\nHi",
+      "Second (last) page",
+    ]);
+  });
+
+  test("cid fonts without a unicode map come out empty", async () => {
+    // japanese text in a cid font, and private use glyphs mapped by a cmap
+    const cmap = Buffer.from(
+      "begincmap 1 begincodespacerange <0000> <FFFF> endcodespacerange " +
+        "1 beginbfrange <0001> <00FF> <E001> endbfrange endcmap",
+    );
+    const buffer = pdf([
+      ["<< /Type /Catalog /Pages 2 0 R >>"],
+      [
+        "<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 " +
+          "/Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> >>",
+      ],
+      ["<< /Type /Page /Parent 2 0 R /Contents 7 0 R >>"],
+      ["<< /Type /Page /Parent 2 0 R /Contents 8 0 R >>"],
+      [
+        "<< /Type /Font /Subtype /Type0 /BaseFont /MS-Mincho " +
+          "/Encoding /Identity-H /DescendantFonts [9 0 R] >>",
+      ],
+      ["<< /Type /Font /Subtype /Type0 /ToUnicode 10 0 R >>"],
+      stream(
+        "",
+        Buffer.from("BT /F1 12 Tf 72 700 Td <30423044304630483048> Tj ET"),
+      ),
+      stream(
+        "",
+        Buffer.from("BT /F2 12 Tf 72 700 Td <00410042004300440045> Tj ET"),
+      ),
+      ["<< /Type /Font /Subtype /CIDFontType0 /BaseFont /MS-Mincho >>"],
+      stream("", cmap),
+    ]);
+
+    expect(await extractPdfPages(buffer)).toEqual(["", ""]);
+  });
+
+  test("breaks lines where the text moves down", () => {
+    expect(
+      readTextOperators(
+        "BT 1 0 0 1 72 700 Tm (Title) Tj ET BT 1 0 0 1 72 680 Tm (Body) Tj " +
+          "(text) ' T* [(A) 120 (B)] TJ ET",
+      ),
+    ).toBe("Title\nBody\ntext\nAB");
+  });
+
+  test("inflates zip entries", async () => {
+    const entries = readZip(zip("word/document.xml", "<w:document/>"));
+    expect(await readZipText(entries, "word/document.xml")).toBe(
+      "<w:document/>",
+    );
+    expect(await readZipText(entries, "missing.xml")).toBe(undefined);
+  });
+
+  test("sends attachments ahead of the typed text", () => {
+    const attachments = [
+      { name: "a.csv", type: "text/csv", size: 4, text: "x,y", tokens: 2 },
+    ];
+    expect(
+      withAttachments({ role: "user", content: "sum it", attachments }),
+    ).toEqual({
+      role: "user",
+      content: '<file name="a.csv">\nx,y\n</file>\n\nsum it',
+      attachments: undefined,
+    });
+    const message = { role: "user", content: "hi" };
+    expect(withAttachments(message)).toBe(message);
+  });
+});
@@ -0,0 +1,55 @@
+import {
+  appendCitations,
+  chunkText,
+  cosineSimilarity,
+  formatKnowledgeSources,
+  localEmbedding,
+} from "../app/utils/knowledge";
+
+describe("knowledge bases", () => {
+  test("chunks overlap and remember their page", () => {
+    const words = Array.from({ length: 60 }, (_, i) => `word${i}`).join(" ");
+    const chunks = chunkText(
+      `--- Page 1 ---\n${words}\n--- Page 2 ---\nlast page`,
+      200,
+      40,
+    );
+    expect(chunks.every((c) => c.text.length <= 200)).toBe(true);
+    expect(chunks[0].location).toBe("Page 1");
+    expect(chunks[chunks.length - 1]).toEqual({
+      text: "last page",
+      location: "Page 2",
+    });
+    // the end of each chunk is repeated at the start of the next
+    const [first, second] = chunks;
+    const lastWord = first.text.split(/\s+/).pop()!;
+    expect(second.text).toContain(lastWord);
+  });
+
+  test("local embeddings rank chunks sharing words first", () => {
+    const query = localEmbedding("how do I reset my password");
+    const related = localEmbedding("To reset a password open the settings");
+    const unrelated = localEmbedding("The weather is sunny in spring");
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(
+      cosineSimilarity(query, unrelated),
+    );
+    expect(
+      cosineSimilarity(localEmbedding("知识库检索"), localEmbedding("检索")),
+    ).toBeGreaterThan(0);
+  });
+
+  test("cited sources become footnotes outside code", () => {
+    const citations = [
+      { name: "guide.pdf", location: "Page 3", excerpt: "reset steps" },
+    ];
+    expect(
+      formatKnowledgeSources([{ citation: citations[0], text: "steps" }]),
+    ).toBe("[1] guide.pdf, Page 3\nsteps");
+    expect(
+      appendCitations("Open settings [1]. `arr[1]` and [2] stay.", citations),
+    ).toBe(
+      "Open settings [^1]. `arr[1]` and [2] stay.\n\n[^1]: guide.pdf, Page 3 — reset steps",
+    );
+    expect(appendCitations("no sources", [])).toBe("no sources");
+  });
+});
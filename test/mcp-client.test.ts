@@ -0,0 +1,210 @@
+/** @jest-environment node */
+import http from "http";
+import vm from "vm";
+import { AddressInfo } from "net";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import {
+  createClient,
+  executeRequest,
+  getPrompt,
+  getReconnectDelay,
+  listPrompts,
+  listResources,
+  listTools,
+  onResourceUpdated,
+  readResource,
+  removeClient,
+  subscribeResource,
+} from "../app/mcp/client";
+import { ServerConfig } from "../app/mcp/types";
+
+// every stand-in server has one echo tool
+function createEchoServer(name: string) {
+  const server = new McpServer({ name, version: "1.0.0" });
+  server.registerTool(
+    "echo",
+    { description: "Echo the text", inputSchema: { text: z.string() } },
+    async ({ text }) => ({ content: [{ type: "text", text }] }),
+  );
+  server.registerResource(
+    "notes",
+    "memo://notes",
+    { mimeType: "text/plain" },
+    async (uri) => ({ contents: [{ uri: uri.href, text: "first note" }] }),
+  );
+  server.registerPrompt(
+    "summarize",
+    { description: "Summarize a topic", argsSchema: { topic: z.string() } },
+    ({ topic }) => ({
+      messages: [
+        { role: "user", content: { type: "text", text: `Summarize ${topic}` } },
+      ],
+    }),
+  );
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async () => ({}));
+  return server;
+}
+
+const STDIO_SERVER = `
+  const { McpServer } = require("@modelcontextprotocol/sdk/server/mcp.js");
+  const { StdioServerTransport } = require("@modelcontextprotocol/sdk/server/stdio.js");
+  const { z } = require("zod");
+  const server = new McpServer({ name: "stdio", version: "1.0.0" });
+  server.registerTool(
+    "echo",
+    { description: "Echo the text", inputSchema: { text: z.string() } },
+    async ({ text }) => ({ content: [{ type: "text", text }] }),
+  );
+  server.connect(new StdioServerTransport());
+`;
+
+const TOKEN = "secret";
+
+describe("mcp client transports", () => {
+  let httpServer: http.Server;
+  let baseUrl: string;
+  const sseTransports = new Map<string, SSEServerTransport>();
+  let sseServer: McpServer | undefined;
+  const mockFetch = global.fetch;
+
+  beforeAll(async () => {
+    // jest.setup.ts mocks fetch, the remote transports need the real one
+    global.fetch = new vm.Script("fetch").runInThisContext();
+
+    httpServer = http.createServer(async (req, res) => {
+      if (req.headers.authorization !== `Bearer ${TOKEN}`) {
+        res.writeHead(401).end();
+        return;
+      }
+      const url = new URL(req.url ?? "", "http://localhost");
+      if (url.pathname === "/sse") {
+        const transport = new SSEServerTransport("/messages", res);
+        sseTransports.set(transport.sessionId, transport);
+        sseServer = createEchoServer("sse");
+        await sseServer.connect(transport);
+      } else if (url.pathname === "/messages") {
+        const transport = sseTransports.get(
+          url.searchParams.get("sessionId") ?? "",
+        );
+        await transport?.handlePostMessage(req, res);
+      } else if (url.pathname === "/mcp") {
+        const transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: undefined,
+        });
+        await createEchoServer("streamable-http").connect(transport);
+        await transport.handleRequest(req, res);
+      } else {
+        res.writeHead(404).end();
+      }
+    });
+    await new Promise<void>((resolve) =>
+      httpServer.listen(0, "127.0.0.1", resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    global.fetch = mockFetch;
+    await Promise.all(
+      Array.from(sseTransports.values()).map((transport) => transport.close()),
+    );
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  const configs: [string, () => ServerConfig][] = [
+    ["stdio", () => ({ command: "node", args: ["-e", STDIO_SERVER] })],
+    [
+      "sse",
+      () => ({
+        type: "sse",
+        url: `${baseUrl}/sse`,
+        auth: { type: "bearer", token: TOKEN },
+      }),
+    ],
+    [
+      "streamable-http",
+      () => ({
+        type: "streamable-http",
+        url: `${baseUrl}/mcp`,
+        headers: { Authorization: `Bearer ${TOKEN}` },
+      }),
+    ],
+  ];
+
+  test.each(configs)(
+    "calls tools over %s",
+    async (name, getConfig) => {
+      const client = await createClient(name, getConfig());
+      try {
+        const { tools } = await listTools(client);
+        expect(tools.map((tool: { name: string }) => tool.name)).toEqual([
+          "echo",
+        ]);
+        const result = await executeRequest(client, {
+          jsonrpc: "2.0",
+          method: "tools/call",
+          params: { name: "echo", arguments: { text: `hello ${name}` } },
+        });
+        expect(result.content).toEqual([
+          { type: "text", text: `hello ${name}` },
+        ]);
+      } finally {
+        await removeClient(client);
+      }
+    },
+    20000,
+  );
+
+  test("reads resources and prompts, and hears of resource updates", async () => {
+    const client = await createClient("sse", configs[1][1]());
+    try {
+      expect(await listResources(client)).toEqual([
+        { uri: "memo://notes", name: "notes", mimeType: "text/plain" },
+      ]);
+      expect(await readResource(client, "memo://notes")).toEqual([
+        { uri: "memo://notes", text: "first note" },
+      ]);
+
+      const updated = new Promise((resolve) =>
+        onResourceUpdated(client, resolve),
+      );
+      expect(await subscribeResource(client, "memo://notes")).toBe(true);
+      await sseServer?.server.sendResourceUpdated({ uri: "memo://notes" });
+      expect(await updated).toBe("memo://notes");
+
+      const [prompt] = await listPrompts(client);
+      expect(prompt.name).toBe("summarize");
+      expect(prompt.arguments).toEqual([{ name: "topic", required: true }]);
+      expect(
+        await getPrompt(client, "summarize", { topic: "the news" }),
+      ).toEqual([
+        {
+          role: "user",
+          content: { type: "text", text: "Summarize the news" },
+        },
+      ]);
+    } finally {
+      await removeClient(client);
+    }
+  }, 20000);
+
+  test("remote servers reject clients without the token", async () => {
+    await expect(
+      createClient("denied", {
+        type: "streamable-http",
+        url: `${baseUrl}/mcp`,
+      }),
+    ).rejects.toThrow();
+  });
+
+  test("reconnects wait twice as long up to 30s", () => {
+    expect([0, 1, 2, 3, 4, 5, 6].map(getReconnectDelay)).toEqual([
+      1000, 2000, 4000, 8000, 16000, 30000, 30000,
+    ]);
+  });
+});
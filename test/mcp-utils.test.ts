@@ -0,0 +1,107 @@
+/** @jest-environment node */
+import {
+  createResourceAttachment,
+  getMcpToolName,
+  getPromptContent,
+  searchMcpPrompts,
+  toMcpFunctionTools,
+} from "../app/mcp/utils";
+
+describe("mcp function tools", () => {
+  test("names are prefixed with the client and sanitized", () => {
+    expect(getMcpToolName("file.system", "read file")).toBe(
+      "file_system__read_file",
+    );
+    expect(getMcpToolName("a", "b".repeat(100))).toHaveLength(64);
+  });
+
+  test("tools of the clients become function tools", () => {
+    const { tools, targets } = toMcpFunctionTools([
+      {
+        clientId: "github",
+        tools: {
+          tools: [
+            { name: "search", description: "Search repositories" },
+            { name: "search" },
+          ],
+        },
+      },
+      // a client that failed to start
+      { clientId: "broken", tools: null },
+    ]);
+    expect(tools).toEqual([
+      {
+        type: "function",
+        function: {
+          name: "github__search",
+          description: "Search repositories",
+          parameters: { type: "object", properties: {} },
+        },
+      },
+    ]);
+    expect(targets).toEqual({
+      github__search: { clientId: "github", name: "search" },
+    });
+  });
+
+  test("only the allowed tools of a client are offered", () => {
+    const clients = [
+      {
+        clientId: "github",
+        tools: { tools: [{ name: "search" }, { name: "push" }] },
+      },
+      { clientId: "fs", tools: { tools: [{ name: "read" }] } },
+    ];
+    const { targets } = toMcpFunctionTools(clients, { github: ["search"] });
+    expect(Object.keys(targets)).toEqual(["github__search", "fs__read"]);
+  });
+
+  test("resources become attachments", () => {
+    const attachment = createResourceAttachment(
+      { uri: "file:///notes.md", name: "notes.md", mimeType: "text/markdown" },
+      [
+        { uri: "file:///notes.md", text: "# Notes" },
+        { uri: "file:///logo.png", mimeType: "image/png", blob: "iVBOR" },
+      ],
+      { clientId: "files", uri: "file:///notes.md", version: 2 },
+    );
+    expect(attachment).toMatchObject({
+      name: "notes.md",
+      type: "text/markdown",
+      text: "# Notes\n\n[image/png: file:///logo.png]",
+      mcp: { clientId: "files", uri: "file:///notes.md", version: 2 },
+    });
+    expect(attachment.tokens).toBeGreaterThan(0);
+  });
+
+  test("prompt messages become input text and resources", () => {
+    const resource = { uri: "memo://a", text: "a" };
+    expect(
+      getPromptContent([
+        { role: "user", content: { type: "text", text: "Review this" } },
+        { role: "user", content: { type: "resource", resource } },
+        { role: "assistant", content: { type: "text", text: "Sure" } },
+      ]),
+    ).toEqual({ text: "Review this\n\nSure", resources: [resource] });
+  });
+
+  test("prompts are searched by name and description", () => {
+    const clients = [
+      {
+        clientId: "git",
+        prompts: [
+          { name: "commit", description: "Write a commit message" },
+          { name: "review" },
+        ],
+      },
+    ];
+    expect(searchMcpPrompts(clients, "MESSAGE")).toEqual([
+      {
+        name: "commit",
+        description: "Write a commit message",
+        clientId: "git",
+      },
+    ]);
+    expect(searchMcpPrompts(clients, "")).toHaveLength(2);
+  });
+});
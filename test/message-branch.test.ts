@@ -0,0 +1,122 @@
+import {
+  addBranches,
+  createBranch,
+  getAllBranchMessages,
+  getBranchInfo,
+  mergeBranches,
+  switchBranch,
+  BranchSession,
+} from "../app/utils/branch";
+import type { ChatMessage } from "../app/store/chat";
+
+function message(id: string, role: "user" | "assistant" = "user"): ChatMessage {
+  return { id, role, content: id, date: "" };
+}
+
+function session(ids: string[]): BranchSession {
+  return {
+    messages: ids.map((id, i) => message(id, i % 2 ? "assistant" : "user")),
+    lastSummarizeIndex: 0,
+    memoryPrompt: "",
+  };
+}
+
+describe("message branches", () => {
+  test("regenerating a reply stashes the old one as a sibling", () => {
+    const s = session(["u1", "a1"]);
+    createBranch(s, 1);
+    expect(s.messages.map((m) => m.id)).toEqual(["u1"]);
+
+    s.messages.push(message("a2", "assistant"));
+    expect(getBranchInfo(s, 1)).toEqual({ index: 1, total: 2 });
+  });
+
+  test("switching branches swaps the message suffix", () => {
+    const s = session(["u1", "a1", "u2", "a2"]);
+    createBranch(s, 1);
+    s.messages.push(message("b1", "assistant"));
+
+    expect(switchBranch(s, 1, -1)).toBe(true);
+    expect(s.messages.map((m) => m.id)).toEqual(["u1", "a1", "u2", "a2"]);
+    expect(getBranchInfo(s, 1)).toEqual({ index: 0, total: 2 });
+
+    expect(switchBranch(s, 1, -1)).toBe(false);
+    expect(switchBranch(s, 1, 1)).toBe(true);
+    expect(s.messages.map((m) => m.id)).toEqual(["u1", "b1"]);
+  });
+
+  test("editing the first message branches from the root", () => {
+    const s = session(["u1", "a1"]);
+    createBranch(s, 0);
+    s.messages.push(message("u2"), message("a2", "assistant"));
+
+    expect(getBranchInfo(s, 0)).toEqual({ index: 1, total: 2 });
+    expect(getBranchInfo(s, 1)).toBeUndefined();
+    expect(
+      getAllBranchMessages(s)
+        .map((m) => m.id)
+        .sort(),
+    ).toEqual(["a1", "a2", "u1", "u2"]);
+  });
+
+  test("memory summarized from a replaced suffix is dropped", () => {
+    const s = session(["u1", "a1", "u2", "a2"]);
+    s.lastSummarizeIndex = 4;
+    s.memoryPrompt = "summary";
+    createBranch(s, 2);
+
+    expect(s.lastSummarizeIndex).toBe(0);
+    expect(s.memoryPrompt).toBe("");
+  });
+
+  test("answers that lost a comparison are kept as siblings", () => {
+    const s = session(["u1", "a1"]);
+    addBranches(s, 1, [
+      [message("b1", "assistant")],
+      [message("c1", "assistant")],
+    ]);
+    expect(getBranchInfo(s, 1)).toEqual({ index: 0, total: 3 });
+
+    expect(switchBranch(s, 1, 2)).toBe(true);
+    expect(s.messages.map((m) => m.id)).toEqual(["u1", "c1"]);
+  });
+
+  test("syncing keeps diverged replies as siblings", () => {
+    // local is u1,b1 with a1 stashed, remote is u1,d1 with a1,c1 stashed
+    const local = session(["u1", "a1"]);
+    createBranch(local, 1);
+    local.messages.push(message("b1", "assistant"));
+    const remote = session(["u1", "a1"]);
+    createBranch(remote, 1);
+    remote.messages.push(message("c1", "assistant"));
+    createBranch(remote, 1);
+    remote.messages.push(message("d1", "assistant"));
+
+    expect(mergeBranches(local, remote)).toBe(true);
+    expect(local.messages.map((m) => m.id)).toEqual(["u1", "b1"]);
+    expect(getBranchInfo(local, 1)).toEqual({ index: 1, total: 4 });
+    expect(switchBranch(local, 1, 2)).toBe(true);
+    expect(local.messages.map((m) => m.id)).toEqual(["u1", "d1"]);
+    expect(mergeBranches(local, remote)).toBe(false);
+  });
+
+  test("syncing continues the thread and keeps nested branches", () => {
+    const local = session(["u1", "a1"]);
+    const remote = session(["u1", "a1", "u2", "a2"]);
+    createBranch(remote, 3);
+    remote.messages.push(message("b2", "assistant"));
+    remote.messages.push(message("u3"));
+
+    mergeBranches(local, remote);
+    expect(local.messages.map((m) => m.id)).toEqual([
+      "u1",
+      "a1",
+      "u2",
+      "b2",
+      "u3",
+    ]);
+    expect(getBranchInfo(local, 3)).toEqual({ index: 1, total: 2 });
+    expect(switchBranch(local, 3, -1)).toBe(true);
+    expect(local.messages.map((m) => m.id)).toEqual(["u1", "a1", "u2", "a2"]);
+  });
+});
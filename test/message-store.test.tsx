@@ -0,0 +1,79 @@
+import { act, render } from "@testing-library/react";
+import type { ChatMessage } from "../app/store/chat";
+import { useMessageStore } from "../app/store/message";
+import { LiveMessage } from "../app/components/live-message";
+
+// the scale of the benchmark, run it with
+// BENCHMARK=1 yarn test:ci test/message-store.test.tsx
+const SESSION_SIZE = 2000;
+const REPLY_TOKENS = 4000;
+
+function message(id: string, content = id): ChatMessage {
+  return { id, role: "assistant", content, date: "" };
+}
+
+/**
+ * render a session of `size` messages through the live messages of the chat
+ * and stream `tokens` chunks into its last reply, counting renders per message
+ */
+function streamReply(size: number, tokens: number) {
+  const renders = new Map<string, number>();
+  const messages = Array.from({ length: size }, (_, i) => message(`m${i}`));
+  const reply = message("reply", "");
+  messages.push(reply);
+
+  const view = render(
+    <div>
+      {messages.map((m) => (
+        <LiveMessage key={m.id} message={m}>
+          {(message) => {
+            renders.set(message.id, (renders.get(message.id) ?? 0) + 1);
+            return <div>{message.content as string}</div>;
+          }}
+        </LiveMessage>
+      ))}
+    </div>,
+  );
+
+  const start = performance.now();
+  for (let i = 0; i < tokens; i++) {
+    reply.content += ` t${i}`;
+    act(() => useMessageStore.getState().updateMessage(reply));
+  }
+  const elapsed = performance.now() - start;
+
+  const total = Array.from(renders.values()).reduce((sum, n) => sum + n, 0);
+  return { view, renders, total, elapsed };
+}
+
+describe("message store", () => {
+  afterEach(() => {
+    // the final state comes from the session again
+    act(() => useMessageStore.getState().removeMessage("reply"));
+  });
+
+  test("streaming a reply re-renders only the reply", () => {
+    const { view, renders, total } = streamReply(200, 100);
+
+    expect(renders.get("reply")).toBe(100 + 1);
+    expect(renders.get("m0")).toBe(1);
+    expect(renders.get("m199")).toBe(1);
+    expect(total).toBe(200 + 100 + 1);
+    view.getByText("t99", { exact: false });
+  });
+
+  // timing depends on the machine, so the benchmark only reports it
+  (process.env.BENCHMARK ? test : test.skip)(
+    "benchmark: streaming into a long session",
+    () => {
+      const { total, elapsed } = streamReply(SESSION_SIZE, REPLY_TOKENS);
+      console.log(
+        `[Benchmark] ${SESSION_SIZE} messages, ${REPLY_TOKENS} chunks: ` +
+          `${total} renders, ${elapsed.toFixed(0)}ms, ` +
+          `${(elapsed / REPLY_TOKENS).toFixed(3)}ms per chunk`,
+      );
+      expect(total).toBe(SESSION_SIZE + REPLY_TOKENS + 1);
+    },
+    10 * 60 * 1000,
+  );
+});
@@ -0,0 +1,72 @@
+/**
+ * @jest-environment node
+ */
+import {
+  concatSamples,
+  encodeWav,
+  getMp3Frames,
+  joinMp3,
+} from "../app/utils/narration";
+
+const text = (bytes: Uint8Array, start: number, length: number) =>
+  new TextDecoder().decode(bytes.subarray(start, start + length));
+
+// an mpeg 2 layer III frame at 24khz and 32kbps is 96 bytes long
+function frame(fill: number) {
+  const bytes = new Uint8Array(96).fill(fill);
+  bytes.set([0xff, 0xf3, 0x44, 0xc4]);
+  return bytes;
+}
+
+describe("narration", () => {
+  test("mp3 segments lose their tags and info frame", () => {
+    const info = frame(0);
+    info.set(new TextEncoder().encode("Info"), 21);
+    const id3 = new Uint8Array([0x49, 0x44, 0x33, 4, 0, 0, 0, 0, 0, 2, 0, 0]);
+    const segment = new Uint8Array([...id3, ...info, ...frame(1), ...frame(2)]);
+    expect(Array.from(getMp3Frames(segment))).toEqual([
+      ...Array.from(frame(1)),
+      ...Array.from(frame(2)),
+    ]);
+  });
+
+  test("joined mp3 has a chapter per turn", () => {
+    const mp3 = joinMp3(
+      [frame(1), frame(2)],
+      [
+        { title: "You: hello", start: 0, end: 500 },
+        { title: "ChatGPT: hi there", start: 500, end: 1200 },
+      ],
+      "Greeting",
+    );
+    expect(text(mp3, 0, 3)).toBe("ID3");
+    const tag = text(mp3, 0, mp3.length - 192);
+    expect(tag).toContain("CTOC");
+    expect(tag).toContain("chp1");
+    expect(tag).toContain("ChatGPT: hi there");
+    expect(Array.from(mp3.subarray(mp3.length - 192))).toEqual([
+      ...Array.from(frame(1)),
+      ...Array.from(frame(2)),
+    ]);
+  });
+
+  test("wav has cue points with labels", () => {
+    const samples = concatSamples([new Float32Array(60), new Float32Array(40)]);
+    const wav = encodeWav(samples, 1000, [
+      { title: "You", start: 0, end: 50 },
+      { title: "ChatGPT", start: 50, end: 100 },
+    ]);
+    const view = new DataView(wav.buffer);
+    expect(text(wav, 0, 4)).toBe("RIFF");
+    expect(view.getUint32(4, true)).toBe(wav.length - 8);
+    expect(text(wav, 8, 4)).toBe("WAVE");
+    // fmt chunk then 200 bytes of data
+    expect(text(wav, 36, 4)).toBe("data");
+    expect(view.getUint32(40, true)).toBe(200);
+    expect(text(wav, 244, 4)).toBe("cue ");
+    expect(view.getUint32(252, true)).toBe(2);
+    // position of the second cue point in samples
+    expect(view.getUint32(252 + 4 + 24 + 4, true)).toBe(50);
+    expect(text(wav, 0, wav.length)).toContain("ChatGPT");
+  });
+});
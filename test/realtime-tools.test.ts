@@ -0,0 +1,46 @@
+import { toRealtimeTools } from "../app/utils/realtime-tools";
+
+describe("realtime tools", () => {
+  test("function tools become flat realtime tools", () => {
+    const { tools, names } = toRealtimeTools([
+      {
+        type: "function",
+        function: {
+          name: "getWeather",
+          description: "Weather of a city",
+          parameters: { type: "object", properties: {} },
+        },
+      },
+      {
+        type: "function",
+        function: { name: "get.forecast", parameters: { type: "object" } },
+      },
+    ]);
+    expect(tools).toEqual([
+      {
+        type: "function",
+        name: "getWeather",
+        description: "Weather of a city",
+        parameters: { type: "object", properties: {} },
+      },
+      {
+        type: "function",
+        name: "get_forecast",
+        description: undefined,
+        parameters: { type: "object" },
+      },
+    ]);
+    expect(names).toEqual({
+      getWeather: "getWeather",
+      get_forecast: "get.forecast",
+    });
+  });
+
+  test("names are kept unique", () => {
+    const tool = {
+      type: "function",
+      function: { name: "search", parameters: {} },
+    };
+    expect(toRealtimeTools([tool, tool]).tools).toHaveLength(1);
+  });
+});
@@ -0,0 +1,46 @@
+import {
+  getAnthropicThinking,
+  getGeminiThinkingConfig,
+  supportsReasoningEffort,
+  supportsThinkingBudget,
+} from "../app/utils/reasoning";
+
+describe("reasoning controls", () => {
+  test("reasoning effort is only sent to models that take it", () => {
+    expect(supportsReasoningEffort("o3-mini")).toBe(true);
+    expect(supportsReasoningEffort("gpt-5")).toBe(true);
+    expect(supportsReasoningEffort("grok-3-mini-beta")).toBe(true);
+    expect(supportsReasoningEffort("gpt-4o")).toBe(false);
+    expect(supportsThinkingBudget("claude-sonnet-4-20250514")).toBe(true);
+    expect(supportsThinkingBudget("gemini-2.5-pro")).toBe(true);
+    expect(supportsThinkingBudget("claude-3-5-sonnet-latest")).toBe(false);
+  });
+
+  test("thinking budget leaves room for the answer", () => {
+    expect(getAnthropicThinking("claude-3-7-sonnet-latest", 0, 4000)).toBe(
+      undefined,
+    );
+    expect(getAnthropicThinking("claude-3-5-haiku", 2048, 4000)).toBe(
+      undefined,
+    );
+    expect(getAnthropicThinking("claude-opus-4-1", 500, 4000)).toEqual({
+      thinking: { type: "enabled", budget_tokens: 1024 },
+      max_tokens: 4000,
+    });
+    expect(getAnthropicThinking("claude-opus-4-1", 8192, 4000)).toEqual({
+      thinking: { type: "enabled", budget_tokens: 8192 },
+      max_tokens: 9216,
+    });
+  });
+
+  test("gemini thoughts are always requested", () => {
+    expect(getGeminiThinkingConfig("gemini-1.5-pro")).toBe(undefined);
+    expect(getGeminiThinkingConfig("gemini-2.5-flash")).toEqual({
+      includeThoughts: true,
+    });
+    expect(getGeminiThinkingConfig("gemini-2.5-flash", 2048)).toEqual({
+      includeThoughts: true,
+      thinkingBudget: 2048,
+    });
+  });
+});
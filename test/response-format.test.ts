@@ -0,0 +1,79 @@
+import {
+  extractJson,
+  toGeminiSchema,
+  validateStructuredOutput,
+} from "../app/utils/response-format";
+
+const schema = JSON.stringify({
+  type: "object",
+  properties: {
+    label: { type: "string", enum: ["spam", "ham"] },
+    score: { type: "number", minimum: 0, maximum: 1 },
+    tags: { type: "array", items: { type: "string" } },
+  },
+  required: ["label", "score"],
+  additionalProperties: false,
+});
+
+describe("structured output", () => {
+  test("accepts replies matching the schema", () => {
+    const format = { type: "json_schema" as const, schema };
+    expect(
+      validateStructuredOutput('{"label":"spam","score":0.9}', format),
+    ).toBe(undefined);
+    expect(
+      validateStructuredOutput(
+        '```json\n{"label":"ham","score":0,"tags":["a"]}\n```',
+        format,
+      ),
+    ).toBe(undefined);
+  });
+
+  test("reports invalid json and schema mismatches", () => {
+    const format = { type: "json_schema" as const, schema };
+    expect(validateStructuredOutput('{"label":', format)).toMatch(
+      /^Invalid JSON/,
+    );
+    expect(
+      validateStructuredOutput('{"label":"eggs","score":2}', format),
+    ).toMatch(/label: .*score: /);
+    expect(
+      validateStructuredOutput('{"label":"ham","score":1,"x":1}', format),
+    ).toMatch(/Unrecognized key/);
+    expect(
+      validateStructuredOutput('{"label":"ham"}', {
+        type: "json_schema",
+        schema: JSON.stringify({ type: "string", pattern: "(" }),
+      }),
+    ).toMatch(/^Invalid schema/);
+  });
+
+  test("json object mode only requires an object", () => {
+    const format = { type: "json_object" as const };
+    expect(validateStructuredOutput('{"any":[1,2]}', format)).toBe(undefined);
+    expect(validateStructuredOutput("[1,2]", format)).toBeDefined();
+    expect(validateStructuredOutput("not json", { type: "text" })).toBe(
+      undefined,
+    );
+    expect(extractJson("  {}  ")).toBe("{}");
+  });
+
+  test("converts schemas for gemini", () => {
+    expect(
+      toGeminiSchema({
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          name: { type: ["string", "null"] },
+          kind: { const: 1 },
+        },
+      }),
+    ).toEqual({
+      type: "object",
+      properties: {
+        name: { type: "string", nullable: true },
+        kind: { type: "string", enum: ["1"] },
+      },
+    });
+  });
+});
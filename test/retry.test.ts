@@ -0,0 +1,35 @@
+import {
+  getRetryDelay,
+  isRetryableStatus,
+  parseFallbackModels,
+  parseRetryAfter,
+} from "../app/utils/retry";
+
+describe("retry", () => {
+  test("retries rate limits and server errors only", () => {
+    expect(isRetryableStatus(429)).toBe(true);
+    expect(isRetryableStatus(503)).toBe(true);
+    expect(isRetryableStatus(408)).toBe(true);
+    expect(isRetryableStatus(400)).toBe(false);
+    expect(isRetryableStatus(401)).toBe(false);
+    expect(isRetryableStatus(undefined)).toBe(false);
+  });
+
+  test("backs off exponentially unless the server asks otherwise", () => {
+    expect(getRetryDelay(1)).toBe(1000);
+    expect(getRetryDelay(3)).toBe(4000);
+    expect(getRetryDelay(10)).toBe(60000);
+    expect(getRetryDelay(1, "7")).toBe(7000);
+
+    const now = Date.parse("2025-01-01T00:00:00Z");
+    expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:30 GMT", now)).toBe(30000);
+    expect(parseRetryAfter("soon", now)).toBe(undefined);
+  });
+
+  test("splits the fallback chain", () => {
+    expect(
+      parseFallbackModels(" gpt-4o@OpenAI, ,claude-3-5-haiku@Anthropic"),
+    ).toEqual(["gpt-4o@OpenAI", "claude-3-5-haiku@Anthropic"]);
+    expect(parseFallbackModels(undefined)).toEqual([]);
+  });
+});
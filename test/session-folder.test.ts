@@ -0,0 +1,74 @@
+import {
+  FiledSession,
+  getChildFolders,
+  getFolderPath,
+  groupSessions,
+  mergeFolders,
+  mergeSessionMeta,
+  parseTags,
+  ROOT_FOLDER,
+} from "../app/utils/folder";
+
+function session(
+  id: string,
+  meta: Partial<FiledSession> = {},
+  model = "gpt-4o",
+): FiledSession & { id: string } {
+  return { id, mask: { modelConfig: { model } }, ...meta };
+}
+
+const folders = [
+  { id: "work", name: "Work", lastUpdate: 1 },
+  { id: "proj", name: "Project", parentId: "work", lastUpdate: 1 },
+  { id: "old", name: "Old", deleted: true, lastUpdate: 2 },
+];
+
+describe("session folders", () => {
+  test("groups pinned and filed sessions", () => {
+    const sessions = [
+      session("a", { pinned: true, folderId: "work" }),
+      session("b", { folderId: "proj", tags: ["x"] }),
+      session("c", { folderId: "old" }),
+      session("d", { tags: ["x"] }, "claude-3-5-haiku"),
+    ];
+    expect(groupSessions(sessions, folders)).toEqual({
+      pinned: [0],
+      folders: { [ROOT_FOLDER]: [2, 3], proj: [1] },
+    });
+    expect(groupSessions(sessions, folders, { tag: "x" }).folders).toEqual({
+      [ROOT_FOLDER]: [3],
+      proj: [1],
+    });
+    expect(
+      groupSessions(sessions, folders, { model: "claude-3-5-haiku" }).folders,
+    ).toEqual({ [ROOT_FOLDER]: [3] });
+  });
+
+  test("builds the folder tree without deleted folders", () => {
+    expect(getChildFolders(folders).map((f) => f.id)).toEqual(["work"]);
+    expect(getChildFolders(folders, "work").map((f) => f.id)).toEqual(["proj"]);
+    expect(getFolderPath(folders, "proj")).toBe("Work / Project");
+    expect(parseTags(" a, b，a ,, ")).toEqual(["a", "b"]);
+  });
+
+  test("keeps the latest folder and session changes when syncing", () => {
+    const merged = mergeFolders(folders, [
+      { id: "work", name: "Work 2", lastUpdate: 3 },
+      { id: "proj", name: "Stale", lastUpdate: 0 },
+      { id: "new", name: "New", lastUpdate: 1 },
+    ]);
+    expect(merged.map((f) => f.name)).toEqual([
+      "Work 2",
+      "Project",
+      "Old",
+      "New",
+    ]);
+
+    const local = session("a", { pinned: true, metaUpdate: 1 });
+    mergeSessionMeta(local, session("a", { folderId: "work", metaUpdate: 2 }));
+    expect(local.pinned).toBe(undefined);
+    expect(local.folderId).toBe("work");
+    mergeSessionMeta(local, session("a", { tags: ["x"], metaUpdate: 1 }));
+    expect(local.tags).toBe(undefined);
+  });
+});
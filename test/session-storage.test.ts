@@ -0,0 +1,91 @@
+import { jest } from "@jest/globals";
+import {
+  bindSessionStorage,
+  flushSessionRecords,
+  getSessionMessageCount,
+  isSessionLoaded,
+  markSessionLoaded,
+  markSessionUnloaded,
+  mergeSessionRecord,
+  readSessionRecords,
+  toSessionIndex,
+} from "../app/utils/session-storage";
+import type { ChatMessage, ChatSession } from "../app/store/chat";
+
+function session(
+  id: string,
+  messages: string[] = [],
+): Pick<ChatSession, "id" | "messages" | "branches" | "messageCount"> {
+  return {
+    id,
+    messages: messages.map(
+      (content): ChatMessage => ({
+        id: content,
+        role: "user",
+        content,
+        date: "",
+      }),
+    ),
+  };
+}
+
+describe("session storage", () => {
+  test("keeps only the message count in the index", () => {
+    const loaded = session("a", ["1", "2"]);
+    expect(toSessionIndex(loaded)).toMatchObject({
+      messages: [],
+      messageCount: 2,
+    });
+    expect(loaded.messages.length).toBe(2);
+
+    const unloaded = { ...session("b"), messageCount: 5 };
+    markSessionUnloaded("b");
+    expect(toSessionIndex(unloaded)).toBe(unloaded);
+    expect(getSessionMessageCount(unloaded)).toBe(5);
+    markSessionLoaded("b");
+    expect(getSessionMessageCount(unloaded)).toBe(0);
+  });
+
+  test("writes the records of changed sessions", async () => {
+    jest.useFakeTimers();
+    let state = {
+      _hasHydrated: true,
+      sessions: [session("c"), session("d", ["1"])],
+    };
+    let listener = (s: typeof state) => {};
+    bindSessionStorage(
+      () => state,
+      (l) => ((listener = l), () => {}),
+    );
+    // an empty session from the index waits to be loaded
+    expect(isSessionLoaded("c")).toBe(false);
+    markSessionLoaded("c");
+
+    state = {
+      ...state,
+      sessions: [session("c", ["2", "3"]), state.sessions[1]],
+    };
+    listener(state);
+    await flushSessionRecords();
+    jest.useRealTimers();
+
+    const [c, d] = await readSessionRecords(["c", "d"]);
+    expect(c?.messages.map((m) => m.content)).toEqual(["2", "3"]);
+    expect(d?.messages.map((m) => m.content)).toEqual(["1"]);
+  });
+
+  test("messages sent while the record is read follow it", () => {
+    // the record of "e" is read while a message is sent to the session
+    const record = session("e", ["1", "2"]);
+    const sent = session("e", ["3"]);
+    expect(
+      mergeSessionRecord(record, sent).messages.map((m) => m.content),
+    ).toEqual(["1", "2", "3"]);
+    // a message that made it into the record is not added twice
+    expect(
+      mergeSessionRecord(record, session("e", ["2", "3"])).messages.map(
+        (m) => m.content,
+      ),
+    ).toEqual(["1", "2", "3"]);
+  });
+});
@@ -0,0 +1,39 @@
+import { takeSentences } from "../app/utils/speech";
+
+describe("sentence streaming", () => {
+  test("complete sentences are taken, the rest waits", () => {
+    const text = "The answer is 3.14 exactly. Files like index.ts stay whole";
+    expect(takeSentences(text)).toEqual({
+      sentences: ["The answer is 3.14 exactly."],
+      consumed: "The answer is 3.14 exactly.".length,
+    });
+    expect(takeSentences(text, true).sentences).toEqual([
+      "The answer is 3.14 exactly.",
+      "Files like index.ts stay whole",
+    ]);
+  });
+
+  test("cjk sentences end without a space", () => {
+    expect(
+      takeSentences("今天天气很好，适合出门散步。你想去哪里玩呢？我们")
+        .sentences,
+    ).toEqual(["今天天气很好，适合出门散步。", "你想去哪里玩呢？"]);
+  });
+
+  test("short sentences are joined with the next", () => {
+    expect(
+      takeSentences("Sure! Here is the plan for today. ").sentences,
+    ).toEqual(["Sure! Here is the plan for today."]);
+  });
+
+  test("code blocks are not read", () => {
+    const open = "Run this command now:\n```sh\nnpm install\n";
+    expect(takeSentences(open)).toEqual({
+      sentences: ["Run this command now:"],
+      consumed: open.indexOf("```"),
+    });
+    expect(
+      takeSentences(open + "```\nThen start the server.", true).sentences,
+    ).toEqual(["Run this command now:", "Then start the server."]);
+  });
+});
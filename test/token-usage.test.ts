@@ -0,0 +1,87 @@
+import {
+  addUsage,
+  getUsage,
+  getUsageCost,
+  mergeUsage,
+  parseUsage,
+} from "../app/utils/usage";
+
+describe("token usage", () => {
+  test("reads openai compatible usage", () => {
+    expect(
+      getUsage({
+        usage: {
+          prompt_tokens: 100,
+          completion_tokens: 50,
+          prompt_tokens_details: { cached_tokens: 20 },
+          completion_tokens_details: { reasoning_tokens: 10 },
+        },
+      }),
+    ).toEqual({
+      prompt_tokens: 100,
+      completion_tokens: 50,
+      cached_tokens: 20,
+      reasoning_tokens: 10,
+    });
+  });
+
+  test("merges anthropic stream events", () => {
+    let usage = mergeUsage(
+      undefined,
+      parseUsage({
+        type: "message_start",
+        message: {
+          usage: {
+            input_tokens: 10,
+            cache_read_input_tokens: 90,
+            output_tokens: 1,
+          },
+        },
+      }),
+    );
+    usage = mergeUsage(
+      usage,
+      parseUsage({ type: "message_delta", usage: { output_tokens: 42 } }),
+    );
+    expect(usage).toEqual({
+      prompt_tokens: 100,
+      completion_tokens: 42,
+      cached_tokens: 90,
+    });
+  });
+
+  test("counts gemini thoughts as completion tokens", () => {
+    expect(
+      getUsage({
+        usageMetadata: {
+          promptTokenCount: 8,
+          candidatesTokenCount: 5,
+          thoughtsTokenCount: 3,
+        },
+      }),
+    ).toEqual({ prompt_tokens: 8, completion_tokens: 8, reasoning_tokens: 3 });
+  });
+
+  test("ignores chunks without usage", () => {
+    expect(parseUsage({ choices: [{ delta: { content: "hi" } }] })).toBe(
+      undefined,
+    );
+    expect(getUsage({ usage: { prompt_tokens: -1 } })).toBe(undefined);
+  });
+
+  test("sums usage and estimates cost by model prefix", () => {
+    const usage = addUsage(
+      { prompt_tokens: 500_000, completion_tokens: 0 },
+      { prompt_tokens: 500_000, completion_tokens: 1_000_000 },
+    );
+    expect(getUsageCost("gpt-4o-mini-2024-07-18", usage)).toBeCloseTo(0.75);
+    expect(getUsageCost("gpt-4o", usage)).toBeCloseTo(12.5);
+    expect(
+      getUsageCost("anthropic.claude-3-5-sonnet-20241022-v2:0", usage),
+    ).toBeCloseTo(18);
+    expect(getUsageCost("unknown-model", usage)).toBe(undefined);
+    // newer families are not priced as the model they start with
+    expect(getUsageCost("gpt-4.1", usage)).toBe(undefined);
+    expect(getUsageCost("gpt-4-0613", usage)).toBeCloseTo(90);
+  });
+});
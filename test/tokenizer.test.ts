@@ -0,0 +1,66 @@
+/**
+ * @jest-environment node
+ */
+import { getModelContextWindow } from "../app/constant";
+import {
+  countMessageTokens,
+  getPromptTokenBudget,
+  getTokenizer,
+  getTokenizerFamily,
+} from "../app/utils/token";
+
+describe("tokenizer", () => {
+  test("picks a tokenizer family by model name", () => {
+    expect(getTokenizerFamily("gpt-4o-mini")).toBe("o200k_base");
+    expect(getTokenizerFamily("o3-mini")).toBe("o200k_base");
+    expect(getTokenizerFamily("gpt-4-turbo")).toBe("cl100k_base");
+    expect(getTokenizerFamily("anthropic.claude-3-haiku-20240307-v1:0")).toBe(
+      "claude",
+    );
+    expect(getTokenizerFamily("gemini-2.0-flash")).toBe("gemini");
+    expect(getTokenizerFamily("Qwen/Qwen2.5-7B-Instruct")).toBe("qwen");
+    expect(getTokenizerFamily("ernie-4.0-8k")).toBe("default");
+  });
+
+  test("counts openai tokens with bpe tables", async () => {
+    const o200k = await getTokenizer("gpt-4o");
+    expect(o200k.name).toBe("o200k_base");
+    expect(o200k.count("hello world")).toBe(2);
+
+    const cl100k = await getTokenizer("gpt-4");
+    expect(cl100k.count("hello world")).toBe(2);
+    // special tokens in content are plain text
+    expect(cl100k.count("<|endoftext|>")).toBeGreaterThan(1);
+  });
+
+  test("approximates cjk text per character", async () => {
+    const claude = await getTokenizer("claude-3-5-sonnet-latest");
+    const qwen = await getTokenizer("qwen-max");
+    const text = "今天天气很好，我们去公园散步吧";
+    expect(claude.count(text)).toBeGreaterThan(qwen.count(text));
+    expect(qwen.count(text)).toBeGreaterThan(text.length / 2);
+  });
+
+  test("counts images and message overhead", async () => {
+    const tokenizer = await getTokenizer("gpt-4o");
+    expect(
+      countMessageTokens(tokenizer, {
+        content: [
+          { type: "text", text: "hello world" },
+          { type: "image_url", image_url: { url: "data:" } },
+        ],
+      }),
+    ).toBe(4 + 2 + 765);
+  });
+
+  test("reserves room for the completion in the context window", () => {
+    expect(getModelContextWindow("gpt-4o-2024-11-20")).toBe(128000);
+    expect(getModelContextWindow("anthropic.claude-3-opus-20240229-v1:0")).toBe(
+      200000,
+    );
+    expect(getModelContextWindow("Doubao-pro-32k")).toBe(32768);
+    expect(getPromptTokenBudget(128000, 4000)).toBe(124000);
+    expect(getPromptTokenBudget(8192, 8000)).toBe(192);
+    expect(getPromptTokenBudget(4096, 8000)).toBe(0);
+  });
+});
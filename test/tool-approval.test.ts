@@ -0,0 +1,39 @@
+import {
+  decideTool,
+  getToolPolicy,
+  isToolPending,
+  waitForToolDecision,
+} from "../app/utils/tool-approval";
+
+describe("tool approval", () => {
+  test("tools ask unless a policy is set", () => {
+    const policies = { search: "allow" as const, push: "deny" as const };
+    expect(getToolPolicy("read", policies)).toBe("ask");
+    expect(getToolPolicy("search", policies)).toBe("allow");
+    expect(getToolPolicy("read", policies, ["read"])).toBe("allow");
+    // approving in a session does not override a denial
+    expect(getToolPolicy("push", policies, ["push"])).toBe("deny");
+  });
+
+  test("a waiting call resolves with the decision", async () => {
+    const decision = waitForToolDecision("call_1");
+    expect(isToolPending("call_1")).toBe(true);
+    expect(
+      decideTool("call_1", { approved: true, arguments: '{"q":"x"}' }),
+    ).toBe(true);
+    await expect(decision).resolves.toEqual({
+      approved: true,
+      arguments: '{"q":"x"}',
+    });
+    expect(isToolPending("call_1")).toBe(false);
+    expect(decideTool("call_1", { approved: false })).toBe(false);
+  });
+
+  test("stopping the reply denies the waiting call", async () => {
+    const controller = new AbortController();
+    const decision = waitForToolDecision("call_2", controller.signal);
+    controller.abort();
+    await expect(decision).resolves.toEqual({ approved: false });
+    expect(isToolPending("call_2")).toBe(false);
+  });
+});